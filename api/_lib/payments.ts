@@ -0,0 +1,138 @@
+/**
+ * Payment providers (hosted checkout)
+ * - Purpose: The seam between checkout and whoever takes the payment. A provider hosts the payment page (card data
+ *   never touches this app) and reports the outcome to api/payments/webhook as a signed event.
+ * - Env: PAYMENT_PROVIDER (no default; "fake" must be set explicitly), PAYMENT_WEBHOOK_SECRET (event signing key,
+ *   required: without it no provider starts).
+ * - The fake provider serves its own checkout page (api/payments/fake-checkout) and is never used in production.
+ */
+
+/** What the provider needs to host a checkout */
+export interface CheckoutRequest {
+  /** checkout_sessions.id (echoed back in webhook events) */
+  checkoutId: string;
+  planName: string;
+  amountCents: number;
+  currency: string;
+  customerEmail: string | null;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+/** Checkout created at the provider */
+export interface HostedCheckout {
+  providerSessionId: string;
+  /** Provider page to send the member to */
+  url: string;
+}
+
+/** Verified webhook event */
+export type PaymentEvent =
+  | {
+      type: 'checkout.completed';
+      checkoutId: string;
+      providerSessionId: string;
+      providerPaymentId: string;
+      amountCents: number;
+      currency: string;
+    }
+  | { type: 'checkout.failed' | 'checkout.expired'; checkoutId: string; providerSessionId: string };
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(request: CheckoutRequest): Promise<HostedCheckout>;
+  /** The event in a webhook request, or null when its signature does not verify */
+  parseWebhook(request: Request): Promise<PaymentEvent | null>;
+}
+
+/** Webhook signature header used by the fake provider */
+export const FAKE_SIGNATURE_HEADER = 'x-fake-payments-signature';
+
+/**
+ * Hex HMAC-SHA256 of a payload (Web Crypto, available in the Node 20 runtime).
+ */
+export async function signPayload(secret: string, payload: string): Promise<string> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const mac = await crypto.subtle.sign('HMAC', key, enc.encode(payload));
+  return Array.from(new Uint8Array(mac), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Compare signatures without an early exit */
+function sameSignature(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+function isPaymentEvent(value: unknown): value is PaymentEvent {
+  const e = value as Partial<Record<string, unknown>> | null;
+  if (!e || typeof e.checkoutId !== 'string' || typeof e.providerSessionId !== 'string') return false;
+  if (e.type === 'checkout.failed' || e.type === 'checkout.expired') return true;
+  return (
+    e.type === 'checkout.completed' &&
+    typeof e.providerPaymentId === 'string' &&
+    typeof e.amountCents === 'number' &&
+    typeof e.currency === 'string'
+  );
+}
+
+/**
+ * Local provider for development and tests: "hosts" checkout at api/payments/fake-checkout, whose Pay / Decline
+ * buttons post signed events to the webhook exactly as a real provider would.
+ */
+export function createFakeProvider(options: { secret: string; checkoutPageUrl: string }): PaymentProvider {
+  return {
+    name: 'fake',
+
+    async createCheckout(request) {
+      const url = new URL(options.checkoutPageUrl);
+      url.searchParams.set('session', request.checkoutId);
+      return { providerSessionId: `fake_cs_${crypto.randomUUID()}`, url: url.toString() };
+    },
+
+    async parseWebhook(request) {
+      const payload = await request.text();
+      const signature = request.headers.get(FAKE_SIGNATURE_HEADER) || '';
+      if (!sameSignature(signature, await signPayload(options.secret, payload))) return null;
+      try {
+        const event = JSON.parse(payload) as unknown;
+        return isPaymentEvent(event) ? event : null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/** Whether this deployment is production (fake payments are refused there) */
+function isProduction(): boolean {
+  return process.env.VERCEL_ENV === 'production';
+}
+
+/** Webhook signing secret for the active provider ('' when unset) */
+export function webhookSecret(): string {
+  return process.env.PAYMENT_WEBHOOK_SECRET || '';
+}
+
+/**
+ * The configured provider, or null when checkout is not available on this deployment.
+ * - Nothing is enabled by default: PAYMENT_PROVIDER must name a provider and PAYMENT_WEBHOOK_SECRET must be set.
+ * @param request Any request to this deployment (locates the fake checkout page)
+ */
+export function getPaymentProvider(request: Request): PaymentProvider | null {
+  const name = process.env.PAYMENT_PROVIDER || '';
+  if (!name) return null;
+  const secret = webhookSecret();
+  if (!secret) {
+    console.error(`PAYMENT_PROVIDER is "${name}" but PAYMENT_WEBHOOK_SECRET is not set; checkout is disabled.`);
+    return null;
+  }
+  if (name === 'fake' && !isProduction()) {
+    return createFakeProvider({ secret, checkoutPageUrl: new URL('/api/payments/fake-checkout', request.url).toString() });
+  }
+  return null;
+}
@@ -0,0 +1,81 @@
+/**
+ * Shared helpers for the Vercel functions (not a route: "_" folders are not served)
+ * - Purpose: JSON responses, the signed-in caller, service-role PostgREST calls and app redirect checks.
+ * - Env: SUPABASE_URL, SUPABASE_SERVICE_KEY (service role; never sent to the browser), APP_URL (optional; allowed
+ *   redirect origin, defaults to the request's Origin).
+ */
+
+export interface ServiceConfig {
+  baseUrl: string;
+  serviceKey: string;
+}
+
+export interface Caller {
+  id: string;
+  email: string | null;
+}
+
+export function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/** Supabase project URL and service key, or null when not configured */
+export function serviceConfig(): ServiceConfig | null {
+  const baseUrl = (process.env.SUPABASE_URL || '').replace(/\/+$/, '');
+  const serviceKey = process.env.SUPABASE_SERVICE_KEY || '';
+  return baseUrl && serviceKey ? { baseUrl, serviceKey } : null;
+}
+
+/** Headers for service-role requests (bypass RLS) */
+export function serviceHeaders(config: ServiceConfig): Record<string, string> {
+  return { apikey: config.serviceKey, Authorization: `Bearer ${config.serviceKey}`, 'Content-Type': 'application/json' };
+}
+
+/**
+ * The user behind the request's bearer token (Authorization: Bearer <access token>), or null.
+ */
+export async function getCaller(config: ServiceConfig, request: Request): Promise<Caller | null> {
+  const token = (request.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  const res = await fetch(`${config.baseUrl}/auth/v1/user`, {
+    headers: { apikey: config.serviceKey, Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) return null;
+  const user = (await res.json()) as { id: string; email?: string | null };
+  return { id: user.id, email: user.email ?? null };
+}
+
+/**
+ * Service-role PostgREST request (/rest/v1).
+ * - Throws Error(body text) on non-2xx responses; returns undefined for 204.
+ */
+export async function serviceRest<T>(config: ServiceConfig, endpoint: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(`${config.baseUrl}/rest/v1${endpoint}`, {
+    ...init,
+    headers: { ...serviceHeaders(config), ...(init.headers || {}) },
+  });
+  if (!res.ok) throw new Error(await res.text());
+  if (res.status === 204) return undefined as T;
+  const text = await res.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+/** Origin the app may redirect to (APP_URL, else the request's Origin) */
+export function allowedAppOrigin(request: Request): string {
+  return process.env.APP_URL || request.headers.get('origin') || '';
+}
+
+/**
+ * Link to an app route on the app's own origin (no open redirects through our emails or checkout), or undefined.
+ * @param appUrl The app's base URL as sent by the browser
+ */
+export function appRedirect(appUrl: unknown, allowedOrigin: string, route: string): string | undefined {
+  if (typeof appUrl !== 'string' || !allowedOrigin) return undefined;
+  try {
+    const url = new URL(appUrl);
+    if (url.origin !== new URL(allowedOrigin).origin) return undefined;
+    return `${url.origin}${url.pathname}#${route}`;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * POST /api/checkout/session — start a hosted checkout for a plan
+ * - Purpose: Price the plan server-side, record a pending checkout_sessions row and return the payment provider's
+ *   checkout page. The subscription is only activated by api/payments/webhook once the provider confirms payment.
+ * - Body: { planCode, appUrl, replacesSubscriptionId? } (appUrl = the app's base URL; the provider returns the member
+ *   to #/enroll). replacesSubscriptionId changes plan: that subscription ends when the new one starts.
+ * - The caller's JWT (Authorization: Bearer) is required. Team members buy for their organization, so only team
+ *   owners may check out while on a team.
+ * - Env: see _lib/supabaseAdmin and _lib/payments.
+ */
+
+import {
+  allowedAppOrigin,
+  appRedirect,
+  getCaller,
+  json,
+  serviceConfig,
+  serviceRest,
+} from '../_lib/supabaseAdmin';
+import { getPaymentProvider, type HostedCheckout } from '../_lib/payments';
+
+interface PlanRow {
+  code: string;
+  name: string;
+  price_cents: number | null;
+  currency: string;
+}
+
+interface MembershipRow {
+  organization_id: string;
+  role: string;
+}
+
+interface SubscriptionRow {
+  id: string;
+  user_id: string | null;
+  organization_id: string | null;
+  plan_code: string | null;
+  status: string;
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const config = serviceConfig();
+  const provider = getPaymentProvider(request);
+  if (!config || !provider) return json(503, { error: 'Online checkout is not available right now.' });
+
+  const caller = await getCaller(config, request);
+  if (!caller) return json(401, { error: 'Sign in to check out.' });
+
+  const body = (await request.json().catch(() => null)) as {
+    planCode?: unknown;
+    appUrl?: unknown;
+    replacesSubscriptionId?: unknown;
+  } | null;
+  const planCode = typeof body?.planCode === 'string' ? body.planCode : '';
+  const replacesId = typeof body?.replacesSubscriptionId === 'string' ? body.replacesSubscriptionId : null;
+  if (!planCode) return json(400, { error: 'Missing planCode.' });
+
+  const [plan] = await serviceRest<PlanRow[]>(
+    config,
+    `/plans?code=eq.${encodeURIComponent(planCode)}&active=eq.true&select=code,name,price_cents,currency`
+  );
+  if (!plan || plan.price_cents == null) return json(404, { error: 'That plan is not available for purchase.' });
+
+  const [membership] = await serviceRest<MembershipRow[]>(
+    config,
+    `/organization_members?user_id=eq.${encodeURIComponent(caller.id)}&select=organization_id,role`
+  );
+  if (membership && membership.role !== 'owner') {
+    return json(403, { error: 'Your team owner manages the plan. Ask them to make this change.' });
+  }
+  const organizationId = membership?.organization_id ?? null;
+
+  if (replacesId) {
+    const [current] = await serviceRest<SubscriptionRow[]>(
+      config,
+      `/subscriptions?id=eq.${encodeURIComponent(replacesId)}&select=id,user_id,organization_id,plan_code,status`
+    );
+    const owned =
+      current &&
+      (organizationId ? current.organization_id === organizationId : current.user_id === caller.id && !current.organization_id);
+    if (!owned || current.status !== 'active') return json(404, { error: 'Subscription not found.' });
+    if (current.plan_code === plan.code) return json(400, { error: 'You are already on this plan.' });
+  }
+
+  const checkoutId = crypto.randomUUID();
+  const origin = allowedAppOrigin(request);
+  const successUrl = appRedirect(body?.appUrl, origin, `/enroll?checkout=success&id=${checkoutId}`);
+  const cancelUrl = appRedirect(body?.appUrl, origin, `/enroll?checkout=cancelled&plan=${encodeURIComponent(plan.code)}`);
+  if (!successUrl || !cancelUrl) return json(400, { error: 'Invalid return address.' });
+
+  await serviceRest(config, '/checkout_sessions', {
+    method: 'POST',
+    body: JSON.stringify({
+      id: checkoutId,
+      user_id: caller.id,
+      organization_id: organizationId,
+      replaces_subscription_id: replacesId,
+      plan_code: plan.code,
+      amount_cents: plan.price_cents,
+      currency: plan.currency,
+      provider: provider.name,
+      success_url: successUrl,
+      cancel_url: cancelUrl,
+    }),
+  });
+
+  let hosted: HostedCheckout;
+  try {
+    hosted = await provider.createCheckout({
+      checkoutId,
+      planName: plan.name,
+      amountCents: plan.price_cents,
+      currency: plan.currency,
+      customerEmail: caller.email,
+      successUrl,
+      cancelUrl,
+    });
+  } catch {
+    await serviceRest(config, `/checkout_sessions?id=eq.${checkoutId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'failed' }),
+    }).catch(() => undefined);
+    return json(502, { error: 'The payment provider could not start checkout. Try again shortly.' });
+  }
+
+  await serviceRest(config, `/checkout_sessions?id=eq.${checkoutId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ provider_session_id: hosted.providerSessionId }),
+  });
+
+  return json(200, { id: checkoutId, url: hosted.url });
+}
@@ -0,0 +1,116 @@
+/**
+ * GET/POST /api/payments/fake-checkout — hosted checkout page of the fake payment provider
+ * - Purpose: Stand-in for a real provider's payment page in development and tests (never in production).
+ *   No card details are asked for: Pay posts a signed checkout.completed event to api/payments/webhook,
+ *   Decline posts checkout.failed, Cancel returns to the app without an event (like closing a real checkout).
+ * - GET ?session=<checkout id> renders the page; its buttons POST back here.
+ */
+
+import { json, serviceConfig, serviceRest } from '../_lib/supabaseAdmin';
+import { FAKE_SIGNATURE_HEADER, getPaymentProvider, signPayload, webhookSecret, type PaymentEvent } from '../_lib/payments';
+
+interface CheckoutRow {
+  id: string;
+  provider: string;
+  provider_session_id: string | null;
+  status: string;
+  amount_cents: number;
+  currency: string;
+  success_url: string;
+  cancel_url: string;
+  plans: { name: string } | null;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function html(status: number, body: string): Response {
+  return new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">` +
+      `<title>Test checkout</title></head>` +
+      `<body style="font-family:system-ui,sans-serif;max-width:420px;margin:48px auto;padding:0 16px;color:#0f172a">` +
+      `${body}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
+
+function redirect(url: string): Response {
+  return new Response(null, { status: 303, headers: { Location: url } });
+}
+
+/** The fake provider's pending checkout, or an error response */
+async function loadCheckout(request: Request, id: string | null): Promise<CheckoutRow | Response> {
+  const config = serviceConfig();
+  const provider = getPaymentProvider(request);
+  if (!config || provider?.name !== 'fake') return json(404, { error: 'Not found.' });
+  if (!id) return html(400, '<p>Missing checkout session.</p>');
+
+  const [checkout] = await serviceRest<CheckoutRow[]>(
+    config,
+    `/checkout_sessions?id=eq.${encodeURIComponent(id)}&provider=eq.fake&select=*,plans(name)`
+  );
+  if (!checkout || !checkout.provider_session_id) return html(404, '<p>Checkout session not found.</p>');
+  return checkout;
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const checkout = await loadCheckout(request, new URL(request.url).searchParams.get('session'));
+  if (checkout instanceof Response) return checkout;
+  if (checkout.status !== 'pending') return redirect(checkout.success_url);
+
+  const amount = new Intl.NumberFormat('en-US', { style: 'currency', currency: checkout.currency.toUpperCase() }).format(
+    checkout.amount_cents / 100
+  );
+  const button = (action: string, label: string, style: string) =>
+    `<button name="action" value="${action}" style="padding:10px 16px;border-radius:6px;border:1px solid #cbd5e1;` +
+    `font-size:15px;cursor:pointer;${style}">${label}</button>`;
+
+  return html(
+    200,
+    `<p style="font-size:12px;text-transform:uppercase;letter-spacing:.08em;color:#b45309">Test mode — no real charge</p>` +
+      `<h1 style="font-size:22px">${escapeHtml(checkout.plans?.name || checkout.id)}</h1>` +
+      `<p style="font-size:28px;font-weight:700">${escapeHtml(amount)}</p>` +
+      `<form method="post" style="display:flex;gap:8px;flex-wrap:wrap">` +
+      `<input type="hidden" name="session" value="${escapeHtml(checkout.id)}">` +
+      button('pay', 'Pay', 'background:#2563eb;color:#fff;border-color:#2563eb') +
+      button('decline', 'Decline card', 'background:#fff') +
+      button('cancel', 'Cancel', 'background:#fff') +
+      `</form>`
+  );
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const form = await request.formData().catch(() => null);
+  const session = form?.get('session');
+  const checkout = await loadCheckout(request, typeof session === 'string' ? session : null);
+  if (checkout instanceof Response) return checkout;
+
+  const action = form?.get('action');
+  if (action === 'cancel') return redirect(checkout.cancel_url);
+  if (checkout.status !== 'pending') return redirect(checkout.success_url);
+
+  const event: PaymentEvent =
+    action === 'pay'
+      ? {
+          type: 'checkout.completed',
+          checkoutId: checkout.id,
+          providerSessionId: checkout.provider_session_id as string,
+          providerPaymentId: `fake_pi_${crypto.randomUUID()}`,
+          amountCents: checkout.amount_cents,
+          currency: checkout.currency,
+        }
+      : { type: 'checkout.failed', checkoutId: checkout.id, providerSessionId: checkout.provider_session_id as string };
+
+  // Deliver the event the way a provider would: signed, to the public webhook URL
+  const payload = JSON.stringify(event);
+  const delivered = await fetch(new URL('/api/payments/webhook', request.url), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [FAKE_SIGNATURE_HEADER]: await signPayload(webhookSecret(), payload) },
+    body: payload,
+  });
+  if (!delivered.ok) return html(502, '<p>The webhook rejected the test payment. Check the function logs.</p>');
+
+  // The app's return page reads the outcome (completed or failed) from checkout_sessions
+  return redirect(checkout.success_url);
+}
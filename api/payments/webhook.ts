@@ -0,0 +1,60 @@
+/**
+ * POST /api/payments/webhook — payment provider events
+ * - Purpose: Activate the subscription when the provider confirms a checkout (rpc/complete_checkout, which extends
+ *   the owner's current plan or adds a new subscription), and close checkouts that failed or expired.
+ * - Events are verified by the provider's signature and matched against checkout_sessions (provider and provider
+ *   session id). Completion is idempotent, so provider retries are safe; errors return 5xx so the provider retries.
+ * - Env: see _lib/supabaseAdmin and _lib/payments.
+ */
+
+import { json, serviceConfig, serviceRest } from '../_lib/supabaseAdmin';
+import { getPaymentProvider } from '../_lib/payments';
+
+interface CheckoutRow {
+  id: string;
+  provider: string;
+  provider_session_id: string | null;
+  status: string;
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const config = serviceConfig();
+  const provider = getPaymentProvider(request);
+  if (!config || !provider) return json(503, { error: 'Payments are not configured.' });
+
+  const event = await provider.parseWebhook(request);
+  if (!event) return json(400, { error: 'Invalid signature or payload.' });
+
+  const [checkout] = await serviceRest<CheckoutRow[]>(
+    config,
+    `/checkout_sessions?id=eq.${encodeURIComponent(event.checkoutId)}&select=id,provider,provider_session_id,status`
+  );
+  if (!checkout || checkout.provider !== provider.name || checkout.provider_session_id !== event.providerSessionId) {
+    return json(404, { error: 'Unknown checkout.' });
+  }
+
+  if (event.type === 'checkout.completed') {
+    try {
+      const subscriptionId = await serviceRest<string>(config, '/rpc/complete_checkout', {
+        method: 'POST',
+        body: JSON.stringify({
+          p_checkout_id: checkout.id,
+          p_provider_payment_id: event.providerPaymentId,
+          p_amount_cents: event.amountCents,
+        }),
+      });
+      return json(200, { received: true, subscriptionId });
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error('complete_checkout failed', checkout.id, e);
+      return json(500, { error: 'Could not activate the subscription.' });
+    }
+  }
+
+  // Failed / expired: only pending checkouts change (a late event never undoes a completed one)
+  await serviceRest(config, `/checkout_sessions?id=eq.${encodeURIComponent(checkout.id)}&status=eq.pending`, {
+    method: 'PATCH',
+    body: JSON.stringify({ status: event.type === 'checkout.failed' ? 'failed' : 'expired' }),
+  });
+  return json(200, { received: true });
+}
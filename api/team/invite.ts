@@ -0,0 +1,81 @@
+/**
+ * POST /api/team/invite — email a pending team invite
+ * - Purpose: Send the invite email for an organization_invites row created by rpc/invite_organization_member.
+ *   New addresses get a Supabase sign-up invite (landing on #/reset-password to choose a password); existing
+ *   accounts get a sign-in link (landing on #/dashboard). Either way the invite is accepted on sign-in
+ *   (rpc/accept_organization_invites).
+ * - Body: { inviteId, appUrl? } (appUrl = the app's base URL for the email links).
+ * - The caller's JWT (Authorization: Bearer) must belong to an owner of the invite's organization.
+ * - Env: SUPABASE_URL, SUPABASE_SERVICE_KEY, APP_URL (see _lib/supabaseAdmin).
+ */
+
+import { allowedAppOrigin, appRedirect, getCaller, json, serviceConfig, serviceHeaders } from '../_lib/supabaseAdmin';
+
+interface InviteRow {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: string;
+  accepted_at: string | null;
+  expires_at: string;
+  organizations: { name: string } | null;
+}
+
+/** redirect_to query string for GoTrue */
+function redirectQuery(target: string | undefined): string {
+  return target ? `?redirect_to=${encodeURIComponent(target)}` : '';
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const config = serviceConfig();
+  if (!config) return json(500, { error: 'Invite email is not configured.' });
+  const { baseUrl } = config;
+
+  const body = (await request.json().catch(() => null)) as { inviteId?: unknown; appUrl?: unknown } | null;
+  const inviteId = typeof body?.inviteId === 'string' ? body.inviteId : '';
+  if (!inviteId) return json(400, { error: 'Missing inviteId.' });
+
+  const service = serviceHeaders(config);
+
+  // Who is asking
+  const caller = await getCaller(config, request);
+  if (!caller) return json(401, { error: 'Your session has expired. Sign in again.' });
+
+  const inviteRes = await fetch(
+    `${baseUrl}/rest/v1/organization_invites?id=eq.${encodeURIComponent(inviteId)}&select=*,organizations(name)`,
+    { headers: service }
+  );
+  const invite = inviteRes.ok ? ((await inviteRes.json()) as InviteRow[])[0] : undefined;
+  if (!invite || invite.accepted_at || Date.parse(invite.expires_at) < Date.now()) {
+    return json(404, { error: 'Invite not found or no longer pending.' });
+  }
+
+  const ownerRes = await fetch(
+    `${baseUrl}/rest/v1/organization_members?organization_id=eq.${encodeURIComponent(invite.organization_id)}` +
+      `&user_id=eq.${encodeURIComponent(caller.id)}&role=eq.owner&select=user_id`,
+    { headers: service }
+  );
+  const owners = ownerRes.ok ? ((await ownerRes.json()) as unknown[]) : [];
+  if (owners.length === 0) return json(403, { error: 'Only team owners can send invites.' });
+
+  const allowedOrigin = allowedAppOrigin(request);
+  const signUpTarget = redirectQuery(appRedirect(body?.appUrl, allowedOrigin, '/reset-password'));
+  const signInTarget = redirectQuery(appRedirect(body?.appUrl, allowedOrigin, '/dashboard'));
+  const data = { organization_name: invite.organizations?.name ?? null, organization_role: invite.role };
+
+  // New address: sign-up invite. Existing account (422): sign-in link instead.
+  const sent = await fetch(`${baseUrl}/auth/v1/invite${signUpTarget}`, {
+    method: 'POST',
+    headers: service,
+    body: JSON.stringify({ email: invite.email, data }),
+  });
+  if (sent.ok) return json(200, { sent: 'invite' });
+  if (sent.status !== 422) return json(502, { error: 'The invite email could not be sent.' });
+
+  const link = await fetch(`${baseUrl}/auth/v1/otp${signInTarget}`, {
+    method: 'POST',
+    headers: service,
+    body: JSON.stringify({ email: invite.email, create_user: false }),
+  });
+  return link.ok ? json(200, { sent: 'magiclink' }) : json(502, { error: 'The invite email could not be sent.' });
+}
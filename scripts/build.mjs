@@ -9,12 +9,25 @@ const isProd = args[0] === '--production'
 
 await rimraf('dist')
 
+/**
+ * VITE_* variables from the build environment, exposed to the bundle as import.meta.env
+ * (an iife build has no import.meta of its own).
+ */
+const viteEnv = Object.fromEntries(
+  Object.entries(process.env).filter(([key]) => key.startsWith('VITE_'))
+)
+
 /**
  * @type {esbuild.BuildOptions}
  */
 const esbuildOpts = {
   color: true,
-  entryPoints: ['src/main.tsx', 'index.html'],
+  entryPoints: [
+    'src/main.tsx',
+    'index.html',
+    // pdf.js worker for the in-app PDF preview (loaded from ./pdf.worker.js)
+    { in: 'node_modules/pdfjs-dist/build/pdf.worker.min.mjs', out: 'pdf.worker' },
+  ],
   outdir: 'dist',
   entryNames: '[name]',
   write: true,
@@ -24,6 +37,9 @@ const esbuildOpts = {
   minify: isProd,
   treeShaking: true,
   jsx: 'automatic',
+  define: {
+    'import.meta.env': JSON.stringify(viteEnv),
+  },
   loader: {
     '.html': 'copy',
     '.png': 'file',
@@ -0,0 +1,313 @@
+/**
+ * Reconcile storage_files_catalog with the clinicalrxqfiles bucket
+ * Run with: tsx scripts/reconcileStorageCatalog.ts [--dry-run] [--prefix=<folder>]
+ *
+ * - Walks the bucket through the Storage list API and diffs it against catalog rows by path, size and last_modified.
+ * - New objects are inserted, changed objects updated, and rows whose object is gone are tombstoned (deleted_at set).
+ *   A tombstoned row whose object reappears is restored.
+ * - Archived versions (_versions/, see storageAdmin.replaceFile) are not catalog content and are skipped.
+ * - --dry-run prints the report without writing anything.
+ * - Talks to plain REST endpoints (no SDK), so reconcile() can run against a local mock of Storage + PostgREST
+ *   by passing its baseUrl (and optionally a fetch implementation).
+ */
+
+import { pathToFileURL } from 'node:url';
+
+/** Options for one reconcile run */
+export interface ReconcileOptions {
+  /** Project URL, e.g. https://xyz.supabase.co or a local mock server */
+  baseUrl: string;
+  /** Service role key (bypasses RLS) */
+  serviceKey: string;
+  bucket?: string;
+  /** Only reconcile paths under this folder */
+  prefix?: string;
+  /** Report only; no catalog writes */
+  dryRun?: boolean;
+  fetch?: typeof fetch;
+  /** Clock used for tombstones and updated_at */
+  now?: () => Date;
+}
+
+/** A bucket object as the reconciler sees it */
+export interface BucketObject {
+  path: string;
+  size: number | null;
+  mimeType: string | null;
+  lastModified: string | null;
+}
+
+/** Catalog columns the reconciler reads */
+export interface CatalogEntry {
+  id: string;
+  file_path: string;
+  file_name: string;
+  file_size: number | null;
+  mime_type: string | null;
+  last_modified: string | null;
+  deleted_at: string | null;
+}
+
+/** What a run did (or would do, in dry-run mode) */
+export interface ReconcileReport {
+  dryRun: boolean;
+  scanned: number;
+  inserted: string[];
+  updated: Array<{ path: string; changes: string[] }>;
+  restored: string[];
+  tombstoned: string[];
+  unchanged: number;
+}
+
+/** Storage list API entry (folders have no metadata) */
+interface StorageListEntry {
+  name: string;
+  id?: string | null;
+  updated_at?: string | null;
+  metadata?: { size?: number; mimetype?: string; lastModified?: string } | null;
+}
+
+const DEFAULT_BUCKET = 'clinicalrxqfiles';
+/** Top-level folder holding archived file versions (never cataloged) */
+const VERSIONS_FOLDER = '_versions';
+const LIST_PAGE = 1000;
+const CATALOG_PAGE = 1000;
+const INSERT_BATCH = 200;
+
+/** Thin REST client bound to one project */
+function createClient(opts: ReconcileOptions) {
+  const doFetch = opts.fetch ?? fetch;
+  const base = opts.baseUrl.replace(/\/+$/, '');
+  const headers = {
+    apikey: opts.serviceKey,
+    Authorization: `Bearer ${opts.serviceKey}`,
+    'Content-Type': 'application/json',
+  };
+
+  return async function request<T>(path: string, init: { method?: string; body?: unknown; prefer?: string } = {}): Promise<T> {
+    const res = await doFetch(`${base}${path}`, {
+      method: init.method ?? 'GET',
+      headers: init.prefer ? { ...headers, Prefer: init.prefer } : headers,
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+    const text = await res.text();
+    if (!res.ok) throw new Error(`${init.method ?? 'GET'} ${path} failed (${res.status}): ${text || res.statusText}`);
+    return (text ? JSON.parse(text) : undefined) as T;
+  };
+}
+
+type Request = ReturnType<typeof createClient>;
+
+/** Normalize a timestamp for comparison (null when missing or unparseable) */
+function toIso(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? null : new Date(t).toISOString();
+}
+
+/** File name part of a path */
+function fileNameOf(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/**
+ * Every object under a folder, walking subfolders depth-first.
+ */
+export async function listBucketObjects(request: Request, bucket: string, prefix = ''): Promise<BucketObject[]> {
+  const out: BucketObject[] = [];
+  const folders = [prefix.replace(/^\/+|\/+$/g, '')];
+
+  while (folders.length) {
+    const folder = folders.pop() as string;
+    for (let offset = 0; ; offset += LIST_PAGE) {
+      const entries = await request<StorageListEntry[]>(`/storage/v1/object/list/${encodeURIComponent(bucket)}`, {
+        method: 'POST',
+        body: { prefix: folder, limit: LIST_PAGE, offset, sortBy: { column: 'name', order: 'asc' } },
+      });
+      for (const e of entries) {
+        const path = folder ? `${folder}/${e.name}` : e.name;
+        const isFolder = !e.metadata || typeof e.metadata.size !== 'number';
+        if (isFolder) {
+          if (path !== VERSIONS_FOLDER) folders.push(path);
+          continue;
+        }
+        // Supabase keeps a placeholder object in otherwise empty folders
+        if (e.name === '.emptyFolderPlaceholder') continue;
+        out.push({
+          path,
+          size: e.metadata?.size ?? null,
+          mimeType: e.metadata?.mimetype || null,
+          lastModified: toIso(e.metadata?.lastModified || e.updated_at),
+        });
+      }
+      if (entries.length < LIST_PAGE) break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Every catalog row for the bucket (tombstones included), optionally limited to a folder.
+ */
+export async function listCatalogEntries(request: Request, bucket: string, prefix = ''): Promise<CatalogEntry[]> {
+  const folder = prefix.replace(/^\/+|\/+$/g, '');
+  const scope = folder ? `&file_path=like.${encodeURIComponent(`${folder}/*`)}` : '';
+  const out: CatalogEntry[] = [];
+  for (let offset = 0; ; offset += CATALOG_PAGE) {
+    const rows = await request<CatalogEntry[]>(
+      `/rest/v1/storage_files_catalog?select=id,file_path,file_name,file_size,mime_type,last_modified,deleted_at` +
+        `&bucket_name=eq.${encodeURIComponent(bucket)}${scope}&order=file_path.asc&offset=${offset}&limit=${CATALOG_PAGE}`
+    );
+    out.push(...rows);
+    if (rows.length < CATALOG_PAGE) break;
+  }
+  return out;
+}
+
+/**
+ * Field-level differences between an object and its catalog row.
+ */
+export function diffEntry(object: BucketObject, row: CatalogEntry): string[] {
+  const changes: string[] = [];
+  if (object.size !== null && Number(row.file_size) !== object.size) {
+    changes.push(`size ${row.file_size ?? '—'} → ${object.size}`);
+  }
+  if (object.lastModified && toIso(row.last_modified) !== object.lastModified) {
+    changes.push(`last_modified ${toIso(row.last_modified) ?? '—'} → ${object.lastModified}`);
+  }
+  if (object.mimeType && row.mime_type !== object.mimeType) {
+    changes.push(`mime_type ${row.mime_type ?? '—'} → ${object.mimeType}`);
+  }
+  return changes;
+}
+
+/**
+ * Diff the bucket against the catalog and (unless dryRun) apply inserts, updates, restores and tombstones.
+ */
+export async function reconcile(opts: ReconcileOptions): Promise<ReconcileReport> {
+  const request = createClient(opts);
+  const bucket = opts.bucket ?? DEFAULT_BUCKET;
+  const now = (opts.now ?? (() => new Date()))().toISOString();
+
+  const [objects, rows] = await Promise.all([
+    listBucketObjects(request, bucket, opts.prefix),
+    listCatalogEntries(request, bucket, opts.prefix),
+  ]);
+  const byPath = new Map(rows.map((r) => [r.file_path.replace(/^\/+/, ''), r]));
+  const seen = new Set<string>();
+
+  const report: ReconcileReport = {
+    dryRun: !!opts.dryRun,
+    scanned: objects.length,
+    inserted: [],
+    updated: [],
+    restored: [],
+    tombstoned: [],
+    unchanged: 0,
+  };
+  const inserts: Record<string, unknown>[] = [];
+  const patches: Array<{ id: string; body: Record<string, unknown> }> = [];
+
+  for (const o of objects) {
+    seen.add(o.path);
+    const row = byPath.get(o.path);
+    const fields = {
+      file_name: fileNameOf(o.path),
+      file_size: o.size,
+      mime_type: o.mimeType,
+      last_modified: o.lastModified,
+    };
+
+    if (!row) {
+      report.inserted.push(o.path);
+      inserts.push({ bucket_name: bucket, file_path: o.path, ...fields, updated_at: now });
+      continue;
+    }
+
+    const changes = diffEntry(o, row);
+    if (row.deleted_at) {
+      report.restored.push(o.path);
+      patches.push({ id: row.id, body: { ...fields, deleted_at: null, updated_at: now } });
+    } else if (changes.length) {
+      report.updated.push({ path: o.path, changes });
+      patches.push({ id: row.id, body: { ...fields, updated_at: now } });
+    } else {
+      report.unchanged++;
+    }
+  }
+
+  const tombstones = rows.filter((r) => !r.deleted_at && !seen.has(r.file_path.replace(/^\/+/, '')));
+  report.tombstoned = tombstones.map((r) => r.file_path);
+
+  if (opts.dryRun) return report;
+
+  for (let i = 0; i < inserts.length; i += INSERT_BATCH) {
+    await request<void>('/rest/v1/storage_files_catalog?on_conflict=bucket_name,file_path', {
+      method: 'POST',
+      body: inserts.slice(i, i + INSERT_BATCH),
+      prefer: 'return=minimal,resolution=merge-duplicates',
+    });
+  }
+  for (const p of patches) {
+    await request<void>(`/rest/v1/storage_files_catalog?id=eq.${encodeURIComponent(p.id)}`, {
+      method: 'PATCH',
+      body: p.body,
+      prefer: 'return=minimal',
+    });
+  }
+  for (const r of tombstones) {
+    await request<void>(`/rest/v1/storage_files_catalog?id=eq.${encodeURIComponent(r.id)}`, {
+      method: 'PATCH',
+      body: { deleted_at: now, updated_at: now },
+      prefer: 'return=minimal',
+    });
+  }
+  return report;
+}
+
+/** Human-readable report */
+export function formatReport(report: ReconcileReport): string {
+  const lines: string[] = [];
+  lines.push(report.dryRun ? 'Dry run: no catalog changes were written.' : 'Catalog reconciled.');
+  lines.push(
+    `Scanned ${report.scanned} objects: ${report.inserted.length} inserted, ${report.updated.length} updated, ` +
+      `${report.restored.length} restored, ${report.tombstoned.length} tombstoned, ${report.unchanged} unchanged.`
+  );
+  const section = (title: string, items: string[]) => {
+    if (!items.length) return;
+    lines.push('', `${title}:`);
+    for (const item of items) lines.push(`  ${item}`);
+  };
+  section('Inserted', report.inserted);
+  section('Updated', report.updated.map((u) => `${u.path} (${u.changes.join('; ')})`));
+  section('Restored', report.restored);
+  section('Tombstoned', report.tombstoned);
+  return lines.join('\n');
+}
+
+async function main() {
+  const SUPABASE_URL = process.env.SUPABASE_URL || '';
+  const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY || '';
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+    console.error('Missing required environment variables (SUPABASE_URL, SUPABASE_SERVICE_KEY)');
+    process.exit(1);
+  }
+
+  const args = process.argv.slice(2);
+  const prefixArg = args.find((a) => a.startsWith('--prefix='));
+  const report = await reconcile({
+    baseUrl: SUPABASE_URL,
+    serviceKey: SUPABASE_SERVICE_KEY,
+    dryRun: args.includes('--dry-run'),
+    prefix: prefixArg ? prefixArg.slice('--prefix='.length) : undefined,
+  });
+  console.log(formatReport(report));
+}
+
+// Only run when executed directly (reconcile() is importable against a mock server)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
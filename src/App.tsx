@@ -18,6 +18,9 @@ import ProgramDetail from './pages/ProgramDetail';
 import MemberContent from './pages/MemberContent';
 import Account from './pages/Account';
 import Bookmarks from './pages/Bookmarks';
+import Activity from './pages/Activity';
+import Admin from './pages/Admin';
+import ResetPassword from './pages/ResetPassword';
 import { useAuthStore } from './stores/authStore';
 import ErrorBoundary from './components/common/ErrorBoundary';
 import { Toaster } from 'sonner';
@@ -27,9 +30,18 @@ import { AuthProvider } from './components/auth/AuthContext';
 
 /**
  * Protected route component for member-only pages
+ * - Waits for the persisted Supabase session to be restored before deciding.
  */
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated } = useAuthStore();
+  const { isAuthenticated, initialized } = useAuthStore();
+
+  if (!initialized) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-sm text-slate-600">
+        Checking your session…
+      </div>
+    );
+  }
 
   if (!isAuthenticated) {
     return <Login />;
@@ -38,6 +50,24 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+/**
+ * Admin-only route (role 'admin'); other members see a short notice.
+ */
+function AdminRoute({ children }: { children: React.ReactNode }) {
+  const user = useAuthStore((s) => s.user);
+  return (
+    <ProtectedRoute>
+      {user?.role === 'admin' ? (
+        children
+      ) : (
+        <div className="flex min-h-screen items-center justify-center text-sm text-slate-600">
+          This area is only available to administrators.
+        </div>
+      )}
+    </ProtectedRoute>
+  );
+}
+
 /**
  * App root component
  */
@@ -56,6 +86,7 @@ export default function App() {
             <Route path="/success-stories" element={<SuccessStories />} />
             <Route path="/login" element={<Login />} />
             <Route path="/enroll" element={<Enroll />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
 
             {/* Protected Routes */}
             <Route
@@ -106,6 +137,22 @@ export default function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/activity"
+              element={
+                <ProtectedRoute>
+                  <Activity />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin"
+              element={
+                <AdminRoute>
+                  <Admin />
+                </AdminRoute>
+              }
+            />
           </Routes>
         </AuthProvider>
       </ErrorBoundary>
@@ -0,0 +1,175 @@
+/**
+ * BillingHistory
+ * - Purpose: Billing history section of the Account page — every charge with its date, plan and amount,
+ *   a PDF receipt per charge (lib/receipt) and a CSV export of the whole history for bookkeeping.
+ * - Receipts are addressed to the pharmacy; the address is kept on the member's profile and copied onto each
+ *   payment when it is made. Older payments without one fall back to the current name and address.
+ * - Team owners see the team's charges; other teammates see only charges they paid themselves.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Download, FileSpreadsheet, Receipt } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Textarea } from '../ui/textarea';
+import SafeText from '../common/SafeText';
+import { useAuthStore } from '../../stores/authStore';
+import { authService, postgrestMessage } from '../../services/supabase';
+import { billingService, type Payment } from '../../services/billing';
+import { formatPrice } from '../../services/checkout';
+import { downloadReceipt } from '../../lib/receipt';
+
+/**
+ * BillingHistory component
+ */
+export default function BillingHistory() {
+  const user = useAuthStore((s) => s.user);
+  const refreshProfile = useAuthStore((s) => s.refreshProfile);
+  const [payments, setPayments] = useState<Payment[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [address, setAddress] = useState(user?.pharmacyAddress || '');
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoadError(null);
+    setPayments(null);
+    try {
+      setPayments(await billingService.getPayments());
+    } catch (e) {
+      setLoadError(postgrestMessage(e, 'Your billing history could not be loaded.'));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    setAddress(user?.pharmacyAddress || '');
+  }, [user?.pharmacyAddress]);
+
+  if (!user) return null;
+
+  const billTo = {
+    name: user.organization?.name || user.pharmacyName || user.name,
+    address: user.pharmacyAddress,
+  };
+  const addressChanged = address.trim() !== (user.pharmacyAddress || '');
+
+  async function saveAddress() {
+    setSaving(true);
+    try {
+      await authService.updateProfile({ pharmacy_address: address.trim() });
+      await refreshProfile();
+      toast.success('Billing address saved.');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'The address could not be saved.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Billing History
+          {payments && payments.length > 0 ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto bg-transparent"
+              onClick={() => billingService.downloadCsv(payments)}
+            >
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          ) : null}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loadError ? (
+          <div className="flex flex-wrap items-center gap-3 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+            <span className="flex-1">{loadError}</span>
+            <Button variant="outline" size="sm" className="bg-transparent" onClick={load}>
+              Try again
+            </Button>
+          </div>
+        ) : payments === null ? (
+          <p className="text-sm text-gray-600">Loading…</p>
+        ) : payments.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            {user.organization && user.organization.role !== 'owner'
+              ? 'Your team owner receives the receipts for your team plan.'
+              : 'No charges yet. Receipts appear here after checkout.'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Plan</th>
+                  <th className="py-2 pr-4 font-medium">Receipt No.</th>
+                  <th className="py-2 pr-4 text-right font-medium">Amount</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {payments.map((p) => (
+                  <tr key={p.id} className="border-b last:border-0">
+                    <td className="py-3 pr-4">{new Date(p.paid_at).toLocaleDateString()}</td>
+                    <td className="py-3 pr-4">
+                      <SafeText value={p.plan_name} />
+                    </td>
+                    <td className="py-3 pr-4 text-gray-600">{p.receipt_number}</td>
+                    <td className="py-3 pr-4 text-right">{formatPrice(p.amount_cents, p.currency)}</td>
+                    <td className="py-3 text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="bg-transparent"
+                        onClick={() => downloadReceipt(p, billTo)}
+                      >
+                        <Download className="mr-2 h-4 w-4" />
+                        Receipt
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveAddress();
+          }}
+        >
+          <label className="block text-sm font-medium" htmlFor="billing-address">
+            Pharmacy address on receipts
+          </label>
+          <p className="text-sm text-gray-600">
+            Receipts are billed to <SafeText value={billTo.name} /> at this address.
+          </p>
+          <Textarea
+            id="billing-address"
+            rows={3}
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder={'123 Main Street\nSpringfield, IL 62701'}
+            maxLength={500}
+          />
+          <Button type="submit" size="sm" disabled={!addressChanged || saving}>
+            Save address
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * SubscriptionManagement
+ * - Purpose: Billing section of the Account page — the member's plan, where it stands (Active / Expiring / Expired,
+ *   grace period) and the actions on it: renew, change plan, cancel, reactivate.
+ * - Renewing and changing plan go through checkout (Enroll page); cancel / reactivate are immediate.
+ * - Team plans are managed by the team's owners; other teammates see the plan read-only.
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router';
+import { toast } from 'sonner';
+import { CreditCard } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import SafeText from '../common/SafeText';
+import { useAuthStore } from '../../stores/authStore';
+import { entitlementService } from '../../services/entitlements';
+import { getSubscriptionLifecycle, type LifecycleStatus } from '../../services/subscriptionLifecycle';
+
+const STATUS_BADGE: Record<LifecycleStatus, string> = {
+  Active: 'bg-green-100 text-green-700 hover:bg-green-100',
+  Expiring: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+  Expired: 'bg-red-100 text-red-700 hover:bg-red-100',
+};
+
+/**
+ * SubscriptionManagement component
+ */
+export default function SubscriptionManagement() {
+  const user = useAuthStore((s) => s.user);
+  const refreshProfile = useAuthStore((s) => s.refreshProfile);
+  const [busy, setBusy] = useState(false);
+
+  const sub = user?.subscription;
+  const lifecycle = getSubscriptionLifecycle(sub);
+  const org = user?.organization;
+  const canManage = !org || org.role === 'owner';
+
+  /** Cancel or reactivate, then reload the member's subscription */
+  async function setCancellation(cancel: boolean) {
+    if (!sub) return;
+    if (
+      cancel &&
+      !window.confirm(
+        `Cancel ${sub.planName}? You keep access until ${sub.endDate.toLocaleDateString()}, then your programs lock.`
+      )
+    ) {
+      return;
+    }
+    setBusy(true);
+    try {
+      await entitlementService.setCancellation(sub.id, cancel);
+      await refreshProfile();
+      toast.success(cancel ? 'Your plan is cancelled.' : 'Your plan is active again.');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const renewTo = sub?.planCode ? `/enroll?plan=${encodeURIComponent(sub.planCode)}` : '/enroll';
+  const ended = lifecycle?.status === 'Expired';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CreditCard className="h-5 w-5" />
+          Billing &amp; Subscriptions
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!sub || !lifecycle ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">You do not have a plan yet.</p>
+            {canManage ? (
+              <Button asChild>
+                <Link to="/enroll">Choose a plan</Link>
+              </Button>
+            ) : (
+              <p className="text-sm text-gray-600">Your team owner manages the plan.</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="rounded-lg border p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="font-medium">
+                    <SafeText value={sub.planName} />
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {lifecycle.inGrace
+                      ? `Expired ${lifecycle.endDate.toLocaleDateString()} • programs stay open until ${lifecycle.accessEndsAt.toLocaleDateString()}`
+                      : ended
+                        ? `Ended ${lifecycle.endDate.toLocaleDateString()}`
+                        : lifecycle.cancelled
+                          ? `Cancelled • access ends ${lifecycle.endDate.toLocaleDateString()}`
+                          : `Access through ${lifecycle.endDate.toLocaleDateString()}`}
+                  </p>
+                  {org ? (
+                    <p className="text-sm text-gray-600">
+                      Shared with <SafeText value={org.name} />
+                    </p>
+                  ) : null}
+                </div>
+                <Badge className={STATUS_BADGE[lifecycle.status]}>
+                  {lifecycle.cancelled && !ended ? 'Cancelled' : lifecycle.status}
+                </Badge>
+              </div>
+            </div>
+
+            {canManage ? (
+              <div className="flex flex-wrap gap-2">
+                {lifecycle.status !== 'Active' && !(lifecycle.cancelled && !ended) ? (
+                  <Button asChild size="sm">
+                    <Link to={renewTo}>Renew</Link>
+                  </Button>
+                ) : null}
+                {lifecycle.cancelled && !ended ? (
+                  <Button size="sm" disabled={busy} onClick={() => setCancellation(false)}>
+                    Reactivate
+                  </Button>
+                ) : null}
+                {!ended ? (
+                  <Button asChild variant="outline" size="sm" className="bg-transparent">
+                    <Link to={`/enroll?change=${encodeURIComponent(sub.id)}`}>Change plan</Link>
+                  </Button>
+                ) : null}
+                {!ended && !lifecycle.cancelled ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="bg-transparent"
+                    disabled={busy}
+                    onClick={() => setCancellation(true)}
+                  >
+                    Cancel plan
+                  </Button>
+                ) : null}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">Your team owner manages this plan.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,286 @@
+/**
+ * TeamManagement
+ * - Purpose: Pharmacy team section of the Account page — start a team, invite staff by email, assign roles
+ *   (owner, pharmacist, technician), remove staff or leave.
+ * - Seats (members + pending invites) are limited by the team's plan; the server enforces the limit and roles,
+ *   this component only mirrors them.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Mail, Users } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { useAuthStore } from '../../stores/authStore';
+import {
+  organizationService,
+  ORGANIZATION_ROLE_LABELS,
+  ORGANIZATION_ROLES,
+  type OrganizationInvite,
+  type OrganizationMember,
+} from '../../services/organizations';
+import type { OrganizationRole } from '../../types';
+
+/**
+ * TeamManagement component
+ */
+export default function TeamManagement() {
+  const user = useAuthStore((s) => s.user);
+  const refreshProfile = useAuthStore((s) => s.refreshProfile);
+  const org = user?.organization;
+  const isOwner = org?.role === 'owner';
+
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invites, setInvites] = useState<OrganizationInvite[]>([]);
+  const [teamName, setTeamName] = useState(user?.pharmacyName || '');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('technician');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!org) return;
+    const [roster, pending] = await Promise.all([
+      organizationService.getRoster().catch(() => [] as OrganizationMember[]),
+      isOwner ? organizationService.getInvites().catch(() => [] as OrganizationInvite[]) : [],
+    ]);
+    setMembers(roster);
+    setInvites(pending);
+  }, [org, isOwner]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /** Run an action, then reload the roster and the member's organization (seat counts) */
+  async function run(key: string, action: () => Promise<unknown>, success?: string) {
+    setBusy(key);
+    try {
+      await action();
+      if (success) toast.success(success);
+      await Promise.all([load(), refreshProfile()]);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Something went wrong.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  /** Save the invite, then email it (a failed email keeps the invite) */
+  async function sendInvite(address: string, inviteRole: OrganizationRole) {
+    const invite = await organizationService.invite(address, inviteRole);
+    try {
+      await organizationService.sendInviteEmail(invite.id);
+      toast.success(`Invite sent to ${invite.email}.`);
+    } catch (e) {
+      toast.warning(
+        `${e instanceof Error ? e.message : 'The invite email could not be sent.'} ` +
+          `${invite.email} can still join by signing up with that address.`
+      );
+    }
+  }
+
+  if (!user) return null;
+
+  if (!org) {
+    return (
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Pharmacy Team
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="mb-4 text-sm text-gray-600">
+            Share your subscription with your pharmacists and technicians. You become the team owner, and your
+            current subscription moves to the team.
+          </p>
+          <form
+            className="flex flex-wrap items-end gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              run('create', () => organizationService.create(teamName), 'Team created.');
+            }}
+          >
+            <label className="min-w-[240px] flex-1 text-sm font-medium">
+              Pharmacy name
+              <Input value={teamName} onChange={(e) => setTeamName(e.target.value)} className="mt-1" />
+            </label>
+            <Button type="submit" disabled={!teamName.trim() || busy === 'create'}>
+              Create team
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const seatsFull = org.seatsUsed >= org.seatLimit;
+  const ownerCount = members.filter((m) => m.role === 'owner').length;
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center gap-2">
+          <Users className="h-5 w-5" />
+          Pharmacy Team — {org.name}
+          <Badge variant={seatsFull ? 'destructive' : 'secondary'} className="ml-auto">
+            {org.seatsUsed} of {org.seatLimit} seats used
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="divide-y rounded-lg border">
+          {members.map((m) => {
+            const self = m.user_id === user.id;
+            const lastOwner = m.role === 'owner' && ownerCount <= 1;
+            return (
+              <div key={m.user_id} className="flex flex-wrap items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <p className="truncate font-medium">
+                    {m.name || m.email || 'Team member'}
+                    {self ? <span className="ml-1 text-sm font-normal text-gray-500">(you)</span> : null}
+                  </p>
+                  {m.email ? <p className="truncate text-sm text-gray-600">{m.email}</p> : null}
+                </div>
+                <div className="flex items-center gap-2">
+                  {isOwner ? (
+                    <select
+                      value={m.role}
+                      onChange={(e) =>
+                        run(m.user_id, () => organizationService.setRole(m.user_id, e.target.value as OrganizationRole))
+                      }
+                      disabled={busy === m.user_id || lastOwner}
+                      className="h-9 rounded-md border border-slate-200 bg-white px-2 text-sm"
+                      aria-label={`Role for ${m.name || m.email}`}
+                      title={lastOwner ? 'A team needs at least one owner' : undefined}
+                    >
+                      {ORGANIZATION_ROLES.map((r) => (
+                        <option key={r} value={r}>
+                          {ORGANIZATION_ROLE_LABELS[r]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <Badge variant="outline">{ORGANIZATION_ROLE_LABELS[m.role]}</Badge>
+                  )}
+                  {(isOwner || self) && !lastOwner ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="bg-transparent"
+                      disabled={busy === m.user_id}
+                      onClick={() => {
+                        const prompt = self
+                          ? `Leave ${org.name}? You will lose access to the team's programs.`
+                          : `Remove ${m.name || m.email} from ${org.name}?`;
+                        if (!window.confirm(prompt)) return;
+                        run(m.user_id, () => organizationService.remove(m.user_id), self ? 'You left the team.' : 'Removed.');
+                      }}
+                    >
+                      {self ? 'Leave' : 'Remove'}
+                    </Button>
+                  ) : null}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {isOwner ? (
+          <>
+            {invites.length ? (
+              <div>
+                <h3 className="mb-2 font-semibold">Pending invites</h3>
+                <div className="divide-y rounded-lg border">
+                  {invites.map((i) => {
+                    const expired = Date.parse(i.expires_at) < Date.now();
+                    return (
+                      <div key={i.id} className="flex flex-wrap items-center justify-between gap-3 p-3 text-sm">
+                        <div className="min-w-0">
+                          <p className="truncate font-medium">{i.email}</p>
+                          <p className="text-gray-600">
+                            {ORGANIZATION_ROLE_LABELS[i.role]} •{' '}
+                            {expired ? 'expired' : `expires ${new Date(i.expires_at).toLocaleDateString()}`}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="bg-transparent"
+                            disabled={busy === i.id}
+                            onClick={() => run(i.id, () => sendInvite(i.email, i.role))}
+                          >
+                            Resend
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="bg-transparent"
+                            disabled={busy === i.id}
+                            onClick={() => run(i.id, () => organizationService.revokeInvite(i.id), 'Invite cancelled.')}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : null}
+
+            <form
+              className="flex flex-wrap items-end gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                run('invite', async () => {
+                  await sendInvite(email.trim(), role);
+                  setEmail('');
+                });
+              }}
+            >
+              <label className="min-w-[240px] flex-1 text-sm font-medium">
+                Invite by email
+                <Input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="tech@yourpharmacy.com"
+                  className="mt-1"
+                />
+              </label>
+              <label className="text-sm font-medium">
+                Role
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as OrganizationRole)}
+                  className="mt-1 block h-10 rounded-md border border-slate-200 bg-white px-2 text-sm"
+                >
+                  {ORGANIZATION_ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {ORGANIZATION_ROLE_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <Button type="submit" disabled={!email.trim() || seatsFull || busy === 'invite'}>
+                <Mail className="mr-2 h-4 w-4" />
+                Send invite
+              </Button>
+            </form>
+            {seatsFull ? (
+              <p className="text-sm text-gray-600">
+                Every seat on your plan is taken. Remove someone or cancel an invite to free a seat, or upgrade the
+                plan for more.
+              </p>
+            ) : null}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * ProgramOverviewEditor
+ * - Purpose: Edit a program's overview (Markdown) and experience level, with a live preview (Content Admin page).
+ * - The preview uses the same renderer as the ProgramDetail overview tab; linked catalog files that do not exist
+ *   are listed under the editor before saving.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { BookText } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import Markdown from '../common/Markdown';
+import { useProgramStore } from '../../stores/programStore';
+import { programService } from '../../services/supabase';
+import { getCatalogItemsByPaths } from '../../services/storageCatalog';
+import { collectCatalogLinks, parseMarkdown } from '../../lib/markdown';
+
+/** Syntax reminder shown under the editor */
+const SYNTAX_HINT =
+  '# Heading, **bold**, *italic*, - lists, 1. steps, [label](program/folder/file.pdf) for catalog files, ' +
+  '[label](/resources) for app pages, > [!TIP] / [!WARNING] callouts.';
+
+/** Delay before checking linked files while typing (ms) */
+const LINK_CHECK_DELAY = 600;
+
+/**
+ * ProgramOverviewEditor component
+ */
+export default function ProgramOverviewEditor() {
+  const programs = useProgramStore((s) => s.programs);
+  const loadPrograms = useProgramStore((s) => s.load);
+  const [slug, setSlug] = useState('');
+  const [overview, setOverview] = useState('');
+  const [experienceLevel, setExperienceLevel] = useState('');
+  const [missing, setMissing] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const program = programs.find((p) => p.slug === slug);
+  const dirty = !!program && (overview !== (program.overview || '') || experienceLevel !== (program.experienceLevel || ''));
+
+  useEffect(() => {
+    if (!slug && programs.length) setSlug(programs[0].slug);
+  }, [programs, slug]);
+
+  /** Load the selected program's saved content */
+  useEffect(() => {
+    setOverview(program?.overview || '');
+    setExperienceLevel(program?.experienceLevel || '');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [slug]);
+
+  const links = useMemo(() => collectCatalogLinks(parseMarkdown(overview)), [overview]);
+
+  /** Flag linked catalog paths that have no catalog row */
+  useEffect(() => {
+    if (links.length === 0) {
+      setMissing([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const found = new Set((await getCatalogItemsByPaths(links)).map((i) => i.path));
+        if (!cancelled) setMissing(links.filter((p) => !found.has(p)));
+      } catch {
+        if (!cancelled) setMissing([]);
+      }
+    }, LINK_CHECK_DELAY);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [links]);
+
+  function selectProgram(next: string) {
+    if (dirty && !window.confirm('Discard unsaved changes to this overview?')) return;
+    setSlug(next);
+  }
+
+  async function save() {
+    if (!program) return;
+    setSaving(true);
+    try {
+      await programService.update(program.slug, {
+        overview: overview.trim() || null,
+        experience_level: experienceLevel.trim() || null,
+      });
+      await loadPrograms({ refresh: true });
+      toast.success(`Saved the ${program.name} overview.`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not save the overview.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <BookText className="h-4 w-4" />
+          Program overview
+        </CardTitle>
+        <select
+          value={slug}
+          onChange={(e) => selectProgram(e.target.value)}
+          className="h-8 rounded-md border border-slate-200 bg-white px-2 text-xs"
+          aria-label="Program"
+        >
+          {programs.map((p) => (
+            <option key={p.slug} value={p.slug}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!program ? (
+          <div className="py-2 text-sm text-slate-600">No programs to edit.</div>
+        ) : (
+          <>
+            <label className="block text-xs text-slate-600">
+              Experience level
+              <Input
+                value={experienceLevel}
+                onChange={(e) => setExperienceLevel(e.target.value)}
+                placeholder="e.g. Beginner, Intermediate"
+                className="mt-1 h-8 max-w-xs text-sm"
+              />
+            </label>
+
+            <div className="grid gap-3 lg:grid-cols-2">
+              <label className="block text-xs text-slate-600">
+                Overview (Markdown)
+                <Textarea
+                  value={overview}
+                  onChange={(e) => setOverview(e.target.value)}
+                  rows={16}
+                  className="mt-1 font-mono text-xs"
+                  placeholder="## What you will learn"
+                />
+                <span className="mt-1 block text-[11px] text-slate-500">{SYNTAX_HINT}</span>
+              </label>
+              <div className="text-xs text-slate-600">
+                Preview
+                <div className="mt-1 min-h-[120px] rounded-md border bg-white p-3">
+                  {overview.trim() ? (
+                    <Markdown source={overview} />
+                  ) : (
+                    <p className="text-sm text-slate-500">
+                      Empty overviews fall back to the program description on the Overview tab.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {missing.length ? (
+              <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                Linked files not found in the catalog: {missing.join(', ')}
+              </div>
+            ) : null}
+
+            <div className="flex items-center gap-2">
+              <Button size="sm" className="h-8" onClick={save} disabled={!dirty || saving}>
+                {saving ? 'Saving…' : 'Save overview'}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 bg-transparent"
+                disabled={!dirty || saving}
+                onClick={() => {
+                  setOverview(program.overview || '');
+                  setExperienceLevel(program.experienceLevel || '');
+                }}
+              >
+                Revert
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
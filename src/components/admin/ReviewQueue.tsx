@@ -0,0 +1,251 @@
+/**
+ * ReviewQueue
+ * - Purpose: Admin queue of resources due for their periodic review (Content Admin page).
+ * - Lists resources past their review-by date, plus (optionally) those due within the next 30 days.
+ * - Admins assign a review owner and mark items reviewed; the next review defaults to one year out.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { CalendarClock, CheckCircle2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { useAuthStore } from '../../stores/authStore';
+import { formatMetaDate } from '../../services/resourceMetadata';
+import {
+  listAdmins,
+  listReviewQueue,
+  markReviewed,
+  setReviewOwner,
+  type AdminUser,
+  type ReviewQueueItem,
+} from '../../services/storageAdmin';
+
+/** Days ahead shown with "Include upcoming" */
+const UPCOMING_DAYS = 30;
+
+/** Local calendar date as YYYY-MM-DD, offset by days and years */
+function isoDate(days = 0, years = 0): string {
+  const d = new Date();
+  d.setFullYear(d.getFullYear() + years);
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export interface ReviewQueueProps {
+  /** Called after a review or owner change (e.g. to refresh the file list) */
+  onChanged?: () => void;
+}
+
+/**
+ * ReviewQueue component
+ */
+export default function ReviewQueue({ onChanged }: ReviewQueueProps) {
+  const userId = useAuthStore((s) => s.user?.id);
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [admins, setAdmins] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [upcoming, setUpcoming] = useState(false);
+  const [mineOnly, setMineOnly] = useState(false);
+  const [reviewing, setReviewing] = useState<{ path: string; next: string; note: string } | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const today = isoDate();
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [queue, people] = await Promise.all([
+        listReviewQueue(isoDate(upcoming ? UPCOMING_DAYS : 0)),
+        listAdmins().catch(() => [] as AdminUser[]),
+      ]);
+      setItems(queue);
+      setAdmins(people);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not load the review queue.');
+    } finally {
+      setLoading(false);
+    }
+  }, [upcoming]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const visible = useMemo(
+    () => (mineOnly ? items.filter((i) => i.review_owner === userId) : items),
+    [items, mineOnly, userId]
+  );
+  const overdue = items.filter((i) => i.review_by < today).length;
+
+  async function changeOwner(item: ReviewQueueItem, owner: string) {
+    setBusy(item.file_path);
+    try {
+      await setReviewOwner(item.file_path, owner || null);
+      setItems((list) =>
+        list.map((i) =>
+          i.file_path === item.file_path
+            ? { ...i, review_owner: owner || null, owner_name: admins.find((a) => a.id === owner)?.name ?? null }
+            : i
+        )
+      );
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not assign the owner.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function submitReview() {
+    if (!reviewing) return;
+    setBusy(reviewing.path);
+    try {
+      await markReviewed(reviewing.path, { nextReviewBy: reviewing.next, note: reviewing.note });
+      toast.success(`Reviewed. Next review ${formatMetaDate(reviewing.next)}.`);
+      setReviewing(null);
+      await load();
+      onChanged?.();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not mark the resource reviewed.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <CalendarClock className="h-4 w-4" />
+          Review queue
+          {overdue ? (
+            <Badge variant="destructive" className="px-1.5 py-0 text-[10px]">
+              {overdue} overdue
+            </Badge>
+          ) : null}
+        </CardTitle>
+        <div className="flex items-center gap-4 text-xs text-slate-600">
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={upcoming} onChange={(e) => setUpcoming(e.target.checked)} />
+            Include next {UPCOMING_DAYS} days
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={mineOnly} onChange={(e) => setMineOnly(e.target.checked)} />
+            Assigned to me
+          </label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && items.length === 0 ? (
+          <div className="py-4 text-sm text-slate-600">Loading review queue…</div>
+        ) : error ? (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">{error}</div>
+        ) : visible.length === 0 ? (
+          <div className="flex items-center gap-2 py-2 text-sm text-slate-600">
+            <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+            Nothing is due for review.
+          </div>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {visible.map((item) => {
+              const late = item.review_by < today;
+              const form = reviewing?.path === item.file_path ? reviewing : null;
+              return (
+                <div key={item.id} className="px-3 py-2.5">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="truncate text-sm font-medium text-slate-900">{item.title}</div>
+                      <div className="truncate text-[11px] text-slate-500">
+                        {item.file_path}
+                        {item.reviewed_at
+                          ? ` • last reviewed ${new Date(item.reviewed_at).toLocaleDateString()}${
+                              item.reviewed_by_name ? ` by ${item.reviewed_by_name}` : ''
+                            }`
+                          : ' • never reviewed'}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <span className={['text-xs', late ? 'font-medium text-red-600' : 'text-amber-700'].join(' ')}>
+                        {late ? 'Overdue since' : 'Due'} {formatMetaDate(item.review_by)}
+                      </span>
+                      <select
+                        value={item.review_owner ?? ''}
+                        onChange={(e) => changeOwner(item, e.target.value)}
+                        disabled={busy === item.file_path}
+                        className="h-8 rounded-md border border-slate-200 bg-white px-2 text-xs"
+                        aria-label="Review owner"
+                      >
+                        <option value="">No owner</option>
+                        {item.review_owner && !admins.some((a) => a.id === item.review_owner) ? (
+                          <option value={item.review_owner}>{item.owner_name || 'Unknown'}</option>
+                        ) : null}
+                        {admins.map((a) => (
+                          <option key={a.id} value={a.id}>
+                            {a.name || a.id}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        size="sm"
+                        className="h-8"
+                        onClick={() => setReviewing(form ? null : { path: item.file_path, next: isoDate(0, 1), note: '' })}
+                      >
+                        Mark reviewed
+                      </Button>
+                    </div>
+                  </div>
+
+                  {form ? (
+                    <form
+                      className="mt-2 flex flex-wrap items-end gap-2 text-xs"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        submitReview();
+                      }}
+                    >
+                      <label className="text-slate-600">
+                        Next review
+                        <Input
+                          type="date"
+                          value={form.next}
+                          min={isoDate(1)}
+                          onChange={(e) => setReviewing({ ...form, next: e.target.value })}
+                          className="mt-1 h-8 w-40 text-xs"
+                        />
+                      </label>
+                      <label className="min-w-[240px] flex-1 text-slate-600">
+                        Note (optional)
+                        <Input
+                          value={form.note}
+                          onChange={(e) => setReviewing({ ...form, note: e.target.value })}
+                          placeholder="e.g. Checked against the 2026 payer guidance"
+                          className="mt-1 h-8 text-xs"
+                        />
+                      </label>
+                      <Button type="submit" size="sm" className="h-8" disabled={busy === item.file_path || !form.next}>
+                        Confirm review
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="h-8 bg-transparent"
+                        onClick={() => setReviewing(null)}
+                      >
+                        Cancel
+                      </Button>
+                    </form>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,10 +2,16 @@
  * AuthContext
  * - Purpose: Provide a simple auth context API compatible with the requested dashboard imports.
  * - Implementation: Bridges to the existing zustand store (useAuthStore) and adapts to expected shape.
+ * - Restores the persisted Supabase session once on mount (useAuthStore.initialize).
+ * - Loads per-member data stores (bookmarks) when a member signs in and clears them on sign-out.
  */
 
-import React, { createContext, useContext, useMemo } from 'react';
+import React, { createContext, useContext, useEffect, useMemo } from 'react';
 import { useAuthStore } from '../../stores/authStore';
+import { useBookmarkStore } from '../../stores/bookmarkStore';
+import { useProgressStore } from '../../stores/progressStore';
+import { getSubscriptionLifecycle } from '../../services/subscriptionLifecycle';
+import type { Organization } from '../../types';
 
 /**
  * Member information shape expected by the new dashboard UI.
@@ -17,6 +23,8 @@ export interface MemberInfo {
   email?: string;
   firstName?: string;
   lastName?: string;
+  /** Pharmacy team (name, the member's role, seat usage), when the member is on one */
+  organization?: Organization;
 }
 
 /**
@@ -36,7 +44,24 @@ const AuthContext = createContext<AuthContextValue>({ member: null });
  * - Wraps children and supplies member info derived from the zustand auth store.
  */
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const { user, isAuthenticated } = useAuthStore();
+  const { user, isAuthenticated, initialize } = useAuthStore();
+
+  /** Restore the session from localStorage / email link on first mount */
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
+  /** Member-scoped stores follow the signed-in user */
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId) {
+      useBookmarkStore.getState().load();
+      useProgressStore.getState().load();
+    } else {
+      useBookmarkStore.getState().clear();
+      useProgressStore.getState().clear();
+    }
+  }, [userId]);
 
   /**
    * Map existing User to MemberInfo fields used by the dashboard snippet.
@@ -45,26 +70,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const member = useMemo<MemberInfo | null>(() => {
     if (!isAuthenticated || !user) return null;
 
-    // Derive subscription status
-    let subscriptionStatus: MemberInfo['subscriptionStatus'] = 'Active';
-    const s = user.subscription?.status;
-    if (s === 'cancelled' || s === 'inactive') subscriptionStatus = 'Expired';
-    if (s === 'active') subscriptionStatus = 'Active';
+    // Active / Expiring (renewal warning window) / Expired, from the plan's end date
+    const subscriptionStatus = getSubscriptionLifecycle(user.subscription)?.status;
 
     // Build a composed name safely (handles undefined pieces)
-    const first = (user as any).firstName as string | undefined;
-    const last = (user as any).lastName as string | undefined;
-    const composedName = `${first ?? ''} ${last ?? ''}`.trim();
-    // Use user.name if present, otherwise composedName, otherwise "Member"
-    const pharmacyName = user.name ?? (composedName || 'Member');
+    const composedName = `${user.firstName ?? ''} ${user.lastName ?? ''}`.trim();
+    // Prefer the team's name, then the profile's pharmacy name, then user.name, then composedName, otherwise "Member"
+    const pharmacyName = user.organization?.name ?? user.pharmacyName ?? (user.name || composedName || 'Member');
+    const lastLogin = user.lastSignInAt ?? user.createdAt;
 
     return {
       pharmacyName,
-      lastLoginISO: user.createdAt ? new Date(user.createdAt).toISOString() : undefined,
+      lastLoginISO: lastLogin ? new Date(lastLogin).toISOString() : undefined,
       subscriptionStatus,
       email: user.email,
-      firstName: (user as any).firstName,
-      lastName: (user as any).lastName,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      organization: user.organization,
     };
   }, [isAuthenticated, user]);
 
@@ -0,0 +1,294 @@
+/**
+ * CommandPalette
+ * - Purpose: Ctrl/Cmd+K palette on every AppShell page for keyboard-speed navigation.
+ * - Sources: pages, programs (+ program tabs), catalog files (server search), bookmarks, recent activity.
+ * - Enter runs the item's action (navigate / download / play); Ctrl/Cmd+Enter on a file toggles its bookmark.
+ * - Filtering is done here (cmdk filtering is off) because file hits are already ranked by the server.
+ */
+
+import { useEffect, useMemo, useState, type KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { useNavigate } from 'react-router';
+import {
+  Bookmark,
+  BookmarkCheck,
+  Clock,
+  FileText,
+  FolderOpen,
+  LayoutDashboard,
+  LibraryBig,
+  Play,
+  User,
+} from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '../ui/command';
+import { useAuthStore } from '../../stores/authStore';
+import { useBookmarkStore } from '../../stores/bookmarkStore';
+import { getEntitledPrograms } from '../../services/entitlements';
+import { describePath, listPrograms, type ProgramListItem } from '../../services/storageCatalog';
+import { searchResources, type SearchHit } from '../../services/catalogSearch';
+import { activityService, STORAGE_FILE_RESOURCE, type RecentActivity } from '../../services/supabase';
+import { buildPublicUrl, isVideo, stripOneExtension } from '../../services/supabaseStorage';
+import { openStorageItem } from '../../lib/fileActions';
+
+/** Program tabs reachable from the palette (ProgramDetail ?tab=) */
+const PROGRAM_TABS = [
+  { tab: 'training', label: 'Training' },
+  { tab: 'protocols', label: 'Protocols' },
+  { tab: 'forms', label: 'Forms' },
+  { tab: 'resources', label: 'Resources' },
+] as const;
+
+/** Static page shortcuts */
+const PAGES = [
+  { to: '/dashboard', label: 'Go to dashboard', Icon: LayoutDashboard },
+  { to: '/resources', label: 'Go to resource library', Icon: LibraryBig },
+  { to: '/bookmarks', label: 'Go to bookmarks', Icon: Bookmark },
+  { to: '/activity', label: 'Go to activity history', Icon: Clock },
+  { to: '/account', label: 'Go to account', Icon: User },
+];
+
+/** Max file hits fetched per query */
+const FILE_RESULT_LIMIT = 8;
+
+/** A file row the palette can open or bookmark */
+interface PaletteFile {
+  path: string;
+  title: string;
+  url: string;
+  urlExpiresAt?: number;
+  video: boolean;
+  location: string;
+}
+
+/** Case-insensitive match of every query word against the text */
+function matches(text: string, query: string): boolean {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const hay = text.toLowerCase();
+  return words.every((w) => hay.includes(w));
+}
+
+/** File from a bucket path (bookmarks, activity) */
+function fileFromPath(path: string, title?: string, video?: boolean): PaletteFile {
+  const filename = path.split('/').pop() || path;
+  return {
+    path,
+    title: title || stripOneExtension(filename),
+    url: buildPublicUrl(path),
+    video: video ?? /\.(mp4|mov|m4v|webm)$/i.test(filename),
+    location: describePath(path),
+  };
+}
+
+/** File from a search hit (already signed in private bucket mode) */
+function fileFromHit(hit: SearchHit): PaletteFile {
+  return {
+    path: hit.path,
+    title: hit.title,
+    url: hit.url,
+    urlExpiresAt: hit.urlExpiresAt,
+    video: isVideo(hit),
+    location: hit.location,
+  };
+}
+
+export default function CommandPalette() {
+  const navigate = useNavigate();
+  const user = useAuthStore((s) => s.user);
+  const bookmarks = useBookmarkStore((s) => s.items);
+  const isBookmarked = useBookmarkStore((s) => s.isBookmarked);
+  const toggleBookmark = useBookmarkStore((s) => s.toggle);
+
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState('');
+  const [programs, setPrograms] = useState<ProgramListItem[]>([]);
+  const [recent, setRecent] = useState<RecentActivity[]>([]);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+
+  const entitled = useMemo(() => getEntitledPrograms(user), [user]);
+
+  /** Ctrl/Cmd+K toggles the palette */
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen((v) => !v);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  /** Load programs + recent activity when opened */
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    listPrograms().then(setPrograms).catch(() => setPrograms([]));
+    activityService.getRecentActivity(10).then(setRecent).catch(() => setRecent([]));
+  }, [open]);
+
+  /** Debounced server search for files */
+  useEffect(() => {
+    const term = query.trim();
+    if (!open || term.length < 2) {
+      setHits([]);
+      return;
+    }
+    let cancelled = false;
+    const t = window.setTimeout(() => {
+      searchResources({ query: term, programs: entitled, pageSize: FILE_RESULT_LIMIT })
+        .then((res) => {
+          if (!cancelled) setHits(res.hits.filter((h) => h.path));
+        })
+        .catch(() => {
+          if (!cancelled) setHits([]);
+        });
+    }, 200);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(t);
+    };
+  }, [open, query, entitled]);
+
+  const term = query.trim();
+
+  const pageItems = PAGES.filter((p) => !term || matches(p.label, term));
+  const programItems = programs.filter((p) => !term || matches(`${p.name} ${p.slug}`, term));
+  // Tab shortcuts only once the member is typing (keeps the default list short)
+  const tabItems = term
+    ? programs.flatMap((p) =>
+        PROGRAM_TABS.filter((t) => matches(`${p.name} ${p.slug} ${t.label}`, term)).map((t) => ({ program: p, ...t }))
+      )
+    : [];
+  const fileItems = hits.map(fileFromHit);
+  const bookmarkItems = bookmarks
+    .filter((b) => b.resource_type === STORAGE_FILE_RESOURCE)
+    .map((b) => fileFromPath(b.resource_id))
+    .filter((f) => !term || matches(`${f.title} ${f.location}`, term))
+    .slice(0, 8);
+  const recentItems = recent
+    .filter((r) => r.resource_path)
+    .map((r) => fileFromPath(r.resource_path as string, r.resource_name, r.activity_type === 'play'))
+    .filter((f, i, all) => all.findIndex((x) => x.path === f.path) === i)
+    .filter((f) => !term || matches(`${f.title} ${f.location}`, term))
+    .slice(0, 5);
+
+  /** Map of item value → file, for Ctrl/Cmd+Enter bookmarking */
+  const filesByValue = new Map<string, PaletteFile>();
+  fileItems.forEach((f) => filesByValue.set(`file:${f.path}`, f));
+  bookmarkItems.forEach((f) => filesByValue.set(`bookmark:${f.path}`, f));
+  recentItems.forEach((f) => filesByValue.set(`recent:${f.path}`, f));
+
+  function go(to: string) {
+    setOpen(false);
+    navigate(to);
+  }
+
+  function openFile(f: PaletteFile) {
+    setOpen(false);
+    openStorageItem({ path: f.path, url: f.url, urlExpiresAt: f.urlExpiresAt, title: f.title }, f.video ? 'play' : 'download');
+  }
+
+  /** Ctrl/Cmd+Enter on a highlighted file toggles its bookmark */
+  function onKeyDown(e: ReactKeyboardEvent) {
+    if (e.key !== 'Enter' || !(e.metaKey || e.ctrlKey)) return;
+    const file = filesByValue.get(selected);
+    if (!file) return;
+    e.preventDefault();
+    e.stopPropagation();
+    toggleBookmark(file.path);
+  }
+
+  /** Render one file row */
+  function fileRow(prefix: string, f: PaletteFile) {
+    const Icon = f.video ? Play : FileText;
+    const saved = isBookmarked(f.path);
+    return (
+      <CommandItem key={`${prefix}:${f.path}`} value={`${prefix}:${f.path}`} onSelect={() => openFile(f)}>
+        <Icon />
+        <div className="min-w-0 flex-1">
+          <div className="truncate">{f.video ? `Play ${f.title}` : `Download ${f.title}`}</div>
+          {f.location ? <div className="truncate text-xs text-muted-foreground">{f.location}</div> : null}
+        </div>
+        {saved ? <BookmarkCheck className="text-blue-600" aria-label="Bookmarked" /> : null}
+        <CommandShortcut>{saved ? '⌘↵ unbookmark' : '⌘↵ bookmark'}</CommandShortcut>
+      </CommandItem>
+    );
+  }
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={setOpen}
+      commandProps={{ shouldFilter: false, value: selected, onValueChange: setSelected, onKeyDown }}
+    >
+      <CommandInput
+        placeholder="Jump to a program, page or file…"
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList className="max-h-[420px]">
+        <CommandEmpty>{term.length >= 2 ? 'No matches.' : 'Type to search programs and files.'}</CommandEmpty>
+
+        {programItems.length > 0 ? (
+          <CommandGroup heading="Programs">
+            {programItems.map((p) => (
+              <CommandItem key={`program:${p.slug}`} value={`program:${p.slug}`} onSelect={() => go(`/program/${p.slug}`)}>
+                <FolderOpen />
+                <span className="flex-1 truncate">{p.name}</span>
+                {entitled.includes(p.slug) ? null : <span className="text-xs text-muted-foreground">Not in plan</span>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ) : null}
+
+        {tabItems.length > 0 ? (
+          <CommandGroup heading="Program tabs">
+            {tabItems.slice(0, 8).map((t) => (
+              <CommandItem
+                key={`tab:${t.program.slug}:${t.tab}`}
+                value={`tab:${t.program.slug}:${t.tab}`}
+                onSelect={() => go(`/program/${t.program.slug}?tab=${t.tab}`)}
+              >
+                <FolderOpen />
+                <span className="truncate">
+                  Open {t.program.name} — {t.label}
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ) : null}
+
+        {fileItems.length > 0 ? (
+          <CommandGroup heading="Files">{fileItems.map((f) => fileRow('file', f))}</CommandGroup>
+        ) : null}
+
+        {bookmarkItems.length > 0 ? (
+          <CommandGroup heading="Bookmarks">{bookmarkItems.map((f) => fileRow('bookmark', f))}</CommandGroup>
+        ) : null}
+
+        {recentItems.length > 0 ? (
+          <CommandGroup heading="Recent">{recentItems.map((f) => fileRow('recent', f))}</CommandGroup>
+        ) : null}
+
+        {pageItems.length > 0 ? (
+          <CommandGroup heading="Pages">
+            {pageItems.map(({ to, label, Icon }) => (
+              <CommandItem key={`page:${to}`} value={`page:${to}`} onSelect={() => go(to)}>
+                <Icon />
+                <span>{label}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ) : null}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Markdown
+ * - Purpose: Render admin-authored Markdown (program overviews) safely, as React elements from lib/markdown.
+ * - Catalog file links open through openStorageItem (signed URLs in private bucket mode, activity logged);
+ *   app routes use the router; external links open in a new tab.
+ */
+
+import { Fragment, type ReactNode } from 'react';
+import { Link } from 'react-router';
+import { AlertTriangle, Info, Lightbulb, OctagonAlert, Star } from 'lucide-react';
+import {
+  parseMarkdown,
+  type CalloutVariant,
+  type MarkdownBlock,
+  type MarkdownInline,
+  type MarkdownLink,
+} from '../../lib/markdown';
+import { openStorageItem } from '../../lib/fileActions';
+import { buildPublicUrl } from '../../services/supabaseStorage';
+
+export interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+/** Callout label, icon and colors */
+const CALLOUTS: Record<CalloutVariant, { label: string; Icon: typeof Info; className: string }> = {
+  note: { label: 'Note', Icon: Info, className: 'border-blue-200 bg-blue-50 text-blue-900' },
+  tip: { label: 'Tip', Icon: Lightbulb, className: 'border-emerald-200 bg-emerald-50 text-emerald-900' },
+  important: { label: 'Important', Icon: Star, className: 'border-violet-200 bg-violet-50 text-violet-900' },
+  warning: { label: 'Warning', Icon: AlertTriangle, className: 'border-amber-200 bg-amber-50 text-amber-900' },
+  caution: { label: 'Caution', Icon: OctagonAlert, className: 'border-red-200 bg-red-50 text-red-900' },
+};
+
+const LINK_CLASS = 'font-medium text-blue-700 underline underline-offset-2 hover:text-blue-900';
+
+function renderLink(link: MarkdownLink, children: ReactNode, key: number): ReactNode {
+  if (link.kind === 'route') {
+    return (
+      <Link key={key} to={link.to} className={LINK_CLASS}>
+        {children}
+      </Link>
+    );
+  }
+  if (link.kind === 'external') {
+    return (
+      <a key={key} href={link.url} target="_blank" rel="noopener noreferrer" className={LINK_CLASS}>
+        {children}
+      </a>
+    );
+  }
+  const url = buildPublicUrl(link.path);
+  return (
+    <a
+      key={key}
+      href={url}
+      className={LINK_CLASS}
+      onClick={(e) => {
+        e.preventDefault();
+        openStorageItem({ path: link.path, url, title: link.path.split('/').pop() });
+      }}
+    >
+      {children}
+    </a>
+  );
+}
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((n, i) => {
+    switch (n.type) {
+      case 'text':
+        return <Fragment key={i}>{n.text}</Fragment>;
+      case 'strong':
+        return <strong key={i}>{renderInline(n.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(n.children)}</em>;
+      case 'code':
+        return (
+          <code key={i} className="rounded bg-slate-100 px-1 py-0.5 font-mono text-[0.85em] text-slate-800">
+            {n.text}
+          </code>
+        );
+      case 'link':
+        return renderLink(n.link, renderInline(n.children), i);
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[]): ReactNode[] {
+  return blocks.map((b, i) => {
+    switch (b.type) {
+      case 'heading':
+        if (b.level === 1) return <h2 key={i} className="text-lg font-semibold text-slate-900">{renderInline(b.children)}</h2>;
+        if (b.level === 2) return <h3 key={i} className="text-base font-semibold text-slate-900">{renderInline(b.children)}</h3>;
+        return <h4 key={i} className="text-sm font-semibold text-slate-900">{renderInline(b.children)}</h4>;
+      case 'paragraph':
+        return <p key={i}>{renderInline(b.children)}</p>;
+      case 'list': {
+        const items = b.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+        return b.ordered ? (
+          <ol key={i} className="list-decimal space-y-1 pl-5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={i} className="list-disc space-y-1 pl-5">
+            {items}
+          </ul>
+        );
+      }
+      case 'quote':
+        return (
+          <blockquote key={i} className="space-y-2 border-l-4 border-slate-200 pl-3 text-slate-600">
+            {renderBlocks(b.blocks)}
+          </blockquote>
+        );
+      case 'callout': {
+        const { label, Icon, className } = CALLOUTS[b.variant];
+        return (
+          <div key={i} role="note" className={['rounded-md border px-3 py-2', className].join(' ')}>
+            <div className="flex items-center gap-1.5 font-semibold">
+              <Icon className="h-4 w-4 shrink-0" />
+              {b.title.length ? renderInline(b.title) : label}
+            </div>
+            {b.blocks.length ? <div className="mt-1 space-y-2">{renderBlocks(b.blocks)}</div> : null}
+          </div>
+        );
+      }
+      case 'code':
+        return (
+          <pre key={i} className="overflow-x-auto rounded-md bg-slate-900 p-3 font-mono text-xs text-slate-100">
+            {b.text}
+          </pre>
+        );
+      case 'rule':
+        return <hr key={i} className="border-slate-200" />;
+    }
+  });
+}
+
+/**
+ * Markdown component
+ */
+export default function Markdown({ source, className }: MarkdownProps) {
+  return (
+    <div className={['space-y-3 text-sm leading-relaxed text-slate-700', className || ''].join(' ')}>
+      {renderBlocks(parseMarkdown(source))}
+    </div>
+  );
+}
@@ -5,9 +5,14 @@
  *   - Sidebar remains fixed.
  *   - Main content uses a compact, desktop-first scale (smaller font + paddings).
  *   - Wider container to use horizontal space on large screens.
+ * - Hosts the global Ctrl/Cmd+K command palette and the file preview drawer.
+ * - Shows the renewal banner above the page when the member's plan is expiring or has expired (RenewalBanner).
  */
 
 import React from 'react';
+import CommandPalette from '../common/CommandPalette';
+import PreviewDrawer from '../preview/PreviewDrawer';
+import RenewalBanner from './RenewalBanner';
 
 interface AppShellProps {
   /** Left sidebar content (e.g., MemberSidebar) */
@@ -45,6 +50,8 @@ export default function AppShell({ sidebar, header, children }: AppShellProps) {
         className="min-h-screen"
         style={{ paddingLeft: sidebar ? `${SIDEBAR_WIDTH_PX}px` : undefined }}
       >
+        <RenewalBanner />
+
         {/* Optional sticky header bar (page-level) */}
         {header ? (
           <div className="sticky top-0 z-30 border-b border-slate-200 bg-white/80 backdrop-blur supports-[backdrop-filter]:bg-white/60">
@@ -57,6 +64,9 @@ export default function AppShell({ sidebar, header, children }: AppShellProps) {
           {children}
         </main>
       </div>
+
+      <CommandPalette />
+      <PreviewDrawer />
     </div>
   );
 }
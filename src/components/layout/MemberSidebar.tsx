@@ -2,10 +2,12 @@
  * MemberSidebar
  * - Purpose: App-level left sidebar for the member area (fixed inside AppShell aside).
  * - Desktop-dense pass with collapsible groups.
- * - Updated: Clinical Program labels now reflect the official names exactly.
+ * - Clinical Programs are listed from the programs table (programStore), in sort order with their icons.
  * - Change: Default collapsed state for "Clinical Programs" and "Resource Library".
  * - UX: Groups highlight as active when the current route matches, even if collapsed.
  * - New: Auto-expand "Clinical Programs" when on a program page; auto-expand "Resource Library" when on /resources.
+ * - Entitlements: programs outside the member's subscription show a lock (the page itself shows the upsell).
+ * - Admins also get a "Content Admin" link (/admin).
  */
 
 import { useState, useMemo, useEffect } from 'react';
@@ -16,40 +18,18 @@ import {
   LayoutDashboard,
   LibraryBig,
   Settings,
-  CalendarCheck,
-  ClipboardCheck,
-  Stethoscope,
-  Activity,
-  TestTubes,
   LogOut,
   FileText,
   FileSpreadsheet,
   BookText,
+  Lock,
+  FolderCog,
 } from 'lucide-react';
 import { useAuth } from '../auth/AuthContext';
 import { useAuthStore } from '../../stores/authStore';
-
-/**
- * Sidebar item descriptor
- */
-interface ProgramNavItem {
-  slug: string;
-  /** Display label shown in the sidebar */
-  label: string;
-  /** Icon component */
-  Icon: React.ComponentType<React.SVGProps<SVGSVGElement>>;
-}
-
-/**
- * Clinical Programs (labels updated to official names)
- */
-const PROGRAM_ITEMS: ProgramNavItem[] = [
-  { slug: 'timemymeds', label: 'TimeMyMeds', Icon: CalendarCheck },
-  { slug: 'mtmthefuturetoday', label: 'MTM The Future Today', Icon: ClipboardCheck },
-  { slug: 'testandtreat', label: 'Test and Treat: Strep, Flu, COVID', Icon: Stethoscope },
-  { slug: 'hba1c', label: 'HbA1c Testing', Icon: Activity },
-  { slug: 'oralcontraceptives', label: 'Oral Contraceptives', Icon: TestTubes },
-];
+import { useProgramStore } from '../../stores/programStore';
+import { isProgramEntitled } from '../../services/entitlements';
+import { iconByName } from '../../lib/icons';
 
 /**
  * MemberSidebar component (compact)
@@ -57,7 +37,13 @@ const PROGRAM_ITEMS: ProgramNavItem[] = [
 export default function MemberSidebar() {
   const location = useLocation();
   const { member } = useAuth();
-  const { logout } = useAuthStore();
+  const { logout, user } = useAuthStore();
+  const programs = useProgramStore((s) => s.programs);
+  const loadPrograms = useProgramStore((s) => s.load);
+
+  useEffect(() => {
+    loadPrograms();
+  }, [loadPrograms]);
 
   // Collapsible groups default to collapsed
   const [openPrograms, setOpenPrograms] = useState(false);
@@ -67,6 +53,7 @@ export default function MemberSidebar() {
   const isDashboard = location.pathname === '/dashboard';
   const isResources = location.pathname.startsWith('/resources');
   const isAccount = location.pathname.startsWith('/account');
+  const isAdmin = location.pathname.startsWith('/admin');
   const activeProgramSlug = (location.pathname.match(/^\/program\/([^/]+)/) || [])[1];
 
   /** Parse current resources category from query (?cat=handouts|billing|clinical) */
@@ -158,18 +145,22 @@ export default function MemberSidebar() {
           {/* Program list */}
           {openPrograms && (
             <div id="programs-group" className="mt-1 space-y-0.5 pl-2">
-              {PROGRAM_ITEMS.map(({ slug, label, Icon }) => {
+              {programs.map(({ slug, name, icon }) => {
+                const Icon = iconByName(icon);
                 const active = activeProgramSlug === slug;
+                const locked = !isProgramEntitled(user, slug);
                 return (
                   <Link
                     key={slug}
                     to={`/program/${slug}`}
-                    className={[itemBase, active ? itemActive : itemIdle, 'justify-between'].join(' ')}
+                    className={[itemBase, active ? itemActive : itemIdle, 'justify-between', locked ? 'opacity-70' : ''].join(' ')}
+                    title={locked ? 'Not included in your subscription' : undefined}
                   >
-                    <span className="inline-flex items-center gap-2">
-                      <Icon className="h-3.5 w-3.5" />
-                      <span className="truncate">{label}</span>
+                    <span className="inline-flex min-w-0 items-center gap-2">
+                      <Icon className="h-3.5 w-3.5 shrink-0" />
+                      <span className="truncate">{name}</span>
                     </span>
+                    {locked ? <Lock className="h-3 w-3 shrink-0 text-slate-500" aria-label="Locked" /> : null}
                   </Link>
                 );
               })}
@@ -264,6 +255,17 @@ export default function MemberSidebar() {
           <Settings className="h-3.5 w-3.5" />
           <span>Account Settings</span>
         </Link>
+
+        {/* Content Admin (admins only) */}
+        {user?.role === 'admin' ? (
+          <Link
+            to="/admin"
+            className={[itemBase, isAdmin ? itemActive : itemIdle, 'mt-0.5'].join(' ')}
+          >
+            <FolderCog className="h-3.5 w-3.5" />
+            <span>Content Admin</span>
+          </Link>
+        ) : null}
       </div>
 
       {/* Bottom Sign out bar */}
@@ -0,0 +1,99 @@
+/**
+ * RenewalBanner
+ * - Purpose: AppShell strip that tells members their plan is about to end, is in its grace period, or has ended
+ *   (services/subscriptionLifecycle), with a link to renew or reactivate.
+ * - Team members who do not own the team are asked to contact their owner instead.
+ * - The "Expiring" notice can be dismissed for the browser session; grace and expiry notices cannot.
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router';
+import { AlertTriangle, X } from 'lucide-react';
+import { useAuthStore } from '../../stores/authStore';
+import { getSubscriptionLifecycle } from '../../services/subscriptionLifecycle';
+
+const DISMISS_KEY = 'crxq_renewal_banner_dismissed';
+
+function readDismissed(): string | null {
+  try {
+    return sessionStorage.getItem(DISMISS_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * RenewalBanner component
+ */
+export default function RenewalBanner() {
+  const user = useAuthStore((s) => s.user);
+  const [dismissed, setDismissed] = useState(readDismissed);
+
+  const sub = user?.subscription;
+  const lifecycle = user?.role === 'admin' ? undefined : getSubscriptionLifecycle(sub);
+  if (!sub || !lifecycle || lifecycle.status === 'Active') return null;
+
+  const dismissKey = `${sub.id}:${sub.endDate.toISOString()}`;
+  const dismissible = lifecycle.status === 'Expiring';
+  if (dismissible && dismissed === dismissKey) return null;
+
+  const canManage = !user?.organization || user.organization.role === 'owner';
+  const endDate = lifecycle.endDate.toLocaleDateString();
+  const days = lifecycle.daysLeft;
+
+  let message: string;
+  if (lifecycle.status === 'Expiring') {
+    const when = days <= 0 ? 'today' : days === 1 ? 'tomorrow' : `in ${days} days`;
+    message = lifecycle.cancelled
+      ? `Your ${sub.planName} plan is cancelled and ends ${when} (${endDate}).`
+      : `Your ${sub.planName} plan expires ${when} (${endDate}).`;
+  } else if (lifecycle.inGrace) {
+    message = `Your ${sub.planName} plan expired on ${endDate}. Programs stay open until ${lifecycle.accessEndsAt.toLocaleDateString()}.`;
+  } else {
+    message = `Your ${sub.planName} plan ended on ${endDate}. Renew to unlock your programs again.`;
+  }
+
+  const action = !canManage ? null : lifecycle.cancelled && lifecycle.status === 'Expiring' ? (
+    <Link to="/account" className="font-semibold underline">
+      Reactivate
+    </Link>
+  ) : (
+    <Link to={sub.planCode ? `/enroll?plan=${encodeURIComponent(sub.planCode)}` : '/enroll'} className="font-semibold underline">
+      Renew now
+    </Link>
+  );
+
+  return (
+    <div
+      role="status"
+      className={[
+        'flex items-center gap-2 border-b px-4 py-2 text-[13px]',
+        lifecycle.status === 'Expiring'
+          ? 'border-amber-200 bg-amber-50 text-amber-900'
+          : 'border-red-200 bg-red-50 text-red-900',
+      ].join(' ')}
+    >
+      <AlertTriangle className="h-4 w-4 shrink-0" />
+      <span className="flex-1">
+        {message} {action ?? 'Ask your team owner to renew.'}
+      </span>
+      {dismissible ? (
+        <button
+          type="button"
+          aria-label="Dismiss"
+          className="rounded p-1 hover:bg-amber-100"
+          onClick={() => {
+            try {
+              sessionStorage.setItem(DISMISS_KEY, dismissKey);
+            } catch {
+              // hide for this page view only
+            }
+            setDismissed(dismissKey);
+          }}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+/**
+ * PdfViewer
+ * - Purpose: Page-by-page PDF rendering (pdf.js) for the preview drawer.
+ * - Controls: page navigation, zoom (in/out/fit width), text search with on-page highlights, print.
+ * - The worker is emitted next to the bundle as pdf.worker.js (scripts/build.mjs).
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import * as pdfjs from 'pdfjs-dist';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { ChevronLeft, ChevronRight, Minus, Plus, Printer, Search } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdf.worker.js', document.baseURI).toString();
+
+/** Zoom bounds and step */
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+
+/** Text items on a page that contain the search term */
+function matchingItems(items: TextItem[], term: string): TextItem[] {
+  const needle = term.toLowerCase();
+  return items.filter((it) => it.str.toLowerCase().includes(needle));
+}
+
+/**
+ * Print a PDF from its bytes via a same-origin blob iframe.
+ */
+function printPdf(bytes: ArrayBuffer) {
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.src = url;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Give the print dialog time to take its copy before cleaning up
+    window.setTimeout(() => {
+      frame.remove();
+      URL.revokeObjectURL(url);
+    }, 60_000);
+  };
+  document.body.appendChild(frame);
+}
+
+export default function PdfViewer({ data }: { data: ArrayBuffer }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renderTaskRef = useRef<RenderTask | null>(null);
+
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState<number | 'fit'>('fit');
+  const [effectiveScale, setEffectiveScale] = useState(1);
+
+  const [term, setTerm] = useState('');
+  /** Term of the last completed search (drives highlights) */
+  const [searchTerm, setSearchTerm] = useState('');
+  const [matchPages, setMatchPages] = useState<number[] | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  /** Load the document (pdf.js takes ownership of the buffer, so give it a copy) */
+  useEffect(() => {
+    let cancelled = false;
+    const task = pdfjs.getDocument({ data: data.slice(0) });
+    task.promise
+      .then((pdf) => {
+        if (cancelled) return;
+        setDoc(pdf);
+        setPageNumber(1);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Could not open this PDF.');
+      });
+    return () => {
+      cancelled = true;
+      task.destroy();
+    };
+  }, [data]);
+
+  /** Render the current page (and search highlights) */
+  useEffect(() => {
+    if (!doc || !canvasRef.current) return;
+    let cancelled = false;
+
+    (async () => {
+      const page = await doc.getPage(pageNumber);
+      if (cancelled) return;
+      const base = page.getViewport({ scale: 1 });
+      const width = (containerRef.current?.clientWidth || base.width) - 16;
+      const nextScale = scale === 'fit' ? Math.max(MIN_SCALE, Math.min(MAX_SCALE, width / base.width)) : scale;
+      setEffectiveScale(nextScale);
+
+      const viewport = page.getViewport({ scale: nextScale });
+      const ratio = window.devicePixelRatio || 1;
+      const canvas = canvasRef.current!;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      renderTaskRef.current?.cancel();
+      const task = page.render({
+        canvasContext: ctx,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+      renderTaskRef.current = task;
+      try {
+        await task.promise;
+      } catch {
+        return; // cancelled by a newer render
+      }
+      if (cancelled || !searchTerm) return;
+
+      // Highlight matching text runs
+      const content = await page.getTextContent();
+      const hits = matchingItems(content.items.filter((i): i is TextItem => 'str' in i), searchTerm);
+      ctx.save();
+      ctx.scale(ratio, ratio);
+      ctx.fillStyle = 'rgba(250, 204, 21, 0.35)';
+      for (const it of hits) {
+        const [x, y] = [it.transform[4], it.transform[5]];
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y, x + it.width, y + it.height]);
+        ctx.fillRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+      }
+      ctx.restore();
+    })().catch((e) => {
+      if (!cancelled) setError(e instanceof Error ? e.message : 'Could not show this page.');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [doc, pageNumber, scale, searchTerm]);
+
+  /** Find pages containing the term */
+  async function runSearch() {
+    const q = term.trim();
+    if (!doc || !q) {
+      setMatchPages(null);
+      setSearchTerm('');
+      return;
+    }
+    setSearching(true);
+    try {
+      const pages: number[] = [];
+      for (let n = 1; n <= doc.numPages; n++) {
+        const content = await (await doc.getPage(n)).getTextContent();
+        const text = content.items.map((i) => ('str' in i ? i.str : '')).join(' ');
+        if (text.toLowerCase().includes(q.toLowerCase())) pages.push(n);
+      }
+      setMatchPages(pages);
+      setSearchTerm(q);
+      if (pages.length && !pages.includes(pageNumber)) setPageNumber(pages[0]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not search this PDF.');
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  /** Jump to the next/previous page with a match */
+  function jumpMatch(dir: 1 | -1) {
+    if (!matchPages?.length) return;
+    const next =
+      dir === 1
+        ? matchPages.find((p) => p > pageNumber) ?? matchPages[0]
+        : [...matchPages].reverse().find((p) => p < pageNumber) ?? matchPages[matchPages.length - 1];
+    setPageNumber(next);
+  }
+
+  function zoom(delta: number) {
+    const current = scale === 'fit' ? effectiveScale : scale;
+    setScale(Math.max(MIN_SCALE, Math.min(MAX_SCALE, Math.round((current + delta) * 100) / 100)));
+  }
+
+  if (error) return <div className="p-4 text-sm text-red-600">{error}</div>;
+
+  const numPages = doc?.numPages ?? 0;
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 bg-transparent px-2"
+          disabled={pageNumber <= 1}
+          onClick={() => setPageNumber((p) => Math.max(1, p - 1))}
+          aria-label="Previous page"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-xs text-slate-600">
+          Page{' '}
+          <input
+            type="number"
+            min={1}
+            max={numPages || 1}
+            value={pageNumber}
+            onChange={(e) => {
+              const n = Number(e.target.value);
+              if (n >= 1 && n <= numPages) setPageNumber(n);
+            }}
+            className="w-12 rounded border border-slate-200 px-1 py-0.5 text-center text-xs"
+            aria-label="Page number"
+          />{' '}
+          of {numPages || '…'}
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 bg-transparent px-2"
+          disabled={pageNumber >= numPages}
+          onClick={() => setPageNumber((p) => Math.min(numPages, p + 1))}
+          aria-label="Next page"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+
+        <div className="mx-1 h-5 w-px bg-slate-200" />
+
+        <Button size="sm" variant="outline" className="h-8 bg-transparent px-2" onClick={() => zoom(-SCALE_STEP)} aria-label="Zoom out">
+          <Minus className="h-4 w-4" />
+        </Button>
+        <span className="w-12 text-center text-xs text-slate-600">{Math.round(effectiveScale * 100)}%</span>
+        <Button size="sm" variant="outline" className="h-8 bg-transparent px-2" onClick={() => zoom(SCALE_STEP)} aria-label="Zoom in">
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant={scale === 'fit' ? 'secondary' : 'outline'}
+          className="h-8 px-2 text-xs"
+          onClick={() => setScale('fit')}
+        >
+          Fit width
+        </Button>
+
+        <div className="mx-1 h-5 w-px bg-slate-200" />
+
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (matchPages && term.trim()) jumpMatch(1);
+            else runSearch();
+          }}
+        >
+          <div className="relative">
+            <Search className="pointer-events-none absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400" />
+            <Input
+              value={term}
+              onChange={(e) => {
+                setTerm(e.target.value);
+                setMatchPages(null);
+                setSearchTerm('');
+              }}
+              placeholder="Find in document"
+              className="h-8 w-44 pl-7 text-xs"
+            />
+          </div>
+          {matchPages ? (
+            <>
+              <span className="text-xs text-slate-600">
+                {matchPages.length ? `${matchPages.length} page${matchPages.length === 1 ? '' : 's'}` : 'No matches'}
+              </span>
+              <Button type="button" size="sm" variant="outline" className="h-8 bg-transparent px-2" onClick={() => jumpMatch(-1)} disabled={!matchPages.length} aria-label="Previous match">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button type="button" size="sm" variant="outline" className="h-8 bg-transparent px-2" onClick={() => jumpMatch(1)} disabled={!matchPages.length} aria-label="Next match">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </>
+          ) : (
+            <Button type="submit" size="sm" variant="outline" className="h-8 bg-transparent px-2 text-xs" disabled={!doc || searching}>
+              {searching ? 'Searching…' : 'Find'}
+            </Button>
+          )}
+        </form>
+
+        <Button size="sm" variant="outline" className="ml-auto h-8 bg-transparent px-2" onClick={() => printPdf(data)}>
+          <Printer className="mr-1.5 h-4 w-4" />
+          Print
+        </Button>
+      </div>
+
+      {/* Page */}
+      <div ref={containerRef} className="min-h-0 flex-1 overflow-auto bg-slate-100 p-2">
+        {!doc ? <div className="p-4 text-sm text-slate-600">Loading PDF…</div> : null}
+        <canvas ref={canvasRef} className="mx-auto block bg-white shadow" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * PreviewDrawer
+ * - Purpose: In-app file preview (right-side drawer) so staff can read a file without leaving the page.
+ * - PDFs render page-by-page (PdfViewer); xlsx/xls/csv render as a table (SpreadsheetViewer).
+ * - Other types show a short note with a Download button.
+ * - Driven by usePreviewStore; mounted once by AppShell.
+ */
+
+import { useEffect, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '../ui/sheet';
+import { Button } from '../ui/button';
+import { usePreviewStore } from '../../stores/previewStore';
+import { resolveFileUrl } from '../../services/signedUrls';
+import { isPdf, isSpreadsheet, type StorageFileItem } from '../../services/supabaseStorage';
+import { describePath } from '../../services/storageCatalog';
+import { openStorageItem } from '../../lib/fileActions';
+import PdfViewer from './PdfViewer';
+import SpreadsheetViewer from './SpreadsheetViewer';
+
+/**
+ * Whether the drawer can render this file inline.
+ */
+export function canPreview(item: StorageFileItem): boolean {
+  return isPdf(item) || isSpreadsheet(item);
+}
+
+/**
+ * Download the file bytes (fresh signed URL in private bucket mode).
+ */
+async function fetchBytes(item: StorageFileItem): Promise<ArrayBuffer> {
+  const url = await resolveFileUrl(item);
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not load the file (${res.status}).`);
+  return res.arrayBuffer();
+}
+
+export default function PreviewDrawer() {
+  const item = usePreviewStore((s) => s.item);
+  const close = usePreviewStore((s) => s.close);
+
+  const [data, setData] = useState<ArrayBuffer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setData(null);
+    setError(null);
+    if (!item || !canPreview(item)) return;
+    let cancelled = false;
+    fetchBytes(item)
+      .then((bytes) => {
+        if (!cancelled) setData(bytes);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Could not load the file.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [item]);
+
+  function download() {
+    if (item) openStorageItem(item, 'download');
+  }
+
+  return (
+    <Sheet open={!!item} onOpenChange={(open) => (open ? undefined : close())}>
+      <SheetContent side="right" className="flex w-full flex-col gap-0 p-0 sm:max-w-3xl">
+        <SheetHeader className="border-b px-4 py-3 pr-12 text-left">
+          <SheetTitle className="truncate text-base">{item?.title || item?.filename || 'Preview'}</SheetTitle>
+          <SheetDescription className="flex items-center justify-between gap-2 text-xs">
+            <span className="truncate">{item ? describePath(item.path) : ''}</span>
+            <Button size="sm" variant="outline" className="h-7 shrink-0 bg-transparent px-2 text-xs" onClick={download}>
+              <Download className="mr-1.5 h-3.5 w-3.5" />
+              Download
+            </Button>
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="min-h-0 flex-1">
+          {!item ? null : !canPreview(item) ? (
+            <div className="space-y-3 p-4 text-sm text-slate-600">
+              <p>Preview isn’t available for this file type.</p>
+              <Button onClick={download}>
+                <Download className="mr-2 h-4 w-4" />
+                Download {item.filename}
+              </Button>
+            </div>
+          ) : error ? (
+            <div className="space-y-3 p-4 text-sm">
+              <p className="text-red-600">{error}</p>
+              <Button variant="outline" className="bg-transparent" onClick={download}>
+                <Download className="mr-2 h-4 w-4" />
+                Download instead
+              </Button>
+            </div>
+          ) : !data ? (
+            <div className="p-4 text-sm text-slate-600">Loading preview…</div>
+          ) : isPdf(item) ? (
+            <PdfViewer data={data} />
+          ) : (
+            <SpreadsheetViewer data={data} isCsv={item.filename.toLowerCase().endsWith('.csv')} />
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * SpreadsheetViewer
+ * - Purpose: Read-only table view of xlsx/xls/csv files (SheetJS) for the preview drawer.
+ * - One tab per worksheet; large sheets are capped to keep the drawer responsive.
+ * - SheetJS comes from its CDN tarball (package.json): the npm "xlsx" release stopped at 0.18.5 with known advisories.
+ */
+
+import { useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+
+/** Max rows rendered per sheet */
+const MAX_ROWS = 500;
+
+export default function SpreadsheetViewer({ data, isCsv }: { data: ArrayBuffer; isCsv: boolean }) {
+  /** Parse once per file */
+  const parsed = useMemo(() => {
+    try {
+      const workbook = isCsv
+        ? XLSX.read(new TextDecoder().decode(data), { type: 'string' })
+        : XLSX.read(new Uint8Array(data), { type: 'array' });
+      return {
+        workbook,
+        error: null as string | null,
+      };
+    } catch (e) {
+      return { workbook: null, error: e instanceof Error ? e.message : 'Could not read this spreadsheet.' };
+    }
+  }, [data, isCsv]);
+
+  const sheetNames = parsed.workbook?.SheetNames ?? [];
+  const [sheet, setSheet] = useState(0);
+
+  const rows = useMemo(() => {
+    const ws = parsed.workbook?.Sheets[sheetNames[sheet]];
+    if (!ws) return [] as unknown[][];
+    return XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, blankrows: false, defval: '' });
+  }, [parsed, sheet, sheetNames]);
+
+  if (parsed.error) return <div className="p-4 text-sm text-red-600">{parsed.error}</div>;
+
+  const [head, ...body] = rows;
+  const columns = rows.reduce((max, r) => Math.max(max, r.length), 0);
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      {sheetNames.length > 1 ? (
+        <div className="flex flex-wrap gap-1 border-b px-3 py-2" role="tablist" aria-label="Worksheets">
+          {sheetNames.map((name, i) => (
+            <button
+              key={name}
+              type="button"
+              role="tab"
+              aria-selected={i === sheet}
+              onClick={() => setSheet(i)}
+              className={[
+                'rounded-md px-2.5 py-1 text-xs',
+                i === sheet ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50',
+              ].join(' ')}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="min-h-0 flex-1 overflow-auto">
+        {rows.length === 0 ? (
+          <div className="p-4 text-sm text-slate-600">This sheet is empty.</div>
+        ) : (
+          <table className="min-w-full border-collapse text-xs">
+            <thead className="sticky top-0 bg-slate-100">
+              <tr>
+                {Array.from({ length: columns }, (_, c) => (
+                  <th key={c} className="border border-slate-200 px-2 py-1 text-left font-semibold text-slate-700">
+                    {String(head?.[c] ?? '')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {body.slice(0, MAX_ROWS).map((r, i) => (
+                <tr key={i} className="odd:bg-white even:bg-slate-50">
+                  {Array.from({ length: columns }, (_, c) => (
+                    <td key={c} className="whitespace-nowrap border border-slate-200 px-2 py-1 text-slate-700">
+                      {String(r[c] ?? '')}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {body.length > MAX_ROWS ? (
+          <div className="p-2 text-xs text-slate-500">
+            Showing the first {MAX_ROWS} of {body.length} rows. Download the file to see everything.
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
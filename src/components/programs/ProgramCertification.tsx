@@ -0,0 +1,202 @@
+/**
+ * ProgramCertification
+ * - Purpose: Quizzes and the certificate of completion for a program (ProgramDetail → Training tab).
+ * - Lists the program's quizzes (with the module each follows) and the member's best result / attempts left.
+ * - Once every module is complete and every quiz is passed, the member can issue and download the certificate.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Award, CheckCircle2, Circle, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import QuizDialog from './QuizDialog';
+import { useProgramProgress } from '../../stores/progressStore';
+import { quizService, type Certificate, type Quiz, type QuizAttempt, type QuizGrade } from '../../services/supabase';
+import { downloadCertificate } from '../../lib/certificate';
+
+export interface ProgramCertificationProps {
+  programSlug: string;
+  programName: string;
+  /** Module path → display title (labels module-level quizzes) */
+  moduleTitles: Record<string, string>;
+}
+
+export default function ProgramCertification({ programSlug, programName, moduleTitles }: ProgramCertificationProps) {
+  const progress = useProgramProgress(programSlug);
+
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [activeQuiz, setActiveQuiz] = useState<Quiz | null>(null);
+  const [issuing, setIssuing] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const list = await quizService.getQuizzes(programSlug);
+      const [tries, certs] = await Promise.all([
+        quizService.getAttempts(list.map((q) => q.id)),
+        quizService.getCertificates(),
+      ]);
+      setQuizzes(list);
+      setAttempts(tries);
+      setCertificate(certs.find((c) => c.program_slug === programSlug) ?? null);
+    } catch {
+      // quizzes are optional; the section hides itself
+    } finally {
+      setLoaded(true);
+    }
+  }, [programSlug]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /** Attempts per quiz */
+  const byQuiz = useMemo(() => {
+    const map: Record<string, QuizAttempt[]> = {};
+    for (const a of attempts) (map[a.quiz_id] ||= []).push(a);
+    return map;
+  }, [attempts]);
+
+  const passedCount = quizzes.filter((q) => byQuiz[q.id]?.some((a) => a.passed)).length;
+  const modulesDone = progress.total === progress.completed;
+  const eligible = modulesDone && passedCount === quizzes.length && progress.total + quizzes.length > 0;
+
+  function handleGraded(grade: QuizGrade) {
+    if (!activeQuiz) return;
+    const attempt: QuizAttempt = {
+      id: grade.attempt_id,
+      user_id: '',
+      quiz_id: activeQuiz.id,
+      answers: {},
+      score: grade.score,
+      passed: grade.passed,
+      created_at: new Date().toISOString(),
+    };
+    setAttempts((list) => [attempt, ...list]);
+  }
+
+  async function issue() {
+    setIssuing(true);
+    try {
+      const cert = await quizService.issueCertificate(programSlug, programName);
+      setCertificate(cert);
+      downloadCertificate(cert);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Could not issue the certificate.');
+    } finally {
+      setIssuing(false);
+    }
+  }
+
+  if (!loaded || (quizzes.length === 0 && progress.total === 0 && !certificate)) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Award className="h-5 w-5 text-blue-600" />
+          Assessment &amp; Certificate
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Quizzes */}
+        {quizzes.length ? (
+          <div className="space-y-2">
+            {quizzes.map((q) => {
+              const tries = byQuiz[q.id] || [];
+              const passed = tries.some((a) => a.passed);
+              const best = tries.reduce((max, a) => Math.max(max, a.score), 0);
+              const left = q.max_attempts == null ? null : Math.max(0, q.max_attempts - tries.length);
+              const after = q.module_path ? moduleTitles[q.module_path] : undefined;
+              return (
+                <div key={q.id} className="flex flex-wrap items-center justify-between gap-3 rounded-md border bg-white px-4 py-3">
+                  <div className="min-w-0">
+                    <div className="truncate text-sm font-medium text-slate-900">{q.title}</div>
+                    <div className="text-[11px] text-slate-500">
+                      {after ? `After “${after}” • ` : q.module_path ? '' : 'Final assessment • '}
+                      Pass at {q.passing_score}%
+                      {left !== null ? ` • ${left} attempt${left === 1 ? '' : 's'} left` : ''}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-3">
+                    {tries.length ? (
+                      <Badge variant={passed ? 'default' : 'secondary'} className="text-[11px]">
+                        {passed ? 'Passed' : 'Best'} {best}%
+                      </Badge>
+                    ) : null}
+                    {!passed ? (
+                      <Button className="h-8 px-3" onClick={() => setActiveQuiz(q)} disabled={left === 0}>
+                        {tries.length ? 'Retake quiz' : 'Take quiz'}
+                      </Button>
+                    ) : null}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : null}
+
+        {/* Requirements + certificate */}
+        <div className="rounded-md border border-dashed bg-slate-50 p-4 text-sm">
+          <ul className="space-y-1.5">
+            <li className="flex items-center gap-2">
+              {modulesDone ? (
+                <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+              ) : (
+                <Circle className="h-4 w-4 text-slate-400" />
+              )}
+              Training modules: {progress.completed} of {progress.total} complete
+            </li>
+            {quizzes.length ? (
+              <li className="flex items-center gap-2">
+                {passedCount === quizzes.length ? (
+                  <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+                ) : (
+                  <Circle className="h-4 w-4 text-slate-400" />
+                )}
+                Quizzes: {passedCount} of {quizzes.length} passed
+              </li>
+            ) : null}
+          </ul>
+
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            {certificate ? (
+              <>
+                <Button onClick={() => downloadCertificate(certificate)}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download certificate
+                </Button>
+                <span className="text-xs text-slate-600">
+                  No. {certificate.certificate_number} • completed {new Date(certificate.completed_at).toLocaleDateString()}
+                </span>
+              </>
+            ) : (
+              <>
+                <Button onClick={issue} disabled={!eligible || issuing}>
+                  <Award className="mr-2 h-4 w-4" />
+                  {issuing ? 'Issuing…' : 'Get certificate'}
+                </Button>
+                {!eligible ? (
+                  <span className="text-xs text-slate-600">
+                    Complete every module{quizzes.length ? ' and pass every quiz' : ''} to earn your certificate.
+                  </span>
+                ) : null}
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+
+      <QuizDialog
+        quiz={activeQuiz}
+        attemptsUsed={activeQuiz ? (byQuiz[activeQuiz.id] || []).length : 0}
+        onClose={() => setActiveQuiz(null)}
+        onGraded={handleGraded}
+      />
+    </Card>
+  );
+}
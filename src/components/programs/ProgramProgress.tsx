@@ -0,0 +1,66 @@
+/**
+ * ProgramProgress
+ * - Purpose: Training progress bar for a program ("3 of 8 modules complete") with the next required module.
+ * - Used on MemberContent and Dashboard program cards and in the ProgramDetail hero.
+ * - Renders nothing until the program has training modules in the catalog.
+ */
+
+import { Link } from 'react-router';
+import { CheckCircle2 } from 'lucide-react';
+import { Progress } from '../ui/progress';
+import { useProgramProgress } from '../../stores/progressStore';
+
+export default function ProgramProgress({
+  slug,
+  showNext = true,
+  linkNext = true,
+  className = '',
+  tone = 'default',
+}: {
+  slug: string;
+  /** Show the "Next: ..." pointer */
+  showNext?: boolean;
+  /** Link the pointer to the module (off when the whole card is already a link) */
+  linkNext?: boolean;
+  className?: string;
+  /** 'light' for gradient backgrounds */
+  tone?: 'default' | 'light';
+}) {
+  const progress = useProgramProgress(slug);
+  if (progress.total === 0) return null;
+
+  const light = tone === 'light';
+  const done = progress.completed === progress.total;
+
+  return (
+    <div className={className}>
+      <div className={`mb-1 flex items-center justify-between text-[12px] ${light ? 'text-white/90' : 'text-slate-600'}`}>
+        <span className="flex items-center gap-1">
+          {done ? <CheckCircle2 className={`h-3.5 w-3.5 ${light ? 'text-white' : 'text-emerald-600'}`} /> : null}
+          {progress.completed} of {progress.total} modules complete
+        </span>
+        <span>{progress.percent}%</span>
+      </div>
+      <Progress
+        value={progress.percent}
+        className={light ? 'h-1.5 bg-white/25 [&>div]:bg-white' : 'h-1.5 bg-slate-100 [&>div]:bg-blue-600'}
+        aria-label="Training progress"
+      />
+      {showNext && progress.next ? (
+        <div className={`mt-1.5 truncate text-[12px] ${light ? 'text-white/90' : 'text-slate-600'}`}>
+          Next:{' '}
+          {linkNext ? (
+            <Link
+              to={`/program/${encodeURIComponent(slug)}?tab=training&module=${encodeURIComponent(progress.next.path)}`}
+              className={light ? 'font-medium underline' : 'font-medium text-blue-700 hover:underline'}
+            >
+              {progress.next.title}
+            </Link>
+          ) : (
+            <span className="font-medium text-slate-800">{progress.next.title}</span>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
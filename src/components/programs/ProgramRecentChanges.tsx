@@ -0,0 +1,62 @@
+/**
+ * ProgramRecentChanges
+ * - Purpose: Recent uploads and replacements in a program (ProgramDetail → Overview tab).
+ * - Each entry shows the file title, version label, change note and date; entries newer than the member's
+ *   previous visit are marked "New since your last visit".
+ */
+
+import { History } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import type { FileChange } from '../../services/supabase';
+
+export interface ProgramRecentChangesProps {
+  changes: FileChange[];
+  /** Member's previous visit (null on the first visit) */
+  lastVisit: string | null;
+  /** Jump to the file's tab */
+  onOpen?: (change: FileChange) => void;
+}
+
+/**
+ * ProgramRecentChanges component
+ */
+export default function ProgramRecentChanges({ changes, lastVisit, onOpen }: ProgramRecentChangesProps) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center gap-2 text-sm font-semibold text-slate-900">
+        <History className="h-4 w-4 text-blue-600" />
+        Recent changes
+      </div>
+      <ul className="divide-y rounded-md border bg-white">
+        {changes.map((c) => {
+          const fresh = !!lastVisit && Date.parse(c.created_at) > Date.parse(lastVisit);
+          return (
+            <li key={c.id} className="px-3 py-2.5 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <button
+                  type="button"
+                  className="min-w-0 truncate text-left font-medium text-slate-900 hover:underline disabled:no-underline"
+                  onClick={() => onOpen?.(c)}
+                  disabled={!onOpen}
+                >
+                  {c.title}
+                </button>
+                <div className="flex shrink-0 items-center gap-2 text-[11px] text-slate-500">
+                  {fresh ? <Badge className="px-1.5 py-0 text-[10px]">New since your last visit</Badge> : null}
+                  {new Date(c.created_at).toLocaleDateString()}
+                </div>
+              </div>
+              <div className="text-xs text-slate-600">
+                {c.kind === 'replace' ? 'Updated' : 'Added'}
+                {c.version_label ? ` • version ${c.version_label}` : ''}
+                {c.change_note ? ` — ${c.change_note}` : ''}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
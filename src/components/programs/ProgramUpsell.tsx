@@ -0,0 +1,52 @@
+/**
+ * ProgramUpsell
+ * - Purpose: Shown in place of program content when the member's subscription does not include the program.
+ * - Links to /enroll with the program preselected.
+ */
+
+import { Link } from 'react-router';
+import { Lock } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card, CardContent } from '../ui/card';
+
+interface ProgramUpsellProps {
+  /** Program slug (used to preselect the enrollment plan) */
+  slug: string;
+  /** Friendly program name */
+  name: string;
+  /** Optional program description */
+  description?: string;
+}
+
+/**
+ * ProgramUpsell component
+ */
+export default function ProgramUpsell({ slug, name, description }: ProgramUpsellProps) {
+  return (
+    <Card className="overflow-hidden">
+      <div className="h-1 bg-gradient-to-r from-blue-600 via-cyan-500 to-teal-300" />
+      <CardContent className="flex flex-col items-center gap-3 px-6 py-10 text-center">
+        <div className="flex h-12 w-12 items-center justify-center rounded-full bg-gradient-to-br from-blue-600 via-cyan-500 to-teal-300">
+          <Lock className="h-6 w-6 text-white" />
+        </div>
+        <h2 className="text-lg font-semibold text-slate-900">{name} is not part of your subscription</h2>
+        <p className="max-w-xl text-sm text-slate-600">
+          {description ||
+            'Add this program to unlock its training modules, protocol manuals, documentation forms, and resources.'}
+        </p>
+        <div className="mt-2 flex gap-2">
+          <Link to={`/enroll?program=${encodeURIComponent(slug)}`}>
+            <Button className="bg-gradient-to-r from-blue-600 via-cyan-500 to-teal-300 hover:opacity-90">
+              Add this program
+            </Button>
+          </Link>
+          <Link to="/member-content">
+            <Button variant="outline" className="bg-transparent">
+              Back to programs
+            </Button>
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * QuizDialog
+ * - Purpose: Take a continuing-education quiz (multiple choice and select-all-that-apply questions).
+ * - Answers are graded server-side (quizService.submitAttempt); the result shows the score,
+ *   pass/fail against the quiz's passing score, which questions were right, and attempts left.
+ */
+
+import { useEffect, useState } from 'react';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { quizService, type Quiz, type QuizGrade, type QuizQuestion } from '../../services/supabase';
+
+export interface QuizDialogProps {
+  quiz: Quiz | null;
+  /** Attempts already used (before this dialog opened) */
+  attemptsUsed: number;
+  onClose: () => void;
+  onGraded: (grade: QuizGrade) => void;
+}
+
+export default function QuizDialog({ quiz, attemptsUsed, onClose, onGraded }: QuizDialogProps) {
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, string[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [grade, setGrade] = useState<QuizGrade | null>(null);
+
+  /** Load questions whenever a quiz is opened */
+  useEffect(() => {
+    if (!quiz) return;
+    let cancelled = false;
+    setQuestions([]);
+    setAnswers({});
+    setGrade(null);
+    setError(null);
+    setLoading(true);
+    quizService
+      .getQuestions(quiz.id)
+      .then((rows) => {
+        if (!cancelled) setQuestions(rows);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load this quiz.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [quiz]);
+
+  const used = grade ? grade.attempts_used : attemptsUsed;
+  const max = quiz?.max_attempts ?? null;
+  const attemptsLeft = max === null ? null : Math.max(0, max - used);
+  const answeredAll = questions.length > 0 && questions.every((q) => (answers[q.id] || []).length > 0);
+
+  function choose(q: QuizQuestion, optionId: string, checked = true) {
+    setAnswers((a) => {
+      if (q.kind === 'single') return { ...a, [q.id]: [optionId] };
+      const current = new Set(a[q.id] || []);
+      if (checked) current.add(optionId);
+      else current.delete(optionId);
+      return { ...a, [q.id]: Array.from(current) };
+    });
+  }
+
+  async function submit() {
+    if (!quiz) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await quizService.submitAttempt(quiz.id, answers);
+      setGrade(result);
+      onGraded(result);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not submit the quiz.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  function retake() {
+    setAnswers({});
+    setGrade(null);
+    setError(null);
+  }
+
+  const correct = new Set(grade?.correct_question_ids ?? []);
+
+  return (
+    <Dialog open={!!quiz} onOpenChange={(open) => (open ? undefined : onClose())}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{quiz?.title}</DialogTitle>
+          <DialogDescription>
+            Passing score {quiz?.passing_score}%
+            {max !== null ? ` • ${attemptsLeft} of ${max} attempt${max === 1 ? '' : 's'} left` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {quiz?.description ? <p className="text-sm text-slate-700">{quiz.description}</p> : null}
+
+        {grade ? (
+          <div
+            className={[
+              'rounded-md border p-4 text-sm',
+              grade.passed ? 'border-emerald-200 bg-emerald-50 text-emerald-800' : 'border-amber-200 bg-amber-50 text-amber-800',
+            ].join(' ')}
+          >
+            <div className="text-base font-semibold">
+              {grade.passed ? 'Passed' : 'Not passed'} — {grade.score}%
+            </div>
+            <div>
+              {correct.size} of {questions.length} correct.
+              {!grade.passed && attemptsLeft === 0 ? ' No attempts left; contact your administrator.' : ''}
+            </div>
+          </div>
+        ) : null}
+
+        {loading ? (
+          <div className="py-6 text-sm text-slate-600">Loading questions…</div>
+        ) : questions.length === 0 && !error ? (
+          <div className="py-6 text-sm text-slate-600">This quiz has no questions yet.</div>
+        ) : (
+          <ol className="space-y-5">
+            {questions.map((q, n) => (
+              <li key={q.id} className="space-y-2">
+                <div className="flex items-start gap-2 text-sm font-medium text-slate-900">
+                  {grade ? (
+                    correct.has(q.id) ? (
+                      <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-emerald-600" aria-label="Correct" />
+                    ) : (
+                      <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" aria-label="Incorrect" />
+                    )
+                  ) : null}
+                  <span>
+                    {n + 1}. {q.prompt}
+                    {q.kind === 'multiple' ? (
+                      <span className="ml-1 font-normal text-slate-500">(select all that apply)</span>
+                    ) : null}
+                  </span>
+                </div>
+                {q.kind === 'single' ? (
+                  <RadioGroup
+                    value={answers[q.id]?.[0] ?? ''}
+                    onValueChange={(v) => choose(q, v)}
+                    disabled={!!grade}
+                    className="pl-6"
+                  >
+                    {q.options.map((o) => (
+                      <label key={o.id} className="flex items-center gap-2 text-sm text-slate-700">
+                        <RadioGroupItem value={o.id} />
+                        {o.text}
+                      </label>
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  <div className="grid gap-2 pl-6">
+                    {q.options.map((o) => (
+                      <label key={o.id} className="flex items-center gap-2 text-sm text-slate-700">
+                        <Checkbox
+                          checked={(answers[q.id] || []).includes(o.id)}
+                          onCheckedChange={(c) => choose(q, o.id, c === true)}
+                          disabled={!!grade}
+                        />
+                        {o.text}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {error ? <div className="text-sm text-red-600">{error}</div> : null}
+
+        <DialogFooter>
+          <Button variant="outline" className="bg-transparent" onClick={onClose}>
+            Close
+          </Button>
+          {grade ? (
+            !grade.passed && attemptsLeft !== 0 ? <Button onClick={retake}>Retake quiz</Button> : null
+          ) : (
+            <Button onClick={submit} disabled={!answeredAll || submitting || attemptsLeft === 0}>
+              {submitting ? 'Submitting…' : 'Submit answers'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
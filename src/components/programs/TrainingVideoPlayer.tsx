@@ -0,0 +1,335 @@
+/**
+ * TrainingVideoPlayer
+ * - Purpose: In-app player for a program's training videos (ProgramDetail → Training tab).
+ * - Resumes from the member's saved position (video_progress) and saves it while watching.
+ * - Playback speed, WebVTT captions (sidecar files), and "next module" autoplay with a short countdown.
+ * - Private bucket mode: an expired signed URL is re-signed on playback error and the position restored.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { SkipForward, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { resolveFileUrl } from '../../services/signedUrls';
+import { activityService, videoProgressService } from '../../services/supabase';
+import { programSlugFromPath } from '../../services/storageCatalog';
+import type { StorageFileItem } from '../../services/supabaseStorage';
+import type { CaptionTrack } from '../../lib/media';
+
+/** Save the position at most this often while playing */
+const SAVE_INTERVAL_MS = 10_000;
+
+/** Seconds before "next module" starts */
+const AUTOPLAY_COUNTDOWN = 5;
+
+/** Positions this close to the end count as finished (no resume) */
+const END_MARGIN_SECONDS = 5;
+
+const SPEEDS = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+/** localStorage keys for player preferences */
+const RATE_KEY = 'crxq_playback_rate';
+const AUTOPLAY_KEY = 'crxq_autoplay_next';
+
+function readPref(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writePref(key: string, value: string) {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // ignore
+  }
+}
+
+export interface TrainingVideoPlayerProps {
+  video: StorageFileItem;
+  captions: CaptionTrack[];
+  /** Saved position to resume from */
+  startAt?: number;
+  /** Already watched to the end once (stays completed on rewatch) */
+  completed?: boolean;
+  /** Next module in sort order, if any */
+  next?: StorageFileItem;
+  onNext: () => void;
+  onClose: () => void;
+  /** Called whenever the position is saved (keeps list progress in sync) */
+  onProgress?: (path: string, positionSeconds: number, durationSeconds: number, completed: boolean) => void;
+}
+
+export default function TrainingVideoPlayer({
+  video,
+  captions,
+  startAt,
+  completed: watched = false,
+  next,
+  onNext,
+  onClose,
+  onProgress,
+}: TrainingVideoPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastSavedRef = useRef(0);
+  const loggedRef = useRef(false);
+  const retriedRef = useRef(false);
+  const resumeAtRef = useRef<number | undefined>(startAt);
+
+  const [src, setSrc] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [trackUrls, setTrackUrls] = useState<Array<CaptionTrack & { url: string }>>([]);
+  const [rate, setRate] = useState<number>(() => Number(readPref(RATE_KEY)) || 1);
+  const [autoplayNext, setAutoplayNext] = useState<boolean>(() => readPref(AUTOPLAY_KEY) !== 'false');
+  const [countdown, setCountdown] = useState<number | null>(null);
+
+  /** Resolve the video URL for a new video */
+  useEffect(() => {
+    let cancelled = false;
+    setSrc('');
+    setError(null);
+    setCountdown(null);
+    loggedRef.current = false;
+    retriedRef.current = false;
+    resumeAtRef.current = startAt;
+    resolveFileUrl(video)
+      .then((url) => {
+        if (!cancelled) setSrc(url);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'This video is not available right now.');
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [video.path]);
+
+  /** Load caption sidecars as same-origin blob URLs (avoids cross-origin <track> restrictions) */
+  useEffect(() => {
+    let cancelled = false;
+    const created: string[] = [];
+    Promise.all(
+      captions.map(async (c) => {
+        try {
+          const res = await fetch(await resolveFileUrl(c.item));
+          if (!res.ok) return null;
+          const url = URL.createObjectURL(new Blob([await res.text()], { type: 'text/vtt' }));
+          created.push(url);
+          return { ...c, url };
+        } catch {
+          return null;
+        }
+      })
+    ).then((tracks) => {
+      if (!cancelled) setTrackUrls(tracks.filter((t): t is CaptionTrack & { url: string } => !!t));
+    });
+    return () => {
+      cancelled = true;
+      created.forEach((u) => URL.revokeObjectURL(u));
+      setTrackUrls([]);
+    };
+  }, [captions]);
+
+  /** Last known playback state (the element may already be swapped out when a save runs on cleanup) */
+  const playbackRef = useRef({ position: 0, duration: 0, ended: false });
+
+  /** Persist the current position */
+  function save(completed = false) {
+    const { position: current, duration } = playbackRef.current;
+    if (!Number.isFinite(duration) || duration <= 0) return;
+    lastSavedRef.current = Date.now();
+    const position = completed ? duration : current;
+    completed = completed || watched;
+    onProgress?.(video.path, position, duration, completed);
+    videoProgressService
+      .saveProgress({ path: video.path, positionSeconds: position, durationSeconds: duration, completed })
+      .catch(() => {
+        // best effort
+      });
+  }
+
+  /** Save when switching videos or leaving the page */
+  useEffect(() => {
+    playbackRef.current = { position: 0, duration: 0, ended: false };
+    const onHide = () => save();
+    window.addEventListener('pagehide', onHide);
+    return () => {
+      window.removeEventListener('pagehide', onHide);
+      const { position, ended } = playbackRef.current;
+      if (position > 0 && !ended) save();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [video.path]);
+
+  /** "Up next" countdown */
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown <= 0) {
+      setCountdown(null);
+      onNext();
+      return;
+    }
+    const t = window.setTimeout(() => setCountdown((c) => (c === null ? null : c - 1)), 1000);
+    return () => window.clearTimeout(t);
+  }, [countdown, onNext]);
+
+  function handleLoadedMetadata() {
+    const el = videoRef.current;
+    if (!el) return;
+    el.playbackRate = rate;
+    const resumeAt = resumeAtRef.current;
+    if (resumeAt && resumeAt < el.duration - END_MARGIN_SECONDS) el.currentTime = resumeAt;
+    resumeAtRef.current = undefined;
+    playbackRef.current = { position: el.currentTime, duration: el.duration, ended: false };
+  }
+
+  function handlePlay() {
+    if (loggedRef.current) return;
+    loggedRef.current = true;
+    activityService.logActivity({
+      resourceName: video.title || video.filename,
+      resourcePath: video.path,
+      programSlug: programSlugFromPath(video.path) ?? null,
+      activityType: 'play',
+    });
+  }
+
+  function handleTimeUpdate() {
+    const el = videoRef.current;
+    if (!el) return;
+    playbackRef.current = { position: el.currentTime, duration: el.duration, ended: el.ended };
+    if (Date.now() - lastSavedRef.current >= SAVE_INTERVAL_MS) save();
+  }
+
+  function handleEnded() {
+    playbackRef.current = { ...playbackRef.current, ended: true };
+    save(true);
+    if (autoplayNext && next) setCountdown(AUTOPLAY_COUNTDOWN);
+  }
+
+  /** Expired signed URL (private bucket): re-sign once and continue from the same spot */
+  async function handleError() {
+    if (retriedRef.current) {
+      setError('This video could not be played.');
+      return;
+    }
+    retriedRef.current = true;
+    resumeAtRef.current = playbackRef.current.position || resumeAtRef.current;
+    try {
+      setSrc(await resolveFileUrl({ ...video, urlExpiresAt: 0 }));
+    } catch {
+      setError('This video could not be played.');
+    }
+  }
+
+  function changeRate(value: number) {
+    setRate(value);
+    writePref(RATE_KEY, String(value));
+    if (videoRef.current) videoRef.current.playbackRate = value;
+  }
+
+  function toggleAutoplay(value: boolean) {
+    setAutoplayNext(value);
+    writePref(AUTOPLAY_KEY, String(value));
+    if (!value) setCountdown(null);
+  }
+
+  return (
+    <div className="overflow-hidden rounded-lg border bg-black">
+      <div className="relative">
+        {error ? (
+          <div className="flex aspect-video items-center justify-center p-6 text-sm text-white/80">{error}</div>
+        ) : (
+          <video
+            ref={videoRef}
+            key={video.path}
+            src={src || undefined}
+            controls
+            autoPlay
+            playsInline
+            preload="metadata"
+            className="aspect-video w-full bg-black"
+            onLoadedMetadata={handleLoadedMetadata}
+            onPlay={handlePlay}
+            onPause={() => (videoRef.current?.ended ? undefined : save())}
+            onTimeUpdate={handleTimeUpdate}
+            onEnded={handleEnded}
+            onError={src ? handleError : undefined}
+          >
+            {trackUrls.map((t, i) => (
+              <track
+                key={t.item.path}
+                kind="subtitles"
+                src={t.url}
+                srcLang={t.lang || undefined}
+                label={t.label}
+                default={i === 0}
+              />
+            ))}
+          </video>
+        )}
+
+        {countdown !== null && next ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/70 text-white">
+            <div className="text-xs uppercase tracking-wide text-white/70">Up next in {countdown}s</div>
+            <div className="max-w-md px-4 text-center text-base font-semibold">{next.title || next.filename}</div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => { setCountdown(null); onNext(); }}>
+                <SkipForward className="mr-2 h-4 w-4" />
+                Play now
+              </Button>
+              <Button size="sm" variant="outline" className="bg-transparent text-white" onClick={() => setCountdown(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </div>
+
+      {/* Controls bar */}
+      <div className="flex flex-wrap items-center gap-3 bg-slate-900 px-3 py-2 text-xs text-white/90">
+        <div className="min-w-0 flex-1 truncate font-medium">{video.title || video.filename}</div>
+        <label className="flex items-center gap-1.5">
+          Speed
+          <select
+            value={rate}
+            onChange={(e) => changeRate(Number(e.target.value))}
+            className="rounded bg-slate-800 px-1.5 py-0.5 text-white"
+            aria-label="Playback speed"
+          >
+            {SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s}×
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={autoplayNext}
+            onChange={(e) => toggleAutoplay(e.target.checked)}
+            className="h-3.5 w-3.5"
+          />
+          Autoplay next
+        </label>
+        {next ? (
+          <button type="button" onClick={onNext} className="flex items-center gap-1 rounded px-1.5 py-0.5 hover:bg-slate-800">
+            <SkipForward className="h-3.5 w-3.5" />
+            Next module
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded p-0.5 hover:bg-slate-800"
+          aria-label="Close player"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * AudienceToggle
+ * - Purpose: Tell team members that a list is narrowed to their role, and switch between that and everything
+ *   (ProgramDetail, Resources, Dashboard). The choice is shared by every list (stores/audienceStore).
+ * - Renders nothing for viewers without a role-based default (admins, members outside a team).
+ */
+
+import { Users } from 'lucide-react';
+import { Button } from '../ui/button';
+import { useAudienceFilter } from '../../stores/audienceStore';
+import { AUDIENCE_LABELS } from '../../services/resourceMetadata';
+
+export interface AudienceToggleProps {
+  /** Items the role filter is hiding from the list */
+  hidden: number;
+  className?: string;
+}
+
+/**
+ * AudienceToggle component
+ */
+export default function AudienceToggle({ hidden, className }: AudienceToggleProps) {
+  const { viewer, showAll, setShowAll } = useAudienceFilter();
+  if (!viewer) return null;
+
+  const role = AUDIENCE_LABELS[viewer].toLowerCase();
+
+  return (
+    <div
+      className={[
+        'flex flex-wrap items-center gap-2 rounded-md border bg-slate-50 px-3 py-2 text-sm text-slate-700',
+        className || '',
+      ].join(' ')}
+    >
+      <Users className="h-4 w-4 shrink-0 text-slate-500" />
+      <span className="flex-1">
+        {showAll
+          ? 'Showing content for every role.'
+          : `Showing content for ${role}s${hidden > 0 ? ` (${hidden} more for other roles)` : ''}.`}
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 bg-transparent text-xs"
+        onClick={() => setShowAll(!showAll)}
+      >
+        {showAll ? `Only ${role} content` : 'Show everything'}
+      </Button>
+    </div>
+  );
+}
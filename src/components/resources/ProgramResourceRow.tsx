@@ -1,21 +1,33 @@
 /**
  * ProgramResourceRow
  * - Purpose: Single-column, dense row card for Program Detail sections.
- * - Contents: brand-colored file icon (left), file name, optional duration (videos), and one action button.
- *   - Video: "Play" only (no download).
- *   - Non-video: "Download" only.
+ * - Contents: brand-colored file icon (left), file name, catalog metadata badges, optional duration (videos),
+ *   and one action button.
+ *   - "Updated" badge when a newer version was uploaded since the member's last visit (updated).
+ *   - Video: "Play" only (no download); with onPlay it plays in-app and shows watch progress.
+ *   - Training rows: optional "Mark complete" toggle (onToggleComplete).
+ *   - Non-video: "Preview" (in-app drawer) + "Download".
+ * - Clicks go through openStorageItem so expired signed URLs are refreshed transparently.
  */
 
 import React from 'react';
 import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
 import {
+  CheckCircle2,
+  Circle,
   Download,
+  Eye,
   File,
   FileSpreadsheet,
   FileText,
   Play,
 } from 'lucide-react';
 import type { StorageFileItem } from '../../services/supabaseStorage';
+import { openStorageItem } from '../../lib/fileActions';
+import { usePreviewStore } from '../../stores/previewStore';
+import { formatDuration } from '../../lib/media';
+import ResourceMetaBadges from './ResourceMetaBadges';
 import {
   isDoc,
   isPdf,
@@ -43,24 +55,97 @@ function BrandFileIcon({ item }: { item: StorageFileItem }) {
   return <File className={cls} />;
 }
 
+/** Saved watch state for a video row */
+export interface RowWatchProgress {
+  positionSeconds: number;
+  completed: boolean;
+}
+
+export interface ProgramResourceRowProps {
+  item: StorageFileItem;
+  /** Real video duration (from metadata); falls back to a [mm:ss] hint in the name */
+  durationSeconds?: number;
+  progress?: RowWatchProgress;
+  /** Play in-app instead of opening a new tab */
+  onPlay?: () => void;
+  /** Currently loaded in the player */
+  active?: boolean;
+  /** Training module completion */
+  moduleComplete?: boolean;
+  onToggleComplete?: () => void;
+  /** Replaced since the member's last visit */
+  updated?: boolean;
+}
+
 /**
  * ProgramResourceRow component
  */
-export default function ProgramResourceRow({ item }: { item: StorageFileItem }) {
+export default function ProgramResourceRow({
+  item,
+  durationSeconds,
+  progress,
+  onPlay,
+  active,
+  moduleComplete,
+  onToggleComplete,
+  updated,
+}: ProgramResourceRowProps) {
   const video = isVideo(item);
-  const duration = video ? inferDurationLabel(item.title || item.filename) : undefined;
+  const duration = video
+    ? (durationSeconds ? formatDuration(durationSeconds) : undefined) || inferDurationLabel(item.title || item.filename)
+    : undefined;
+  const openPreview = usePreviewStore((s) => s.open);
+  const resumable = !!progress && !progress.completed && progress.positionSeconds > 0;
+  const percent =
+    progress && durationSeconds
+      ? Math.min(100, Math.round(((progress.completed ? durationSeconds : progress.positionSeconds) / durationSeconds) * 100))
+      : undefined;
+
+  /** Open via openStorageItem (re-signs the URL if it has expired, logs the access) */
+  function handleOpen(e: React.MouseEvent<HTMLAnchorElement>) {
+    e.preventDefault();
+    if (video && onPlay) {
+      onPlay();
+      return;
+    }
+    openStorageItem(item, video ? 'play' : 'download');
+  }
 
   return (
-    <div className="rounded-md border bg-white px-4 py-3 shadow-sm hover:shadow transition-shadow">
+    <div
+      className={[
+        'rounded-md border bg-white px-4 py-3 shadow-sm hover:shadow transition-shadow',
+        active ? 'border-blue-300 ring-1 ring-blue-200' : '',
+      ].join(' ')}
+    >
       <div className="flex items-center justify-between gap-3">
         {/* Left: icon + filename */}
         <div className="flex min-w-0 items-center gap-3">
           <BrandFileIcon item={item} />
           <div className="min-w-0">
-            <div className="truncate text-sm font-medium text-slate-900">
-              {item.title || item.filename}
+            <div className="flex items-center gap-2">
+              <span className="truncate text-sm font-medium text-slate-900">{item.title || item.filename}</span>
+              {updated ? (
+                <Badge className="shrink-0 bg-amber-500 px-1.5 py-0 text-[10px] hover:bg-amber-500">Updated</Badge>
+              ) : null}
             </div>
-            <div className="text-[11px] text-slate-500">{item.filename}</div>
+            <div className="text-[11px] text-slate-500">
+              {item.filename}
+              {progress?.completed ? (
+                <span className="ml-2 text-emerald-600">Watched</span>
+              ) : resumable ? (
+                <span className="ml-2 text-blue-600">Stopped at {formatDuration(progress.positionSeconds)}</span>
+              ) : null}
+            </div>
+            {video && percent !== undefined && (resumable || progress?.completed) ? (
+              <div className="mt-1 h-1 w-40 overflow-hidden rounded bg-slate-100" aria-hidden="true">
+                <div
+                  className={progress?.completed ? 'h-full bg-emerald-500' : 'h-full bg-blue-500'}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            ) : null}
+            <ResourceMetaBadges meta={item.meta} className="mt-1" />
           </div>
         </div>
 
@@ -72,20 +157,39 @@ export default function ProgramResourceRow({ item }: { item: StorageFileItem })
             </span>
           ) : null}
 
+          {onToggleComplete ? (
+            <Button
+              variant="ghost"
+              className={['h-8 px-2 text-xs', moduleComplete ? 'text-emerald-700' : 'text-slate-600'].join(' ')}
+              onClick={onToggleComplete}
+              aria-pressed={!!moduleComplete}
+              title={moduleComplete ? 'Mark as not complete' : 'Mark as complete'}
+            >
+              {moduleComplete ? <CheckCircle2 className="mr-1.5 h-4 w-4" /> : <Circle className="mr-1.5 h-4 w-4" />}
+              {moduleComplete ? 'Completed' : 'Mark complete'}
+            </Button>
+          ) : null}
+
           {video ? (
-            <a href={item.url} target="_blank" rel="noreferrer">
+            <a href={item.url} target="_blank" rel="noreferrer" onClick={handleOpen}>
               <Button className="h-8 px-3">
                 <Play className="mr-2 h-4 w-4" />
-                Play
+                {resumable ? 'Resume' : 'Play'}
               </Button>
             </a>
           ) : (
-            <a href={item.url} target="_blank" rel="noreferrer">
-              <Button className="h-8 px-3">
-                <Download className="mr-2 h-4 w-4" />
-                Download
+            <>
+              <Button variant="outline" className="h-8 bg-transparent px-3" onClick={() => openPreview(item)}>
+                <Eye className="mr-2 h-4 w-4" />
+                Preview
               </Button>
-            </a>
+              <a href={item.url} target="_blank" rel="noreferrer" onClick={handleOpen}>
+                <Button className="h-8 px-3">
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </Button>
+              </a>
+            </>
           )}
         </div>
       </div>
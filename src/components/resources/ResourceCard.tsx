@@ -1,16 +1,21 @@
 /**
  * ResourceCard
  * - Purpose: Minimal, high-clarity file card for resources.
- * - Shows ONLY: icon, filename (extension removed), bookmark toggle, Download button.
- * - If item is a video, shows a Play button as well.
+ * - Shows: icon, title (extension removed), catalog metadata (description, audience, tags, dates), bookmark toggle,
+ *   Download button.
+ * - If item is a video, shows a Play button as well; other files get a Preview button (in-app drawer).
+ * - Clicks go through openStorageItem so expired signed URLs are refreshed transparently.
  */
 
 import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
-import { Bookmark, BookmarkCheck, Download, File, FileSpreadsheet, FileText, Play } from 'lucide-react';
+import { Bookmark, BookmarkCheck, Download, Eye, File, FileSpreadsheet, FileText, Play } from 'lucide-react';
 import { useBookmarkStore } from '../../stores/bookmarkStore';
+import { usePreviewStore } from '../../stores/previewStore';
 import type { StorageFileItem } from '../../services/supabaseStorage';
 import { isDoc, isPdf, isSpreadsheet, isVideo } from '../../services/supabaseStorage';
+import { openStorageItem } from '../../lib/fileActions';
+import ResourceMetaBadges from './ResourceMetaBadges';
 import React from 'react';
 
 export interface ResourceCardProps {
@@ -34,6 +39,13 @@ function FileIconFor(item: StorageFileItem) {
 export default function ResourceCard({ item }: ResourceCardProps) {
   const isSaved = useBookmarkStore((s) => s.isBookmarked(item.path));
   const toggle = useBookmarkStore((s) => s.toggle);
+  const openPreview = usePreviewStore((s) => s.open);
+
+  /** Open via openStorageItem (re-signs the URL if it has expired, logs the access) */
+  function handleOpen(e: React.MouseEvent<HTMLAnchorElement>, activity: 'download' | 'play') {
+    e.preventDefault();
+    openStorageItem(item, activity);
+  }
 
   return (
     <Card className="hover:shadow-md transition-shadow">
@@ -51,16 +63,26 @@ export default function ResourceCard({ item }: ResourceCardProps) {
           {isSaved ? <BookmarkCheck className="h-5 w-5 text-blue-600" /> : <Bookmark className="h-5 w-5 text-slate-500" />}
         </button>
       </CardHeader>
+      {item.meta ? (
+        <CardContent className="pb-2 pt-0">
+          <ResourceMetaBadges meta={item.meta} />
+        </CardContent>
+      ) : null}
       <CardContent className="flex items-center justify-end gap-2">
         {isVideo(item) ? (
-          <a href={item.url} target="_blank" rel="noreferrer">
+          <a href={item.url} target="_blank" rel="noreferrer" onClick={(e) => handleOpen(e, 'play')}>
             <Button variant="outline" className="bg-white">
               <Play className="mr-2 h-4 w-4" />
               Play
             </Button>
           </a>
-        ) : null}
-        <a href={item.url} target="_blank" rel="noreferrer">
+        ) : (
+          <Button variant="outline" className="bg-white" onClick={() => openPreview(item)}>
+            <Eye className="mr-2 h-4 w-4" />
+            Preview
+          </Button>
+        )}
+        <a href={item.url} target="_blank" rel="noreferrer" onClick={(e) => handleOpen(e, 'download')}>
           <Button>
             <Download className="mr-2 h-4 w-4" />
             Download
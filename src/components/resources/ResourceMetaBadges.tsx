@@ -0,0 +1,67 @@
+/**
+ * ResourceMetaBadges
+ * - Purpose: Compact display of catalog metadata (ResourceCard, ProgramResourceRow, Resource Library rows).
+ * - Shows the description (optional), audience + payer badges, tags, version and effective / review-by dates.
+ * - Renders nothing for items without metadata.
+ */
+
+import { Badge } from '../ui/badge';
+import {
+  AUDIENCE_LABELS,
+  PAYER_LABELS,
+  formatMetaDate,
+  hasMetadata,
+  isReviewOverdue,
+  type ResourceMetadata,
+} from '../../services/resourceMetadata';
+
+export interface ResourceMetaBadgesProps {
+  meta?: ResourceMetadata;
+  /** Include the description line (default true) */
+  showDescription?: boolean;
+  className?: string;
+}
+
+/**
+ * ResourceMetaBadges component
+ */
+export default function ResourceMetaBadges({ meta, showDescription = true, className }: ResourceMetaBadgesProps) {
+  if (!hasMetadata(meta)) return null;
+
+  const dates = [
+    meta.version ? `v${meta.version.replace(/^v/i, '')}` : null,
+    meta.effectiveDate ? `Effective ${formatMetaDate(meta.effectiveDate)}` : null,
+  ].filter(Boolean);
+  const overdue = isReviewOverdue(meta);
+
+  return (
+    <div className={['space-y-1', className || ''].join(' ')}>
+      {showDescription && meta.description ? (
+        <p className="line-clamp-2 text-xs text-slate-600">{meta.description}</p>
+      ) : null}
+      <div className="flex flex-wrap items-center gap-1">
+        {meta.audience.map((a) => (
+          <Badge key={a} variant="secondary" className="px-1.5 py-0 text-[10px]">
+            {AUDIENCE_LABELS[a]}
+          </Badge>
+        ))}
+        {meta.payerRelevance.map((p) => (
+          <Badge key={p} variant="outline" className="px-1.5 py-0 text-[10px]">
+            {PAYER_LABELS[p]}
+          </Badge>
+        ))}
+        {meta.tags.map((t) => (
+          <span key={t} className="text-[10px] text-slate-500">
+            #{t}
+          </span>
+        ))}
+        {dates.length ? <span className="text-[10px] text-slate-500">{dates.join(' • ')}</span> : null}
+        {meta.reviewBy ? (
+          <span className={['text-[10px]', overdue ? 'text-amber-700' : 'text-slate-500'].join(' ')}>
+            {overdue ? 'Review overdue' : 'Review by'} {formatMetaDate(meta.reviewBy)}
+          </span>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * StaleContentBanner
+ * - Purpose: Warn members when resources in view are past their review-by date (Resources, ProgramDetail).
+ * - Names up to three of them; renders nothing when everything is current.
+ */
+
+import { AlertTriangle } from 'lucide-react';
+import { isReviewOverdue, type ResourceMetadata } from '../../services/resourceMetadata';
+
+export interface StaleContentBannerProps {
+  items: Array<{ title: string; meta?: ResourceMetadata }>;
+  className?: string;
+}
+
+/** Titles named in the banner */
+const MAX_NAMED = 3;
+
+/**
+ * StaleContentBanner component
+ */
+export default function StaleContentBanner({ items, className }: StaleContentBannerProps) {
+  const stale = items.filter((i) => isReviewOverdue(i.meta));
+  if (stale.length === 0) return null;
+
+  const named = stale.slice(0, MAX_NAMED).map((i) => `“${i.title}”`);
+  const more = stale.length - named.length;
+
+  return (
+    <div
+      role="status"
+      className={[
+        'flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-900',
+        className || '',
+      ].join(' ')}
+    >
+      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+      <div>
+        {stale.length === 1 ? 'One resource here is' : `${stale.length} resources here are`} past their scheduled
+        review: {named.join(', ')}
+        {more > 0 ? ` and ${more} more` : ''}. Check them against current guidance and payer rules before relying
+        on them.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Subscription lifecycle config
+ * - Purpose: How early members are warned about renewal and how long content stays open after a plan ends.
+ * - Values come from public.subscription_settings (loaded with the member's subscription, see
+ *   entitlementService.getSubscription), which the database also uses for its grace period; baked-in defaults
+ *   apply until they load (whole days; invalid values fall back to the default).
+ */
+
+/** Days before the end date when a plan counts as "Expiring" */
+const DEFAULT_RENEWAL_WARNING_DAYS = 30;
+
+/** Days after the end date during which content stays unlocked */
+const DEFAULT_GRACE_PERIOD_DAYS = 7;
+
+/** Settings as loaded from public.subscription_settings */
+export interface SubscriptionSettings {
+  renewalWarningDays?: number | null;
+  gracePeriodDays?: number | null;
+}
+
+let loaded: SubscriptionSettings = {};
+
+function readDays(value: number | null | undefined, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+}
+
+/**
+ * Use settings loaded from the database.
+ */
+export function setSubscriptionSettings(settings: SubscriptionSettings) {
+  loaded = settings;
+}
+
+/**
+ * Renewal warning window in days
+ * - Order: subscription_settings.renewal_warning_days -> 30
+ */
+export function getRenewalWarningDays(): number {
+  return readDays(loaded.renewalWarningDays, DEFAULT_RENEWAL_WARNING_DAYS);
+}
+
+/**
+ * Grace period in days
+ * - Order: subscription_settings.grace_period_days -> 7
+ */
+export function getGracePeriodDays(): number {
+  return readDays(loaded.gracePeriodDays, DEFAULT_GRACE_PERIOD_DAYS);
+}
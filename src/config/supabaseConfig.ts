@@ -2,6 +2,7 @@
  * Supabase config helpers
  * - Purpose: Centralize access to environment variables for Supabase.
  * - Reads from Vite env first, then optional browser localStorage overrides, then baked-in defaults.
+ * - VITE_* values are injected at build time (scripts/build.mjs defines import.meta.env from the build environment).
  *
  * Notes:
  * - The anon key is a publishable, client-side key. Baking it in is acceptable for browser apps.
@@ -53,3 +54,26 @@ export function getSupabaseAnonKey(): string {
   const lsKey = readLocalStorage('SUPABASE_ANON_KEY');
   return (envKey && envKey.trim()) || (lsKey && lsKey.trim()) || DEFAULT_SUPABASE_ANON_KEY;
 }
+
+/**
+ * Whether the storage bucket is private (objects require signed URLs)
+ * - Order: VITE_SUPABASE_PRIVATE_BUCKET env -> localStorage SUPABASE_PRIVATE_BUCKET -> true (private bucket)
+ * - The bucket is private since the private_storage migration; "false"/"0" only suits a project still serving
+ *   public URLs. Either way the storage.objects policies decide what a member can read.
+ */
+export function isPrivateBucket(): boolean {
+  const envVal = (import.meta as any)?.env?.VITE_SUPABASE_PRIVATE_BUCKET as string | undefined;
+  const raw = ((envVal && envVal.trim()) || readLocalStorage('SUPABASE_PRIVATE_BUCKET')).toLowerCase();
+  return !(raw === 'false' || raw === '0');
+}
+
+/**
+ * Which Dashboard Api provider to use
+ * - Order: VITE_API_PROVIDER env -> localStorage API_PROVIDER -> 'live'
+ * - 'demo' serves fixed sample data without network calls (offline demos).
+ */
+export function getApiProviderName(): 'live' | 'demo' {
+  const envVal = (import.meta as any)?.env?.VITE_API_PROVIDER as string | undefined;
+  const raw = ((envVal && envVal.trim()) || readLocalStorage('API_PROVIDER')).toLowerCase();
+  return raw === 'demo' ? 'demo' : 'live';
+}
@@ -0,0 +1,89 @@
+/**
+ * Certificate of completion PDF (jsPDF)
+ * - Landscape letter page with member name, pharmacy, program, completion date and certificate number.
+ * - Content comes from the issued certificate row, so re-downloads always match the record kept for audits.
+ */
+
+import { jsPDF } from 'jspdf';
+import type { Certificate } from '../services/supabase';
+
+/** Brand blue (matches the app's blue-600) */
+const BRAND: [number, number, number] = [37, 99, 235];
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Build the certificate PDF.
+ */
+export function buildCertificatePdf(cert: Certificate): jsPDF {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'letter' });
+  const w = doc.internal.pageSize.getWidth();
+  const h = doc.internal.pageSize.getHeight();
+  const cx = w / 2;
+
+  // Border
+  doc.setDrawColor(...BRAND);
+  doc.setLineWidth(4);
+  doc.rect(24, 24, w - 48, h - 48);
+  doc.setLineWidth(1);
+  doc.rect(34, 34, w - 68, h - 68);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.setTextColor(...BRAND);
+  doc.text('ClinicalRxQ', cx, 90, { align: 'center' });
+
+  doc.setFontSize(30);
+  doc.setTextColor(15, 23, 42);
+  doc.text('Certificate of Completion', cx, 140, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(13);
+  doc.setTextColor(71, 85, 105);
+  doc.text('This certifies that', cx, 190, { align: 'center' });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(26);
+  doc.setTextColor(15, 23, 42);
+  doc.text(cert.member_name, cx, 232, { align: 'center' });
+
+  let y = 258;
+  if (cert.pharmacy_name) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(13);
+    doc.setTextColor(71, 85, 105);
+    doc.text(cert.pharmacy_name, cx, y, { align: 'center' });
+    y += 20;
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(13);
+  doc.setTextColor(71, 85, 105);
+  doc.text('has completed all training modules and assessments for', cx, y + 22, { align: 'center' });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.setTextColor(...BRAND);
+  doc.text(cert.program_name, cx, y + 56, { align: 'center', maxWidth: w - 160 });
+
+  // Footer: completion date + certificate number
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(71, 85, 105);
+  doc.text(`Completed ${formatDate(cert.completed_at)}`, 90, h - 90);
+  doc.text(`Certificate No. ${cert.certificate_number}`, w - 90, h - 90, { align: 'right' });
+  doc.setFontSize(9);
+  doc.text(`Issued ${formatDate(cert.issued_at)}`, 90, h - 74);
+
+  return doc;
+}
+
+/**
+ * Download the certificate as a PDF file.
+ */
+export function downloadCertificate(cert: Certificate) {
+  const name = `ClinicalRxQ-Certificate-${cert.program_slug}-${cert.certificate_number}.pdf`;
+  buildCertificatePdf(cert).save(name);
+}
@@ -0,0 +1,46 @@
+/**
+ * File actions shared by resource lists and cards.
+ * - openStorageItem opens a storage file in a new tab, refreshing its signed URL first when it has expired.
+ * - The tab is opened synchronously (inside the click) and navigated once the URL is ready,
+ *   so popup blockers do not swallow the async case.
+ * - Every open is recorded in recent_activity (Download/Play) for the dashboard feed and history.
+ */
+
+import { toast } from 'sonner';
+import { needsFreshUrl, resolveFileUrl, type UrlTarget } from '../services/signedUrls';
+import { activityService, type ActivityType } from '../services/supabase';
+import { programSlugFromPath } from '../services/storageCatalog';
+
+/** Item to open; title/filename label the activity entry */
+export type OpenTarget = UrlTarget & { title?: string; filename?: string };
+
+/**
+ * Open a storage file in a new browser tab and log the access.
+ */
+export async function openStorageItem(item: OpenTarget, activity: ActivityType = 'download'): Promise<void> {
+  activityService.logActivity({
+    resourceName: item.title || item.filename || item.path.split('/').pop() || item.path,
+    resourcePath: item.path,
+    programSlug: programSlugFromPath(item.path) ?? null,
+    activityType: activity,
+  });
+
+  if (!needsFreshUrl(item)) {
+    window.open(item.url, '_blank', 'noopener,noreferrer');
+    return;
+  }
+
+  const tab = window.open('', '_blank');
+  try {
+    const url = await resolveFileUrl(item);
+    if (tab) {
+      tab.opener = null;
+      tab.location.href = url;
+    } else {
+      window.location.assign(url);
+    }
+  } catch (e) {
+    tab?.close();
+    toast.error(e instanceof Error ? e.message : 'Could not open this file.');
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Icon lookup
+ * - Purpose: Map lucide icon names stored in data (programs.icon, Dashboard tiles) to components.
+ * - Static map so the bundle only includes the icons listed here; add an entry to make a new name available.
+ */
+
+import {
+  Activity,
+  BookText,
+  CalendarCheck,
+  ClipboardCheck,
+  FileSpreadsheet,
+  FileText,
+  GraduationCap,
+  HeartPulse,
+  Pill,
+  PlayCircle,
+  ShieldCheck,
+  Star,
+  Stethoscope,
+  Syringe,
+  TestTubes,
+  type LucideIcon,
+} from 'lucide-react';
+
+const ICONS: Record<string, LucideIcon> = {
+  Activity,
+  BookText,
+  CalendarCheck,
+  ClipboardCheck,
+  FileSpreadsheet,
+  FileText,
+  GraduationCap,
+  HeartPulse,
+  Pill,
+  PlayCircle,
+  ShieldCheck,
+  Star,
+  Stethoscope,
+  Syringe,
+  TestTubes,
+};
+
+/**
+ * Icon component for a stored name, or the fallback for unknown/empty names.
+ */
+export function iconByName(name: string | null | undefined, fallback: LucideIcon = FileText): LucideIcon {
+  return ICONS[(name || '').trim()] ?? fallback;
+}
@@ -0,0 +1,268 @@
+/**
+ * Markdown parser (program overviews)
+ * - Purpose: Parse the Markdown subset admins author in programs.overview into a small block/inline tree,
+ *   which components/common/Markdown renders as React elements (no HTML strings, so nothing is injected).
+ * - Blocks: headings (#, ##, ###), paragraphs, bullet/numbered lists, block quotes, callouts
+ *   ("> [!NOTE]", TIP, IMPORTANT, WARNING, CAUTION), fenced code, horizontal rules.
+ * - Inline: **bold**, *italic* / _italic_, `code`, [label](target).
+ * - Link targets: http(s)/mailto URLs, app routes ("/resources"), and catalog files by bucket path
+ *   ("hba1c/forms/Intake.pdf" or "catalog:hba1c/forms/Intake.pdf"; wrap paths with spaces in <...>).
+ *   Other schemes (javascript:, data:, …) are dropped and only the label is kept. Raw HTML is shown as text.
+ */
+
+/** Resolved link target */
+export type MarkdownLink =
+  | { kind: 'external'; url: string }
+  | { kind: 'route'; to: string }
+  | { kind: 'catalog'; path: string };
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; link: MarkdownLink; children: MarkdownInline[] };
+
+export type CalloutVariant = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; blocks: MarkdownBlock[] }
+  | { type: 'callout'; variant: CalloutVariant; title: MarkdownInline[]; blocks: MarkdownBlock[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const FENCE = /^\s*```/;
+const HEADING = /^\s*(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>/;
+const LIST_ITEM = /^\s*([-*+]|\d{1,3}[.)])\s+(.*)$/;
+const CALLOUT = /^\[!(note|tip|important|warning|caution)\]\s*(.*)$/i;
+
+/**
+ * Resolve a link target, or null when it is not allowed.
+ */
+export function parseLinkTarget(raw: string): MarkdownLink | null {
+  const href = raw.trim();
+  if (!href) return null;
+  if (/^(https?:\/\/|mailto:)/i.test(href)) return { kind: 'external', url: href };
+  if (href.startsWith('/') && !href.startsWith('//')) return { kind: 'route', to: href };
+
+  const catalog = href.replace(/^catalog:/i, '');
+  if (catalog === href && /^[a-z][a-z0-9+.-]*:/i.test(href)) return null;
+  const path = catalog.replace(/^(\.\/|\/)+/, '');
+  if (!path || path.startsWith('#') || path.split('/').includes('..')) return null;
+  return { kind: 'catalog', path: safeDecode(path) };
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURI(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse inline formatting.
+ */
+export function parseInline(source: string): MarkdownInline[] {
+  const out: MarkdownInline[] = [];
+  let text = '';
+  const flush = () => {
+    if (text) out.push({ type: 'text', text });
+    text = '';
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    const rest = source.slice(i);
+
+    if (ch === '\\' && /[\\`*_[\]()#>!-]/.test(source[i + 1] || '')) {
+      text += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '`') {
+      const end = source.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        out.push({ type: 'code', text: source.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (rest.startsWith('**')) {
+      const end = source.indexOf('**', i + 2);
+      if (end > i + 2) {
+        flush();
+        out.push({ type: 'strong', children: parseInline(source.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Emphasis: opening marker not followed by a space; "_" only at a word boundary (snake_case stays text)
+    if ((ch === '*' || ch === '_') && source[i + 1] && source[i + 1] !== ' ') {
+      const boundary = ch === '*' || i === 0 || !/\w/.test(source[i - 1]);
+      const end = source.indexOf(ch, i + 1);
+      if (boundary && end > i + 1 && source[end - 1] !== ' ') {
+        flush();
+        out.push({ type: 'em', children: parseInline(source.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      // [label](target) or [label](<target with spaces>)
+      const m = /^\[([^\]]+)\]\(\s*(?:<([^>]+)>|([^)\s]+))\s*\)/.exec(rest);
+      if (m) {
+        flush();
+        const children = parseInline(m[1]);
+        const link = parseLinkTarget(m[2] ?? m[3]);
+        if (link) out.push({ type: 'link', link, children });
+        else out.push(...children);
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    text += ch;
+    i++;
+  }
+  flush();
+  return out;
+}
+
+/** Whether a line starts a block other than a paragraph */
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+/**
+ * Parse block structure from lines.
+ */
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) body.push(lines[i++]);
+      i++; // closing fence (or end of input)
+      blocks.push({ type: 'code', text: body.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].replace(/^\s*>\s?/, ''));
+      const callout = CALLOUT.exec(body[0].trim());
+      if (callout) {
+        blocks.push({
+          type: 'callout',
+          variant: callout[1].toLowerCase() as CalloutVariant,
+          title: parseInline(callout[2]),
+          blocks: parseBlocks(body.slice(1)),
+        });
+      } else {
+        blocks.push({ type: 'quote', blocks: parseBlocks(body) });
+      }
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const next = LIST_ITEM.exec(lines[i]);
+        if (next && /\d/.test(next[1]) === ordered) {
+          items.push(next[2]);
+          i++;
+        } else if (!next && lines[i].trim() && /^\s+/.test(lines[i]) && items.length) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({ type: 'list', ordered, items: items.map(parseInline) });
+      continue;
+    }
+
+    const body: string[] = [];
+    while (i < lines.length && lines[i].trim() && (body.length === 0 || !startsBlock(lines[i]))) {
+      body.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(body.join(' ')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse Markdown source into blocks.
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseBlocks((source || '').replace(/\r\n?/g, '\n').split('\n'));
+}
+
+/**
+ * Catalog paths linked from Markdown source (e.g. to check that they exist).
+ */
+export function collectCatalogLinks(blocks: MarkdownBlock[]): string[] {
+  const paths = new Set<string>();
+  const visitInline = (nodes: MarkdownInline[]) => {
+    for (const n of nodes) {
+      if (n.type === 'link') {
+        if (n.link.kind === 'catalog') paths.add(n.link.path);
+        visitInline(n.children);
+      } else if (n.type === 'strong' || n.type === 'em') {
+        visitInline(n.children);
+      }
+    }
+  };
+  const visit = (list: MarkdownBlock[]) => {
+    for (const b of list) {
+      if (b.type === 'heading' || b.type === 'paragraph') visitInline(b.children);
+      else if (b.type === 'list') b.items.forEach(visitInline);
+      else if (b.type === 'quote') visit(b.blocks);
+      else if (b.type === 'callout') {
+        visitInline(b.title);
+        visit(b.blocks);
+      }
+    }
+  };
+  visit(blocks);
+  return Array.from(paths);
+}
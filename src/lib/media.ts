@@ -0,0 +1,131 @@
+/**
+ * Media helpers for training videos
+ * - Module ordering, duration formatting, metadata probing, and WebVTT sidecar discovery.
+ * - Sidecar convention: "Module 1.mp4" pairs with "Module 1.vtt" or "Module 1.<lang>.vtt" in the same folder.
+ */
+
+import { stripOneExtension, type StorageFileItem } from '../services/supabaseStorage';
+
+/** A caption track found next to a video */
+export interface CaptionTrack {
+  item: StorageFileItem;
+  /** BCP-47 language code ('' when the sidecar has no language suffix) */
+  lang: string;
+  label: string;
+}
+
+/**
+ * Whether the file is a WebVTT caption sidecar.
+ */
+export function isCaptionFile(item: StorageFileItem): boolean {
+  return item.filename.toLowerCase().endsWith('.vtt');
+}
+
+/**
+ * Compare two module names in module order ("Module 2" before "Module 10").
+ */
+export function compareModuleNames(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/** A module as ordered by compareModuleOrder */
+export interface OrderedModule {
+  title: string;
+  /** training_modules.sort_order (authored order); unset modules follow the ordered ones */
+  sortOrder?: number | null;
+}
+
+/**
+ * Compare two modules in authored order: sort_order first, then by name.
+ */
+export function compareModuleOrder(a: OrderedModule, b: OrderedModule): number {
+  const ao = a.sortOrder ?? Number.POSITIVE_INFINITY;
+  const bo = b.sortOrder ?? Number.POSITIVE_INFINITY;
+  if (ao !== bo) return ao < bo ? -1 : 1;
+  return compareModuleNames(a.title, b.title);
+}
+
+/**
+ * Sort training items in module order.
+ * @param sortOrders Authored sort_order per bucket path (program_training_modules)
+ */
+export function sortByModuleOrder<T extends StorageFileItem>(items: T[], sortOrders: Record<string, number> = {}): T[] {
+  return [...items].sort((a, b) =>
+    compareModuleOrder(
+      { title: a.title || a.filename, sortOrder: sortOrders[a.path] },
+      { title: b.title || b.filename, sortOrder: sortOrders[b.path] }
+    )
+  );
+}
+
+/**
+ * Format seconds as m:ss or h:mm:ss.
+ */
+export function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return '';
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/** Folder part of a bucket path */
+function folderOf(path: string): string {
+  const i = path.lastIndexOf('/');
+  return i >= 0 ? path.slice(0, i) : '';
+}
+
+/** Human label for a caption language code */
+function languageLabel(lang: string): string {
+  if (!lang) return 'Captions';
+  try {
+    return new Intl.DisplayNames([navigator.language || 'en'], { type: 'language' }).of(lang) || lang;
+  } catch {
+    return lang;
+  }
+}
+
+/**
+ * Caption sidecars for a video among the files of the same listing.
+ */
+export function findCaptionTracks(video: StorageFileItem, files: StorageFileItem[]): CaptionTrack[] {
+  const folder = folderOf(video.path);
+  const base = stripOneExtension(video.filename).toLowerCase();
+  const tracks: CaptionTrack[] = [];
+  for (const f of files) {
+    if (!isCaptionFile(f) || folderOf(f.path) !== folder) continue;
+    const name = stripOneExtension(f.filename).toLowerCase();
+    if (name === base) {
+      tracks.push({ item: f, lang: '', label: languageLabel('') });
+    } else if (name.startsWith(`${base}.`)) {
+      const lang = name.slice(base.length + 1);
+      if (/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(lang)) tracks.push({ item: f, lang, label: languageLabel(lang) });
+    }
+  }
+  return tracks;
+}
+
+/**
+ * Read a video's duration from its metadata (downloads headers only).
+ * @returns seconds, or undefined if the browser cannot read it
+ */
+export function probeDuration(url: string, timeoutMs = 15_000): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const el = document.createElement('video');
+    let settled = false;
+    const done = (value?: number) => {
+      if (settled) return;
+      settled = true;
+      window.clearTimeout(timer);
+      el.removeAttribute('src');
+      el.load();
+      resolve(value);
+    };
+    const timer = window.setTimeout(() => done(undefined), timeoutMs);
+    el.preload = 'metadata';
+    el.onloadedmetadata = () => done(Number.isFinite(el.duration) ? el.duration : undefined);
+    el.onerror = () => done(undefined);
+    el.src = url;
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Payment receipt PDF (jsPDF)
+ * - Portrait letter page with receipt number, payment date, the pharmacy billed (name and address), plan and amount.
+ * - Content comes from the payments row, so re-downloads match the charge; the bill-to fallback covers
+ *   payments made before the member saved an address.
+ */
+
+import { jsPDF } from 'jspdf';
+import type { Payment } from '../services/billing';
+import { formatPrice } from '../services/checkout';
+
+/** Brand blue (matches the app's blue-600) */
+const BRAND: [number, number, number] = [37, 99, 235];
+
+/** Who the receipt is addressed to when the payment row has no snapshot */
+export interface ReceiptBillTo {
+  name?: string;
+  address?: string;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Build the receipt PDF.
+ */
+export function buildReceiptPdf(payment: Payment, fallback: ReceiptBillTo = {}): jsPDF {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'letter' });
+  const w = doc.internal.pageSize.getWidth();
+  const left = 60;
+  const right = w - 60;
+  const amount = formatPrice(payment.amount_cents, payment.currency);
+
+  // Header band
+  doc.setFillColor(...BRAND);
+  doc.rect(0, 0, w, 8, 'F');
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(...BRAND);
+  doc.text('ClinicalRxQ', left, 70);
+
+  doc.setFontSize(24);
+  doc.setTextColor(15, 23, 42);
+  doc.text('Receipt', right, 70, { align: 'right' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(71, 85, 105);
+  doc.text(`Receipt No. ${payment.receipt_number}`, right, 92, { align: 'right' });
+  doc.text(`Paid ${formatDate(payment.paid_at)}`, right, 108, { align: 'right' });
+
+  // Bill to
+  const name = payment.billed_to_name || fallback.name;
+  const address = payment.billed_to_address || fallback.address;
+  let y = 150;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(100, 116, 139);
+  doc.text('BILLED TO', left, y);
+  y += 18;
+  doc.setFontSize(13);
+  doc.setTextColor(15, 23, 42);
+  if (name) {
+    doc.text(name, left, y);
+    y += 16;
+  }
+  if (address) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor(71, 85, 105);
+    const lines = address.split(/\r?\n/).flatMap((line) => doc.splitTextToSize(line, 260) as string[]);
+    doc.text(lines, left, y);
+    y += lines.length * 14;
+  }
+
+  // Line item
+  y = Math.max(y + 30, 250);
+  doc.setDrawColor(226, 232, 240);
+  doc.setLineWidth(1);
+  doc.line(left, y, right, y);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(100, 116, 139);
+  doc.text('DESCRIPTION', left, y + 18);
+  doc.text('AMOUNT', right, y + 18, { align: 'right' });
+  doc.line(left, y + 28, right, y + 28);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.setTextColor(15, 23, 42);
+  doc.text(doc.splitTextToSize(`${payment.plan_name} plan`, right - left - 120) as string[], left, y + 50);
+  doc.text(amount, right, y + 50, { align: 'right' });
+
+  doc.line(left, y + 72, right, y + 72);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Total paid', right - 120, y + 94, { align: 'right' });
+  doc.text(`${amount} ${payment.currency.toUpperCase()}`, right, y + 94, { align: 'right' });
+
+  // Footer: payment reference
+  const h = doc.internal.pageSize.getHeight();
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(100, 116, 139);
+  if (payment.provider_payment_id) {
+    doc.text(`Payment reference ${payment.provider_payment_id}`, left, h - 60);
+  }
+  doc.text('Thank you for your purchase.', left, h - 46);
+
+  return doc;
+}
+
+/**
+ * Download the receipt as a PDF file.
+ */
+export function downloadReceipt(payment: Payment, fallback?: ReceiptBillTo) {
+  buildReceiptPdf(payment, fallback).save(`ClinicalRxQ-Receipt-${payment.receipt_number}.pdf`);
+}
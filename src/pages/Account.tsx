@@ -2,20 +2,37 @@
  * My Account page
  * - Updated to use AppShell with a fixed MemberSidebar (static frame on gated pages).
  * - Preserves previous content and breadcrumbs inside the AppShell content area.
+ * - Certificates: every issued certificate of completion, re-downloadable for training audits.
+ * - Billing: the member's plan with renew / change plan / cancel / reactivate (SubscriptionManagement).
+ * - Billing history: charges with PDF receipts, CSV export and the pharmacy address on receipts (BillingHistory).
+ * - Pharmacy Team: start a team, invite staff and manage roles and seats (TeamManagement).
  */
 
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
-import { Badge } from '../components/ui/badge';
-import { User as UserIcon, Settings, CreditCard } from 'lucide-react';
+import { User as UserIcon, Settings, Award, Download } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
 import SafeText from '../components/common/SafeText';
 import Breadcrumbs from '../components/common/Breadcrumbs';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
+import TeamManagement from '../components/account/TeamManagement';
+import SubscriptionManagement from '../components/account/SubscriptionManagement';
+import BillingHistory from '../components/account/BillingHistory';
+import { quizService, type Certificate } from '../services/supabase';
+import { downloadCertificate } from '../lib/certificate';
 
 export default function Account() {
   const { user } = useAuthStore();
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+
+  useEffect(() => {
+    quizService
+      .getCertificates()
+      .then(setCertificates)
+      .catch(() => setCertificates([]));
+  }, []);
 
   /** Header renderer for AppShell */
   const header = (
@@ -85,43 +102,47 @@ export default function Account() {
         </Card>
 
         {/* Billing */}
-        <Card>
+        <SubscriptionManagement />
+
+        {/* Billing history */}
+        <BillingHistory />
+
+        {/* Pharmacy team */}
+        <TeamManagement />
+
+        {/* Certificates */}
+        <Card className="lg:col-span-2">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
-              <CreditCard className="h-5 w-5" />
-              Billing &amp; Subscriptions
+              <Award className="h-5 w-5" />
+              Certificates
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="space-y-6">
-              <div>
-                <h3 className="mb-4 font-semibold">Active Subscriptions</h3>
-                <div className="rounded-lg border p-4">
-                  <div className="flex items-center justify-between">
+            {certificates.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                Complete a program's training modules and quizzes to earn a certificate of completion.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {certificates.map((c) => (
+                  <div key={c.id} className="flex items-center justify-between rounded-lg border p-4">
                     <div>
-                      <p className="font-medium">Clinical Pharmacy Fundamentals</p>
-                      <p className="text-sm text-gray-600">Next billing: January 15, 2024</p>
+                      <p className="font-medium">
+                        <SafeText value={c.program_name} />
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        Completed {new Date(c.completed_at).toLocaleDateString()} • No. {c.certificate_number}
+                      </p>
                     </div>
-                    <Badge variant="default">Active</Badge>
-                  </div>
-                </div>
-              </div>
-
-              <div>
-                <h3 className="mb-4 font-semibold">Payment Method</h3>
-                <div className="rounded-lg border p-4">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="font-medium">•••• •••• •••• 1234</p>
-                      <p className="text-sm text-gray-600">Expires 12/26</p>
-                    </div>
-                    <Button variant="outline" size="sm" className="bg-transparent">
-                      Update
+                    <Button variant="outline" size="sm" className="bg-transparent" onClick={() => downloadCertificate(c)}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Download
                     </Button>
                   </div>
-                </div>
+                ))}
               </div>
-            </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,158 @@
+/**
+ * Activity history page (protected)
+ * - Purpose: Full, paginated list of the member's downloads and video plays (recent_activity).
+ * - Uses AppShell with the fixed MemberSidebar, like Bookmarks.
+ * - Each entry can be re-opened; opening logs a fresh access.
+ */
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router';
+import { ChevronLeft, ChevronRight, Download, Play } from 'lucide-react';
+import Breadcrumbs from '../components/common/Breadcrumbs';
+import AppShell from '../components/layout/AppShell';
+import MemberSidebar from '../components/layout/MemberSidebar';
+import { Card, CardContent } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { activityService, type RecentActivity } from '../services/supabase';
+import { buildPublicUrl } from '../services/supabaseStorage';
+import { describePath } from '../services/storageCatalog';
+import { openStorageItem } from '../lib/fileActions';
+
+/** Rows per page */
+const PAGE_SIZE = 25;
+
+export default function Activity() {
+  const [page, setPage] = useState(0);
+  const [rows, setRows] = useState<RecentActivity[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    activityService
+      .getActivityPage(page + 1, PAGE_SIZE)
+      .then((res) => {
+        if (cancelled) return;
+        setRows(res.rows);
+        setTotal(res.total);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load activity.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [page]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const first = total === 0 ? 0 : page * PAGE_SIZE + 1;
+  const last = page * PAGE_SIZE + rows.length;
+
+  const header = (
+    <div className="mx-auto w-full max-w-[1280px] px-4 py-4">
+      <Breadcrumbs
+        items={[
+          { label: 'Dashboard', to: '/dashboard' },
+          { label: 'Activity' },
+        ]}
+      />
+      <div className="mt-2 text-2xl font-bold">Activity</div>
+      <div className="text-sm text-gray-600">Everything you’ve downloaded or played, newest first</div>
+    </div>
+  );
+
+  return (
+    <AppShell sidebar={<MemberSidebar />} header={header}>
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="p-4 text-sm text-slate-600">Loading…</div>
+          ) : error ? (
+            <div className="p-4 text-sm text-red-600">{error}</div>
+          ) : rows.length === 0 ? (
+            <div className="p-4 text-sm text-slate-600">
+              No activity yet. Browse <Link to="/resources" className="text-blue-700 hover:underline">resources</Link> to get started.
+            </div>
+          ) : (
+            <div className="divide-y">
+              {rows.map((row) => {
+                const path = row.resource_path;
+                const video = row.activity_type === 'play';
+                return (
+                  <div key={row.id} className="flex items-center justify-between gap-3 px-4 py-2.5">
+                    <div className="min-w-0">
+                      <div className="truncate text-[13px] font-medium">{row.resource_name}</div>
+                      <div className="text-[12px] text-slate-500">
+                        {video ? 'Played' : 'Downloaded'}
+                        {path ? ` • ${describePath(path)}` : ''} • {new Date(row.accessed_at).toLocaleString()}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      {row.program_slug ? (
+                        <Link to={`/program/${row.program_slug}`} className="text-[12px] text-blue-700 hover:underline">
+                          Program
+                        </Link>
+                      ) : null}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8 bg-transparent px-3"
+                        disabled={!path}
+                        onClick={() =>
+                          path &&
+                          openStorageItem(
+                            { path, url: buildPublicUrl(path), title: row.resource_name },
+                            video ? 'play' : 'download'
+                          )
+                        }
+                      >
+                        {video ? <Play className="mr-2 h-3.5 w-3.5" /> : <Download className="mr-2 h-3.5 w-3.5" />}
+                        {video ? 'Play' : 'Open'}
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      <div className="mt-3 flex items-center justify-between text-sm text-slate-600">
+        <div>{total > 0 ? `${first}–${last} of ${total}` : ''}</div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 bg-transparent"
+            disabled={loading || page === 0}
+            onClick={() => setPage((p) => Math.max(0, p - 1))}
+          >
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Prev
+          </Button>
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8 bg-transparent"
+            disabled={loading || page + 1 >= pageCount}
+            onClick={() => setPage((p) => p + 1)}
+          >
+            Next
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,839 @@
+/**
+ * Admin content console (admin role only)
+ * - Purpose: Manage the "clinicalrxqfiles" bucket without out-of-band uploads.
+ * - Browse: folder tree built from the bucket walk (listFilesDeep) plus the fixed upload folders.
+ * - Upload into the fixed program/category and library folders; rename, move, delete objects; edit display titles
+ *   and resource metadata (description, tags, audience, payer relevance, version, effective / review-by dates).
+ * - Replace a file with a newer version (label + change note); prior versions stay downloadable from its history.
+ * - Review queue: resources past (or near) their review-by date, with owners and "Mark reviewed" (ReviewQueue).
+ * - Program overviews: Markdown editor with live preview (ProgramOverviewEditor).
+ * - Every change goes through storageAdmin, which keeps storage_files_catalog rows in sync.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  ChevronDown,
+  ChevronRight,
+  FileText,
+  FileUp,
+  Folder,
+  FolderInput,
+  History,
+  Pencil,
+  RefreshCw,
+  Search,
+  Tags,
+  Trash2,
+  Type,
+  Upload,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Badge } from '../components/ui/badge';
+import { Textarea } from '../components/ui/textarea';
+import ResourceMetaBadges from '../components/resources/ResourceMetaBadges';
+import ReviewQueue from '../components/admin/ReviewQueue';
+import ProgramOverviewEditor from '../components/admin/ProgramOverviewEditor';
+import Breadcrumbs from '../components/common/Breadcrumbs';
+import AppShell from '../components/layout/AppShell';
+import MemberSidebar from '../components/layout/MemberSidebar';
+import {
+  deleteFile,
+  getUploadFolders,
+  listBucketTree,
+  listVersions,
+  moveFile,
+  renameFile,
+  replaceFile,
+  setDisplayTitle,
+  setMetadata,
+  uploadFile,
+  type AdminFile,
+  type FileVersion,
+} from '../services/storageAdmin';
+import { useProgramStore } from '../stores/programStore';
+import { openStorageItem } from '../lib/fileActions';
+import { buildPublicUrl } from '../services/supabaseStorage';
+import {
+  AUDIENCES,
+  AUDIENCE_LABELS,
+  EMPTY_METADATA,
+  PAYERS,
+  PAYER_LABELS,
+  parseTags,
+  type ResourceMetadata,
+} from '../services/resourceMetadata';
+
+/** Folder tree node */
+interface FolderNode {
+  name: string;
+  path: string;
+  children: FolderNode[];
+  /** Files directly or indirectly under this folder */
+  count: number;
+}
+
+/** Row being edited */
+type EditMode = { path: string; mode: 'title' | 'rename' | 'move'; value: string };
+
+/** Expanded panel under a row */
+type RowPanel = { path: string; kind: 'meta' | 'replace' | 'history' };
+
+/** Folder part of a path ('' at the bucket root) */
+function folderOf(path: string): string {
+  const i = path.lastIndexOf('/');
+  return i >= 0 ? path.slice(0, i) : '';
+}
+
+/**
+ * Build the folder tree from file paths and the upload folders.
+ */
+function buildTree(files: AdminFile[], uploadFolders: string[]): FolderNode {
+  const root: FolderNode = { name: 'clinicalrxqfiles', path: '', children: [], count: 0 };
+  const nodeFor = (folder: string): FolderNode => {
+    let node = root;
+    if (!folder) return node;
+    let path = '';
+    for (const part of folder.split('/')) {
+      path = path ? `${path}/${part}` : part;
+      let child = node.children.find((c) => c.path === path);
+      if (!child) {
+        child = { name: part, path, children: [], count: 0 };
+        node.children.push(child);
+      }
+      node = child;
+    }
+    return node;
+  };
+  uploadFolders.forEach((f) => nodeFor(f));
+  for (const f of files) {
+    const folder = folderOf(f.path);
+    root.count++;
+    let path = '';
+    for (const part of folder ? folder.split('/') : []) {
+      path = path ? `${path}/${part}` : part;
+      nodeFor(path).count++;
+    }
+  }
+  const sort = (n: FolderNode) => {
+    n.children.sort((a, b) => a.name.localeCompare(b.name));
+    n.children.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+/**
+ * Collapsible folder tree item
+ */
+function FolderItem({
+  node,
+  selected,
+  onSelect,
+  depth = 0,
+}: {
+  node: FolderNode;
+  selected: string;
+  onSelect: (path: string) => void;
+  depth?: number;
+}) {
+  const [open, setOpen] = useState(depth === 0 || selected.startsWith(`${node.path}/`));
+  const active = selected === node.path;
+  return (
+    <div>
+      <div
+        className={[
+          'flex items-center gap-1 rounded-md py-1 pr-2 text-[13px]',
+          active ? 'bg-blue-50 text-blue-700' : 'text-slate-700 hover:bg-slate-50',
+        ].join(' ')}
+        style={{ paddingLeft: depth * 12 + 4 }}
+      >
+        {node.children.length ? (
+          <button type="button" onClick={() => setOpen((v) => !v)} aria-label={open ? 'Collapse' : 'Expand'}>
+            {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          </button>
+        ) : (
+          <span className="w-3.5" />
+        )}
+        <button type="button" className="flex min-w-0 flex-1 items-center gap-1.5 text-left" onClick={() => onSelect(node.path)}>
+          <Folder className="h-3.5 w-3.5 shrink-0" />
+          <span className="truncate">{node.name}</span>
+          <span className="ml-auto text-[11px] text-slate-400">{node.count}</span>
+        </button>
+      </div>
+      {open
+        ? node.children.map((c) => (
+            <FolderItem key={c.path} node={c} selected={selected} onSelect={onSelect} depth={depth + 1} />
+          ))
+        : null}
+    </div>
+  );
+}
+
+/**
+ * Inline metadata editor for one file
+ */
+function MetadataEditor({
+  file,
+  busy,
+  onSave,
+  onCancel,
+}: {
+  file: AdminFile;
+  busy: boolean;
+  onSave: (meta: ResourceMetadata) => void;
+  onCancel: () => void;
+}) {
+  const initial = file.meta ?? EMPTY_METADATA;
+  const [meta, setMeta] = useState<ResourceMetadata>(initial);
+  const [tags, setTags] = useState(initial.tags.join(', '));
+
+  function toggle<K extends 'audience' | 'payerRelevance'>(key: K, value: ResourceMetadata[K][number]) {
+    const list = meta[key] as string[];
+    setMeta({ ...meta, [key]: list.includes(value) ? list.filter((v) => v !== value) : [...list, value] });
+  }
+
+  const checkbox = (label: string, checked: boolean, onChange: () => void) => (
+    <label key={label} className="flex items-center gap-1.5 text-xs text-slate-700">
+      <input type="checkbox" className="h-3.5 w-3.5" checked={checked} onChange={onChange} />
+      {label}
+    </label>
+  );
+
+  return (
+    <form
+      className="mt-2 space-y-3 rounded-md border bg-slate-50 p-3 pl-6 text-xs"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave({ ...meta, tags: parseTags(tags) });
+      }}
+    >
+      <label className="block text-slate-600">
+        Description
+        <Textarea
+          value={meta.description ?? ''}
+          onChange={(e) => setMeta({ ...meta, description: e.target.value })}
+          rows={2}
+          className="mt-1 bg-white text-xs"
+        />
+      </label>
+      <label className="block text-slate-600">
+        Tags (comma separated)
+        <Input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="e.g. hypertension, adherence"
+          className="mt-1 h-8 bg-white text-xs"
+        />
+      </label>
+      <div className="flex flex-wrap gap-6">
+        <div>
+          <div className="mb-1 text-slate-600">Audience</div>
+          <div className="flex flex-wrap gap-3">
+            {AUDIENCES.map((a) => checkbox(AUDIENCE_LABELS[a], meta.audience.includes(a), () => toggle('audience', a)))}
+          </div>
+        </div>
+        <div>
+          <div className="mb-1 text-slate-600">Payer relevance</div>
+          <div className="flex flex-wrap gap-3">
+            {PAYERS.map((p) => checkbox(PAYER_LABELS[p], meta.payerRelevance.includes(p), () => toggle('payerRelevance', p)))}
+          </div>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <label className="text-slate-600">
+          Version
+          <Input
+            value={meta.version ?? ''}
+            onChange={(e) => setMeta({ ...meta, version: e.target.value })}
+            placeholder="e.g. 2.1"
+            className="mt-1 h-8 w-28 bg-white text-xs"
+          />
+        </label>
+        <label className="text-slate-600">
+          Effective date
+          <Input
+            type="date"
+            value={meta.effectiveDate ?? ''}
+            onChange={(e) => setMeta({ ...meta, effectiveDate: e.target.value || null })}
+            className="mt-1 h-8 w-40 bg-white text-xs"
+          />
+        </label>
+        <label className="text-slate-600">
+          Review by
+          <Input
+            type="date"
+            value={meta.reviewBy ?? ''}
+            onChange={(e) => setMeta({ ...meta, reviewBy: e.target.value || null })}
+            className="mt-1 h-8 w-40 bg-white text-xs"
+          />
+        </label>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button type="submit" size="sm" className="h-8" disabled={busy}>
+          Save metadata
+        </Button>
+        <Button type="button" size="sm" variant="outline" className="h-8 bg-transparent" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Inline form: replace a file's content with a newer version
+ */
+function ReplaceForm({
+  file,
+  busy,
+  onSave,
+  onCancel,
+}: {
+  file: AdminFile;
+  busy: boolean;
+  onSave: (next: File, info: { versionLabel: string; changeNote: string }) => void;
+  onCancel: () => void;
+}) {
+  const [next, setNext] = useState<File | null>(null);
+  const [versionLabel, setVersionLabel] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+
+  return (
+    <form
+      className="mt-2 space-y-3 rounded-md border bg-slate-50 p-3 pl-6 text-xs"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (next) onSave(next, { versionLabel, changeNote });
+      }}
+    >
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="text-slate-600">
+          New file
+          <input type="file" onChange={(e) => setNext(e.target.files?.[0] ?? null)} className="mt-1 block text-xs" />
+        </label>
+        <label className="text-slate-600">
+          Version label
+          <Input
+            value={versionLabel}
+            onChange={(e) => setVersionLabel(e.target.value)}
+            placeholder={file.meta?.version ? `after ${file.meta.version}` : 'e.g. 2.0'}
+            className="mt-1 h-8 w-32 bg-white text-xs"
+          />
+        </label>
+      </div>
+      <label className="block text-slate-600">
+        What changed
+        <Textarea
+          value={changeNote}
+          onChange={(e) => setChangeNote(e.target.value)}
+          rows={2}
+          placeholder="Shown to members in the program's recent changes"
+          className="mt-1 bg-white text-xs"
+        />
+      </label>
+      {next && next.name !== file.filename ? (
+        <p className="text-[11px] text-amber-700">
+          The new file keeps the current name ({file.filename}) so bookmarks and links still work.
+        </p>
+      ) : null}
+      <div className="flex items-center gap-2">
+        <Button type="submit" size="sm" className="h-8" disabled={busy || !next}>
+          Replace file
+        </Button>
+        <Button type="button" size="sm" variant="outline" className="h-8 bg-transparent" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Version history of one file; archived versions open through a signed URL (admins only)
+ */
+function VersionHistory({ file }: { file: AdminFile }) {
+  const [versions, setVersions] = useState<FileVersion[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listVersions(file)
+      .then((list) => {
+        if (!cancelled) setVersions(list);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Could not load the history.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  return (
+    <div className="mt-2 rounded-md border bg-slate-50 p-3 pl-6 text-xs">
+      {error ? (
+        <div className="text-red-600">{error}</div>
+      ) : !versions ? (
+        <div className="text-slate-600">Loading history…</div>
+      ) : versions.length === 0 ? (
+        <div className="text-slate-600">No versions recorded yet. Replacing the file starts its history.</div>
+      ) : (
+        <ul className="space-y-2">
+          {versions.map((v) => (
+            <li key={v.id} className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="font-medium text-slate-800">
+                  {v.version_label ? `Version ${v.version_label}` : v.kind === 'replace' ? 'Replacement' : 'Original upload'}
+                  {v.archived_path ? null : (
+                    <Badge variant="secondary" className="ml-2 px-1.5 py-0 text-[10px]">
+                      Current
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-[11px] text-slate-500">
+                  {new Date(v.created_at).toLocaleString()}
+                  {v.uploader_name ? ` • ${v.uploader_name}` : ''}
+                  {typeof v.file_size === 'number' ? ` • ${(v.file_size / 1024).toFixed(0)} KB` : ''}
+                </div>
+                {v.change_note ? <div className="mt-0.5 text-slate-700">{v.change_note}</div> : null}
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                className="h-7 shrink-0 bg-transparent px-2 text-[11px]"
+                onClick={() =>
+                  openStorageItem(
+                    {
+                      path: v.archived_path || file.path,
+                      url: buildPublicUrl(v.archived_path || file.path),
+                      title: file.title,
+                      filename: file.filename,
+                    },
+                    'download'
+                  )
+                }
+              >
+                Download
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Admin page component
+ */
+export default function Admin() {
+  const [files, setFiles] = useState<AdminFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [folder, setFolder] = useState('');
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<EditMode | null>(null);
+  const [panel, setPanel] = useState<RowPanel | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // Upload form
+  const programs = useProgramStore((s) => s.programs);
+  const loadPrograms = useProgramStore((s) => s.load);
+  const uploadFolders = useMemo(() => getUploadFolders(), [programs]);
+  const [uploadFolder, setUploadFolder] = useState('');
+  const [uploads, setUploads] = useState<File[]>([]);
+  const [uploadTitle, setUploadTitle] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [inputKey, setInputKey] = useState(0);
+
+  async function refresh() {
+    setLoading(true);
+    setError(null);
+    try {
+      setFiles(await listBucketTree());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not list the bucket.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+    loadPrograms();
+  }, [loadPrograms]);
+
+  useEffect(() => {
+    if (!uploadFolders.includes(uploadFolder)) setUploadFolder(uploadFolders[0]);
+  }, [uploadFolders, uploadFolder]);
+
+  const tree = useMemo(() => buildTree(files, uploadFolders), [files, uploadFolders]);
+
+  /** All folders (move destinations) */
+  const allFolders = useMemo(() => {
+    const set = new Set<string>(uploadFolders);
+    files.forEach((f) => {
+      const dir = folderOf(f.path);
+      if (dir) set.add(dir);
+    });
+    return Array.from(set).sort();
+  }, [files, uploadFolders]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return files.filter((f) => {
+      if (folder && !f.path.startsWith(`${folder}/`)) return false;
+      if (!q) return true;
+      return f.path.toLowerCase().includes(q) || f.title.toLowerCase().includes(q);
+    });
+  }, [files, folder, query]);
+
+  /** Selecting an upload folder also targets uploads there */
+  function selectFolder(path: string) {
+    setFolder(path);
+    if (uploadFolders.includes(path)) setUploadFolder(path);
+  }
+
+  async function run(path: string, action: () => Promise<unknown>, success: string) {
+    setBusy(path);
+    try {
+      await action();
+      toast.success(success);
+      setEditing(null);
+      setPanel(null);
+      await refresh();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Something went wrong.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function saveEdit(file: AdminFile) {
+    if (!editing) return;
+    const value = editing.value;
+    if (editing.mode === 'title') {
+      run(file.path, () => setDisplayTitle(file, value), 'Title saved.');
+    } else if (editing.mode === 'rename') {
+      run(file.path, () => renameFile(file, value), 'File renamed.');
+    } else {
+      run(file.path, () => moveFile(file, `${value}/${file.filename}`), 'File moved.');
+    }
+  }
+
+  /** Open (or close) a row panel; closes any inline edit */
+  function togglePanel(path: string, kind: RowPanel['kind']) {
+    setEditing(null);
+    setPanel((p) => (p?.path === path && p.kind === kind ? null : { path, kind }));
+  }
+
+  function remove(file: AdminFile) {
+    if (!window.confirm(`Delete "${file.path}"? Members will lose access to it immediately.`)) return;
+    run(file.path, () => deleteFile(file), 'File deleted.');
+  }
+
+  async function upload() {
+    if (!uploads.length) return;
+    setUploading(true);
+    let done = 0;
+    for (const file of uploads) {
+      try {
+        await uploadFile(uploadFolder, file, uploads.length === 1 ? uploadTitle : undefined);
+        done++;
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : `Could not upload ${file.name}.`);
+      }
+    }
+    setUploading(false);
+    if (done) toast.success(`Uploaded ${done} file${done === 1 ? '' : 's'} to ${uploadFolder}.`);
+    setUploads([]);
+    setUploadTitle('');
+    setInputKey((k) => k + 1);
+    await refresh();
+  }
+
+  const header = (
+    <div className="mx-auto w-full max-w-[1280px] px-4 py-4">
+      <Breadcrumbs items={[{ label: 'Dashboard', to: '/dashboard' }, { label: 'Content Admin' }]} className="mb-2" />
+      <div className="mb-1 text-2xl font-bold">Content Admin</div>
+      <div className="text-sm text-gray-600">Upload and organize files in the clinicalrxqfiles bucket</div>
+    </div>
+  );
+
+  return (
+    <AppShell sidebar={<MemberSidebar />} header={header}>
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-[280px_1fr]">
+        {/* Folder tree */}
+        <Card className="h-fit">
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm">Folders</CardTitle>
+            <Button size="sm" variant="ghost" className="h-7 px-2" onClick={refresh} disabled={loading} aria-label="Refresh">
+              <RefreshCw className={['h-3.5 w-3.5', loading ? 'animate-spin' : ''].join(' ')} />
+            </Button>
+          </CardHeader>
+          <CardContent className="px-2 pb-3">
+            <FolderItem node={tree} selected={folder} onSelect={selectFolder} />
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <ReviewQueue onChanged={refresh} />
+
+          <ProgramOverviewEditor />
+
+          {/* Upload */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-sm">
+                <Upload className="h-4 w-4" />
+                Upload files
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap items-end gap-3">
+                <label className="text-xs text-slate-600">
+                  Folder
+                  <select
+                    value={uploadFolder}
+                    onChange={(e) => setUploadFolder(e.target.value)}
+                    className="mt-1 block h-9 rounded-md border border-slate-200 bg-white px-2 text-sm"
+                  >
+                    {uploadFolders.map((f) => (
+                      <option key={f} value={f}>
+                        {f}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-slate-600">
+                  Files
+                  <input
+                    key={inputKey}
+                    type="file"
+                    multiple
+                    onChange={(e) => setUploads(Array.from(e.target.files || []))}
+                    className="mt-1 block text-sm"
+                  />
+                </label>
+                {uploads.length === 1 ? (
+                  <label className="text-xs text-slate-600">
+                    Display title (optional)
+                    <Input
+                      value={uploadTitle}
+                      onChange={(e) => setUploadTitle(e.target.value)}
+                      placeholder={uploads[0].name.replace(/\.[^.]+$/, '')}
+                      className="mt-1 h-9 w-64"
+                    />
+                  </label>
+                ) : null}
+                <Button onClick={upload} disabled={!uploads.length || uploading}>
+                  {uploading ? 'Uploading…' : `Upload${uploads.length > 1 ? ` ${uploads.length} files` : ''}`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Files */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-3 pb-2">
+              <CardTitle className="truncate text-sm">{folder || 'All files'}</CardTitle>
+              <div className="relative">
+                <Search className="pointer-events-none absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400" />
+                <Input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Filter files"
+                  className="h-8 w-56 pl-7 text-xs"
+                />
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading && files.length === 0 ? (
+                <div className="py-6 text-sm text-slate-600">Loading bucket…</div>
+              ) : error ? (
+                <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">{error}</div>
+              ) : visible.length === 0 ? (
+                <div className="rounded-md border border-dashed p-6 text-center text-sm text-slate-600">
+                  No files here yet.
+                </div>
+              ) : (
+                <div className="divide-y rounded-md border">
+                  {visible.map((f) => {
+                    const edit = editing?.path === f.path ? editing : null;
+                    return (
+                      <div key={f.path} className="px-3 py-2.5">
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="flex min-w-0 items-center gap-2">
+                            <FileText className="h-4 w-4 shrink-0 text-blue-600" />
+                            <div className="min-w-0">
+                              <button
+                                type="button"
+                                className="block truncate text-left text-sm font-medium text-slate-900 hover:underline"
+                                onClick={() => openStorageItem(f, 'download')}
+                              >
+                                {f.title}
+                              </button>
+                              <div className="truncate text-[11px] text-slate-500">
+                                {f.path}
+                                {typeof f.size === 'number' ? ` • ${(f.size / 1024).toFixed(0)} KB` : ''}
+                              </div>
+                              <ResourceMetaBadges meta={f.meta} showDescription={false} className="mt-0.5" />
+                            </div>
+                            {!f.cataloged ? (
+                              <Badge variant="secondary" className="shrink-0 text-[10px]">
+                                Not in catalog
+                              </Badge>
+                            ) : null}
+                          </div>
+                          <div className="flex shrink-0 items-center gap-1">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2"
+                              title="Edit display title"
+                              onClick={() => {
+                                setPanel(null);
+                                setEditing({ path: f.path, mode: 'title', value: f.displayTitle ?? '' });
+                              }}
+                            >
+                              <Type className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2"
+                              title="Edit metadata"
+                              onClick={() => togglePanel(f.path, 'meta')}
+                            >
+                              <Tags className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2"
+                              title="Replace with a new version"
+                              onClick={() => togglePanel(f.path, 'replace')}
+                            >
+                              <FileUp className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2"
+                              title="Version history"
+                              onClick={() => togglePanel(f.path, 'history')}
+                            >
+                              <History className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2"
+                              title="Rename"
+                              onClick={() => setEditing({ path: f.path, mode: 'rename', value: f.filename })}
+                            >
+                              <Pencil className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2"
+                              title="Move"
+                              onClick={() => setEditing({ path: f.path, mode: 'move', value: folderOf(f.path) })}
+                            >
+                              <FolderInput className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 px-2 text-red-600 hover:text-red-700"
+                              title="Delete"
+                              disabled={busy === f.path}
+                              onClick={() => remove(f)}
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                          </div>
+                        </div>
+
+                        {edit ? (
+                          <form
+                            className="mt-2 flex flex-wrap items-center gap-2 pl-6"
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              saveEdit(f);
+                            }}
+                          >
+                            {edit.mode === 'move' ? (
+                              <select
+                                value={edit.value}
+                                onChange={(e) => setEditing({ ...edit, value: e.target.value })}
+                                className="h-8 rounded-md border border-slate-200 bg-white px-2 text-xs"
+                                aria-label="Destination folder"
+                              >
+                                {allFolders.map((d) => (
+                                  <option key={d} value={d}>
+                                    {d}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : (
+                              <Input
+                                autoFocus
+                                value={edit.value}
+                                onChange={(e) => setEditing({ ...edit, value: e.target.value })}
+                                placeholder={edit.mode === 'title' ? f.filename.replace(/\.[^.]+$/, '') : 'File name'}
+                                className="h-8 w-80 text-xs"
+                              />
+                            )}
+                            <Button type="submit" size="sm" className="h-8" disabled={busy === f.path}>
+                              {edit.mode === 'title' ? 'Save title' : edit.mode === 'rename' ? 'Rename' : 'Move'}
+                            </Button>
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              className="h-8 bg-transparent"
+                              onClick={() => setEditing(null)}
+                            >
+                              Cancel
+                            </Button>
+                            {edit.mode === 'title' ? (
+                              <span className="text-[11px] text-slate-500">Leave empty to show the file name.</span>
+                            ) : null}
+                          </form>
+                        ) : null}
+
+                        {panel?.path === f.path && panel.kind === 'meta' ? (
+                          <MetadataEditor
+                            file={f}
+                            busy={busy === f.path}
+                            onSave={(meta) => run(f.path, () => setMetadata(f, meta), 'Metadata saved.')}
+                            onCancel={() => setPanel(null)}
+                          />
+                        ) : null}
+                        {panel?.path === f.path && panel.kind === 'replace' ? (
+                          <ReplaceForm
+                            file={f}
+                            busy={busy === f.path}
+                            onSave={(next, info) => run(f.path, () => replaceFile(f, next, info), 'New version uploaded.')}
+                            onCancel={() => setPanel(null)}
+                          />
+                        ) : null}
+                        {panel?.path === f.path && panel.kind === 'history' ? <VersionHistory file={f} /> : null}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </AppShell>
+  );
+}
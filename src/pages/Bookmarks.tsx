@@ -1,16 +1,166 @@
 /**
  * Bookmarks page (protected)
  * - Updated to use AppShell with a fixed MemberSidebar (static frame).
+ * - Data: useBookmarkStore (Supabase bookmarks + folders); titles/URLs resolved from storage_files_catalog.
+ * - Features: folder filter, text filter (title/location/note), reorder, remove, per-bookmark note, folder management.
  */
 
+import { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
-import { Bookmark } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import {
+  ArrowDown,
+  ArrowUp,
+  Bookmark,
+  Download,
+  Folder,
+  FolderPlus,
+  Pencil,
+  Play,
+  Search,
+  Trash2,
+} from 'lucide-react';
 import Breadcrumbs from '../components/common/Breadcrumbs';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
+import { useBookmarkStore } from '../stores/bookmarkStore';
+import { STORAGE_FILE_RESOURCE, type Bookmark as BookmarkRow } from '../services/supabase';
+import { describePath, getCatalogItemsByPaths } from '../services/storageCatalog';
+import { isVideo, type StorageFileItem } from '../services/supabaseStorage';
+import { openStorageItem } from '../lib/fileActions';
+
+/** Folder filter: all, unfiled, or a folder id */
+type FolderFilter = 'all' | 'unfiled' | string;
+
+/** Bookmark row joined with its resolved catalog item */
+interface ResolvedBookmark {
+  bookmark: BookmarkRow;
+  item: StorageFileItem;
+  location: string;
+}
+
+/**
+ * Note editor: saves on blur when the text changed.
+ */
+function NoteField({ value, onSave }: { value: string; onSave: (next: string) => void }) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  return (
+    <textarea
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== value) onSave(draft);
+      }}
+      placeholder="Add a note…"
+      rows={1}
+      className="mt-2 w-full resize-y rounded-md border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700 placeholder:text-slate-400 focus:outline-none focus:ring-1 focus:ring-blue-300"
+    />
+  );
+}
 
 export default function Bookmarks() {
-  const bookmarks: Array<{ id: string; title: string; href: string }> = [];
+  const {
+    items,
+    folders,
+    loaded,
+    remove,
+    setNote,
+    moveToFolder,
+    reorder,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+  } = useBookmarkStore();
+
+  const [resolved, setResolved] = useState<Record<string, StorageFileItem>>({});
+  const [folderFilter, setFolderFilter] = useState<FolderFilter>('all');
+  const [q, setQ] = useState('');
+  const [newFolder, setNewFolder] = useState('');
+
+  /** Resolve titles/URLs for bookmarked paths from the storage catalog */
+  const paths = useMemo(
+    () => items.filter((b) => b.resource_type === STORAGE_FILE_RESOURCE).map((b) => b.resource_id),
+    [items]
+  );
+  useEffect(() => {
+    let cancelled = false;
+    const missing = paths.filter((p) => !resolved[p]);
+    if (missing.length === 0) return;
+    getCatalogItemsByPaths(missing)
+      .then((found) => {
+        if (cancelled) return;
+        setResolved((prev) => {
+          const next = { ...prev };
+          found.forEach((f) => (next[f.path] = f));
+          return next;
+        });
+      })
+      .catch(() => {
+        // Rows without a resolved item fall back to the raw path below
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paths]);
+
+  /** Join, then apply folder + text filters (order follows sort_order) */
+  const rows: ResolvedBookmark[] = useMemo(() => {
+    const term = q.trim().toLowerCase();
+    return items
+      .filter((b) => b.resource_type === STORAGE_FILE_RESOURCE)
+      .filter((b) =>
+        folderFilter === 'all' ? true : folderFilter === 'unfiled' ? !b.folder_id : b.folder_id === folderFilter
+      )
+      .map((b) => {
+        const item =
+          resolved[b.resource_id] ??
+          ({
+            path: b.resource_id,
+            url: '',
+            filename: b.resource_id.split('/').pop() || b.resource_id,
+            title: b.resource_id.split('/').pop() || b.resource_id,
+          } as StorageFileItem);
+        return { bookmark: b, item, location: describePath(b.resource_id) };
+      })
+      .filter(({ bookmark, item, location }) => {
+        if (!term) return true;
+        return [item.title, location, bookmark.note || ''].some((v) => v.toLowerCase().includes(term));
+      });
+  }, [items, resolved, folderFilter, q]);
+
+  /** Move a visible row up/down, persisting the whole list order */
+  function move(bookmarkId: string, dir: -1 | 1) {
+    const visible = rows.map((r) => r.bookmark.id);
+    const idx = visible.indexOf(bookmarkId);
+    const swapWith = visible[idx + dir];
+    if (idx < 0 || !swapWith) return;
+    const order = items.map((b) => b.id);
+    const a = order.indexOf(bookmarkId);
+    const b = order.indexOf(swapWith);
+    [order[a], order[b]] = [order[b], order[a]];
+    reorder(order);
+  }
+
+  /** Prompt-based folder rename (keeps the sidebar compact) */
+  function handleRename(folderId: string, current: string) {
+    const name = window.prompt('Rename folder', current);
+    if (name && name.trim() && name.trim() !== current) renameFolder(folderId, name);
+  }
+
+  function handleDeleteFolder(folderId: string, name: string) {
+    if (!window.confirm(`Delete folder "${name}"? Bookmarks in it will become unfiled.`)) return;
+    if (folderFilter === folderId) setFolderFilter('all');
+    deleteFolder(folderId);
+  }
+
+  const folderBtn = (active: boolean) =>
+    [
+      'flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm',
+      active ? 'bg-blue-50 text-blue-700' : 'text-slate-700 hover:bg-slate-50',
+    ].join(' ');
 
   const header = (
     <div className="mx-auto w-full max-w-[1280px] px-4 py-4">
@@ -27,29 +177,173 @@ export default function Bookmarks() {
 
   return (
     <AppShell sidebar={<MemberSidebar />} header={header}>
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Bookmark className="h-5 w-5 text-cyan-500" />
-            Saved Items
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          {bookmarks.length === 0 ? (
-            <p className="text-gray-600">You haven’t saved any items yet.</p>
-          ) : (
-            <ul className="space-y-3">
-              {bookmarks.map((b) => (
-                <li key={b.id}>
-                  <a href={b.href} className="text-blue-600 hover:underline">
-                    {b.title}
-                  </a>
-                </li>
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-4">
+        {/* Folders */}
+        <aside className="md:col-span-1">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm">Folders</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              <button type="button" className={folderBtn(folderFilter === 'all')} onClick={() => setFolderFilter('all')}>
+                <Bookmark className="h-4 w-4" />
+                All bookmarks
+              </button>
+              <button
+                type="button"
+                className={folderBtn(folderFilter === 'unfiled')}
+                onClick={() => setFolderFilter('unfiled')}
+              >
+                <Folder className="h-4 w-4" />
+                Unfiled
+              </button>
+              {folders.map((f) => (
+                <div key={f.id} className="group flex items-center gap-1">
+                  <button type="button" className={folderBtn(folderFilter === f.id)} onClick={() => setFolderFilter(f.id)}>
+                    <Folder className="h-4 w-4" />
+                    <span className="truncate">{f.name}</span>
+                  </button>
+                  <button
+                    type="button"
+                    aria-label={`Rename ${f.name}`}
+                    onClick={() => handleRename(f.id, f.name)}
+                    className="rounded p-1 text-slate-400 opacity-0 hover:bg-slate-100 hover:text-slate-700 group-hover:opacity-100"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    aria-label={`Delete ${f.name}`}
+                    onClick={() => handleDeleteFolder(f.id, f.name)}
+                    className="rounded p-1 text-slate-400 opacity-0 hover:bg-slate-100 hover:text-red-600 group-hover:opacity-100"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
               ))}
-            </ul>
-          )}
-        </CardContent>
-      </Card>
+              <form
+                className="flex items-center gap-1 pt-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  createFolder(newFolder);
+                  setNewFolder('');
+                }}
+              >
+                <Input
+                  value={newFolder}
+                  onChange={(e) => setNewFolder(e.target.value)}
+                  placeholder="New folder"
+                  className="h-8 text-xs"
+                />
+                <Button type="submit" size="sm" variant="outline" className="h-8 bg-transparent px-2" aria-label="Create folder">
+                  <FolderPlus className="h-4 w-4" />
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </aside>
+
+        {/* Saved items */}
+        <section className="md:col-span-3">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+              <CardTitle className="flex items-center gap-2">
+                <Bookmark className="h-5 w-5 text-cyan-500" />
+                Saved Items
+              </CardTitle>
+              <div className="relative w-full max-w-xs">
+                <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+                <Input
+                  placeholder="Filter bookmarks…"
+                  className="h-8 pl-9 text-xs"
+                  value={q}
+                  onChange={(e) => setQ(e.target.value)}
+                />
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!loaded ? (
+                <p className="text-gray-600">Loading bookmarks…</p>
+              ) : rows.length === 0 ? (
+                <p className="text-gray-600">
+                  {items.length === 0 ? 'You haven’t saved any items yet.' : 'No bookmarks match this view.'}
+                </p>
+              ) : (
+                <ul className="divide-y divide-slate-200">
+                  {rows.map(({ bookmark, item, location }, idx) => {
+                    const video = isVideo(item);
+                    return (
+                      <li key={bookmark.id} className="py-3">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0 flex-1">
+                            <div className="truncate text-sm font-medium text-slate-900">{item.title}</div>
+                            <div className="text-[11px] text-slate-500">{location}</div>
+                            <NoteField value={bookmark.note || ''} onSave={(next) => setNote(bookmark.id, next)} />
+                          </div>
+                          <div className="flex shrink-0 items-center gap-1">
+                            <select
+                              aria-label="Folder"
+                              value={bookmark.folder_id || ''}
+                              onChange={(e) => moveToFolder(bookmark.id, e.target.value || null)}
+                              className="h-8 rounded-md border border-slate-200 bg-white px-2 text-xs"
+                            >
+                              <option value="">Unfiled</option>
+                              {folders.map((f) => (
+                                <option key={f.id} value={f.id}>
+                                  {f.name}
+                                </option>
+                              ))}
+                            </select>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 px-2"
+                              aria-label="Move up"
+                              disabled={idx === 0}
+                              onClick={() => move(bookmark.id, -1)}
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 px-2"
+                              aria-label="Move down"
+                              disabled={idx === rows.length - 1}
+                              onClick={() => move(bookmark.id, 1)}
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-8 bg-transparent px-3"
+                              disabled={!item.url}
+                              onClick={() => openStorageItem(item, video ? 'play' : 'download')}
+                            >
+                              {video ? <Play className="mr-2 h-4 w-4" /> : <Download className="mr-2 h-4 w-4" />}
+                              {video ? 'Play' : 'Download'}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 px-2 text-slate-500 hover:text-red-600"
+                              aria-label="Remove bookmark"
+                              onClick={() => remove(bookmark.resource_id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+      </div>
     </AppShell>
   );
 }
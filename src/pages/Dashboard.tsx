@@ -1,7 +1,10 @@
 /**
  * Dashboard page (Airtable-free)
- * - Purpose: Removes AirtableStatus usage; keeps existing UI and mock data fetching via Api as-is.
- * - If Api relies on remote services, that is outside Airtable scope here.
+ * - Purpose: Member home; all data comes through Api (live Supabase provider, or the demo provider offline).
+ * - Quick access tiles are pinned from bookmarks and can be unpinned here; team members see the tiles for their
+ *   role unless they choose "Show everything" (AudienceToggle).
+ * - Recent activity + "Continue where you left off" come from the recent_activity table.
+ * - Program cards show training progress (progressStore).
  */
 
 import React, { useEffect, useMemo, useState } from 'react';
@@ -23,36 +26,30 @@ import {
   Download,
   PlayCircle,
   FileText,
+  Pin,
+  X,
 } from 'lucide-react';
 import { Link } from 'react-router';
 import MemberSidebar from '../components/layout/MemberSidebar';
+import ProgramProgress from '../components/programs/ProgramProgress';
+import AudienceToggle from '../components/resources/AudienceToggle';
+import { useAudienceFilter } from '../stores/audienceStore';
+import { resourceAudience } from '../services/resourceMetadata';
+import { programSlugFromPath } from '../services/storageCatalog';
+import { openStorageItem } from '../lib/fileActions';
+import { iconByName } from '../lib/icons';
+import { toast } from 'sonner';
 
 /**
- * Helper: map string icon names to lucide-react components safely.
+ * Open a Dashboard file (signed URL refreshed when needed; logs the access).
+ * - Demo items have no path and are not openable.
  */
-function iconByName(name?: string) {
-  switch ((name || '').trim()) {
-    case 'ClipboardCheck':
-      return require('lucide-react').ClipboardCheck;
-    case 'CalendarCheck':
-      return require('lucide-react').CalendarCheck;
-    case 'Stethoscope':
-      return require('lucide-react').Stethoscope;
-    case 'Activity':
-      return require('lucide-react').Activity;
-    case 'FileText':
-      return require('lucide-react').FileText;
-    case 'FileSpreadsheet':
-      return require('lucide-react').FileSpreadsheet;
-    case 'TestTubes':
-      return require('lucide-react').TestTubes;
-    case 'PlayCircle':
-      return require('lucide-react').PlayCircle;
-    case 'Star':
-      return require('lucide-react').Star;
-    default:
-      return ArrowRight;
-  }
+function openResource(item: { path?: string; url?: string; name: string; mediaType?: 'document' | 'video' }) {
+  if (!item.path) return;
+  openStorageItem(
+    { path: item.path, url: item.url || '', title: item.name },
+    item.mediaType === 'video' ? 'play' : 'download'
+  );
 }
 
 /**
@@ -67,8 +64,8 @@ const StatChip: React.FC<{ label: string }> = ({ label }) => (
  * - Shows icon + title + action button only.
  * - If the item is a video and duration is available, show a small duration line.
  */
-const QuickCard: React.FC<{ item: QuickAccessItem }> = ({ item }) => {
-  const Icon = iconByName(item.icon);
+const QuickCard: React.FC<{ item: QuickAccessItem; onUnpin: () => void }> = ({ item, onUnpin }) => {
+  const Icon = iconByName(item.icon, ArrowRight);
   const isVideo = (item as any)?.mediaType === 'video' || item.cta === 'Watch';
   const duration = (item as any)?.duration as string | undefined;
 
@@ -77,20 +74,40 @@ const QuickCard: React.FC<{ item: QuickAccessItem }> = ({ item }) => {
       <CardHeader className="pb-2">
         <div className="flex items-center gap-2">
           <Icon className="h-4 w-4 text-slate-600" />
-          <CardTitle className="text-sm">{item.title}</CardTitle>
+          <CardTitle className="flex-1 text-sm">{item.title}</CardTitle>
+          <button
+            type="button"
+            onClick={onUnpin}
+            className="rounded p-0.5 text-slate-400 hover:bg-slate-100 hover:text-slate-700"
+            aria-label={`Remove ${item.title} from Quick Access`}
+            title="Remove from Quick Access"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
         </div>
+        {item.subtitle ? <div className="text-[11px] text-slate-500">{item.subtitle}</div> : null}
         {isVideo && duration ? (
           <div className="text-[11px] text-slate-500">{duration}</div>
         ) : null}
       </CardHeader>
       <CardContent>
         {isVideo ? (
-          <Button variant="secondary" className="h-8 w-full px-3">
+          <Button
+            variant="secondary"
+            className="h-8 w-full px-3"
+            disabled={!item.path}
+            onClick={() => openResource({ ...item, name: item.title, mediaType: 'video' })}
+          >
             <PlayCircle className="mr-2 h-3.5 w-3.5" />
             Watch
           </Button>
         ) : (
-          <Button variant="secondary" className="h-8 w-full px-3">
+          <Button
+            variant="secondary"
+            className="h-8 w-full px-3"
+            disabled={!item.path}
+            onClick={() => openResource({ ...item, name: item.title, mediaType: 'document' })}
+          >
             <Download className="mr-2 h-3.5 w-3.5" />
             Download
           </Button>
@@ -118,12 +135,19 @@ export default function Dashboard() {
     let mounted = true;
     async function load() {
       try {
+        // One failing section (e.g. a table not yet migrated) should not blank the others
+        const orEmpty = <T,>(promise: Promise<T[]>) =>
+          promise.catch((e) => {
+            // eslint-disable-next-line no-console
+            console.error('Error loading dashboard section:', e);
+            return [] as T[];
+          });
         const [p, q, b, a, an] = await Promise.all([
-          Api.getPrograms(),
-          Api.getQuickAccess(),
-          Api.getBookmarkedResources(),
-          Api.getRecentActivity(),
-          Api.getAnnouncements(),
+          orEmpty(Api.getPrograms()),
+          orEmpty(Api.getQuickAccess()),
+          orEmpty(Api.getBookmarkedResources()),
+          orEmpty(Api.getRecentActivity()),
+          orEmpty(Api.getAnnouncements()),
         ]);
         if (!mounted) return;
         setPrograms(p);
@@ -142,6 +166,39 @@ export default function Dashboard() {
     };
   }, []);
 
+  /** Tiles for the viewer's role */
+  const { shows } = useAudienceFilter();
+  const shownQuick = useMemo(
+    () => quick.filter((q) => shows(q.audience ?? resourceAudience(undefined, q.title))),
+    [quick, shows]
+  );
+
+  /** Paths already pinned to Quick Access */
+  const pinnedPaths = useMemo(() => new Set(quick.map((q) => q.path).filter(Boolean)), [quick]);
+
+  /** Pin a bookmarked file to Quick Access */
+  async function pin(b: ResourceItem) {
+    if (!b.path) return;
+    try {
+      const tile = await Api.addQuickAccess({ path: b.path, title: b.name, subtitle: b.program });
+      setQuick((prev) => [...prev.filter((q) => q.path !== tile.path), tile]);
+    } catch {
+      toast.error('Could not pin to Quick Access.');
+    }
+  }
+
+  /** Unpin a Quick Access tile (optimistic) */
+  async function unpin(id: string) {
+    const previous = quick;
+    setQuick((prev) => prev.filter((q) => q.id !== id));
+    try {
+      await Api.removeQuickAccess(id);
+    } catch {
+      setQuick(previous);
+      toast.error('Could not remove from Quick Access.');
+    }
+  }
+
   /** Compute subscription color chip */
   const subColor = useMemo(() => {
     switch (member?.subscriptionStatus) {
@@ -150,7 +207,7 @@ export default function Dashboard() {
       case 'Expiring':
         return 'bg-amber-100 text-amber-700';
       case 'Expired':
-        return 'bg-blue-100 text-blue-700';
+        return 'bg-red-100 text-red-700';
       default:
         return 'bg-blue-100 text-blue-700';
     }
@@ -164,9 +221,9 @@ export default function Dashboard() {
             <div className="text-lg font-semibold">Welcome back, {member?.pharmacyName ?? 'Member'}</div>
             {/* Meta row: keep useful context chips */}
             <div className="mt-1 flex flex-wrap items-center gap-2 text-[12px] text-slate-600">
-              <span className={`rounded-full px-2 py-0.5 text-[11px] ${subColor}`}>
-                {member?.subscriptionStatus ?? 'Active'}
-              </span>
+              {member?.subscriptionStatus ? (
+                <span className={`rounded-full px-2 py-0.5 text-[11px] ${subColor}`}>{member.subscriptionStatus}</span>
+              ) : null}
             </div>
           </div>
           <Link to="/resources">
@@ -190,7 +247,7 @@ export default function Dashboard() {
         </div>
         <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-3">
           {programs.map((p) => {
-            const Icon = iconByName(p.icon);
+            const Icon = iconByName(p.icon, ArrowRight);
             return (
               <Link key={p.slug} to={`/program/${p.slug}`}>
                 <Card className="group border-blue-50 hover:border-blue-200 hover:shadow-md">
@@ -210,6 +267,7 @@ export default function Dashboard() {
                   </CardHeader>
                   <CardContent>
                     <p className="text-[13px] text-slate-600">{p.description}</p>
+                    <ProgramProgress slug={p.slug} linkNext={false} className="mt-2.5" />
                   </CardContent>
                 </Card>
               </Link>
@@ -221,18 +279,24 @@ export default function Dashboard() {
       {/* Quick access */}
       <section className="mb-6">
         <h2 className="mb-2.5 text-base font-semibold">Quick Access</h2>
+        {quick.length ? <AudienceToggle hidden={quick.length - shownQuick.length} className="mb-3" /> : null}
         <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-4">
-          {quick.map((q) => (
-            <QuickCard key={q.id} item={q} />
+          {shownQuick.map((q) => (
+            <QuickCard key={q.id} item={q} onUnpin={() => unpin(q.id)} />
           ))}
         </div>
+        {quick.length === 0 ? (
+          <div className="rounded-md border border-dashed p-4 text-[13px] text-slate-600">
+            Pin your most-used files here using the pin button on a bookmarked resource.
+          </div>
+        ) : null}
       </section>
 
       {/* Bookmarked resources */}
       <section className="mb-6">
         <div className="mb-2.5 flex items-center justify-between">
           <h2 className="text-base font-semibold">Your Bookmarked Resources</h2>
-          <Link to="/resources" className="text-[12px] text-blue-700 hover:underline">
+          <Link to="/bookmarks" className="text-[12px] text-blue-700 hover:underline">
             View All
           </Link>
         </div>
@@ -265,10 +329,31 @@ export default function Dashboard() {
                       <div className="text-[11px] text-slate-500">{duration}</div>
                     ) : null}
                   </CardHeader>
-                  <CardContent>
-                    <Button size="sm" variant="secondary" className="h-8 w-full px-3">
-                      <Download className="mr-2 h-3.5 w-3.5" />
-                      Download
+                  <CardContent className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      className="h-8 flex-1 px-3"
+                      disabled={!b.path}
+                      onClick={() => openResource(b)}
+                    >
+                      {isVideo ? (
+                        <PlayCircle className="mr-2 h-3.5 w-3.5" />
+                      ) : (
+                        <Download className="mr-2 h-3.5 w-3.5" />
+                      )}
+                      {isVideo ? 'Watch' : 'Download'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-8 bg-transparent px-2"
+                      disabled={!b.path || pinnedPaths.has(b.path)}
+                      onClick={() => pin(b)}
+                      aria-label={`Pin ${b.name} to Quick Access`}
+                      title={b.path && pinnedPaths.has(b.path) ? 'Pinned to Quick Access' : 'Pin to Quick Access'}
+                    >
+                      <Pin className="h-3.5 w-3.5" />
                     </Button>
                   </CardContent>
                 </Card>
@@ -278,30 +363,81 @@ export default function Dashboard() {
         )}
       </section>
 
+      {/* Continue where you left off (most recent access) */}
+      {activity[0] ? (
+        <section className="mb-6">
+          <Card className="border-cyan-200 bg-gradient-to-r from-blue-50 to-cyan-50">
+            <CardContent className="flex flex-wrap items-center justify-between gap-3 p-4">
+              <div className="min-w-0">
+                <div className="text-[11px] font-semibold uppercase tracking-wide text-slate-500">
+                  Continue where you left off
+                </div>
+                <div className="truncate text-sm font-semibold text-slate-900">{activity[0].name}</div>
+                <div className="text-[12px] text-slate-600">
+                  {activity[0].program ? `${activity[0].program} • ` : ''}
+                  {new Date(activity[0].accessedAtISO).toLocaleString()}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {activity[0].path && programSlugFromPath(activity[0].path) ? (
+                  <Button asChild variant="outline" className="h-8 bg-transparent px-3">
+                    <Link to={`/program/${programSlugFromPath(activity[0].path)}`}>Go to program</Link>
+                  </Button>
+                ) : null}
+                <Button className="h-8 px-3" disabled={!activity[0].path} onClick={() => openResource(activity[0])}>
+                  {activity[0].mediaType === 'video' ? (
+                    <PlayCircle className="mr-2 h-3.5 w-3.5" />
+                  ) : (
+                    <Download className="mr-2 h-3.5 w-3.5" />
+                  )}
+                  {activity[0].mediaType === 'video' ? 'Resume' : 'Open again'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+      ) : null}
+
       {/* Recent activity and announcements */}
       <section className="grid grid-cols-1 gap-3 xl:grid-cols-3">
         <div className="xl:col-span-2">
           <Card>
-            <CardHeader className="pb-1.5">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1.5">
               <CardTitle className="text-sm">Recently Accessed</CardTitle>
+              <Link to="/activity" className="text-[12px] text-blue-700 hover:underline">
+                View history
+              </Link>
             </CardHeader>
             <CardContent>
-              <div className="divide-y">
-                {activity.map((a) => (
-                  <div key={a.id} className="flex items-center justify-between py-2">
-                    <div>
-                      <div className="text-[13px] font-medium">{a.name}</div>
-                      <div className="text-[12px] text-slate-500">
-                        {a.program?.toUpperCase()} • {new Date(a.accessedAtISO).toLocaleString()}
+              {activity.length === 0 ? (
+                <div className="py-2 text-[13px] text-slate-600">
+                  Files you download or play will appear here.
+                </div>
+              ) : (
+                <div className="divide-y">
+                  {activity.map((a) => (
+                    <div key={a.id} className="flex items-center justify-between py-2">
+                      <div>
+                        <div className="text-[13px] font-medium">{a.name}</div>
+                        <div className="text-[12px] text-slate-500">
+                          {a.program ? `${a.program} • ` : ''}
+                          {new Date(a.accessedAtISO).toLocaleString()}
+                        </div>
                       </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="bg-transparent h-8 px-3"
+                        disabled={!a.path}
+                        onClick={() => openResource(a)}
+                      >
+                        <Download className="mr-2 h-3.5 w-3.5" />
+                        Re-download
+                      </Button>
                     </div>
-                    <Button size="sm" variant="outline" className="bg-transparent h-8 px-3">
-                      <Download className="mr-2 h-3.5 w-3.5" />
-                      Re-download
-                    </Button>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -1,329 +1,316 @@
 /**
- * Enrollment and payment page
+ * Enrollment page
+ * - Purpose: Choose a plan (public.plans, priced per program bundle) and pay on the payment provider's hosted
+ *   checkout page. No card details are collected here.
+ * - ?plan=<code> preselects a plan; ?change=<subscription id> switches the current plan (Account page), ending it
+ *   when the new one starts; its unused value is credited as time on the new plan (prorated by price). The provider
+ *   returns to ?checkout=success&id=<checkout id>, where the page waits for the webhook to activate the subscription,
+ *   or to ?checkout=cancelled.
+ * - Team members other than the owner cannot check out (the owner manages the team's plan).
  */
-import { useState } from 'react';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useLocation } from 'react-router';
+import { toast } from 'sonner';
 import Header from '../components/layout/Header';
 import Footer from '../components/layout/Footer';
 import { Button } from '../components/ui/button';
-import { Input } from '../components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
 import { Separator } from '../components/ui/separator';
-import { Check, CreditCard, Lock } from 'lucide-react';
+import { Check, CheckCircle2, Loader2, Lock, XCircle } from 'lucide-react';
 import SafeText from '../components/common/SafeText';
+import { useAuthStore } from '../stores/authStore';
+import { checkoutService, formatPrice, formatTerm, type Checkout, type Plan } from '../services/checkout';
 
-export default function Enroll() {
-  const [selectedProgram, setSelectedProgram] = useState('clinical-fundamentals');
-  const [billingInfo, setBillingInfo] = useState({
-    firstName: '',
-    lastName: '',
-    email: '',
-    phone: '',
-    cardNumber: '',
-    expiryDate: '',
-    cvv: '',
-    billingAddress: '',
-    city: '',
-    state: '',
-    zipCode: ''
-  });
+/** Poll interval and attempts while waiting for the webhook (about a minute) */
+const POLL_MS = 2000;
+const POLL_ATTEMPTS = 30;
 
-  const programs = [
-    {
-      id: 'clinical-fundamentals',
-      title: 'Clinical Pharmacy Fundamentals',
-      price: 299,
-      duration: '8 weeks',
-      features: [
-        'Interactive online modules',
-        'Live Q&A sessions',
-        'Certification upon completion',
-        '24/7 support access',
-        'Downloadable resources'
-      ]
-    },
-    {
-      id: 'advanced-therapy',
-      title: 'Advanced Drug Therapy Management',
-      price: 449,
-      duration: '12 weeks',
-      features: [
-        'Advanced case studies',
-        'Expert mentorship',
-        'Research database access',
-        'Peer networking opportunities',
-        'Continuing education credits'
-      ]
-    },
-    {
-      id: 'pharmaceutical-care',
-      title: 'Pharmaceutical Care Excellence',
-      price: 349,
-      duration: '10 weeks',
-      features: [
-        'Patient care scenarios',
-        'Communication skills training',
-        'Quality metrics training',
-        'Practice tools & templates',
-        'Implementation guides'
-      ]
+/**
+ * Return page after the provider's checkout: waits for the payment to settle.
+ */
+function CheckoutReturn({ id }: { id: string }) {
+  const refreshProfile = useAuthStore((s) => s.refreshProfile);
+  const [checkout, setCheckout] = useState<Checkout | undefined>(undefined);
+  const [timedOut, setTimedOut] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    async function poll(attempt: number) {
+      const row = await checkoutService.get(id).catch(() => undefined);
+      if (cancelled) return;
+      setCheckout(row);
+      if (row?.status === 'completed') {
+        await refreshProfile().catch(() => undefined);
+        return;
+      }
+      if (row && row.status !== 'pending') return;
+      if (attempt + 1 >= POLL_ATTEMPTS) {
+        setTimedOut(true);
+        return;
+      }
+      timer = setTimeout(() => poll(attempt + 1), POLL_MS);
     }
-  ];
+    poll(0);
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [id, refreshProfile]);
+
+  const status = checkout?.status;
+
+  return (
+    <Card className="mx-auto max-w-xl">
+      <CardContent className="space-y-4 p-8 text-center">
+        {status === 'completed' ? (
+          <>
+            <CheckCircle2 className="mx-auto h-12 w-12 text-green-600" />
+            <h2 className="text-2xl font-semibold">You're enrolled</h2>
+            <p className="text-gray-600">
+              Payment of {formatPrice(checkout!.amount_cents, checkout!.currency)} received. Your programs are ready.
+            </p>
+            <Button asChild>
+              <Link to="/dashboard">Go to your dashboard</Link>
+            </Button>
+          </>
+        ) : status === 'failed' || status === 'expired' ? (
+          <>
+            <XCircle className="mx-auto h-12 w-12 text-red-600" />
+            <h2 className="text-2xl font-semibold">
+              {status === 'failed' ? 'Payment was declined' : 'Checkout expired'}
+            </h2>
+            <p className="text-gray-600">You have not been charged.</p>
+            <Button asChild>
+              <Link to={`/enroll?plan=${encodeURIComponent(checkout!.plan_code)}`}>Try again</Link>
+            </Button>
+          </>
+        ) : timedOut ? (
+          <>
+            <h2 className="text-2xl font-semibold">Still confirming your payment</h2>
+            <p className="text-gray-600">
+              This is taking longer than usual. Your programs will unlock as soon as the payment is confirmed; check
+              your dashboard in a few minutes or contact us if they do not appear.
+            </p>
+            <Button asChild variant="outline">
+              <Link to="/dashboard">Go to your dashboard</Link>
+            </Button>
+          </>
+        ) : (
+          <>
+            <Loader2 className="mx-auto h-10 w-10 animate-spin text-blue-600" />
+            <h2 className="text-2xl font-semibold">Confirming your payment…</h2>
+            <p className="text-gray-600">This usually takes a few seconds.</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Enroll() {
+  const location = useLocation();
+  const params = useMemo(() => new URLSearchParams(location.search), [location.search]);
+  const returnId = params.get('checkout') === 'success' ? params.get('id') : null;
+  const cancelled = params.get('checkout') === 'cancelled';
+  const changeId = params.get('change');
 
-  const selectedProgramData = programs.find(p => p.id === selectedProgram);
+  const user = useAuthStore((s) => s.user);
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedCode, setSelectedCode] = useState<string | null>(params.get('plan'));
+  const [starting, setStarting] = useState(false);
 
-  /**
-   * Handle billing input change
-   */
-  const handleInputChange = (field: string, value: string) => {
-    setBillingInfo(prev => ({
-      ...prev,
-      [field]: value
-    }));
-  };
+  useEffect(() => {
+    let mounted = true;
+    checkoutService
+      .getPlans()
+      .then((list) => {
+        if (mounted) setPlans(list);
+      })
+      .catch(() => {
+        if (mounted) setError('Plans could not be loaded. Please try again later.');
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
 
-  /**
-   * Handle enrollment submit
-   */
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    // Handle enrollment submission
-    // eslint-disable-next-line no-console
-    console.log('Enrollment submitted', { selectedProgram, billingInfo });
-  };
+  const selected = plans.find((p) => p.code === selectedCode) ?? plans[0];
+  const org = user?.organization;
+  const managedByOwner = !!org && org.role !== 'owner';
+  const currentPlanCode = changeId && user?.subscription?.id === changeId ? user.subscription.planCode : undefined;
+
+  /** Hand over to the provider's hosted checkout page */
+  async function startCheckout() {
+    if (!selected) return;
+    setStarting(true);
+    try {
+      const { url } = await checkoutService.start(selected.code, changeId || undefined);
+      window.location.assign(url);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Checkout could not be started.');
+      setStarting(false);
+    }
+  }
 
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
-      
+
       <div className="container mx-auto px-6 py-20">
         <div className="max-w-6xl mx-auto">
-          <div className="text-center mb-12">
-            <h1 className="text-4xl font-bold mb-4">Enroll in a Program</h1>
-            <p className="text-lg text-gray-600">Choose your program and complete your enrollment</p>
-          </div>
-          
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-            {/* Program Selection */}
-            <div className="lg:col-span-2">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Select Your Program</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    {programs.map((program) => (
-                      <div
-                        key={program.id}
-                        className={`p-4 border rounded-lg cursor-pointer transition-colors ${
-                          selectedProgram === program.id
-                            ? 'border-blue-500 bg-blue-50'
-                            : 'border-gray-200 hover:border-gray-300'
-                        }`}
-                        onClick={() => setSelectedProgram(program.id)}
-                      >
-                        <div className="flex items-center justify-between mb-2">
-                          <h3 className="font-semibold">
-                            <SafeText value={program.title} />
-                          </h3>
-                          <Badge variant="secondary">
-                            <SafeText value={program.duration} />
-                          </Badge>
-                        </div>
-                        <p className="text-2xl font-bold text-blue-600 mb-3">
-                          ${program.price}
-                        </p>
-                        <ul className="space-y-1">
-                          {program.features.map((feature, index) => (
-                            <li key={index} className="flex items-center gap-2 text-sm">
-                              <Check className="h-3 w-3 text-green-500" />
-                              <SafeText value={feature} />
-                            </li>
+          {returnId ? (
+            <CheckoutReturn id={returnId} />
+          ) : (
+            <>
+              <div className="text-center mb-12">
+                <h1 className="text-4xl font-bold mb-4">{changeId ? 'Change Your Plan' : 'Enroll in a Program'}</h1>
+                <p className="text-lg text-gray-600">
+                  {changeId
+                    ? 'The new plan starts right away; the unused value of your current plan is added as extra time, prorated by price.'
+                    : 'Choose a program bundle or an all-access plan'}
+                </p>
+              </div>
+
+              {cancelled ? (
+                <div className="mb-6 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+                  Checkout was cancelled. You have not been charged.
+                </div>
+              ) : null}
+
+              {loading ? (
+                <div className="rounded-md border bg-white p-6 text-sm text-gray-600">Loading plans…</div>
+              ) : error ? (
+                <div className="rounded-md border border-red-200 bg-red-50 p-6 text-sm text-red-700">{error}</div>
+              ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                  {/* Plan selection */}
+                  <div className="lg:col-span-2">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Select Your Plan</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4">
+                          {plans.map((plan) => (
+                            <button
+                              type="button"
+                              key={plan.code}
+                              className={`block w-full p-4 border rounded-lg text-left transition-colors ${
+                                selected?.code === plan.code
+                                  ? 'border-blue-500 bg-blue-50'
+                                  : 'border-gray-200 hover:border-gray-300'
+                              }`}
+                              onClick={() => setSelectedCode(plan.code)}
+                              aria-pressed={selected?.code === plan.code}
+                            >
+                              <div className="flex items-center justify-between mb-2 gap-2">
+                                <h3 className="font-semibold">
+                                  <SafeText value={plan.name} />
+                                </h3>
+                                <div className="flex gap-1">
+                                  {plan.code === currentPlanCode ? <Badge>Current plan</Badge> : null}
+                                  <Badge variant="secondary">
+                                    {plan.seatLimit > 1 ? `Up to ${plan.seatLimit} team members` : '1 seat'}
+                                  </Badge>
+                                </div>
+                              </div>
+                              {plan.description ? (
+                                <p className="mb-2 text-sm text-gray-600">
+                                  <SafeText value={plan.description} />
+                                </p>
+                              ) : null}
+                              <p className="text-2xl font-bold text-blue-600 mb-3">
+                                {formatPrice(plan.priceCents, plan.currency)}{' '}
+                                <span className="text-sm font-normal text-gray-500">{formatTerm(plan.termMonths)}</span>
+                              </p>
+                              <ul className="space-y-1">
+                                {plan.features.map((feature) => (
+                                  <li key={feature} className="flex items-center gap-2 text-sm">
+                                    <Check className="h-3 w-3 text-green-500" />
+                                    <SafeText value={feature} />
+                                  </li>
+                                ))}
+                              </ul>
+                            </button>
                           ))}
-                        </ul>
-                      </div>
-                    ))}
+                        </div>
+                      </CardContent>
+                    </Card>
                   </div>
-                </CardContent>
-              </Card>
-              
-              {/* Billing Information */}
-              <Card className="mt-8">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <CreditCard className="h-5 w-5" />
-                    Billing Information
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <form id="enrollment-form" onSubmit={handleSubmit} className="space-y-6">
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium mb-2">First Name</label>
-                        <Input
-                          value={billingInfo.firstName}
-                          onChange={(e) => handleInputChange('firstName', e.target.value)}
-                          required
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium mb-2">Last Name</label>
-                        <Input
-                          value={billingInfo.lastName}
-                          onChange={(e) => handleInputChange('lastName', e.target.value)}
-                          required
-                        />
-                      </div>
-                    </div>
-                    
-                    <div>
-                      <label className="block text-sm font-medium mb-2">Email</label>
-                      <Input
-                        type="email"
-                        value={billingInfo.email}
-                        onChange={(e) => handleInputChange('email', e.target.value)}
-                        required
-                      />
-                    </div>
-                    
-                    <div>
-                      <label className="block text-sm font-medium mb-2">Phone</label>
-                      <Input
-                        type="tel"
-                        value={billingInfo.phone}
-                        onChange={(e) => handleInputChange('phone', e.target.value)}
-                        required
-                      />
-                    </div>
-                    
-                    <Separator />
-                    
-                    <div>
-                      <label className="block text-sm font-medium mb-2">Card Number</label>
-                      <Input
-                        placeholder="1234 5678 9012 3456"
-                        value={billingInfo.cardNumber}
-                        onChange={(e) => handleInputChange('cardNumber', e.target.value)}
-                        required
-                      />
-                    </div>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium mb-2">Expiry Date</label>
-                        <Input
-                          placeholder="MM/YY"
-                          value={billingInfo.expiryDate}
-                          onChange={(e) => handleInputChange('expiryDate', e.target.value)}
-                          required
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium mb-2">CVV</label>
-                        <Input
-                          placeholder="123"
-                          value={billingInfo.cvv}
-                          onChange={(e) => handleInputChange('cvv', e.target.value)}
-                          required
-                        />
-                      </div>
-                    </div>
-                    
-                    <div>
-                      <label className="block text-sm font-medium mb-2">Billing Address</label>
-                      <Input
-                        value={billingInfo.billingAddress}
-                        onChange={(e) => handleInputChange('billingAddress', e.target.value)}
-                        required
-                      />
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium mb-2">City</label>
-                        <Input
-                          value={billingInfo.city}
-                          onChange={(e) => handleInputChange('city', e.target.value)}
-                          required
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium mb-2">State</label>
-                        <Input
-                          value={billingInfo.state}
-                          onChange={(e) => handleInputChange('state', e.target.value)}
-                          required
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium mb-2">ZIP Code</label>
-                        <Input
-                          value={billingInfo.zipCode}
-                          onChange={(e) => handleInputChange('zipCode', e.target.value)}
-                          required
-                        />
-                      </div>
-                    </div>
-                  </form>
-                </CardContent>
-              </Card>
-            </div>
-            
-            {/* Order Summary */}
-            <div>
-              <Card className="sticky top-6">
-                <CardHeader>
-                  <CardTitle>Order Summary</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  {selectedProgramData && (
-                    <div className="space-y-4">
-                      <div>
-                        <h3 className="font-semibold">
-                          <SafeText value={selectedProgramData.title} />
-                        </h3>
-                        <p className="text-sm text-gray-600">
-                          <SafeText value={selectedProgramData.duration} />
-                        </p>
-                      </div>
-                      
-                      <Separator />
-                      
-                      <div className="flex justify-between">
-                        <span>Program Fee:</span>
-                        <span>${selectedProgramData.price}</span>
-                      </div>
-                      
-                      <div className="flex justify-between">
-                        <span>Processing Fee:</span>
-                        <span>$9.99</span>
-                      </div>
-                      
-                      <Separator />
-                      
-                      <div className="flex justify-between font-semibold text-lg">
-                        <span>Total:</span>
-                        <span>${selectedProgramData.price + 9.99}</span>
-                      </div>
-                      
-                      <Button className="w-full" size="lg" form="enrollment-form">
-                        <Lock className="h-4 w-4 mr-2" />
-                        Complete Enrollment
-                      </Button>
-                      
-                      <div className="text-xs text-gray-500 text-center">
-                        <p>🔒 Secure payment processing</p>
-                        <p>30-day money-back guarantee</p>
-                      </div>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            </div>
-          </div>
+
+                  {/* Order summary */}
+                  <div>
+                    <Card className="sticky top-6">
+                      <CardHeader>
+                        <CardTitle>Order Summary</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        {selected ? (
+                          <div className="space-y-4">
+                            <div>
+                              <h3 className="font-semibold">
+                                <SafeText value={selected.name} />
+                              </h3>
+                              <p className="text-sm text-gray-600">
+                                {selected.termMonths === 12 ? '1-year' : `${selected.termMonths}-month`} access
+                              </p>
+                            </div>
+
+                            <Separator />
+
+                            <div className="flex justify-between font-semibold text-lg">
+                              <span>Total:</span>
+                              <span>{formatPrice(selected.priceCents, selected.currency)}</span>
+                            </div>
+
+                            {!user ? (
+                              <Button asChild className="w-full" size="lg">
+                                <Link to="/login">Sign in or create an account to continue</Link>
+                              </Button>
+                            ) : managedByOwner ? (
+                              <p className="rounded-md bg-slate-50 p-3 text-sm text-gray-600">
+                                Your team owner manages the plan for <SafeText value={org!.name} />.
+                              </p>
+                            ) : (
+                              <Button
+                                className="w-full"
+                                size="lg"
+                                onClick={startCheckout}
+                                disabled={starting || selected.code === currentPlanCode}
+                              >
+                                <Lock className="h-4 w-4 mr-2" />
+                                {starting ? 'Opening secure checkout…' : 'Continue to secure checkout'}
+                              </Button>
+                            )}
+
+                            <div className="text-xs text-gray-500 text-center">
+                              <p>Payment details are entered on our payment provider's secure page.</p>
+                              <p>30-day money-back guarantee</p>
+                            </div>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-gray-600">No plans are available right now.</p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
         </div>
       </div>
-      
+
       <Footer />
     </div>
   );
@@ -1,9 +1,8 @@
-/** 
- * Member Login page (Airtable-free)
- * - Calls the zustand auth store's login(email, password) correctly.
+/**
+ * Member Login page (Supabase Auth)
+ * - Sign in, create an account, or request a password reset email (GoTrue via the auth store).
  * - Navigates to /dashboard only on successful authentication.
  * - Shows an inline error message on invalid credentials.
- * - Enhancement: Adds an invisible alt+click bypass area below the login card for quick access in demos.
  */
 
 import { useState } from 'react';
@@ -13,120 +12,209 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 
-/** Simple form state for email/password */
+/** Which form the card is showing */
+type LoginMode = 'signin' | 'signup' | 'forgot';
+
+/** Simple form state for the three modes */
 interface LoginForm {
   /** User email */
   email: string;
   /** User password */
   password: string;
+  /** Sign-up only */
+  firstName: string;
+  lastName: string;
+  pharmacyName: string;
 }
 
+/** Card titles per mode */
+const TITLES: Record<LoginMode, string> = {
+  signin: 'Member Login',
+  signup: 'Create Your Account',
+  forgot: 'Reset Your Password',
+};
+
 /**
  * Login page component
  */
 export default function Login() {
   const navigate = useNavigate();
-  const { login } = useAuthStore();
+  const { login, register, requestPasswordReset } = useAuthStore();
 
-  const [form, setForm] = useState<LoginForm>({ email: '', password: '' });
+  const [mode, setMode] = useState<LoginMode>('signin');
+  const [form, setForm] = useState<LoginForm>({
+    email: '',
+    password: '',
+    firstName: '',
+    lastName: '',
+    pharmacyName: '',
+  });
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  /** Switch modes and clear messages */
+  function switchMode(next: LoginMode) {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+  }
 
   /**
-   * Handle sign-in by calling the auth store's login(email, password).
-   * On success, redirect to /dashboard; on failure, show an error.
+   * Handle submit for the active mode.
+   * - signin: on success redirect to /dashboard; on failure show GoTrue's error (bad credentials, unconfirmed email, offline).
+   * - signup: redirect when a session is returned, otherwise ask the member to confirm their email.
+   * - forgot: always show the same notice (do not reveal whether the email exists).
    */
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setSubmitting(true);
     setError(null);
+    setNotice(null);
+    const email = form.email.trim();
     try {
-      const ok = await login(form.email.trim(), form.password);
-      if (ok) {
+      if (mode === 'signin') {
+        await login(email, form.password);
         navigate('/dashboard');
+      } else if (mode === 'signup') {
+        const signedIn = await register({
+          email,
+          password: form.password,
+          firstName: form.firstName.trim() || undefined,
+          lastName: form.lastName.trim() || undefined,
+          pharmacyName: form.pharmacyName.trim() || undefined,
+        });
+        if (signedIn) {
+          navigate('/dashboard');
+        } else {
+          setNotice('Check your inbox to confirm your email address, then sign in.');
+          setMode('signin');
+        }
       } else {
-        setError('Invalid credentials. Use demo@clinicalrxq.com and password.');
+        await requestPasswordReset(email);
+        setNotice('If an account exists for that email, a reset link is on its way.');
       }
-    } catch {
-      setError('Something went wrong. Please try again.');
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Something went wrong. Please try again.');
     } finally {
       setSubmitting(false);
     }
   }
 
-  /**
-   * Secret bypass: Invisible alt+click area below the card.
-   * - Only triggers when the Alt key is pressed during the click.
-   * - Uses the same login flow with demo credentials for consistency.
-   */
-  async function handleSecretBypass(e: React.MouseEvent<HTMLAnchorElement>) {
-    e.preventDefault();
-    if (!e.altKey || submitting) return;
-    try {
-      setSubmitting(true);
-      const ok = await login('demo@clinicalrxq.com', 'password');
-      if (ok) navigate('/dashboard');
-    } finally {
-      setSubmitting(false);
-    }
-  }
+  const submitLabel =
+    mode === 'signin'
+      ? submitting
+        ? 'Signing in…'
+        : 'Sign in'
+      : mode === 'signup'
+        ? submitting
+          ? 'Creating account…'
+          : 'Create account'
+        : submitting
+          ? 'Sending…'
+          : 'Send reset link';
 
   return (
     <div className="min-h-[calc(100vh-4rem)] w-full flex items-start justify-center py-10 px-4">
       <div className="w-full max-w-md">
         <Card>
           <CardHeader>
-            <CardTitle>Member Login</CardTitle>
+            <CardTitle>{TITLES[mode]}</CardTitle>
           </CardHeader>
           <CardContent>
             <form className="space-y-4" onSubmit={handleSubmit}>
+              {mode === 'signup' ? (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="grid gap-2">
+                      <label className="text-sm font-medium">First name</label>
+                      <Input
+                        value={form.firstName}
+                        onChange={(e) => setForm((s) => ({ ...s, firstName: e.target.value }))}
+                        required
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <label className="text-sm font-medium">Last name</label>
+                      <Input
+                        value={form.lastName}
+                        onChange={(e) => setForm((s) => ({ ...s, lastName: e.target.value }))}
+                        required
+                      />
+                    </div>
+                  </div>
+                  <div className="grid gap-2">
+                    <label className="text-sm font-medium">Pharmacy name</label>
+                    <Input
+                      value={form.pharmacyName}
+                      onChange={(e) => setForm((s) => ({ ...s, pharmacyName: e.target.value }))}
+                    />
+                  </div>
+                </>
+              ) : null}
+
               <div className="grid gap-2">
                 <label className="text-sm font-medium">Email address</label>
                 <Input
                   type="email"
                   placeholder="you@example.com"
+                  autoComplete="email"
                   value={form.email}
                   onChange={(e) => setForm((s) => ({ ...s, email: e.target.value }))}
                   required
                 />
               </div>
-              <div className="grid gap-2">
-                <label className="text-sm font-medium">Password</label>
-                <Input
-                  type="password"
-                  placeholder="••••••••"
-                  value={form.password}
-                  onChange={(e) => setForm((s) => ({ ...s, password: e.target.value }))}
-                  required
-                />
-              </div>
 
-              {error ? (
-                <div className="text-xs text-red-600">{error}</div>
-              ) : (
-                <p className="text-xs text-slate-500">
-                  Demo credentials: demo@clinicalrxq.com / password
-                </p>
-              )}
+              {mode !== 'forgot' ? (
+                <div className="grid gap-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium">Password</label>
+                    {mode === 'signin' ? (
+                      <button
+                        type="button"
+                        onClick={() => switchMode('forgot')}
+                        className="text-xs text-blue-700 hover:underline"
+                      >
+                        Forgot password?
+                      </button>
+                    ) : null}
+                  </div>
+                  <Input
+                    type="password"
+                    placeholder="••••••••"
+                    autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+                    minLength={mode === 'signup' ? 8 : undefined}
+                    value={form.password}
+                    onChange={(e) => setForm((s) => ({ ...s, password: e.target.value }))}
+                    required
+                  />
+                </div>
+              ) : null}
+
+              {error ? <div className="text-xs text-red-600">{error}</div> : null}
+              {notice ? <div className="text-xs text-emerald-700">{notice}</div> : null}
 
               <Button type="submit" disabled={submitting}>
-                {submitting ? 'Signing in…' : 'Sign in'}
+                {submitLabel}
               </Button>
             </form>
+
+            <div className="mt-4 text-xs text-slate-600">
+              {mode === 'signin' ? (
+                <>
+                  New team member?{' '}
+                  <button type="button" onClick={() => switchMode('signup')} className="text-blue-700 hover:underline">
+                    Create an account
+                  </button>
+                </>
+              ) : (
+                <button type="button" onClick={() => switchMode('signin')} className="text-blue-700 hover:underline">
+                  Back to sign in
+                </button>
+              )}
+            </div>
           </CardContent>
         </Card>
-
-        {/* Invisible alt+click link area (demo bypass).
-           - It's visually hidden (opacity-0) but clickable.
-           - Place cursor below the login card and Alt+click to bypass. */}
-        <a
-          href="#"
-          aria-hidden="true"
-          onClick={handleSecretBypass}
-          className="block mt-2 h-5 w-full opacity-0 pointer-events-auto select-none"
-        >
-          bypass
-        </a>
       </div>
     </div>
   );
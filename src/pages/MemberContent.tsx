@@ -2,7 +2,8 @@
  * Member Content page (Programs listing, Supabase-only)
  * - Purpose: Show available programs discovered from Supabase-aware catalog (no Airtable).
  * - Layout: AppShell with MemberSidebar (consistent member frame).
- * - Data: listProgramsFromStorage() from storageCatalog (ProgramSlugs + curated metadata).
+ * - Data: listPrograms() from storageCatalog (programs table).
+ * - Each card shows the member's training progress and next required module (progressStore).
  */
 
 import { useEffect, useMemo, useState } from 'react';
@@ -20,8 +21,9 @@ import Breadcrumbs from '../components/common/Breadcrumbs';
 import SafeText from '../components/common/SafeText';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
+import ProgramProgress from '../components/programs/ProgramProgress';
 import {
-  listProgramsFromStorage,
+  listPrograms,
   type ProgramListItem,
 } from '../services/storageCatalog';
 
@@ -61,7 +63,7 @@ export default function MemberContent() {
       try {
         setLoading(true);
         setError(null);
-        const items = await listProgramsFromStorage();
+        const items = await listPrograms();
         setPrograms(items || []);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load programs');
@@ -192,6 +194,7 @@ export default function MemberContent() {
                     </CardHeader>
 
                     <CardContent>
+                      <ProgramProgress slug={program.slug} className="mb-4" />
                       <div className="flex gap-3">
                         <Link to={to} className="flex-1">
                           <Button
@@ -5,9 +5,18 @@
  * - Data: Supabase Storage via storageCatalog.getProgramResourcesGrouped (no Airtable).
  * - Layout: Blue→cyan gradient hero with glassmorphism container, then a horizontal Tabs nav.
  * - UX: Dense, full-width rows using ProgramResourceRow inside each tab; URL sync via ?tab=.
+ * - Entitlements: members without the program in their subscription see ProgramUpsell instead of files.
+ * - Training: videos play in-app (TrainingVideoPlayer) in module order, resuming from the saved position.
+ * - Progress: modules complete when a video plays to the end or when marked manually; ?module= opens a module.
+ * - Quizzes and the certificate of completion sit below the training modules (ProgramCertification).
+ * - Versioning: files replaced since the member's previous visit are badged "Updated"; the overview lists
+ *   recent changes (ProgramRecentChanges). Each visit is recorded (program_visits).
+ * - Resources past their review-by date raise a warning banner on their tab and the overview (StaleContentBanner).
+ * - Team members see the files for their role by default (AudienceToggle shows everything); certification still
+ *   counts every training module.
  */
 
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useParams, useLocation, useNavigate } from 'react-router';
 import { Card, CardContent } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
@@ -17,22 +26,42 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '../components/ui/tabs'
 import { LibraryBig } from 'lucide-react';
 import Breadcrumbs from '../components/common/Breadcrumbs';
 import SafeText from '../components/common/SafeText';
+import Markdown from '../components/common/Markdown';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
 import ProgramResourceRow from '../components/resources/ProgramResourceRow';
+import StaleContentBanner from '../components/resources/StaleContentBanner';
+import AudienceToggle from '../components/resources/AudienceToggle';
+import ProgramUpsell from '../components/programs/ProgramUpsell';
+import TrainingVideoPlayer from '../components/programs/TrainingVideoPlayer';
+import ProgramProgress from '../components/programs/ProgramProgress';
+import ProgramCertification from '../components/programs/ProgramCertification';
+import ProgramRecentChanges from '../components/programs/ProgramRecentChanges';
+import { useAuthStore } from '../stores/authStore';
+import { useProgressStore } from '../stores/progressStore';
+import { useAudienceFilter } from '../stores/audienceStore';
+import { isProgramEntitled } from '../services/entitlements';
+import { resourceAudience } from '../services/resourceMetadata';
 import {
   getProgramResourcesGrouped,
-  ProgramSlugs,
-  listProgramsFromStorage,
-  type ProgramSlug,
+  listPrograms,
 } from '../services/storageCatalog';
-import type { StorageFileItem } from '../services/supabaseStorage';
+import { isVideo, type StorageFileItem } from '../services/supabaseStorage';
+import { resolveFileUrl } from '../services/signedUrls';
+import { fileChangeService, videoProgressService, type FileChange } from '../services/supabase';
+import { findCaptionTracks, isCaptionFile, probeDuration, sortByModuleOrder } from '../lib/media';
 
 /**
  * Tab identifiers for the ProgramDetail page
  */
 type ProgramTab = 'overview' | 'training' | 'protocols' | 'forms' | 'resources';
 
+/** Watch state per training video */
+interface WatchState {
+  positionSeconds: number;
+  completed: boolean;
+}
+
 /**
  * Normalize a query param value to a valid ProgramTab, or fallback to 'overview'.
  */
@@ -47,8 +76,14 @@ function normalizeTab(v: string | null | undefined): ProgramTab {
  */
 export default function ProgramDetail() {
   const { programSlug = '' } = useParams();
+  const user = useAuthStore((s) => s.user);
+  const entitled = isProgramEntitled(user, programSlug);
   const [name, setName] = useState<string>(programSlug);
   const [description, setDescription] = useState<string | undefined>(undefined);
+  const [overview, setOverview] = useState<string | undefined>(undefined);
+  const [experienceLevel, setExperienceLevel] = useState<string | undefined>(undefined);
+  /** Whether the slug is in the programs table (null while loading) */
+  const [known, setKnown] = useState<boolean | null>(null);
 
   const [training, setTraining] = useState<StorageFileItem[]>([]);
   const [protocols, setProtocols] = useState<StorageFileItem[]>([]);
@@ -58,6 +93,19 @@ export default function ProgramDetail() {
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
 
+  // Training video player
+  const [playingPath, setPlayingPath] = useState<string | null>(null);
+  const [watch, setWatch] = useState<Record<string, WatchState>>({});
+  const [durations, setDurations] = useState<Record<string, number>>({});
+  const completedModules = useProgressStore((s) => s.completed);
+  const markComplete = useProgressStore((s) => s.markComplete);
+  const markIncomplete = useProgressStore((s) => s.markIncomplete);
+  const progressModules = useProgressStore((s) => s.modules);
+
+  // Change history since the previous visit
+  const [changes, setChanges] = useState<FileChange[]>([]);
+  const [lastVisit, setLastVisit] = useState<string | null>(null);
+
   // URL tab sync
   const location = useLocation();
   const navigate = useNavigate();
@@ -67,14 +115,51 @@ export default function ProgramDetail() {
     return normalizeTab(qs.get('tab'));
   }, [location.search]);
 
+  /** Module to open from a "Next" link */
+  const focusModule = useMemo(() => new URLSearchParams(location.search).get('module'), [location.search]);
+
+  /** Training items in authored module order (caption sidecars are attached to their video, not listed) */
+  const trainingItems = useMemo(() => {
+    const sortOrders: Record<string, number> = {};
+    for (const m of progressModules) if (m.sort_order != null) sortOrders[m.module_path] = m.sort_order;
+    return sortByModuleOrder(training.filter((i) => !isCaptionFile(i)), sortOrders);
+  }, [training, progressModules]);
+
+  /** Lists narrowed to the viewer's role (a module opened by link always stays listed) */
+  const { shows } = useAudienceFilter();
+  const shown = useMemo(() => {
+    const visible = (i: StorageFileItem) =>
+      i.path === focusModule || shows(resourceAudience(i.meta, i.title || i.filename));
+    return {
+      training: trainingItems.filter(visible),
+      protocols: protocols.filter(visible),
+      forms: forms.filter(visible),
+      resources: resources.filter(visible),
+    };
+  }, [trainingItems, protocols, forms, resources, shows, focusModule]);
+  const hiddenCount =
+    trainingItems.length + protocols.length + forms.length + resources.length -
+    (shown.training.length + shown.protocols.length + shown.forms.length + shown.resources.length);
+
+  const trainingVideos = useMemo(() => shown.training.filter((i) => isVideo(i)), [shown.training]);
+
+  const playingIndex = trainingVideos.findIndex((v) => v.path === playingPath);
+  const playing = playingIndex >= 0 ? trainingVideos[playingIndex] : undefined;
+  const nextVideo = playingIndex >= 0 ? trainingVideos[playingIndex + 1] : undefined;
+  const captions = useMemo(() => (playing ? findCaptionTracks(playing, training) : []), [playing, training]);
+  const moduleTitles = useMemo(
+    () => Object.fromEntries(trainingItems.map((i) => [i.path, i.title || i.filename])),
+    [trainingItems]
+  );
+
   /**
    * Count helpers for quick labels
    */
   const counts = {
-    training: training.length,
-    protocols: protocols.length,
-    forms: forms.length,
-    resources: resources.length,
+    training: shown.training.length,
+    protocols: shown.protocols.length,
+    forms: shown.forms.length,
+    resources: shown.resources.length,
   };
 
   /**
@@ -87,25 +172,35 @@ export default function ProgramDetail() {
       try {
         setLoading(true);
         setErr(null);
+        setKnown(null);
 
-        // Friendly name/description from curated list
+        // Name/description/overview from the programs table
+        let found = true;
         try {
-          const list = await listProgramsFromStorage();
+          const list = await listPrograms();
           const meta = list.find((p) => p.slug === programSlug);
+          found = !!meta;
           if (mounted) {
             setName(meta?.name || programSlug);
             setDescription(meta?.description || undefined);
+            setOverview(meta?.overview || undefined);
+            setExperienceLevel(meta?.experienceLevel || undefined);
           }
         } catch {
+          // Programs list unavailable: still try the folder (catalog RLS returns rows only for entitled programs)
           if (mounted) {
             setName(programSlug);
             setDescription(undefined);
+            setOverview(undefined);
+            setExperienceLevel(undefined);
           }
         }
+        if (mounted) setKnown(found);
 
-        // Only load grouped files if slug is recognized
-        if ((ProgramSlugs as readonly string[]).includes(programSlug)) {
-          const grouped = await getProgramResourcesGrouped(programSlug as ProgramSlug);
+        // Only load grouped files if slug is recognized and the member is licensed for it
+        if (found) {
+          if (!entitled) return;
+          const grouped = await getProgramResourcesGrouped(programSlug);
           if (!mounted) return;
           setTraining(grouped.training || []);
           setProtocols(grouped.protocols || []);
@@ -125,7 +220,103 @@ export default function ProgramDetail() {
     return () => {
       mounted = false;
     };
-  }, [programSlug]);
+  }, [programSlug, entitled]);
+
+  /**
+   * Read the previous visit (for "Updated" badges), then record this one; load recent changes
+   */
+  useEffect(() => {
+    if (!entitled || !known) return;
+    let cancelled = false;
+    setChanges([]);
+    setLastVisit(null);
+
+    (async () => {
+      try {
+        const previous = await fileChangeService.getLastVisit(programSlug);
+        if (!cancelled) setLastVisit(previous);
+        await fileChangeService.recordVisit(programSlug);
+      } catch {
+        // badges are optional
+      }
+      try {
+        const list = await fileChangeService.getProgramChanges(programSlug);
+        if (!cancelled) setChanges(list);
+      } catch {
+        // history is optional
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [programSlug, entitled, known]);
+
+  /** Paths replaced since the previous visit */
+  const updatedPaths = useMemo(() => {
+    if (!lastVisit) return new Set<string>();
+    const since = Date.parse(lastVisit);
+    return new Set(changes.filter((c) => c.kind === 'replace' && Date.parse(c.created_at) > since).map((c) => c.file_path));
+  }, [changes, lastVisit]);
+
+  /**
+   * Load saved positions, then read real durations from video metadata (one at a time)
+   */
+  useEffect(() => {
+    if (trainingVideos.length === 0) return;
+    let cancelled = false;
+
+    (async () => {
+      const known: Record<string, number> = {};
+      try {
+        const rows = await videoProgressService.getProgress(trainingVideos.map((v) => v.path));
+        if (cancelled) return;
+        const next: Record<string, WatchState> = {};
+        for (const r of rows) {
+          next[r.video_path] = { positionSeconds: r.position_seconds, completed: r.completed };
+          if (r.duration_seconds) known[r.video_path] = r.duration_seconds;
+        }
+        setWatch(next);
+        setDurations((d) => ({ ...d, ...known }));
+      } catch {
+        // progress is optional
+      }
+
+      for (const v of trainingVideos) {
+        if (cancelled) return;
+        if (known[v.path]) continue;
+        try {
+          const seconds = await probeDuration(await resolveFileUrl(v));
+          if (!cancelled && seconds) setDurations((d) => ({ ...d, [v.path]: seconds }));
+        } catch {
+          // keep the filename hint
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trainingVideos]);
+
+  /** Start the linked module if it is a video */
+  useEffect(() => {
+    if (focusModule && trainingVideos.some((v) => v.path === focusModule)) setPlayingPath(focusModule);
+  }, [focusModule, trainingVideos]);
+
+  /** Keep list rows in sync with what the player saved; a video played to the end completes its module */
+  const handleProgress = useCallback(
+    (path: string, positionSeconds: number, durationSeconds: number, completed: boolean) => {
+      setWatch((w) => ({ ...w, [path]: { positionSeconds, completed } }));
+      setDurations((d) => (d[path] ? d : { ...d, [path]: durationSeconds }));
+      if (completed) markComplete(path, 'auto');
+    },
+    [markComplete]
+  );
+
+  const playNext = useCallback(() => {
+    setPlayingPath(nextVideo?.path ?? null);
+  }, [nextVideo]);
 
   /**
    * Handle tab change by writing it into the URL (?tab=...)
@@ -150,8 +341,9 @@ export default function ProgramDetail() {
     }
     return (
       <div className="space-y-3">
+        <StaleContentBanner items={items} />
         {items.map((i) => (
-          <ProgramResourceRow key={i.path} item={i} />
+          <ProgramResourceRow key={i.path} item={i} updated={updatedPaths.has(i.path)} />
         ))}
       </div>
     );
@@ -182,7 +374,12 @@ export default function ProgramDetail() {
                 <Badge variant="secondary" className="bg-white/20 text-white hover:bg-white/30">
                   Supabase Storage • storage_files_catalog
                 </Badge>
-                {!loading ? (
+                {experienceLevel ? (
+                  <Badge variant="secondary" className="bg-white/20 text-white hover:bg-white/30">
+                    <SafeText value={experienceLevel} />
+                  </Badge>
+                ) : null}
+                {!loading && entitled ? (
                   <span className="text-xs text-white/80">
                     {counts.training} training • {counts.protocols} protocols • {counts.forms} forms • {counts.resources}{' '}
                     resources
@@ -194,6 +391,7 @@ export default function ProgramDetail() {
                   <SafeText value={description} />
                 </p>
               ) : null}
+              {!loading && entitled ? <ProgramProgress slug={programSlug} tone="light" className="mt-4 max-w-md" /> : null}
             </div>
           </div>
         </div>
@@ -205,8 +403,12 @@ export default function ProgramDetail() {
           <div className="rounded-md border p-6 text-sm text-slate-600">Loading program…</div>
         ) : err ? (
           <div className="rounded-md border border-red-200 bg-red-50 p-6 text-sm text-red-700">{err}</div>
+        ) : !entitled ? (
+          <ProgramUpsell slug={programSlug} name={name} description={description} />
         ) : (
           <div className="space-y-6">
+            <AudienceToggle hidden={hiddenCount} />
+
             {/* Tabs nav */}
             <Card className="overflow-hidden">
               <div className="h-1 bg-gradient-to-r from-blue-600 via-cyan-500 to-teal-300" />
@@ -235,7 +437,9 @@ export default function ProgramDetail() {
                   {/* Overview */}
                   <TabsContent value="overview" className="px-4 py-4">
                     <div className="space-y-4">
-                      {description ? (
+                      {overview ? (
+                        <Markdown source={overview} />
+                      ) : description ? (
                         <p className="text-sm text-slate-700">
                           <SafeText value={description} />
                         </p>
@@ -246,6 +450,10 @@ export default function ProgramDetail() {
                         </p>
                       )}
 
+                      <StaleContentBanner
+                        items={[...shown.training, ...shown.protocols, ...shown.forms, ...shown.resources]}
+                      />
+
                       {/* Compact summary blocks */}
                       <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
                         <div className="rounded-md border bg-white p-3 text-center text-sm">
@@ -265,27 +473,69 @@ export default function ProgramDetail() {
                           <div className="text-slate-600">Resources</div>
                         </div>
                       </div>
+
+                      <ProgramRecentChanges
+                        changes={changes}
+                        lastVisit={lastVisit}
+                        onOpen={(c) => handleTabChange(c.file_path.split('/')[1] || 'overview')}
+                      />
                     </div>
                   </TabsContent>
 
                   {/* Training */}
                   <TabsContent value="training" className="px-4 py-4">
-                    {renderRows(training, 'No training modules available yet.')}
+                    {playing ? (
+                      <div className="mb-4">
+                        <TrainingVideoPlayer
+                          video={playing}
+                          captions={captions}
+                          startAt={watch[playing.path]?.positionSeconds}
+                          completed={watch[playing.path]?.completed}
+                          next={nextVideo}
+                          onNext={playNext}
+                          onClose={() => setPlayingPath(null)}
+                          onProgress={handleProgress}
+                        />
+                      </div>
+                    ) : null}
+                    {shown.training.length === 0 ? (
+                      renderRows(shown.training, 'No training modules available yet.')
+                    ) : (
+                      <div className="space-y-3">
+                        <StaleContentBanner items={shown.training} />
+                        {shown.training.map((i) => (
+                          <ProgramResourceRow
+                            key={i.path}
+                            item={i}
+                            durationSeconds={durations[i.path]}
+                            progress={watch[i.path]}
+                            onPlay={() => setPlayingPath(i.path)}
+                            active={i.path === playingPath || i.path === focusModule}
+                            moduleComplete={!!completedModules[i.path]}
+                            updated={updatedPaths.has(i.path)}
+                            onToggleComplete={() =>
+                              completedModules[i.path] ? markIncomplete(i.path) : markComplete(i.path, 'manual')
+                            }
+                          />
+                        ))}
+                      </div>
+                    )}
+                    <ProgramCertification programSlug={programSlug} programName={name} moduleTitles={moduleTitles} />
                   </TabsContent>
 
                   {/* Protocols */}
                   <TabsContent value="protocols" className="px-4 py-4">
-                    {renderRows(protocols, 'No protocol manuals available yet.')}
+                    {renderRows(shown.protocols, 'No protocol manuals available yet.')}
                   </TabsContent>
 
                   {/* Forms */}
                   <TabsContent value="forms" className="px-4 py-4">
-                    {renderRows(forms, 'No documentation forms available yet.')}
+                    {renderRows(shown.forms, 'No documentation forms available yet.')}
                   </TabsContent>
 
                   {/* Additional Resources */}
                   <TabsContent value="resources" className="px-4 py-4">
-                    {renderRows(resources, 'No additional resources available yet.')}
+                    {renderRows(shown.resources, 'No additional resources available yet.')}
                   </TabsContent>
                 </Tabs>
               </CardContent>
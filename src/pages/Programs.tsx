@@ -8,7 +8,7 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Link } from 'react-router';
 import { Loader2 } from 'lucide-react';
-import { listProgramsFromStorage, type ProgramListItem } from '../services/storageCatalog';
+import { listPrograms, type ProgramListItem } from '../services/storageCatalog';
 
 /**
  * Programs page component
@@ -26,7 +26,7 @@ export default function Programs() {
         setLoading(true);
         setError(null);
 
-        const items = await listProgramsFromStorage();
+        const items = await listPrograms();
         setPrograms(items);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load programs');
@@ -0,0 +1,98 @@
+/**
+ * Reset Password page
+ * - Landing route for Supabase recovery links (#/reset-password#access_token=...&type=recovery).
+ * - The auth store consumes the recovery session on startup; this page sets the new password.
+ */
+
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router';
+import { useAuthStore } from '../stores/authStore';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+
+/**
+ * ResetPassword page component
+ */
+export default function ResetPassword() {
+  const navigate = useNavigate();
+  const { initialized, isAuthenticated, updatePassword } = useAuthStore();
+
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /** Validate and save the new password, then continue to the dashboard */
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+    if (password !== confirm) {
+      setError('Passwords do not match.');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await updatePassword(password);
+      navigate('/dashboard');
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Could not update your password.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] w-full flex items-start justify-center py-10 px-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle>Choose a New Password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!initialized ? (
+              <p className="text-sm text-slate-600">Verifying your reset link…</p>
+            ) : !isAuthenticated ? (
+              <p className="text-sm text-slate-600">
+                This reset link is invalid or has expired.{' '}
+                <Link to="/login" className="text-blue-700 hover:underline">
+                  Request a new one
+                </Link>
+                .
+              </p>
+            ) : (
+              <form className="space-y-4" onSubmit={handleSubmit}>
+                <div className="grid gap-2">
+                  <label className="text-sm font-medium">New password</label>
+                  <Input
+                    type="password"
+                    autoComplete="new-password"
+                    minLength={8}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <label className="text-sm font-medium">Confirm password</label>
+                  <Input
+                    type="password"
+                    autoComplete="new-password"
+                    minLength={8}
+                    value={confirm}
+                    onChange={(e) => setConfirm(e.target.value)}
+                    required
+                  />
+                </div>
+                {error ? <div className="text-xs text-red-600">{error}</div> : null}
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? 'Saving…' : 'Save password'}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,12 @@
  * - Filters sync with URL query (?cat=handouts|clinical|billing) so sidebar links work.
  * - Minimal results list (icon + name + one action).
  * - Data source: Supabase storage-backed helpers (storageCatalog). No serverless dependency.
+ * - Program files are limited to programs in the member's subscription (entitlements).
+ * - Typing 2+ characters switches to server-side catalog search (catalogSearch): all folders, facets, pagination.
+ * - Browsing (not searching) can be narrowed by catalog metadata: audience, payer relevance and tags.
+ * - Results past their review-by date raise a warning banner (StaleContentBanner).
+ * - Browsing shows team members the files for their role unless they pick an audience or "Show everything"
+ *   (AudienceToggle); search covers every role.
  */
 
 import { useEffect, useMemo, useState } from 'react';
@@ -20,25 +26,83 @@ import {
   Play,
   Download,
   Search,
+  ChevronLeft,
+  ChevronRight,
 } from 'lucide-react';
 import AppShell from '../components/layout/AppShell';
 import MemberSidebar from '../components/layout/MemberSidebar';
 import {
-  ProgramSlugs,
   getProgramResourcesGrouped,
-  type ProgramSlug,
   getGlobalCategory,
+  listPrograms,
+  type ProgramListItem,
 } from '../services/storageCatalog';
+import {
+  searchResources,
+  type SearchCategory,
+  type SearchResult,
+  type TitleSegment,
+} from '../services/catalogSearch';
+import type { StorageFileItem } from '../services/supabaseStorage';
+import { useAuthStore } from '../stores/authStore';
+import { openStorageItem } from '../lib/fileActions';
+import { getEntitledPrograms } from '../services/entitlements';
+import ResourceMetaBadges from '../components/resources/ResourceMetaBadges';
+import StaleContentBanner from '../components/resources/StaleContentBanner';
+import AudienceToggle from '../components/resources/AudienceToggle';
+import { useAudienceFilter } from '../stores/audienceStore';
+import {
+  AUDIENCES,
+  AUDIENCE_LABELS,
+  EMPTY_METADATA_FILTER,
+  PAYERS,
+  PAYER_LABELS,
+  isMetadataFilterActive,
+  matchesMetadataFilter,
+  resourceAudience,
+  type MetadataFilter,
+  type ResourceMetadata,
+} from '../services/resourceMetadata';
 
 /** Unified shape for items rendered in results */
 interface ResultItem {
   id: string;
   name: string;
   url?: string;
+  /** Signed URL expiry (private bucket mode) */
+  urlExpiresAt?: number;
   mimeType?: string;
-  source: 'global' | 'program';
+  source: 'global' | 'program' | 'search';
+  /** Search mode: title split into highlighted segments */
+  highlights?: TitleSegment[];
+  /** Search mode: folder label, e.g. "TimeMyMeds • Forms" */
+  location?: string;
+  /** Link outside the bucket (resource library rows): opened as a plain link */
+  external?: boolean;
+  /** Catalog metadata (browse mode) */
+  meta?: ResourceMetadata;
 }
 
+/** Minimum query length for server-side search */
+const MIN_SEARCH_LENGTH = 2;
+
+/** Search results per page */
+const SEARCH_PAGE_SIZE = 20;
+
+/** Labels for category facets */
+const CATEGORY_LABELS: Record<SearchCategory, string> = {
+  handouts: 'Patient handouts',
+  guidelines: 'Clinical guidelines',
+  billing: 'Medical billing',
+  forms: 'Forms',
+  protocols: 'Protocols',
+  resources: 'Resources',
+  training: 'Training',
+};
+
+/** Most common tags offered as filters */
+const MAX_TAG_FILTERS = 12;
+
 /** Supported filters */
 type FilterKey = 'all' | 'handouts' | 'clinical' | 'billing' | 'program' | 'videos';
 
@@ -46,10 +110,56 @@ type FilterKey = 'all' | 'handouts' | 'clinical' | 'billing' | 'program' | 'vide
 function isVideo({ url, mimeType }: { url?: string; mimeType?: string }): boolean {
   const mime = (mimeType || '').toLowerCase();
   if (mime.startsWith('video/')) return true;
-  const u = (url || '').toLowerCase();
+  // Ignore query strings (signed URLs carry ?token=...)
+  const u = (url || '').toLowerCase().split('?')[0];
   return ['.mp4', '.mov', '.m4v', '.webm', '.avi', '.mkv'].some((ext) => u.endsWith(ext));
 }
 
+/** Title with matched terms highlighted */
+function HighlightedTitle({ segments }: { segments: TitleSegment[] }) {
+  return (
+    <>
+      {segments.map((seg, i) =>
+        seg.match ? (
+          <mark key={i} className="rounded bg-yellow-100 px-0.5 text-slate-900">
+            {seg.text}
+          </mark>
+        ) : (
+          <span key={i}>{seg.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/** Toggleable facet chip with a hit count */
+function FacetChip({
+  label,
+  count,
+  active,
+  onClick,
+}: {
+  label: string;
+  count?: number;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={[
+        'rounded-full border px-2.5 py-1 text-xs',
+        active ? 'border-blue-300 bg-blue-50 text-blue-700' : 'border-slate-200 bg-white text-slate-700 hover:bg-slate-50',
+      ].join(' ')}
+    >
+      {label}
+      {typeof count === 'number' ? <span className="ml-1 text-slate-500">({count})</span> : null}
+    </button>
+  );
+}
+
 /** Build a minimal icon block based on whether the item is a video or a document. */
 function FileKindIcon({ isVid }: { isVid: boolean }) {
   return isVid ? (
@@ -75,9 +185,12 @@ function FileKindIcon({ isVid }: { isVid: boolean }) {
 function SidebarCheckboxFilters({
   value,
   onChange,
+  onClear,
 }: {
   value: FilterKey;
   onChange: (next: FilterKey) => void;
+  /** Clear Filters action (defaults to onChange('all')) */
+  onClear?: () => void;
 }) {
   /** Render one checkbox row */
   function Row({
@@ -110,7 +223,7 @@ function SidebarCheckboxFilters({
         <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Filters</div>
         <button
           type="button"
-          onClick={() => onChange('all')}
+          onClick={() => (onClear ? onClear() : onChange('all'))}
           className="rounded px-2 py-1 text-xs text-blue-700 hover:bg-blue-50"
           aria-label="Clear all filters"
         >
@@ -163,6 +276,78 @@ function SidebarCheckboxFilters({
   );
 }
 
+/**
+ * MetadataFilters
+ * - Purpose: Audience / payer / tag checkboxes below the category filters (browse mode only).
+ * - Multi-select: any value within a group, all groups together (matchesMetadataFilter).
+ */
+function MetadataFilters({
+  value,
+  tags,
+  disabled,
+  onChange,
+}: {
+  value: MetadataFilter;
+  /** Tags present in the loaded resources */
+  tags: string[];
+  /** Search mode: hits carry no metadata */
+  disabled?: boolean;
+  onChange: (next: MetadataFilter) => void;
+}) {
+  function toggle<K extends keyof MetadataFilter>(key: K, v: MetadataFilter[K][number]) {
+    const list = value[key] as string[];
+    const next = list.includes(v) ? list.filter((x) => x !== v) : [...list, v];
+    onChange({ ...value, [key]: next });
+  }
+
+  function Group({ title, children }: { title: string; children: React.ReactNode }) {
+    return (
+      <div>
+        <div className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">{title}</div>
+        <div className="space-y-1">{children}</div>
+      </div>
+    );
+  }
+
+  function Row({ label, checked, onClick }: { label: string; checked: boolean; onClick: () => void }) {
+    return (
+      <label className="flex cursor-pointer items-center gap-2 rounded-md px-1 py-1 hover:bg-slate-50">
+        <input
+          type="checkbox"
+          className="h-4 w-4 rounded border-slate-300 text-blue-600"
+          checked={checked}
+          onChange={onClick}
+          disabled={disabled}
+        />
+        <span className="text-sm text-slate-700">{label}</span>
+      </label>
+    );
+  }
+
+  return (
+    <div className={['space-y-4', disabled ? 'opacity-60' : ''].join(' ')} aria-label="Metadata filters">
+      <Group title="Audience">
+        {AUDIENCES.map((a) => (
+          <Row key={a} label={AUDIENCE_LABELS[a]} checked={value.audience.includes(a)} onClick={() => toggle('audience', a)} />
+        ))}
+      </Group>
+      <Group title="Payer">
+        {PAYERS.map((p) => (
+          <Row key={p} label={PAYER_LABELS[p]} checked={value.payers.includes(p)} onClick={() => toggle('payers', p)} />
+        ))}
+      </Group>
+      {tags.length ? (
+        <Group title="Tags">
+          {tags.map((t) => (
+            <Row key={t} label={`#${t}`} checked={value.tags.includes(t)} onClick={() => toggle('tags', t)} />
+          ))}
+        </Group>
+      ) : null}
+      {disabled ? <p className="text-[11px] text-slate-500">Clear the search to filter by audience, payer or tag.</p> : null}
+    </div>
+  );
+}
+
 /** Square quick filter card */
 function QuickFilterCard({
   title,
@@ -227,6 +412,8 @@ function useFilterFromQuery(): [FilterKey, (next: FilterKey, nav?: (url: string)
 export default function Resources() {
   const navigate = useNavigate();
   const [filterFromQuery, setFilterFromQuery] = useFilterFromQuery();
+  const user = useAuthStore((s) => s.user);
+  const entitledPrograms = useMemo(() => getEntitledPrograms(user), [user]);
 
   // Local UI state for filter (includes 'program' and 'videos' which are not part of ?cat)
   const [filter, setFilter] = useState<FilterKey>(filterFromQuery);
@@ -241,6 +428,15 @@ export default function Resources() {
   // Search term
   const [q, setQ] = useState('');
 
+  // Server-side search state (active when the debounced term is long enough)
+  const [debouncedQ, setDebouncedQ] = useState('');
+  const [searchPage, setSearchPage] = useState(1);
+  const [facetPrograms, setFacetPrograms] = useState<string[]>([]);
+  const [facetCategories, setFacetCategories] = useState<SearchCategory[]>([]);
+  const [searchResult, setSearchResult] = useState<SearchResult | null>(null);
+  const [programNames, setProgramNames] = useState<ProgramListItem[]>([]);
+  const searchMode = debouncedQ.length >= MIN_SEARCH_LENGTH;
+
   // Loading/error states
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -252,14 +448,19 @@ export default function Resources() {
   const [programFiles, setProgramFiles] = useState<ResultItem[]>([]);
   const [programLoaded, setProgramLoaded] = useState(false);
 
+  // Metadata filters (browse mode)
+  const [metaFilter, setMetaFilter] = useState<MetadataFilter>(EMPTY_METADATA_FILTER);
+
   /** Map storage item to ResultItem */
-  function mapGlobal(items: { path: string; title: string; url: string; mimeType?: string }[]): ResultItem[] {
+  function mapGlobal(items: StorageFileItem[]): ResultItem[] {
     return items.map((i) => ({
       id: i.path,
       name: i.title,
       url: i.url,
+      urlExpiresAt: i.urlExpiresAt,
       mimeType: i.mimeType,
       source: 'global' as const,
+      meta: i.meta,
     }));
   }
 
@@ -300,7 +501,12 @@ export default function Resources() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [filter]);
 
-  /** Lazy load program files aggregated across all ProgramSlugs */
+  /** Reload program files if the member's entitlements change (e.g., session restored) */
+  useEffect(() => {
+    setProgramLoaded(false);
+  }, [entitledPrograms]);
+
+  /** Lazy load program files aggregated across the member's entitled programs */
   useEffect(() => {
     let cancelled = false;
     async function loadAllProgramFiles() {
@@ -308,16 +514,18 @@ export default function Resources() {
         setLoading(true);
         setError(null);
         const all: ResultItem[] = [];
-        await Promise.all((ProgramSlugs as readonly ProgramSlug[]).map(async (slug) => {
+        await Promise.all(entitledPrograms.map(async (slug) => {
           const grouped = await getProgramResourcesGrouped(slug);
-          const append = (items: { path: string; title: string; url: string; mimeType?: string }[]) => {
+          const append = (items: StorageFileItem[]) => {
             for (const it of items) {
               all.push({
                 id: it.path,
                 name: it.title,
                 url: it.url,
+                urlExpiresAt: it.urlExpiresAt,
                 mimeType: it.mimeType,
                 source: 'program',
+                meta: it.meta,
               });
             }
           };
@@ -347,6 +555,84 @@ export default function Resources() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [filter, programLoaded]);
 
+  /** Debounce the search term */
+  useEffect(() => {
+    const t = window.setTimeout(() => setDebouncedQ(q.trim()), 250);
+    return () => window.clearTimeout(t);
+  }, [q]);
+
+  /** Program names for facet labels */
+  useEffect(() => {
+    listPrograms().then(setProgramNames).catch(() => setProgramNames([]));
+  }, []);
+
+  /** New query or scope starts from page 1 */
+  useEffect(() => {
+    setSearchPage(1);
+  }, [debouncedQ, filter, facetPrograms, facetCategories]);
+
+  /** Run the server-side search */
+  useEffect(() => {
+    if (!searchMode) {
+      setSearchResult(null);
+      return;
+    }
+    let cancelled = false;
+
+    // The active filter card narrows the scope; facet chips narrow it further
+    const filterCategory: SearchCategory | null =
+      filter === 'handouts' ? 'handouts' : filter === 'clinical' ? 'guidelines' : filter === 'billing' ? 'billing' : null;
+    const categories = filterCategory ? [filterCategory] : facetCategories;
+    const programs = facetPrograms.length
+      ? entitledPrograms.filter((slug) => facetPrograms.includes(slug))
+      : entitledPrograms;
+    const includeGlobal = filter !== 'program' && facetPrograms.length === 0;
+
+    setLoading(true);
+    setError(null);
+    searchResources({
+      query: debouncedQ,
+      programs: filterCategory ? [] : programs,
+      includeGlobal,
+      categories,
+      page: searchPage,
+      pageSize: SEARCH_PAGE_SIZE,
+    })
+      .then((res) => {
+        if (!cancelled) setSearchResult(res);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setError(e?.message || 'Search failed');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchMode, debouncedQ, filter, facetPrograms, facetCategories, entitledPrograms, searchPage]);
+
+  /** Search hits in the shared result shape */
+  const searchItems: ResultItem[] = useMemo(() => {
+    const hits = (searchResult?.hits || []).map((h) => ({
+      id: h.path || h.url,
+      name: h.title,
+      url: h.url,
+      urlExpiresAt: h.urlExpiresAt,
+      mimeType: h.mimeType,
+      source: 'search' as const,
+      highlights: h.highlights,
+      location: h.location,
+      external: !h.path,
+    }));
+    return filter === 'videos' ? hits.filter((r) => isVideo({ url: r.url, mimeType: r.mimeType })) : hits;
+  }, [searchResult, filter]);
+
+  /** Toggle a value in a facet list */
+  function toggleFacet<T extends string>(list: T[], value: T): T[] {
+    return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+  }
+
   /** Build display list based on active filter */
   const items: ResultItem[] = useMemo(() => {
     if (filter === 'handouts') return globalHandouts;
@@ -378,12 +664,37 @@ export default function Resources() {
     });
   }, [filter, globalBilling, globalClinical, globalHandouts, programFiles]);
 
-  /** Apply search by name */
+  /** Most common tags across the loaded set */
+  const tagOptions = useMemo(() => {
+    const counts = new Map<string, number>();
+    items.forEach((r) => r.meta?.tags.forEach((t) => counts.set(t, (counts.get(t) || 0) + 1)));
+    const top = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_TAG_FILTERS)
+      .map(([t]) => t);
+    // Keep selected tags visible even when they fall out of the current set
+    return Array.from(new Set([...top, ...metaFilter.tags]));
+  }, [items, metaFilter.tags]);
+
+  /** Browsing: the loaded set for the viewer's role (a picked audience filter takes over) */
+  const { shows } = useAudienceFilter();
+  const roleItems = useMemo(
+    () => (metaFilter.audience.length ? items : items.filter((r) => shows(resourceAudience(r.meta, r.name)))),
+    [items, shows, metaFilter.audience.length]
+  );
+
+  /** Apply search: server-side hits in search mode, otherwise name + metadata filters on the loaded set */
   const filtered = useMemo(() => {
+    if (searchMode) return searchItems;
     const term = q.trim().toLowerCase();
-    if (!term) return items;
-    return items.filter((r) => r.name.toLowerCase().includes(term));
-  }, [items, q]);
+    const metaActive = isMetadataFilterActive(metaFilter);
+    if (!term && !metaActive) return roleItems;
+    return roleItems.filter(
+      (r) => (!term || r.name.toLowerCase().includes(term)) && (!metaActive || matchesMetadataFilter(r.meta, metaFilter))
+    );
+  }, [roleItems, q, searchMode, searchItems, metaFilter]);
+
+  const searchPageCount = searchResult ? Math.max(1, Math.ceil(searchResult.total / SEARCH_PAGE_SIZE)) : 1;
 
   /** Handlers: update both state and URL where applicable */
   function go(next: FilterKey) {
@@ -411,7 +722,7 @@ export default function Resources() {
           <div className="relative">
             <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
             <Input
-              placeholder="Search resources by name…"
+              placeholder="Search all resources, e.g. strep standing order…"
               className="pl-9"
               value={q}
               onChange={(e) => setQ(e.target.value)}
@@ -468,11 +779,60 @@ export default function Resources() {
         <div className="grid grid-cols-1 gap-6 md:grid-cols-4">
           {/* Sidebar filters */}
           <aside className="md:col-span-1">
-            <SidebarCheckboxFilters value={filter} onChange={go} />
+            <SidebarCheckboxFilters
+              value={filter}
+              onChange={go}
+              onClear={() => {
+                setMetaFilter(EMPTY_METADATA_FILTER);
+                go('all');
+              }}
+            />
+            <div className="mt-6">
+              <MetadataFilters value={metaFilter} tags={tagOptions} disabled={searchMode} onChange={setMetaFilter} />
+            </div>
           </aside>
 
           {/* Results */}
           <section className="md:col-span-3">
+            {searchMode ? (
+              <div className="mb-3 space-y-2" aria-label="Search facets">
+                <div className="text-xs text-slate-600">
+                  {searchResult ? `${searchResult.total} result${searchResult.total === 1 ? '' : 's'} for “${debouncedQ}”` : ''}
+                </div>
+                {entitledPrograms.length > 0 ? (
+                  <div className="flex flex-wrap gap-1.5">
+                    {entitledPrograms.map((slug) => (
+                      <FacetChip
+                        key={slug}
+                        label={programNames.find((p) => p.slug === slug)?.name || slug}
+                        count={searchResult?.facets ? searchResult.facets.programs[slug] || 0 : undefined}
+                        active={facetPrograms.includes(slug)}
+                        onClick={() => setFacetPrograms((prev) => toggleFacet(prev, slug))}
+                      />
+                    ))}
+                  </div>
+                ) : null}
+                {filter === 'handouts' || filter === 'clinical' || filter === 'billing' ? null : (
+                  <div className="flex flex-wrap gap-1.5">
+                    {(Object.keys(CATEGORY_LABELS) as SearchCategory[]).map((cat) => (
+                      <FacetChip
+                        key={cat}
+                        label={CATEGORY_LABELS[cat]}
+                        count={searchResult?.facets ? searchResult.facets.categories[cat] || 0 : undefined}
+                        active={facetCategories.includes(cat)}
+                        onClick={() => setFacetCategories((prev) => toggleFacet(prev, cat))}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : null}
+            {!loading && !error && !searchMode && !metaFilter.audience.length ? (
+              <AudienceToggle hidden={items.length - roleItems.length} className="mb-3" />
+            ) : null}
+            {!loading && !error ? (
+              <StaleContentBanner items={filtered.map((r) => ({ title: r.name, meta: r.meta }))} className="mb-3" />
+            ) : null}
             <Card>
               <CardContent className="p-0">
                 {loading ? (
@@ -489,11 +849,31 @@ export default function Resources() {
                         <div key={`${item.source}:${item.id}`} className="flex items-center justify-between px-4 py-3">
                           <div className="flex min-w-0 items-center gap-3">
                             <FileKindIcon isVid={isVid} />
-                            <div className="truncate text-sm font-medium text-slate-800">{item.name}</div>
+                            <div className="min-w-0">
+                              <div className="truncate text-sm font-medium text-slate-800">
+                                {item.highlights ? <HighlightedTitle segments={item.highlights} /> : item.name}
+                              </div>
+                              {item.location ? (
+                                <div className="truncate text-xs text-slate-500">{item.location}</div>
+                              ) : null}
+                              <ResourceMetaBadges meta={item.meta} className="mt-1" />
+                            </div>
                           </div>
                           <div className="shrink-0">
                             {item.url ? (
-                              <a href={item.url} target="_blank" rel="noreferrer">
+                              <a
+                                href={item.url}
+                                target="_blank"
+                                rel="noreferrer"
+                                onClick={(e) => {
+                                  if (item.external) return;
+                                  e.preventDefault();
+                                  openStorageItem(
+                                    { path: item.id, url: item.url || '', urlExpiresAt: item.urlExpiresAt, title: item.name },
+                                    isVid ? 'play' : 'download'
+                                  );
+                                }}
+                              >
                                 <Button size="sm" variant="outline" className="bg-transparent">
                                   {isVid ? (
                                     <>
@@ -521,6 +901,33 @@ export default function Resources() {
                 )}
               </CardContent>
             </Card>
+            {searchMode && searchResult && searchResult.total > SEARCH_PAGE_SIZE ? (
+              <div className="mt-3 flex items-center justify-end gap-2 text-sm text-slate-600">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="bg-transparent"
+                  disabled={loading || searchPage <= 1}
+                  onClick={() => setSearchPage((p) => Math.max(1, p - 1))}
+                >
+                  <ChevronLeft className="mr-1 h-4 w-4" />
+                  Prev
+                </Button>
+                <span>
+                  Page {searchPage} of {searchPageCount}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="bg-transparent"
+                  disabled={loading || searchPage >= searchPageCount}
+                  onClick={() => setSearchPage((p) => p + 1)}
+                >
+                  Next
+                  <ChevronRight className="ml-1 h-4 w-4" />
+                </Button>
+              </div>
+            ) : null}
           </section>
         </div>
       </div>
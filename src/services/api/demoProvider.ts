@@ -0,0 +1,168 @@
+/**
+ * Api demo provider
+ * - Purpose: Provide Dashboard with realistic demo data without external dependencies.
+ * - Selected with VITE_API_PROVIDER=demo (or localStorage API_PROVIDER=demo) for offline demos.
+ * - Quick access pins are kept in memory for the session.
+ * - Program names/descriptions/icons still come from the programs table when reachable (sample programs offline).
+ */
+
+import {
+  Announcement,
+  ApiProvider,
+  ClinicalProgram,
+  QuickAccessItem,
+  RecentActivity,
+  ResourceItem,
+} from './types';
+import { listPrograms } from '../storageCatalog';
+
+/**
+ * Simulate async latency
+ */
+function wait(ms: number) {
+  return new Promise((res) => setTimeout(res, ms));
+}
+
+/** Sample quick access tiles (mutable: pins/unpins in demo mode) */
+let demoQuickAccess: QuickAccessItem[] = [
+  { id: 'qa-1', title: 'CMR Pharmacist Protocol', subtitle: 'MTM Protocols', cta: 'Download', icon: 'FileText' },
+  { id: 'qa-2', title: 'Technician Training Module 1', subtitle: 'Onboarding', cta: 'Watch', icon: 'PlayCircle' },
+  { id: 'qa-3', title: 'A1c Patient Handout', subtitle: 'Diabetes Care', cta: 'Download', icon: 'FileSpreadsheet' },
+  { id: 'qa-4', title: 'Flu Test Workflow', subtitle: 'Test & Treat', cta: 'Download', icon: 'TestTubes' },
+];
+
+/** Sample programs (offline fallback; counts/dates are illustrative) */
+const DEMO_PROGRAMS: ClinicalProgram[] = [
+  {
+    slug: 'mtmthefuturetoday',
+    name: 'MTM The Future Today',
+    description:
+      'Team-based Medication Therapy Management with proven protocols and technician workflows.',
+    icon: 'ClipboardCheck',
+    resourceCount: 18,
+    lastUpdatedISO: new Date(Date.now() - 86400 * 1000 * 3).toISOString(),
+  },
+  {
+    slug: 'timemymeds',
+    name: 'TimeMyMeds',
+    description:
+      'Appointment-based care via synchronization workflows that unlock clinical service delivery.',
+    icon: 'CalendarCheck',
+    resourceCount: 12,
+    lastUpdatedISO: new Date(Date.now() - 86400 * 1000 * 10).toISOString(),
+  },
+  {
+    slug: 'testandtreat',
+    name: 'Test & Treat Services',
+    description:
+      'CLIA-waived testing and treatment plans for Flu, Strep, and COVID-19.',
+    icon: 'Stethoscope',
+    resourceCount: 15,
+    lastUpdatedISO: new Date(Date.now() - 86400 * 1000 * 6).toISOString(),
+  },
+  {
+    slug: 'hba1c',
+    name: 'HbA1c Testing',
+    description:
+      'POC A1c testing integrated with diabetes care and MTM workflows.',
+    icon: 'Activity',
+    resourceCount: 9,
+    lastUpdatedISO: new Date(Date.now() - 86400 * 1000 * 18).toISOString(),
+  },
+  {
+    slug: 'oralcontraceptives',
+    name: 'Oral Contraceptives',
+    description:
+      'From patient intake to billing—simplified, step-by-step service workflows.',
+    icon: 'TestTubes',
+    resourceCount: 11,
+    lastUpdatedISO: new Date(Date.now() - 86400 * 1000 * 12).toISOString(),
+  },
+];
+
+/**
+ * Demo Api methods
+ */
+export const demoProvider: ApiProvider = {
+  name: 'demo',
+
+  /** Get Clinical Programs
+   * - Names, descriptions and icons come from the programs table when it is reachable (counts stay sample data);
+   *   offline, the sample programs below are returned as-is.
+   */
+  async getPrograms(): Promise<ClinicalProgram[]> {
+    await wait(200);
+    try {
+      const programs = await listPrograms();
+      const samples = new Map(DEMO_PROGRAMS.map((p) => [p.slug, p]));
+      return programs.map((p) => ({
+        slug: p.slug,
+        name: p.name,
+        description: p.description || '',
+        icon: p.icon || 'FileText',
+        resourceCount: samples.get(p.slug)?.resourceCount ?? 0,
+        lastUpdatedISO: samples.get(p.slug)?.lastUpdatedISO,
+      }));
+    } catch {
+      return [...DEMO_PROGRAMS];
+    }
+  },
+
+  /** Get Quick Access tiles */
+  async getQuickAccess(): Promise<QuickAccessItem[]> {
+    await wait(150);
+    return [...demoQuickAccess];
+  },
+
+  /** Pin a tile (session only) */
+  async addQuickAccess(item: { path: string; title: string; subtitle?: string }): Promise<QuickAccessItem> {
+    await wait(80);
+    const tile: QuickAccessItem = {
+      id: `qa-${Date.now()}`,
+      title: item.title,
+      subtitle: item.subtitle,
+      cta: 'Download',
+      icon: 'FileText',
+      path: item.path,
+    };
+    demoQuickAccess = [...demoQuickAccess.filter((q) => q.path !== item.path), tile];
+    return tile;
+  },
+
+  /** Unpin a tile (session only) */
+  async removeQuickAccess(id: string): Promise<void> {
+    await wait(80);
+    demoQuickAccess = demoQuickAccess.filter((q) => q.id !== id);
+  },
+
+  /** Get Bookmarked resources for current user */
+  async getBookmarkedResources(): Promise<ResourceItem[]> {
+    await wait(120);
+    return [
+      { id: 'bm-1', name: 'MTM CMR Form (Pharmacist)', program: 'MTM' },
+      { id: 'bm-2', name: 'Technician Protocol – Sync Calls', program: 'TMM' },
+      { id: 'bm-3', name: 'A1c Testing Consent', program: 'A1C' },
+      { id: 'bm-4', name: 'Strep Test Standing Order', program: 'TNT' },
+    ];
+  },
+
+  /** Get recent activity list */
+  async getRecentActivity(): Promise<RecentActivity[]> {
+    await wait(160);
+    const now = Date.now();
+    return [
+      { id: 'ra-1', name: 'CMR Interview Guide', program: 'MTM', accessedAtISO: new Date(now - 1000 * 60 * 60).toISOString() },
+      { id: 'ra-2', name: 'Sync Schedule Template', program: 'TMM', accessedAtISO: new Date(now - 1000 * 60 * 60 * 5).toISOString() },
+      { id: 'ra-3', name: 'A1c Tech Checklist', program: 'A1C', accessedAtISO: new Date(now - 1000 * 60 * 60 * 22).toISOString() },
+    ];
+  },
+
+  /** Get announcements */
+  async getAnnouncements(): Promise<Announcement[]> {
+    await wait(100);
+    return [
+      { id: 'an-1', title: 'New: Prescriber Communication Forms', body: 'Standardized outreach templates now available in all MTM programs.', dateISO: new Date().toISOString() },
+      { id: 'an-2', title: 'Sync Workflow Update', body: 'Checklist updated for latest payer guidance. Please review by month end.', dateISO: new Date(Date.now() - 86400 * 1000 * 4).toISOString() },
+    ];
+  },
+};
@@ -0,0 +1,163 @@
+/**
+ * Api live provider
+ * - Purpose: Dashboard data from Supabase instead of fixed samples.
+ * - Programs: programs table (names, descriptions, icons) + resourceCount/lastUpdatedISO aggregated from storage_files_catalog
+ *   (program_resource_stats view).
+ * - Quick access: tiles pinned by the member (quick_access_items); bookmarks: the member's saved files;
+ *   recent activity: recent_activity; announcements: announcements table.
+ * - File titles/URLs are resolved through the storage catalog, so signed URLs work in private bucket mode.
+ */
+
+import {
+  activityService,
+  bookmarkService,
+  dashboardService,
+  STORAGE_FILE_RESOURCE,
+  type RecentActivity as ActivityRow,
+} from '../supabase';
+import { describePath, getCatalogItemsByPaths, listPrograms } from '../storageCatalog';
+import { buildPublicUrl, isVideo, type StorageFileItem } from '../supabaseStorage';
+import { resourceAudience } from '../resourceMetadata';
+import {
+  Announcement,
+  ApiProvider,
+  ClinicalProgram,
+  QuickAccessItem,
+  RecentActivity,
+  ResourceItem,
+} from './types';
+
+/** Max bookmarks shown on the Dashboard */
+const DASHBOARD_BOOKMARK_LIMIT = 8;
+
+/** Max recent activity entries shown on the Dashboard */
+const DASHBOARD_ACTIVITY_LIMIT = 8;
+
+/**
+ * Icon for a file tile based on its type.
+ */
+function fileIcon(item: StorageFileItem): string {
+  if (isVideo(item)) return 'PlayCircle';
+  return /\.(xlsx?|csv)$/i.test(item.filename) ? 'FileSpreadsheet' : 'FileText';
+}
+
+/**
+ * Map a catalog item to a Dashboard resource item.
+ */
+function toResourceItem(id: string, item: StorageFileItem): ResourceItem {
+  return {
+    id,
+    name: item.title,
+    program: describePath(item.path),
+    url: item.url,
+    path: item.path,
+    mediaType: isVideo(item) ? 'video' : 'document',
+  };
+}
+
+/**
+ * Map a recent_activity row to a Dashboard activity item.
+ */
+function toActivityItem(row: ActivityRow): RecentActivity {
+  const path = row.resource_path || undefined;
+  return {
+    id: row.id,
+    name: row.resource_name,
+    program: path ? describePath(path) : undefined,
+    accessedAtISO: row.accessed_at,
+    path,
+    url: path ? buildPublicUrl(path) : undefined,
+    mediaType: row.activity_type === 'play' ? 'video' : 'document',
+  };
+}
+
+/**
+ * Live Api methods
+ */
+export const liveProvider: ApiProvider = {
+  name: 'live',
+
+  /** Programs with catalog-derived counts (programs without files show 0) */
+  async getPrograms(): Promise<ClinicalProgram[]> {
+    const [programs, stats] = await Promise.all([
+      listPrograms(),
+      dashboardService.getProgramStats().catch(() => []),
+    ]);
+    const bySlug = new Map(stats.map((s) => [s.program_slug, s]));
+    return programs.map((p) => {
+      const s = bySlug.get(p.slug);
+      return {
+        slug: p.slug,
+        name: p.name,
+        description: p.description || '',
+        icon: p.icon || 'FileText',
+        resourceCount: Number(s?.resource_count ?? 0),
+        lastUpdatedISO: s?.last_updated || undefined,
+      };
+    });
+  },
+
+  /** Member's pinned tiles with resolved titles/URLs */
+  async getQuickAccess(): Promise<QuickAccessItem[]> {
+    const rows = await dashboardService.getQuickAccess();
+    if (rows.length === 0) return [];
+    const items = await getCatalogItemsByPaths(rows.map((r) => r.resource_path));
+    const byPath = new Map(items.map((i) => [i.path, i]));
+    return rows.map((r) => {
+      const item = byPath.get(r.resource_path.replace(/^\/+/, ''));
+      const video = item ? isVideo(item) : false;
+      return {
+        id: r.id,
+        title: r.title,
+        subtitle: r.subtitle || (item ? describePath(item.path) : undefined),
+        cta: video ? 'Watch' : 'Download',
+        icon: item ? fileIcon(item) : 'FileText',
+        path: r.resource_path,
+        url: item?.url,
+        audience: resourceAudience(item?.meta, r.title),
+      };
+    });
+  },
+
+  async addQuickAccess(item: { path: string; title: string; subtitle?: string }): Promise<QuickAccessItem> {
+    const existing = await dashboardService.getQuickAccess();
+    const sortOrder = existing.reduce((max, r) => Math.max(max, r.sort_order), -1) + 1;
+    const row = await dashboardService.addQuickAccess({ ...item, sortOrder });
+    const [resolved] = await getCatalogItemsByPaths([row.resource_path]);
+    const video = resolved ? isVideo(resolved) : false;
+    return {
+      id: row.id,
+      title: row.title,
+      subtitle: row.subtitle || describePath(row.resource_path),
+      cta: video ? 'Watch' : 'Download',
+      icon: resolved ? fileIcon(resolved) : 'FileText',
+      path: row.resource_path,
+      url: resolved?.url,
+      audience: resourceAudience(resolved?.meta, row.title),
+    };
+  },
+
+  async removeQuickAccess(id: string): Promise<void> {
+    await dashboardService.removeQuickAccess(id);
+  },
+
+  /** First saved files (bookmark order) */
+  async getBookmarkedResources(): Promise<ResourceItem[]> {
+    const bookmarks = (await bookmarkService.getUserBookmarks())
+      .filter((b) => b.resource_type === STORAGE_FILE_RESOURCE)
+      .slice(0, DASHBOARD_BOOKMARK_LIMIT);
+    if (bookmarks.length === 0) return [];
+    const items = await getCatalogItemsByPaths(bookmarks.map((b) => b.resource_id));
+    return items.map((item, i) => toResourceItem(bookmarks[i].id, item));
+  },
+
+  async getRecentActivity(): Promise<RecentActivity[]> {
+    const rows = await activityService.getRecentActivity(DASHBOARD_ACTIVITY_LIMIT);
+    return rows.map(toActivityItem);
+  },
+
+  async getAnnouncements(): Promise<Announcement[]> {
+    const rows = await dashboardService.getAnnouncements();
+    return rows.map((r) => ({ id: r.id, title: r.title, body: r.body, dateISO: r.published_at }));
+  },
+};
@@ -1,7 +1,9 @@
 /**
- * Types for the mocked Api service used by Dashboard
+ * Types for the Dashboard Api (live Supabase provider and offline/demo provider)
  */
 
+import type { ResourceAudience } from '../resourceMetadata';
+
 /** Announcement item */
 export interface Announcement {
   id: string;
@@ -27,6 +29,11 @@ export interface QuickAccessItem {
   subtitle?: string;
   cta: 'Download' | 'Watch';
   icon: string; // lucide icon name
+  /** Storage path (bucket-relative) of the pinned file */
+  path?: string;
+  url?: string;
+  /** Who the file is for (catalog metadata); titles are used when absent */
+  audience?: ResourceAudience[];
 }
 
 /** Resource item for bookmarks or recent activity */
@@ -35,9 +42,33 @@ export interface ResourceItem {
   name: string;
   program?: string; // program code/name
   url?: string;
+  /** Storage path (bucket-relative) when the item is a catalog file */
+  path?: string;
+  /** Download vs. video (drives the action button) */
+  mediaType?: 'document' | 'video';
 }
 
 /** Recent activity item */
 export interface RecentActivity extends ResourceItem {
   accessedAtISO: string;
 }
+
+/** Which implementation backs Api */
+export type ApiProviderName = 'live' | 'demo';
+
+/**
+ * Dashboard data provider
+ * - live: Supabase (catalog aggregates, member tables)
+ * - demo: fixed sample data, no network (offline demos)
+ */
+export interface ApiProvider {
+  name: ApiProviderName;
+  getPrograms(): Promise<ClinicalProgram[]>;
+  getQuickAccess(): Promise<QuickAccessItem[]>;
+  /** Pin a file to the member's quick access tiles */
+  addQuickAccess(item: { path: string; title: string; subtitle?: string }): Promise<QuickAccessItem>;
+  removeQuickAccess(id: string): Promise<void>;
+  getBookmarkedResources(): Promise<ResourceItem[]>;
+  getRecentActivity(): Promise<RecentActivity[]>;
+  getAnnouncements(): Promise<Announcement[]>;
+}
@@ -0,0 +1,79 @@
+/**
+ * Billing service
+ * - Purpose: The member's billing history (public.payments, one row per completed checkout) and its CSV export.
+ * - Team owners also see the team's payments; the rows carry the bill-to name and address as they were when paid.
+ * - Receipts are rendered client-side from these rows (lib/receipt).
+ */
+
+import { restFetch } from './supabaseHttp';
+
+/** A charge (public.payments) */
+export interface Payment {
+  id: string;
+  receipt_number: string;
+  plan_code: string | null;
+  plan_name: string;
+  amount_cents: number;
+  currency: string;
+  provider: string;
+  provider_payment_id: string | null;
+  billed_to_name: string | null;
+  billed_to_address: string | null;
+  paid_at: string;
+}
+
+const PAYMENT_COLUMNS =
+  'id,receipt_number,plan_code,plan_name,amount_cents,currency,provider,provider_payment_id,billed_to_name,billed_to_address,paid_at';
+
+/**
+ * Quote a CSV cell when it holds a delimiter, quote or line break.
+ * Text that a spreadsheet would read as a formula (=, +, -, @) is prefixed with an apostrophe.
+ */
+function csvCell(value: string): string {
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Billing history as CSV (one row per charge, oldest first) for bookkeeping.
+ */
+export function paymentsToCsv(payments: Payment[]): string {
+  const header = ['Date', 'Receipt No.', 'Plan', 'Amount', 'Currency', 'Billed To', 'Address', 'Payment Reference'];
+  const rows = [...payments]
+    .sort((a, b) => a.paid_at.localeCompare(b.paid_at))
+    .map((p) => [
+      p.paid_at.slice(0, 10),
+      p.receipt_number,
+      p.plan_name,
+      (p.amount_cents / 100).toFixed(2),
+      p.currency.toUpperCase(),
+      p.billed_to_name ?? '',
+      (p.billed_to_address ?? '').replace(/\s*\r?\n\s*/g, ', '),
+      p.provider_payment_id ?? '',
+    ]);
+  return [header, ...rows].map((r) => r.map(csvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Billing queries
+ */
+export const billingService = {
+  /** Charges the member can see (their own, and their team's as an owner), newest first */
+  async getPayments(): Promise<Payment[]> {
+    const rows = await restFetch<Payment[]>(`/payments?select=${PAYMENT_COLUMNS}&order=paid_at.desc`);
+    return rows || [];
+  },
+
+  /** Download the billing history as a CSV file */
+  downloadCsv(payments: Payment[]) {
+    const blob = new Blob([paymentsToCsv(payments)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ClinicalRxQ-billing-history-${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  },
+};
@@ -0,0 +1,272 @@
+/**
+ * Catalog search service
+ * - Purpose: Search storage_files_catalog + resource library tables server-side (Postgres full-text + trigram)
+ *   via rpc/search_resources, with program/category facets and pagination.
+ * - Program files are limited to the programs passed in (callers pass the member's entitled programs).
+ * - Fallback: if the search RPCs are unavailable, a name ilike query on storage_files_catalog (no facet counts).
+ * - Titles come back with highlight segments for the matched query terms.
+ */
+
+import { restFetch, restFetchPage } from './supabaseHttp';
+import { withFreshUrls } from './signedUrls';
+import { describePath, type ProgramSlug } from './storageCatalog';
+import { buildPublicUrl, stripOneExtension, SUPABASE_BUCKET, type StorageFileItem } from './supabaseStorage';
+
+/** Category facet values (program subfolders + global folders) */
+export type SearchCategory = 'forms' | 'protocols' | 'resources' | 'training' | 'handouts' | 'guidelines' | 'billing';
+
+/** Folder prefix for each global category */
+const GLOBAL_FOLDERS: Record<'handouts' | 'guidelines' | 'billing', string> = {
+  handouts: 'patienthandouts',
+  guidelines: 'clinicalguidelines',
+  billing: 'medicalbilling',
+};
+
+/** Program subfolder categories */
+const PROGRAM_CATEGORIES: SearchCategory[] = ['forms', 'protocols', 'resources', 'training'];
+
+/** Search request */
+export interface SearchParams {
+  query: string;
+  /** Programs whose files may be returned (entitled programs) */
+  programs: ProgramSlug[];
+  /** Include patient handouts / guidelines / billing (default true) */
+  includeGlobal?: boolean;
+  /** Restrict to these categories (empty = all) */
+  categories?: SearchCategory[];
+  /** 1-based page */
+  page?: number;
+  pageSize?: number;
+}
+
+/** A piece of a title; match=true for highlighted text */
+export interface TitleSegment {
+  text: string;
+  match: boolean;
+}
+
+/** One search result */
+export interface SearchHit extends StorageFileItem {
+  id: string;
+  programSlug?: string;
+  category?: string;
+  /** e.g. "TimeMyMeds • Forms" */
+  location: string;
+  highlights: TitleSegment[];
+}
+
+/** Facet counts for the current query */
+export interface SearchFacets {
+  programs: Record<string, number>;
+  categories: Record<string, number>;
+}
+
+/** Search response */
+export interface SearchResult {
+  hits: SearchHit[];
+  total: number;
+  page: number;
+  pageSize: number;
+  /** null when counts are unavailable (fallback search) */
+  facets: SearchFacets | null;
+}
+
+/** Row returned by rpc/search_resources */
+interface SearchRow {
+  id: string;
+  source: string;
+  file_name: string;
+  file_path: string | null;
+  file_url: string | null;
+  mime_type: string | null;
+  file_size: number | null;
+  title: string;
+  program_slug: string | null;
+  category: string | null;
+  rank: number;
+  total_count: number;
+}
+
+/** Row returned by rpc/search_resource_facets */
+interface FacetRow {
+  program_slug: string | null;
+  category: string | null;
+  hits: number;
+}
+
+/** Row subset used by the fallback query */
+interface CatalogRow {
+  id: string;
+  file_name: string;
+  file_path: string;
+  file_url?: string | null;
+  mime_type?: string | null;
+  file_size?: number | null;
+}
+
+/**
+ * Split a query into lowercase terms worth highlighting.
+ */
+function queryTerms(query: string): string[] {
+  return Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/[^a-z0-9]+/i)
+        .filter((t) => t.length >= 2)
+    )
+  );
+}
+
+/**
+ * Split a title into highlighted / plain segments for the query terms (case-insensitive).
+ */
+export function highlightTitle(title: string, query: string): TitleSegment[] {
+  const terms = queryTerms(query);
+  if (!title || terms.length === 0) return [{ text: title, match: false }];
+  const escaped = terms
+    .sort((a, b) => b.length - a.length)
+    .map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const re = new RegExp(`(${escaped.join('|')})`, 'gi');
+  const segments: TitleSegment[] = [];
+  let last = 0;
+  for (const m of title.matchAll(re)) {
+    const start = m.index ?? 0;
+    if (start > last) segments.push({ text: title.slice(last, start), match: false });
+    segments.push({ text: m[0], match: true });
+    last = start + m[0].length;
+  }
+  if (last < title.length) segments.push({ text: title.slice(last), match: false });
+  return segments;
+}
+
+/**
+ * Map a search row to a hit (URL from file_url or the bucket path).
+ */
+function toHit(row: SearchRow, query: string): SearchHit {
+  const path = (row.file_path || '').replace(/^\/+/, '');
+  const title = row.source === 'catalog' ? stripOneExtension(row.file_name) : row.title;
+  return {
+    id: `${row.source}:${row.id}`,
+    path,
+    url: row.file_url || (path ? buildPublicUrl(path) : ''),
+    filename: row.file_name,
+    title,
+    mimeType: row.mime_type || undefined,
+    size: typeof row.file_size === 'number' ? row.file_size : undefined,
+    programSlug: row.program_slug || undefined,
+    category: row.category || undefined,
+    location: path ? describePath(path) : '',
+    highlights: highlightTitle(title, query),
+  };
+}
+
+/**
+ * Aggregate facet rows into per-program and per-category counts.
+ */
+function toFacets(rows: FacetRow[]): SearchFacets {
+  const facets: SearchFacets = { programs: {}, categories: {} };
+  for (const r of rows) {
+    const hits = Number(r.hits) || 0;
+    if (r.program_slug) facets.programs[r.program_slug] = (facets.programs[r.program_slug] || 0) + hits;
+    if (r.category) facets.categories[r.category] = (facets.categories[r.category] || 0) + hits;
+  }
+  return facets;
+}
+
+/**
+ * Sign private-bucket URLs for hits that point at bucket paths (library links are left alone).
+ */
+async function signHits(hits: SearchHit[]): Promise<SearchHit[]> {
+  const signable = hits.filter((h) => h.path && h.url === buildPublicUrl(h.path));
+  if (signable.length === 0) return hits;
+  const signed = new Map((await withFreshUrls(signable)).map((h) => [h.id, h]));
+  return hits.map((h) => signed.get(h.id) ?? h);
+}
+
+/**
+ * Fallback search: name ilike on storage_files_catalog, scoped by folder prefixes.
+ */
+async function fallbackSearch(params: Required<Omit<SearchParams, 'query'>> & { query: string }): Promise<SearchResult> {
+  const { query, programs, includeGlobal, categories, page, pageSize } = params;
+  const wanted = (c: SearchCategory) => categories.length === 0 || categories.includes(c);
+
+  const prefixes: string[] = [];
+  for (const slug of programs) {
+    const cats = PROGRAM_CATEGORIES.filter(wanted);
+    if (categories.length === 0) prefixes.push(`${slug}/`);
+    else cats.forEach((c) => prefixes.push(`${slug}/${c}/`));
+  }
+  if (includeGlobal) {
+    (Object.keys(GLOBAL_FOLDERS) as Array<keyof typeof GLOBAL_FOLDERS>)
+      .filter(wanted)
+      .forEach((c) => prefixes.push(`${GLOBAL_FOLDERS[c]}/`));
+  }
+  if (prefixes.length === 0) return { hits: [], total: 0, page, pageSize, facets: null };
+
+  // PostgREST filter syntax: reserved characters inside or=(...) values are double-quoted
+  const quote = (v: string) => `"${v.replace(/"/g, '\\"')}"`;
+  const nameFilters = queryTerms(query).map((t) => `file_name.ilike.${quote(`*${t}*`)}`);
+  const scope = `or=(${prefixes.map((p) => `file_path.ilike.${quote(`${p}*`)}`).join(',')})`;
+  const names = nameFilters.length ? `&and=(${nameFilters.join(',')})` : '';
+  const endpoint =
+    `/storage_files_catalog?select=id,file_name,file_path,file_url,mime_type,file_size` +
+    `&bucket_name=eq.${encodeURIComponent(SUPABASE_BUCKET)}&deleted_at=is.null&${encodeURI(scope)}${encodeURI(names)}&order=file_name.asc`;
+
+  const { rows, total } = await restFetchPage<CatalogRow>(endpoint, (page - 1) * pageSize, pageSize);
+  const hits = rows.map((r) =>
+    toHit(
+      {
+        ...r,
+        source: 'catalog',
+        file_url: r.file_url ?? null,
+        mime_type: r.mime_type ?? null,
+        file_size: r.file_size ?? null,
+        title: r.file_name,
+        program_slug: null,
+        category: null,
+        rank: 0,
+        total_count: total,
+      },
+      query
+    )
+  );
+  return { hits: await signHits(hits), total, page, pageSize, facets: null };
+}
+
+/**
+ * Search the catalog.
+ * - Empty queries return no hits.
+ */
+export async function searchResources(params: SearchParams): Promise<SearchResult> {
+  const query = params.query.trim();
+  const page = Math.max(1, params.page ?? 1);
+  const pageSize = params.pageSize ?? 20;
+  const includeGlobal = params.includeGlobal ?? true;
+  const categories = params.categories ?? [];
+  if (!query) return { hits: [], total: 0, page, pageSize, facets: null };
+
+  const scope = { q: query, programs: params.programs, include_global: includeGlobal };
+  try {
+    const [rows, facetRows] = await Promise.all([
+      restFetch<SearchRow[]>('/rpc/search_resources', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...scope,
+          categories: categories.length ? categories : null,
+          page_offset: (page - 1) * pageSize,
+          page_limit: pageSize,
+        }),
+      }),
+      restFetch<FacetRow[]>('/rpc/search_resource_facets', {
+        method: 'POST',
+        body: JSON.stringify(scope),
+      }),
+    ]);
+    const hits = (rows || []).map((r) => toHit(r, query));
+    const total = rows?.length ? Number(rows[0].total_count) : 0;
+    return { hits: await signHits(hits), total, page, pageSize, facets: toFacets(facetRows || []) };
+  } catch {
+    return fallbackSearch({ query, programs: params.programs, includeGlobal, categories, page, pageSize });
+  }
+}
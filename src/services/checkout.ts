@@ -0,0 +1,125 @@
+/**
+ * Checkout service
+ * - Purpose: Plans for sale (public.plans, priced per program bundle) and the hosted checkout flow.
+ * - start() asks api/checkout/session for the payment provider's page; card details are entered there, never here.
+ * - The subscription is activated by api/payments/webhook; the Enroll page polls the checkout until it settles.
+ */
+
+import { restFetch } from './supabaseHttp';
+import { ensureFreshSession } from './supabaseAuth';
+
+/** Row shape from public.plans */
+interface PlanRow {
+  code: string;
+  name: string;
+  description: string | null;
+  features: string[] | null;
+  seat_limit: number;
+  programs: string[] | null;
+  price_cents: number | null;
+  currency: string;
+  term_months: number;
+  sort_order: number;
+}
+
+/** A plan that can be bought */
+export interface Plan {
+  code: string;
+  name: string;
+  description?: string;
+  features: string[];
+  seatLimit: number;
+  /** Program slugs covered ("all" = every program) */
+  programs: string[];
+  priceCents: number;
+  currency: string;
+  termMonths: number;
+}
+
+export type CheckoutStatus = 'pending' | 'completed' | 'failed' | 'expired';
+
+/** The member's checkout (public.checkout_sessions) */
+export interface Checkout {
+  id: string;
+  plan_code: string;
+  status: CheckoutStatus;
+  amount_cents: number;
+  currency: string;
+  created_at: string;
+  completed_at: string | null;
+}
+
+function toPlan(row: PlanRow): Plan {
+  return {
+    code: row.code,
+    name: row.name,
+    description: row.description || undefined,
+    features: row.features || [],
+    seatLimit: Number(row.seat_limit),
+    programs: row.programs || [],
+    priceCents: Number(row.price_cents),
+    currency: row.currency,
+    termMonths: Number(row.term_months),
+  };
+}
+
+/**
+ * Format an amount in cents, e.g. 29900 → "$299.00".
+ */
+export function formatPrice(cents: number, currency = 'usd'): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(cents / 100);
+}
+
+/**
+ * Billing term label, e.g. 12 → "per year".
+ */
+export function formatTerm(months: number): string {
+  if (months === 12) return 'per year';
+  if (months === 1) return 'per month';
+  return `per ${months} months`;
+}
+
+/**
+ * Checkout queries and actions
+ */
+export const checkoutService = {
+  /** Active, priced plans in display order (bundles first) */
+  async getPlans(): Promise<Plan[]> {
+    const rows = await restFetch<PlanRow[]>(
+      '/plans?select=*&active=eq.true&price_cents=not.is.null&order=sort_order.asc',
+      {},
+      'public'
+    );
+    return (rows || []).map(toPlan);
+  },
+
+  /**
+   * Start a hosted checkout for a plan.
+   * @param replacesSubscriptionId Change plan: this subscription ends when the new one starts (its unused value carries over as time, prorated by price)
+   * @returns the provider's checkout page (navigate the browser there)
+   */
+  async start(planCode: string, replacesSubscriptionId?: string): Promise<{ id: string; url: string }> {
+    const session = await ensureFreshSession();
+    if (!session) throw new Error('Sign in to check out.');
+    const res = await fetch('/api/checkout/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` },
+      body: JSON.stringify({
+        planCode,
+        appUrl: `${window.location.origin}${window.location.pathname}`,
+        replacesSubscriptionId,
+      }),
+    });
+    const body = (await res.json().catch(() => null)) as { id?: string; url?: string; error?: string } | null;
+    if (!res.ok || !body?.url || !body.id) throw new Error(body?.error || 'Checkout could not be started.');
+    return { id: body.id, url: body.url };
+  },
+
+  /** One of the member's checkouts, or undefined */
+  async get(id: string): Promise<Checkout | undefined> {
+    const rows = await restFetch<Checkout[]>(
+      `/checkout_sessions?id=eq.${encodeURIComponent(id)}&select=id,plan_code,status,amount_cents,currency,created_at,completed_at`
+    );
+    return rows?.[0];
+  },
+};
@@ -0,0 +1,196 @@
+/**
+ * Entitlement service
+ * - Purpose: Resolve which program slugs a member is licensed for, from the Supabase "subscriptions" table.
+ * - Team members share their organization's subscriptions (RLS returns the member's own and their team's rows).
+ * - Legacy subscription rows use older slugs ('mtm-future-today', 'test-treat'); these are normalized to programs.slug.
+ * - Known slugs come from the programs table (storageCatalog.listPrograms); getSubscription loads it first.
+ * - Rows keep granting programs through the grace period after their end date (services/subscriptionLifecycle).
+ * - Admins are entitled to every program.
+ * - These checks only decide what the UI shows. The database enforces the same rules (public.has_program_access)
+ *   on catalog rows, program content tables, quizzes and storage objects.
+ */
+
+import type { Subscription, User } from '../types';
+import { restFetch } from './supabaseHttp';
+import { postgrestMessage } from './supabase';
+import { getLoadedPrograms, listPrograms, type ProgramSlug } from './storageCatalog';
+import { accessEndsAt, getSubscriptionLifecycle } from './subscriptionLifecycle';
+import { setSubscriptionSettings } from '../config/subscriptionConfig';
+
+/** Row shape from public.subscriptions */
+export interface SubscriptionRow {
+  id: string;
+  user_id: string | null;
+  plan_name: string;
+  status: 'active' | 'inactive' | 'cancelled';
+  start_date: string;
+  end_date: string;
+  /** Program slugs covered by the plan (may contain legacy slugs or "all") */
+  programs: string[] | null;
+  /** Set for team subscriptions (shared by every member of the organization) */
+  organization_id?: string | null;
+  plan_code?: string | null;
+  /** Member cancelled: no renewal and no grace period */
+  cancel_at_period_end?: boolean | null;
+  created_at?: string;
+}
+
+/** Older slugs that cannot be matched by stripping punctuation (mirrored in SQL by public.normalize_program_slug) */
+const LEGACY_PROGRAM_SLUGS: Record<string, ProgramSlug> = {
+  'mtm-future-today': 'mtmthefuturetoday',
+  mtm: 'mtmthefuturetoday',
+  'test-treat': 'testandtreat',
+  tnt: 'testandtreat',
+  tmm: 'timemymeds',
+  a1c: 'hba1c',
+  oc: 'oralcontraceptives',
+};
+
+/** Wildcard values meaning "every program" */
+const ALL_PROGRAMS_TOKENS = new Set(['*', 'all', 'all-programs']);
+
+/** Slugs from the programs table, in display order */
+function knownSlugs(): ProgramSlug[] {
+  return getLoadedPrograms().map((p) => p.slug);
+}
+
+/**
+ * Normalize a raw slug from a subscription row to a ProgramSlug.
+ * - Exact match → as-is; otherwise compare with punctuation stripped ('time-my-meds' → 'timemymeds');
+ *   otherwise consult the legacy map. Returns null for unknown slugs.
+ * - Before the programs list has loaded every compact slug is accepted; this only affects what the UI offers.
+ */
+export function normalizeProgramSlug(raw: string): ProgramSlug | null {
+  const lower = (raw || '').trim().toLowerCase();
+  if (!lower) return null;
+  const known = knownSlugs();
+  if (known.includes(lower)) return lower;
+
+  const compact = lower.replace(/[^a-z0-9]/g, '');
+  if (known.includes(compact)) return compact;
+
+  const legacy = LEGACY_PROGRAM_SLUGS[lower] ?? LEGACY_PROGRAM_SLUGS[compact];
+  if (legacy) return legacy;
+  return known.length === 0 && compact ? compact : null;
+}
+
+/**
+ * Expand a list of raw slugs (possibly legacy or wildcard) into unique program slugs, in display order.
+ */
+export function resolveProgramSlugs(raw: string[]): ProgramSlug[] {
+  const known = knownSlugs();
+  if (raw.some((r) => ALL_PROGRAMS_TOKENS.has((r || '').trim().toLowerCase()))) {
+    return known;
+  }
+  const set = new Set<ProgramSlug>();
+  for (const r of raw) {
+    const slug = normalizeProgramSlug(r);
+    if (slug) set.add(slug);
+  }
+  return known.length ? known.filter((s) => set.has(s)) : [...set];
+}
+
+/**
+ * Whether a subscription row currently grants access (until its end date plus the grace period).
+ */
+function isRowActive(row: SubscriptionRow, now = Date.now()): boolean {
+  if (row.status !== 'active') return false;
+  const end = Date.parse(row.end_date);
+  return Number.isNaN(end) || accessEndsAt(new Date(end), !!row.cancel_at_period_end).getTime() >= now;
+}
+
+/**
+ * Combine a member's subscription rows into the app's Subscription shape.
+ * - Programs are the union of all currently active rows; the most recent row supplies plan/status/dates.
+ */
+export function toSubscription(rows: SubscriptionRow[]): Subscription | undefined {
+  if (!rows.length) return undefined;
+  const sorted = [...rows].sort((a, b) => Date.parse(b.end_date) - Date.parse(a.end_date));
+  const active = sorted.filter((r) => isRowActive(r));
+  const primary = active[0] ?? sorted[0];
+  return {
+    id: primary.id,
+    planName: primary.plan_name,
+    planCode: primary.plan_code || undefined,
+    status: primary.status,
+    startDate: new Date(primary.start_date),
+    endDate: new Date(primary.end_date),
+    programs: resolveProgramSlugs(active.flatMap((r) => r.programs || [])),
+    cancelAtPeriodEnd: !!primary.cancel_at_period_end,
+    organizationId: primary.organization_id || undefined,
+  };
+}
+
+/**
+ * Entitlement queries
+ */
+export const entitlementService = {
+  /** Load the member's subscription rows: their own plus their organization's */
+  async getSubscriptionRows(userId: string): Promise<SubscriptionRow[]> {
+    const rows = await restFetch<SubscriptionRow[]>(
+      `/subscriptions?select=*&or=(user_id.eq.${encodeURIComponent(userId)},organization_id.not.is.null)&order=end_date.desc`
+    );
+    return rows || [];
+  },
+
+  /** Load the renewal warning window and grace period (public.subscription_settings) into subscriptionConfig */
+  async loadSettings(): Promise<void> {
+    const rows = await restFetch<{ renewal_warning_days: number; grace_period_days: number }[]>(
+      '/subscription_settings?select=renewal_warning_days,grace_period_days&limit=1',
+      {},
+      'public'
+    );
+    if (rows?.[0]) {
+      setSubscriptionSettings({
+        renewalWarningDays: rows[0].renewal_warning_days,
+        gracePeriodDays: rows[0].grace_period_days,
+      });
+    }
+  },
+
+  /** Resolve the member's Subscription (with normalized programs), or undefined if none */
+  async getSubscription(userId: string): Promise<Subscription | undefined> {
+    const [rows] = await Promise.all([
+      this.getSubscriptionRows(userId),
+      listPrograms().catch(() => []),
+      this.loadSettings().catch(() => undefined),
+    ]);
+    return toSubscription(rows);
+  },
+
+  /**
+   * Cancel (access continues until the end date) or reactivate a subscription that has not ended.
+   * - Allowed for the member's own plan, or the team's plan for team owners.
+   */
+  async setCancellation(subscriptionId: string, cancel: boolean): Promise<void> {
+    try {
+      await restFetch('/rpc/set_subscription_cancellation', {
+        method: 'POST',
+        body: JSON.stringify({ p_subscription_id: subscriptionId, p_cancel: cancel }),
+      });
+    } catch (e) {
+      throw new Error(postgrestMessage(e, cancel ? 'Could not cancel the plan.' : 'Could not reactivate the plan.'));
+    }
+  },
+};
+
+/**
+ * Program slugs the user may open.
+ */
+export function getEntitledPrograms(user: User | null | undefined): ProgramSlug[] {
+  if (!user) return [];
+  if (user.role === 'admin') return knownSlugs();
+  const sub = user.subscription;
+  if (!sub || sub.status !== 'active' || getSubscriptionLifecycle(sub)?.locked) return [];
+  return resolveProgramSlugs(sub.programs);
+}
+
+/**
+ * Whether the user is licensed for a program slug.
+ */
+export function isProgramEntitled(user: User | null | undefined, slug: string): boolean {
+  const normalized = normalizeProgramSlug(slug);
+  if (!normalized) return false;
+  if (user?.role === 'admin') return true;
+  return getEntitledPrograms(user).includes(normalized);
+}
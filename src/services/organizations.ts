@@ -0,0 +1,161 @@
+/**
+ * Organization (team) service
+ * - Purpose: Pharmacy team accounts — one organization owns the subscription and its staff share it.
+ * - Reads: my_organization (the member's team, role and seat usage), organization_roster, organization_invites.
+ * - Writes go through RPCs that enforce owner-only actions and the plan's seat limit server-side.
+ * - Invite emails are sent by the api/team/invite function (needs the service key, so not from the browser).
+ */
+
+import type { Organization, OrganizationRole } from '../types';
+import { restFetch } from './supabaseHttp';
+import { ensureFreshSession } from './supabaseAuth';
+import { postgrestMessage } from './supabase';
+
+/** Row shape from public.my_organization */
+interface OrganizationRow {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  seat_limit: number;
+  seats_used: number;
+}
+
+/** Teammate (public.organization_roster) */
+export interface OrganizationMember {
+  organization_id: string;
+  user_id: string;
+  role: OrganizationRole;
+  joined_at: string;
+  name: string | null;
+  email: string | null;
+}
+
+/** Pending invite (public.organization_invites; owners only) */
+export interface OrganizationInvite {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: OrganizationRole;
+  created_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  pharmacist: 'Pharmacist',
+  technician: 'Technician',
+};
+
+export const ORGANIZATION_ROLES = Object.keys(ORGANIZATION_ROLE_LABELS) as OrganizationRole[];
+
+/** Call an RPC, surfacing the database's error message */
+async function rpc<T>(name: string, args: Record<string, unknown>, fallback: string): Promise<T> {
+  try {
+    return await restFetch<T>(`/rpc/${name}`, { method: 'POST', body: JSON.stringify(args) });
+  } catch (e) {
+    throw new Error(postgrestMessage(e, fallback));
+  }
+}
+
+function toOrganization(row: OrganizationRow): Organization {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    seatLimit: Number(row.seat_limit),
+    seatsUsed: Number(row.seats_used),
+  };
+}
+
+/**
+ * Organization queries and actions
+ */
+export const organizationService = {
+  /** The member's team, or undefined when they are not on one */
+  async getMine(): Promise<Organization | undefined> {
+    const rows = await restFetch<OrganizationRow[]>('/my_organization?select=*&limit=1');
+    return rows?.[0] ? toOrganization(rows[0]) : undefined;
+  },
+
+  /** Join the team that invited the member's confirmed email, if any (run after sign-in). Returns the organization id. */
+  async acceptInvites(): Promise<string | null> {
+    return rpc<string | null>('accept_organization_invites', {}, 'Could not accept the team invite.');
+  },
+
+  /** Start a team with the member as owner (their subscriptions move to it) */
+  async create(name: string): Promise<void> {
+    await rpc('create_organization', { p_name: name }, 'Could not create the team.');
+  },
+
+  /** Rename the team (owners) */
+  async rename(id: string, name: string): Promise<void> {
+    let rows: { id: string }[];
+    try {
+      rows = await restFetch<{ id: string }[]>(`/organizations?id=eq.${encodeURIComponent(id)}&select=id`, {
+        method: 'PATCH',
+        headers: { Prefer: 'return=representation' },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+    } catch (e) {
+      throw new Error(postgrestMessage(e, 'Could not rename the team.'));
+    }
+    // RLS filters the update to zero rows instead of failing
+    if (!rows?.length) throw new Error('Only team owners can rename the team.');
+  },
+
+  /** Teammates, owners first */
+  async getRoster(): Promise<OrganizationMember[]> {
+    const rows = await restFetch<OrganizationMember[]>('/organization_roster?select=*&order=joined_at.asc');
+    const rank: Record<OrganizationRole, number> = { owner: 0, pharmacist: 1, technician: 2 };
+    return (rows || []).sort((a, b) => rank[a.role] - rank[b.role]);
+  },
+
+  /** Pending invites (owners; others get an empty list) */
+  async getInvites(): Promise<OrganizationInvite[]> {
+    const rows = await restFetch<OrganizationInvite[]>(
+      '/organization_invites?select=*&accepted_at=is.null&order=created_at.desc'
+    );
+    return rows || [];
+  },
+
+  /** Invite (or re-invite) an email address; counts against the plan's seats */
+  async invite(email: string, role: OrganizationRole): Promise<OrganizationInvite> {
+    return rpc<OrganizationInvite>(
+      'invite_organization_member',
+      { p_email: email, p_role: role },
+      'Could not send the invite.'
+    );
+  },
+
+  /**
+   * Email the invite (sign-up link for new addresses, sign-in link for existing accounts).
+   * - The invite itself is already saved; a failure here only means the email did not go out.
+   */
+  async sendInviteEmail(inviteId: string): Promise<void> {
+    const session = await ensureFreshSession();
+    if (!session) throw new Error('You must be signed in.');
+    const res = await fetch('/api/team/invite', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` },
+      body: JSON.stringify({ inviteId, appUrl: `${window.location.origin}${window.location.pathname}` }),
+    });
+    if (!res.ok) {
+      const body = (await res.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(body?.error || 'The invite email could not be sent.');
+    }
+  },
+
+  async revokeInvite(inviteId: string): Promise<void> {
+    await rpc('revoke_organization_invite', { p_invite_id: inviteId }, 'Could not cancel the invite.');
+  },
+
+  async setRole(userId: string, role: OrganizationRole): Promise<void> {
+    await rpc('set_organization_member_role', { p_user_id: userId, p_role: role }, 'Could not change the role.');
+  },
+
+  /** Remove a teammate (owners), or leave the team (own user id) */
+  async remove(userId: string): Promise<void> {
+    await rpc('remove_organization_member', { p_user_id: userId }, 'Could not remove the team member.');
+  },
+};
@@ -0,0 +1,193 @@
+/**
+ * Resource metadata model
+ * - Purpose: Structured metadata stored on storage_files_catalog rows (description, tags, audience, payer relevance,
+ *   version, effective date, review-by date), beyond what the file path and name carry.
+ * - Edited by admins (storageAdmin.setMetadata); read with every catalog row (storageCatalog.mapRowToItem).
+ * - Dates are plain calendar dates ("YYYY-MM-DD"), as stored in Postgres date columns.
+ */
+
+/** Who a resource is written for */
+export type ResourceAudience = 'pharmacist' | 'technician' | 'patient';
+
+/** Payers a resource applies to */
+export type PayerRelevance = 'medicare' | 'medicaid' | 'commercial' | 'cash';
+
+export const AUDIENCE_LABELS: Record<ResourceAudience, string> = {
+  pharmacist: 'Pharmacist',
+  technician: 'Technician',
+  patient: 'Patient',
+};
+
+export const PAYER_LABELS: Record<PayerRelevance, string> = {
+  medicare: 'Medicare',
+  medicaid: 'Medicaid',
+  commercial: 'Commercial',
+  cash: 'Cash pay',
+};
+
+export const AUDIENCES = Object.keys(AUDIENCE_LABELS) as ResourceAudience[];
+export const PAYERS = Object.keys(PAYER_LABELS) as PayerRelevance[];
+
+/** Metadata attached to a resource */
+export interface ResourceMetadata {
+  description: string | null;
+  tags: string[];
+  audience: ResourceAudience[];
+  payerRelevance: PayerRelevance[];
+  version: string | null;
+  /** YYYY-MM-DD */
+  effectiveDate: string | null;
+  /** YYYY-MM-DD */
+  reviewBy: string | null;
+}
+
+/** Catalog columns holding metadata */
+export interface ResourceMetadataRow {
+  description?: string | null;
+  tags?: string[] | null;
+  audience?: string[] | null;
+  payer_relevance?: string[] | null;
+  version?: string | null;
+  effective_date?: string | null;
+  review_by?: string | null;
+}
+
+/** PostgREST select list for the metadata columns */
+export const METADATA_COLUMNS = 'description,tags,audience,payer_relevance,version,effective_date,review_by';
+
+export const EMPTY_METADATA: ResourceMetadata = {
+  description: null,
+  tags: [],
+  audience: [],
+  payerRelevance: [],
+  version: null,
+  effectiveDate: null,
+  reviewBy: null,
+};
+
+/**
+ * Map catalog columns → metadata.
+ * @returns undefined when the row carries no metadata at all
+ */
+export function metadataFromRow(row: ResourceMetadataRow): ResourceMetadata | undefined {
+  const meta: ResourceMetadata = {
+    description: row.description?.trim() || null,
+    tags: (row.tags || []).filter(Boolean),
+    audience: (row.audience || []).filter((a): a is ResourceAudience => a in AUDIENCE_LABELS),
+    payerRelevance: (row.payer_relevance || []).filter((p): p is PayerRelevance => p in PAYER_LABELS),
+    version: row.version?.trim() || null,
+    effectiveDate: row.effective_date || null,
+    reviewBy: row.review_by || null,
+  };
+  return hasMetadata(meta) ? meta : undefined;
+}
+
+/**
+ * Map metadata → catalog columns (for PATCH/upsert bodies).
+ */
+export function metadataToRow(meta: ResourceMetadata): Required<ResourceMetadataRow> {
+  return {
+    description: meta.description?.trim() || null,
+    tags: normalizeTags(meta.tags),
+    audience: meta.audience,
+    payer_relevance: meta.payerRelevance,
+    version: meta.version?.trim() || null,
+    effective_date: meta.effectiveDate || null,
+    review_by: meta.reviewBy || null,
+  };
+}
+
+/** Whether any field is set */
+export function hasMetadata(meta: ResourceMetadata | undefined): meta is ResourceMetadata {
+  if (!meta) return false;
+  return !!(
+    meta.description ||
+    meta.tags.length ||
+    meta.audience.length ||
+    meta.payerRelevance.length ||
+    meta.version ||
+    meta.effectiveDate ||
+    meta.reviewBy
+  );
+}
+
+/**
+ * Lowercase, trimmed, de-duplicated tags.
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Parse a comma-separated tag input.
+ */
+export function parseTags(input: string): string[] {
+  return normalizeTags(input.split(','));
+}
+
+/**
+ * Format a YYYY-MM-DD date for display (local calendar date, no timezone shift).
+ */
+export function formatMetaDate(value: string): string {
+  const [y, m, d] = value.split('-').map(Number);
+  if (!y || !m || !d) return value;
+  return new Date(y, m - 1, d).toLocaleDateString();
+}
+
+/**
+ * Whether a review-by date has passed.
+ */
+export function isReviewOverdue(meta: ResourceMetadata | undefined, now = new Date()): boolean {
+  if (!meta?.reviewBy) return false;
+  const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  return meta.reviewBy < today;
+}
+
+/** Library filter on metadata (empty list = no constraint) */
+export interface MetadataFilter {
+  audience: ResourceAudience[];
+  payers: PayerRelevance[];
+  tags: string[];
+}
+
+export const EMPTY_METADATA_FILTER: MetadataFilter = { audience: [], payers: [], tags: [] };
+
+/** Whether a filter constrains anything */
+export function isMetadataFilterActive(filter: MetadataFilter): boolean {
+  return filter.audience.length > 0 || filter.payers.length > 0 || filter.tags.length > 0;
+}
+
+/**
+ * Match a resource against the filter.
+ * - Within a group any value matches; across groups all must match. Resources without metadata never match
+ *   an active group.
+ */
+export function matchesMetadataFilter(meta: ResourceMetadata | undefined, filter: MetadataFilter): boolean {
+  if (filter.audience.length && !filter.audience.some((a) => meta?.audience.includes(a))) return false;
+  if (filter.payers.length && !filter.payers.some((p) => meta?.payerRelevance.includes(p))) return false;
+  if (filter.tags.length && !filter.tags.some((t) => meta?.tags.includes(t))) return false;
+  return true;
+}
+
+/** Title words that mark who a file is written for, when its metadata does not say */
+const AUDIENCE_TITLE_HINTS: Partial<Record<ResourceAudience, RegExp>> = {
+  pharmacist: /\bpharmacists?\b/i,
+  technician: /\b(technicians?|techs?)\b/i,
+};
+
+/**
+ * Who a resource is for: its metadata audience, else inferred from the title ("CMR Pharmacist Protocol",
+ * "Technician Training Module 1"). Empty = everyone.
+ */
+export function resourceAudience(meta: ResourceMetadata | undefined, title: string): ResourceAudience[] {
+  if (meta?.audience.length) return meta.audience;
+  return AUDIENCES.filter((a) => AUDIENCE_TITLE_HINTS[a]?.test(title));
+}
+
+/**
+ * Whether a resource is relevant to a viewer (null viewer = no role, everything is relevant).
+ * - Resources for everyone and patient-facing material are relevant to every role.
+ */
+export function isRelevantToAudience(audience: ResourceAudience[], viewer: ResourceAudience | null): boolean {
+  return !viewer || audience.length === 0 || audience.includes(viewer) || audience.includes('patient');
+}
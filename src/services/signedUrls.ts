@@ -0,0 +1,124 @@
+/**
+ * Signed URL service (private bucket mode)
+ * - Purpose: Mint short-lived download URLs via POST /storage/v1/object/sign/{bucket} when the bucket is private.
+ * - Lists are signed in batches; URLs are cached until shortly before they expire.
+ * - In public bucket mode every helper is a pass-through, so callers do not need to branch.
+ */
+
+import { getSupabaseUrl, isPrivateBucket } from '../config/supabaseConfig';
+import { supabaseRequest } from './supabaseHttp';
+import { SUPABASE_BUCKET, type StorageFileItem } from './supabaseStorage';
+
+/** Lifetime requested for each signed URL */
+export const SIGNED_URL_TTL_SECONDS = 300;
+
+/** Treat cached URLs as stale this long before they actually expire */
+const EXPIRY_MARGIN_MS = 30_000;
+
+/** Max paths per sign request */
+const SIGN_BATCH_SIZE = 100;
+
+/** Cached signed URL */
+interface SignedEntry {
+  url: string;
+  /** Epoch ms */
+  expiresAt: number;
+}
+
+/** Response item from the batch sign endpoint */
+interface SignResponseItem {
+  path: string | null;
+  signedURL: string | null;
+  error: string | null;
+}
+
+/** Minimal shape needed to resolve a file URL */
+export type UrlTarget = Pick<StorageFileItem, 'path' | 'url' | 'urlExpiresAt'>;
+
+const cache = new Map<string, SignedEntry>();
+
+/** Cache key per bucket + path */
+function cacheKey(bucket: string, path: string): string {
+  return `${bucket}/${path}`;
+}
+
+/** Whether an expiry timestamp is missing or inside the refresh margin */
+function isStale(expiresAt: number | undefined): boolean {
+  return !expiresAt || expiresAt - EXPIRY_MARGIN_MS <= Date.now();
+}
+
+/**
+ * Sign a set of paths (batched), using cached URLs that are still fresh.
+ * @returns map of path → signed entry (paths that failed to sign are omitted)
+ */
+export async function signPaths(paths: string[], bucket = SUPABASE_BUCKET): Promise<Record<string, SignedEntry>> {
+  const out: Record<string, SignedEntry> = {};
+  const pending: string[] = [];
+
+  for (const raw of paths) {
+    const path = raw.replace(/^\/+/, '');
+    const hit = cache.get(cacheKey(bucket, path));
+    if (hit && !isStale(hit.expiresAt)) out[path] = hit;
+    else if (!pending.includes(path)) pending.push(path);
+  }
+
+  const base = getSupabaseUrl();
+  for (let i = 0; i < pending.length; i += SIGN_BATCH_SIZE) {
+    const batch = pending.slice(i, i + SIGN_BATCH_SIZE);
+    const requestedAt = Date.now();
+    const res = await supabaseRequest(`/storage/v1/object/sign/${encodeURIComponent(bucket)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ expiresIn: SIGNED_URL_TTL_SECONDS, paths: batch }),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`Supabase sign failed (${res.status}): ${text || res.statusText}`);
+    }
+    const items = (await res.json()) as SignResponseItem[];
+    for (const it of items) {
+      if (!it.path || !it.signedURL || it.error) continue;
+      const entry: SignedEntry = {
+        // signedURL is relative to /storage/v1, e.g. "/object/sign/bucket/path?token=..."
+        url: `${base}/storage/v1${it.signedURL}`,
+        expiresAt: requestedAt + SIGNED_URL_TTL_SECONDS * 1000,
+      };
+      cache.set(cacheKey(bucket, it.path), entry);
+      out[it.path] = entry;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Attach fresh URLs to a list of items (private mode) in a single batched request.
+ * - Items that fail to sign keep their previous URL so the UI can still render them.
+ */
+export async function withFreshUrls<T extends StorageFileItem>(items: T[]): Promise<T[]> {
+  if (!isPrivateBucket() || items.length === 0) return items;
+  const signed = await signPaths(items.map((i) => i.path));
+  return items.map((i) => {
+    const entry = signed[i.path];
+    return entry ? { ...i, url: entry.url, urlExpiresAt: entry.expiresAt } : i;
+  });
+}
+
+/**
+ * Resolve a usable URL for an item, re-signing when the cached one has expired.
+ */
+export async function resolveFileUrl(item: UrlTarget): Promise<string> {
+  if (!isPrivateBucket()) return item.url;
+  if (item.url && !isStale(item.urlExpiresAt)) return item.url;
+  const signed = await signPaths([item.path]);
+  const entry = signed[item.path.replace(/^\/+/, '')];
+  if (!entry) throw new Error('This file is not available right now.');
+  return entry.url;
+}
+
+/**
+ * Whether opening this item needs a network round trip first.
+ */
+export function needsFreshUrl(item: UrlTarget): boolean {
+  return isPrivateBucket() && (!item.url || isStale(item.urlExpiresAt));
+}
@@ -0,0 +1,548 @@
+/**
+ * Storage admin service (admin role only)
+ * - Purpose: Manage objects in the "clinicalrxqfiles" bucket from the /admin console.
+ * - Every operation updates storage_files_catalog in the same call, so member pages (catalog-backed) stay in step:
+ *   upload → catalog upsert, rename/move → catalog path update, delete → catalog row removed, title → display_title,
+ *   metadata → description/tags/audience/... columns.
+ * - Uploads and replacements record a storage_file_versions row; replaced content is archived under _versions/
+ *   (readable by admins only) so prior versions stay retrievable.
+ * - Review workflow: review queue (resource_review_queue), review owners, rpc/mark_resource_reviewed.
+ * - If the catalog write fails after an upload or move, the storage change is rolled back.
+ * - Server-side enforcement: storage.objects + catalog write policies require public.is_admin().
+ */
+
+import { supabaseRequest, restFetch, restFetchPage } from './supabaseHttp';
+import { listFilesDeep, listPrefix, stripOneExtension, SUPABASE_BUCKET, type StorageFileItem } from './supabaseStorage';
+import { getLoadedPrograms, listPrograms } from './storageCatalog';
+import { postgrestMessage } from './supabase';
+import {
+  METADATA_COLUMNS,
+  metadataFromRow,
+  metadataToRow,
+  type ResourceMetadata,
+  type ResourceMetadataRow,
+} from './resourceMetadata';
+
+/** Program subfolders uploads may target */
+export const PROGRAM_CATEGORIES = ['training', 'protocols', 'forms', 'resources'] as const;
+
+/** Top-level global folders uploads may target */
+export const GLOBAL_FOLDERS = ['patienthandouts', 'clinicalguidelines', 'medicalbilling'] as const;
+
+/**
+ * Upload destinations: <program>/<category> for each program in the programs table, and the global folders.
+ * - Program folders appear once listPrograms has loaded.
+ */
+export function getUploadFolders(): string[] {
+  return [
+    ...getLoadedPrograms().flatMap((p) => PROGRAM_CATEGORIES.map((c) => `${p.slug}/${c}`)),
+    ...GLOBAL_FOLDERS,
+  ];
+}
+
+/** Bucket object as shown in the console */
+export interface AdminFile extends StorageFileItem {
+  /** Catalog display title (null = file name) */
+  displayTitle: string | null;
+  /** Whether storage_files_catalog has a row for this object */
+  cataloged: boolean;
+}
+
+/** Catalog columns the console reads */
+interface CatalogRef extends ResourceMetadataRow {
+  file_path: string;
+  display_title: string | null;
+}
+
+/** One recorded version of a file (storage_file_versions) */
+export interface FileVersion {
+  id: string;
+  file_path: string;
+  kind: 'upload' | 'replace';
+  version_label: string | null;
+  change_note: string | null;
+  file_size: number | null;
+  mime_type: string | null;
+  /** Where the content was archived once replaced (null = current content) */
+  archived_path: string | null;
+  uploader_name: string | null;
+  created_at: string;
+}
+
+/** A resource with a review-by date (resource_review_queue) */
+export interface ReviewQueueItem {
+  id: string;
+  file_path: string;
+  title: string;
+  program_slug: string | null;
+  category: string | null;
+  /** YYYY-MM-DD */
+  review_by: string;
+  review_owner: string | null;
+  owner_name: string | null;
+  reviewed_at: string | null;
+  reviewed_by_name: string | null;
+}
+
+/** Admin who can own reviews */
+export interface AdminUser {
+  id: string;
+  name: string | null;
+}
+
+/** Top-level folder holding archived versions (hidden from the console tree and from members) */
+export const VERSIONS_FOLDER = '_versions';
+
+/** Catalog page size when merging titles */
+const CATALOG_PAGE = 1000;
+
+/** Encode each path segment for a storage object URL */
+function objectUrl(path: string): string {
+  const encoded = path
+    .replace(/^\/+/, '')
+    .split('/')
+    .map((s) => encodeURIComponent(s))
+    .join('/');
+  return `/storage/v1/object/${encodeURIComponent(SUPABASE_BUCKET)}/${encoded}`;
+}
+
+/** Throw a readable error for a failed storage response */
+async function ensureOk(res: Response, action: string): Promise<void> {
+  if (res.ok) return;
+  const text = await res.text().catch(() => '');
+  let message = text;
+  try {
+    const body = JSON.parse(text) as { message?: string; error?: string };
+    message = body.message || body.error || text;
+  } catch {
+    // plain text body
+  }
+  throw new Error(`${action} failed (${res.status}): ${message || res.statusText}`);
+}
+
+/** Catalog filter for one object */
+function catalogFilter(path: string): string {
+  return `bucket_name=eq.${encodeURIComponent(SUPABASE_BUCKET)}&file_path=eq.${encodeURIComponent(path)}`;
+}
+
+/** File name part of a path */
+function fileNameOf(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+/**
+ * Insert or update the catalog row for an object.
+ * - Clears any reconcile tombstone left on the same path.
+ */
+async function upsertCatalogRow(row: {
+  path: string;
+  size?: number;
+  mimeType?: string;
+  displayTitle?: string | null;
+}): Promise<void> {
+  const now = new Date().toISOString();
+  await restFetch<void>('/storage_files_catalog?on_conflict=bucket_name,file_path', {
+    method: 'POST',
+    headers: { Prefer: 'return=minimal,resolution=merge-duplicates' },
+    body: JSON.stringify({
+      bucket_name: SUPABASE_BUCKET,
+      file_name: fileNameOf(row.path),
+      file_path: row.path,
+      file_size: row.size ?? null,
+      mime_type: row.mimeType ?? null,
+      last_modified: now,
+      updated_at: now,
+      deleted_at: null,
+      ...(row.displayTitle !== undefined ? { display_title: row.displayTitle } : {}),
+    }),
+  });
+}
+
+/**
+ * Patch the catalog row for a path.
+ * @returns number of rows updated
+ */
+async function patchCatalogRow(path: string, patch: Record<string, unknown>): Promise<number> {
+  const rows = await restFetch<CatalogRef[]>(`/storage_files_catalog?${catalogFilter(path)}`, {
+    method: 'PATCH',
+    headers: { Prefer: 'return=representation' },
+    body: JSON.stringify({ ...patch, updated_at: new Date().toISOString() }),
+  });
+  return rows?.length ?? 0;
+}
+
+/**
+ * Every object in the bucket (walked with listFilesDeep from each top-level folder), with catalog titles and
+ * metadata merged in.
+ */
+export async function listBucketTree(): Promise<AdminFile[]> {
+  const top = await listPrefix('', { limit: 1000 });
+  const files: StorageFileItem[] = [];
+  for (const entry of top) {
+    if (entry.name === VERSIONS_FOLDER) continue;
+    const isFolder = !entry.metadata || typeof entry.metadata.size !== 'number';
+    if (isFolder) {
+      files.push(...(await listFilesDeep(entry.name)));
+    } else {
+      files.push({
+        path: entry.name,
+        url: '',
+        filename: entry.name,
+        title: stripOneExtension(entry.name),
+        mimeType: entry.metadata?.mimetype || undefined,
+        size: entry.metadata?.size,
+      });
+    }
+  }
+
+  const catalog = new Map<string, CatalogRef>();
+  for (let offset = 0; ; offset += CATALOG_PAGE) {
+    const { rows, total } = await restFetchPage<CatalogRef>(
+      `/storage_files_catalog?select=file_path,display_title,${METADATA_COLUMNS}&bucket_name=eq.${encodeURIComponent(SUPABASE_BUCKET)}&deleted_at=is.null&order=file_path.asc`,
+      offset,
+      CATALOG_PAGE
+    );
+    for (const r of rows) catalog.set(r.file_path.replace(/^\/+/, ''), r);
+    if (rows.length < CATALOG_PAGE || offset + rows.length >= total) break;
+  }
+
+  return files
+    .map((f) => {
+      const row = catalog.get(f.path);
+      const displayTitle = row?.display_title ?? null;
+      return {
+        ...f,
+        title: displayTitle?.trim() || f.title,
+        displayTitle,
+        meta: row ? metadataFromRow(row) : undefined,
+        cataloged: !!row,
+      };
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Upload a file into one of the upload folders and catalog it.
+ * - Refuses to overwrite an existing object (rename or delete it first).
+ */
+export async function uploadFile(folder: string, file: File, displayTitle?: string): Promise<string> {
+  await listPrograms();
+  if (!getUploadFolders().includes(folder)) throw new Error('Uploads are limited to the program and library folders.');
+  const path = `${folder}/${file.name}`;
+  const res = await supabaseRequest(objectUrl(path), {
+    method: 'POST',
+    headers: {
+      'Content-Type': file.type || 'application/octet-stream',
+      'x-upsert': 'false',
+      'cache-control': '3600',
+    },
+    body: file,
+  });
+  await ensureOk(res, `Upload of ${file.name}`);
+
+  try {
+    await upsertCatalogRow({
+      path,
+      size: file.size,
+      mimeType: file.type || undefined,
+      displayTitle: displayTitle?.trim() || null,
+    });
+    await insertVersion({ path, kind: 'upload', size: file.size, mimeType: file.type || undefined });
+  } catch (e) {
+    await deleteObjects([path]).catch(() => undefined);
+    throw e;
+  }
+  return path;
+}
+
+/** Remove objects from the bucket (no catalog change) */
+async function deleteObjects(paths: string[]): Promise<void> {
+  const res = await supabaseRequest(`/storage/v1/object/${encodeURIComponent(SUPABASE_BUCKET)}`, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ prefixes: paths }),
+  });
+  await ensureOk(res, 'Delete');
+}
+
+/** Copy one object inside the bucket (no catalog change) */
+async function copyObject(from: string, to: string): Promise<void> {
+  const res = await supabaseRequest('/storage/v1/object/copy', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ bucketId: SUPABASE_BUCKET, sourceKey: from, destinationKey: to }),
+  });
+  await ensureOk(res, 'Copy');
+}
+
+/** Record a version row (uploader is the signed-in admin unless given) */
+async function insertVersion(v: {
+  path: string;
+  kind: FileVersion['kind'];
+  size?: number;
+  mimeType?: string;
+  label?: string | null;
+  note?: string | null;
+  archivedPath?: string | null;
+  /** Version of unknown origin (content uploaded before versioning) */
+  anonymous?: boolean;
+}): Promise<void> {
+  await restFetch<void>('/storage_file_versions', {
+    method: 'POST',
+    headers: { Prefer: 'return=minimal' },
+    body: JSON.stringify({
+      bucket_name: SUPABASE_BUCKET,
+      file_path: v.path,
+      kind: v.kind,
+      version_label: v.label?.trim() || null,
+      change_note: v.note?.trim() || null,
+      file_size: v.size ?? null,
+      mime_type: v.mimeType ?? null,
+      archived_path: v.archivedPath ?? null,
+      ...(v.anonymous ? { uploaded_by: null } : {}),
+    }),
+  });
+}
+
+/** Version rows filter for one path */
+function versionFilter(path: string): string {
+  return `bucket_name=eq.${encodeURIComponent(SUPABASE_BUCKET)}&file_path=eq.${encodeURIComponent(path)}`;
+}
+
+/** Archive location for the current content of a path */
+function archivePathFor(path: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${VERSIONS_FOLDER}/${path}/${stamp}-${fileNameOf(path)}`;
+}
+
+/** Move one object inside the bucket (no catalog change) */
+async function moveObject(from: string, to: string): Promise<void> {
+  const res = await supabaseRequest('/storage/v1/object/move', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ bucketId: SUPABASE_BUCKET, sourceKey: from, destinationKey: to }),
+  });
+  await ensureOk(res, 'Move');
+}
+
+/**
+ * Move (or rename) an object and repoint its catalog row.
+ * - The destination must stay inside the upload folders (never _versions/ or outside the program folders).
+ * @returns the new path
+ */
+export async function moveFile(file: AdminFile, to: string): Promise<string> {
+  const dest = to.replace(/^\/+/, '').replace(/\/+$/, '');
+  if (!dest) throw new Error('Enter a destination file path.');
+  if (dest === file.path) return dest;
+
+  await listPrograms();
+  const segments = dest.split('/');
+  const folder = segments.slice(0, -1).join('/');
+  const inUploadFolder = getUploadFolders().some((f) => folder === f || folder.startsWith(`${f}/`));
+  if (!inUploadFolder || segments.some((s) => !s || s === '.' || s === '..')) {
+    throw new Error('Files can only be moved within the program and library folders.');
+  }
+
+  await moveObject(file.path, dest);
+  // What has been repointed so far, so a failure can put the catalog back with the object
+  let catalog: 'patched' | 'inserted' | null = null;
+  try {
+    const updated = await patchCatalogRow(file.path, {
+      file_path: dest,
+      file_name: fileNameOf(dest),
+      file_url: null,
+      last_modified: new Date().toISOString(),
+    });
+    if (updated > 0) {
+      catalog = 'patched';
+    } else {
+      await upsertCatalogRow({ path: dest, size: file.size, mimeType: file.mimeType, displayTitle: file.displayTitle });
+      catalog = 'inserted';
+    }
+    await restFetch<void>(`/storage_file_versions?${versionFilter(file.path)}`, {
+      method: 'PATCH',
+      headers: { Prefer: 'return=minimal' },
+      body: JSON.stringify({ file_path: dest }),
+    });
+  } catch (e) {
+    if (catalog === 'patched') {
+      await patchCatalogRow(dest, { file_path: file.path, file_name: fileNameOf(file.path) }).catch(() => 0);
+    } else if (catalog === 'inserted') {
+      await restFetch<void>(`/storage_files_catalog?${catalogFilter(dest)}`, {
+        method: 'DELETE',
+        headers: { Prefer: 'return=minimal' },
+      }).catch(() => undefined);
+    }
+    await moveObject(dest, file.path).catch(() => undefined);
+    throw e;
+  }
+  return dest;
+}
+
+/**
+ * Replace an object's content with a newer file, keeping the previous content as an archived version.
+ * - The catalog row keeps its title and metadata; size, type and modified time follow the new file and the
+ *   version label (if given) becomes the catalog version.
+ */
+export async function replaceFile(
+  file: AdminFile,
+  next: File,
+  info: { versionLabel?: string; changeNote?: string }
+): Promise<void> {
+  const archived = archivePathFor(file.path);
+  await copyObject(file.path, archived);
+
+  const res = await supabaseRequest(objectUrl(file.path), {
+    method: 'POST',
+    headers: {
+      'Content-Type': next.type || 'application/octet-stream',
+      'x-upsert': 'true',
+      'cache-control': '3600',
+    },
+    body: next,
+  });
+  try {
+    await ensureOk(res, `Upload of ${next.name}`);
+  } catch (e) {
+    await deleteObjects([archived]).catch(() => undefined);
+    throw e;
+  }
+
+  try {
+    await upsertCatalogRow({ path: file.path, size: next.size, mimeType: next.type || file.mimeType });
+    if (info.versionLabel?.trim()) await patchCatalogRow(file.path, { version: info.versionLabel.trim() });
+
+    // The current version row (if any) now points at the archived copy
+    const previous = await restFetch<FileVersion[]>(
+      `/storage_file_versions?${versionFilter(file.path)}&archived_path=is.null`,
+      {
+        method: 'PATCH',
+        headers: { Prefer: 'return=representation' },
+        body: JSON.stringify({ archived_path: archived }),
+      }
+    );
+    if (!previous?.length) {
+      await insertVersion({
+        path: file.path,
+        kind: 'upload',
+        size: file.size,
+        mimeType: file.mimeType,
+        label: file.meta?.version,
+        archivedPath: archived,
+        anonymous: true,
+      });
+    }
+    await insertVersion({
+      path: file.path,
+      kind: 'replace',
+      size: next.size,
+      mimeType: next.type || file.mimeType,
+      label: info.versionLabel,
+      note: info.changeNote,
+    });
+  } catch {
+    throw new Error(`${file.filename} was replaced, but its version history could not be updated.`);
+  }
+}
+
+/**
+ * Version history of a file, newest first.
+ */
+export async function listVersions(file: AdminFile): Promise<FileVersion[]> {
+  return restFetch<FileVersion[]>(`/storage_file_versions?select=*&${versionFilter(file.path)}&order=created_at.desc`, {
+    method: 'GET',
+  });
+}
+
+/**
+ * Rename an object in place (same folder).
+ */
+export async function renameFile(file: AdminFile, newName: string): Promise<string> {
+  const name = newName.trim();
+  if (!name || name.includes('/')) throw new Error('File names cannot be empty or contain "/".');
+  const folder = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : '';
+  return moveFile(file, folder ? `${folder}/${name}` : name);
+}
+
+/**
+ * Delete an object and its catalog row.
+ */
+export async function deleteFile(file: AdminFile): Promise<void> {
+  await deleteObjects([file.path]);
+  try {
+    await restFetch<void>(`/storage_files_catalog?${catalogFilter(file.path)}`, {
+      method: 'DELETE',
+      headers: { Prefer: 'return=minimal' },
+    });
+  } catch {
+    throw new Error(`${file.filename} was deleted, but its catalog row could not be removed.`);
+  }
+}
+
+/**
+ * Set (or clear, with an empty string) the display title.
+ */
+export async function setDisplayTitle(file: AdminFile, title: string): Promise<void> {
+  const value = title.trim() || null;
+  const updated = await patchCatalogRow(file.path, { display_title: value });
+  if (updated === 0) {
+    await upsertCatalogRow({ path: file.path, size: file.size, mimeType: file.mimeType, displayTitle: value });
+  }
+}
+
+/**
+ * Save resource metadata (description, tags, audience, payer relevance, version, dates).
+ * - Objects without a catalog row get one first.
+ */
+export async function setMetadata(file: AdminFile, meta: ResourceMetadata): Promise<void> {
+  if (meta.effectiveDate && meta.reviewBy && meta.reviewBy < meta.effectiveDate) {
+    throw new Error('The review-by date cannot be before the effective date.');
+  }
+  const patch = metadataToRow(meta);
+  const updated = await patchCatalogRow(file.path, patch);
+  if (updated === 0) {
+    await upsertCatalogRow({ path: file.path, size: file.size, mimeType: file.mimeType, displayTitle: file.displayTitle });
+    await patchCatalogRow(file.path, patch);
+  }
+}
+
+/**
+ * Resources with a review-by date on or before the given date (YYYY-MM-DD), most overdue first.
+ */
+export async function listReviewQueue(dueBy: string): Promise<ReviewQueueItem[]> {
+  return restFetch<ReviewQueueItem[]>(
+    `/resource_review_queue?select=*&review_by=lte.${encodeURIComponent(dueBy)}&order=review_by.asc,title.asc`,
+    { method: 'GET' }
+  );
+}
+
+/** Admins (review owner choices) */
+export async function listAdmins(): Promise<AdminUser[]> {
+  return restFetch<AdminUser[]>('/rpc/list_admins', { method: 'POST', body: '{}' });
+}
+
+/**
+ * Assign (or clear) the review owner of a resource.
+ */
+export async function setReviewOwner(path: string, ownerId: string | null): Promise<void> {
+  const updated = await patchCatalogRow(path, { review_owner: ownerId });
+  if (updated === 0) throw new Error('That resource is not in the catalog.');
+}
+
+/**
+ * Mark a resource reviewed now; the next review defaults to one year out.
+ */
+export async function markReviewed(path: string, opts: { nextReviewBy?: string; note?: string } = {}): Promise<ReviewQueueItem> {
+  try {
+    return await restFetch<ReviewQueueItem>('/rpc/mark_resource_reviewed', {
+      method: 'POST',
+      body: JSON.stringify({
+        p_file_path: path,
+        p_next_review_by: opts.nextReviewBy || null,
+        p_note: opts.note?.trim() || null,
+      }),
+    });
+  } catch (e) {
+    throw new Error(postgrestMessage(e, 'Could not mark the resource reviewed.'));
+  }
+}
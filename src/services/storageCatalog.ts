@@ -3,8 +3,10 @@
  * - Primary source: Supabase PostgREST table "storage_files_catalog" (bucket_name === "clinicalrxqfiles").
  * - Fallback: Supabase Storage REST recursive listing (unchanged).
  * - Purpose: Provide high-level queries aligned with your exact folder structure.
- * - Includes the full, fixed program slug list including "timemymeds".
+ * - Programs come from the Supabase "programs" table (listPrograms); the loaded list is kept for sync lookups
+ *   (programSlugFromPath, describePath, entitlements).
  * - UI constraint: Titles remove only the last extension; preserve original name/casing.
+ * - Private bucket mode: every list returned here has its URLs signed in one batch (signedUrls.withFreshUrls).
  */
 
 import {
@@ -15,52 +17,30 @@ import {
   StorageFileItem,
   stripOneExtension,
   buildPublicUrl,
+  SUPABASE_BUCKET,
 } from './supabaseStorage';
-import { getSupabaseAnonKey, getSupabaseUrl } from '../config/supabaseConfig';
+import { restFetch } from './supabaseHttp';
+import { withFreshUrls } from './signedUrls';
+import { metadataFromRow, type ResourceMetadataRow } from './resourceMetadata';
+import { programService, type Program } from './supabase';
 
-/** Fixed program slugs present in the bucket (must match folder names exactly) */
-export const ProgramSlugs = [
-  'mtmthefuturetoday',
-  'timemymeds',
-  'testandtreat',
-  'hba1c',
-  'oralcontraceptives',
-] as const;
-
-export type ProgramSlug = typeof ProgramSlugs[number];
+/** Program slug (programs.slug; matches the program's top-level bucket folder exactly) */
+export type ProgramSlug = string;
 
 /**
  * Internal: POSTGREST GET wrapper for /rest/v1
- * - Uses centralized Supabase URL + anon key.
+ * - Uses the shared request layer so catalog reads carry the member's JWT (catalog is member-only under RLS).
  */
 async function pgSelect<T>(pathAndQuery: string): Promise<T> {
-  const base = getSupabaseUrl();
-  const anon = getSupabaseAnonKey();
-  if (!base) {
-    throw new Error('Supabase URL is not configured. Set VITE_SUPABASE_URL or localStorage SUPABASE_URL.');
-  }
-  const url = `${base}/rest/v1${pathAndQuery}`;
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: {
-      apikey: anon,
-      Authorization: `Bearer ${anon}`,
-      Accept: 'application/json',
-    },
-  });
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(text || `PostgREST error: ${res.status}`);
-  }
+  const rows = await restFetch<T>(pathAndQuery, { method: 'GET' });
   // Some 204 responses may occur, but selects should generally return JSON
-  if (res.status === 204) return [] as unknown as T;
-  return (await res.json()) as T;
+  return (rows ?? []) as T;
 }
 
 /**
  * Row shape from storage_files_catalog
  */
-interface StorageCatalogRow {
+interface StorageCatalogRow extends ResourceMetadataRow {
   id: string;
   bucket_name: string;
   file_name: string;
@@ -71,16 +51,19 @@ interface StorageCatalogRow {
   last_modified?: string | null;
   created_at?: string | null;
   updated_at?: string | null;
+  /** Admin-edited title (null = file name without extension) */
+  display_title?: string | null;
 }
 
 /**
  * Map DB row → UI StorageFileItem
- * - Title is filename without only the last extension.
+ * - Title is the admin display title, else the filename without only the last extension.
  * - URL uses file_url if present; otherwise constructs from bucket + path.
+ * - Metadata columns (description, tags, audience, ...) become item.meta.
  */
 function mapRowToItem(row: StorageCatalogRow): StorageFileItem {
   const filename = row.file_name;
-  const title = stripOneExtension(filename);
+  const title = row.display_title?.trim() || stripOneExtension(filename);
   const path = row.file_path.replace(/^\/+/, ''); // normalize
   const url = row.file_url && row.file_url.trim().length > 0 ? row.file_url : buildPublicUrl(path);
   return {
@@ -90,6 +73,7 @@ function mapRowToItem(row: StorageCatalogRow): StorageFileItem {
     title,
     mimeType: row.mime_type || undefined,
     size: typeof row.file_size === 'number' ? row.file_size : undefined,
+    meta: metadataFromRow(row),
   };
 }
 
@@ -104,10 +88,10 @@ async function listCatalogByPrefixes(prefixes: string[]): Promise<StorageFileIte
 
   for (const p of prefixes) {
     const encoded = encodeURIComponent(`${p}%`);
-    // Build query: select * where bucket_name=eq.clinicalrxqfiles and file_path ilike prefix%
+    // Build query: select * where bucket_name=eq.clinicalrxqfiles and file_path ilike prefix% (tombstones skipped)
     const path = `/storage_files_catalog?select=*&bucket_name=eq.${encodeURIComponent(
       bucket
-    )}&file_path=ilike.${encoded}&order=file_path.asc`;
+    )}&file_path=ilike.${encoded}&deleted_at=is.null&order=file_path.asc`;
     const rows = await pgSelect<StorageCatalogRow[]>(path);
     for (const r of rows) {
       const item = mapRowToItem(r);
@@ -118,6 +102,78 @@ async function listCatalogByPrefixes(prefixes: string[]): Promise<StorageFileIte
   return Object.values(results);
 }
 
+/**
+ * Quote a value for a PostgREST in.(...) list.
+ */
+function pgInValue(v: string): string {
+  return `"${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Build a UI item from a bare path (used when a path has no catalog row).
+ */
+function itemFromPath(path: string): StorageFileItem {
+  const clean = path.replace(/^\/+/, '');
+  const filename = clean.split('/').pop() || clean;
+  return { path: clean, url: buildPublicUrl(clean), filename, title: stripOneExtension(filename) };
+}
+
+/**
+ * Resolve specific paths (e.g., bookmarks) to catalog items with titles and URLs.
+ * - Queries storage_files_catalog with file_path=in.(...) in chunks; paths without a row are synthesized.
+ * - Result preserves the input order.
+ */
+export async function getCatalogItemsByPaths(paths: string[]): Promise<StorageFileItem[]> {
+  const unique = Array.from(new Set(paths.map((p) => p.replace(/^\/+/, ''))));
+  const found: Record<string, StorageFileItem> = {};
+  const CHUNK = 50;
+
+  try {
+    for (let i = 0; i < unique.length; i += CHUNK) {
+      const chunk = unique.slice(i, i + CHUNK);
+      const list = encodeURIComponent(`(${chunk.map(pgInValue).join(',')})`);
+      const rows = await pgSelect<StorageCatalogRow[]>(
+        `/storage_files_catalog?select=*&bucket_name=eq.${encodeURIComponent(SUPABASE_BUCKET)}&file_path=in.${list}&deleted_at=is.null`
+      );
+      for (const r of rows) {
+        const item = mapRowToItem(r);
+        found[item.path] = item;
+      }
+    }
+  } catch {
+    // Catalog unavailable: fall through to synthesized items
+  }
+
+  return withFreshUrls(unique.map((p) => found[p] ?? itemFromPath(p)));
+}
+
+/**
+ * Program slug for a bucket path, if the first folder is a known program.
+ */
+export function programSlugFromPath(path: string): ProgramSlug | undefined {
+  const first = path.replace(/^\/+/, '').split('/')[0]?.toLowerCase();
+  return first && getProgram(first) ? first : undefined;
+}
+
+/**
+ * Human-readable location for a bucket path, e.g. "TimeMyMeds • Forms" or "Patient Handouts".
+ */
+export function describePath(path: string): string {
+  const parts = path.replace(/^\/+/, '').split('/');
+  const slug = programSlugFromPath(path);
+  const globalLabels: Record<string, string> = {
+    patienthandouts: 'Patient Handouts',
+    clinicalguidelines: 'Clinical Guidelines',
+    medicalbilling: 'Medical Billing',
+  };
+  if (slug) {
+    const category = (parts[1] || '').toLowerCase();
+    const label = category ? category.charAt(0).toUpperCase() + category.slice(1) : '';
+    return [getProgram(slug)?.name ?? slug, label].filter(Boolean).join(' • ');
+  }
+  return globalLabels[(parts[0] || '').toLowerCase()] || parts.slice(0, -1).join(' / ');
+}
+
 /**
  * Catalog-backed category lists (prefer DB, fall back to Storage listing)
  */
@@ -150,6 +206,11 @@ async function catalogProgramCategory(
  * - Prefers DB catalog; falls back to storage listing if DB unavailable.
  */
 export async function getAllResources(params?: { includeProgram?: ProgramSlug }): Promise<StorageFileItem[]> {
+  return withFreshUrls(await loadAllResources(params));
+}
+
+/** Unsigned implementation of getAllResources */
+async function loadAllResources(params?: { includeProgram?: ProgramSlug }): Promise<StorageFileItem[]> {
   try {
     const [handouts, guidelines, billing] = await Promise.all([
       catalogGlobalHandouts(),
@@ -187,14 +248,19 @@ export async function getAllResources(params?: { includeProgram?: ProgramSlug })
  * - Prefers DB catalog; falls back to storage listing.
  */
 export async function getGlobalCategory(cat: 'handouts' | 'guidelines' | 'billing'): Promise<StorageFileItem[]> {
+  return withFreshUrls(await loadGlobalCategory(cat));
+}
+
+/** Unsigned implementation of getGlobalCategory */
+async function loadGlobalCategory(cat: 'handouts' | 'guidelines' | 'billing'): Promise<StorageFileItem[]> {
   try {
     switch (cat) {
       case 'handouts':
-        return catalogGlobalHandouts();
+        return await catalogGlobalHandouts();
       case 'guidelines':
-        return catalogGlobalGuidelines();
+        return await catalogGlobalGuidelines();
       case 'billing':
-        return catalogGlobalBilling();
+        return await catalogGlobalBilling();
       default:
         return [];
     }
@@ -222,6 +288,7 @@ export async function getProgramResourcesGrouped(slug: ProgramSlug): Promise<{
   resources: StorageFileItem[];
   training: StorageFileItem[];
 }> {
+  let grouped: Awaited<ReturnType<typeof listAllForProgram>>;
   try {
     const [forms, protocols, resources, training] = await Promise.all([
       catalogProgramCategory(slug, 'forms'),
@@ -229,16 +296,27 @@ export async function getProgramResourcesGrouped(slug: ProgramSlug): Promise<{
       catalogProgramCategory(slug, 'resources'),
       catalogProgramCategory(slug, 'training'),
     ]);
-    return { forms, protocols, resources, training };
+    grouped = { forms, protocols, resources, training };
   } catch {
-    return listAllForProgram(slug);
+    grouped = await listAllForProgram(slug);
   }
+
+  // Sign all four groups in one batch, then split back out
+  const { forms, protocols, resources, training } = grouped;
+  const signed = await withFreshUrls([...forms, ...protocols, ...resources, ...training]);
+  let i = 0;
+  const take = (n: number) => signed.slice(i, (i += n));
+  return {
+    forms: take(forms.length),
+    protocols: take(protocols.length),
+    resources: take(resources.length),
+    training: take(training.length),
+  };
 }
 
 /**
- * Program list items for the Programs page.
- * - Purpose: Provide a friendly list of available programs with stable slugs used by ProgramDetail.
- * - Implementation: Derived from ProgramSlugs (no network call). Friendly names/descriptions are curated.
+ * Program list item (from the programs table)
+ * - Used by the Programs/Member Content pages, ProgramDetail, the sidebar and the Dashboard.
  */
 export interface ProgramListItem {
   /** Folder slug that matches Supabase Storage and ProgramDetail route */
@@ -247,49 +325,60 @@ export interface ProgramListItem {
   name: string;
   /** Optional short description */
   description?: string | null;
+  /** Longer overview for the program page */
+  overview?: string | null;
+  experienceLevel?: string | null;
+  /** lucide icon name (see lib/icons) */
+  icon?: string | null;
 }
 
-/** Friendly metadata for each program slug */
-const ProgramMeta: Record<
-  ProgramSlug,
-  { name: string; description?: string }
-> = {
-  mtmthefuturetoday: {
-    name: 'MTM The Future Today',
-    description:
-      'Team-based Medication Therapy Management program with proven protocols and scalable results.',
-  },
-  timemymeds: {
-    name: 'TimeMyMeds',
-    description: 'Appointment-based synchronization to enable consistent clinical service delivery.',
-  },
-  testandtreat: {
-    name: 'Test & Treat Services',
-    description: 'Patient assessments, CLIA-waived testing, and treatment guidance for flu, strep, and COVID-19.',
-  },
-  hba1c: {
-    name: 'HbA1c Testing',
-    description: 'Training and resources for A1c point-of-care testing and quality metrics.',
-  },
-  oralcontraceptives: {
-    name: 'Pharmacist-Initiated Oral Contraceptives',
-    description:
-      'From patient intake to billing and documentation—simplified, step-by-step service workflows.',
-  },
-};
+/** Programs loaded by listPrograms (sort order), for sync lookups */
+let programCache: ProgramListItem[] = [];
+let programRequest: Promise<ProgramListItem[]> | null = null;
+
+/** Map a programs row → ProgramListItem */
+function toProgramListItem(row: Program): ProgramListItem {
+  return {
+    slug: row.slug.trim().toLowerCase(),
+    name: row.name || row.slug,
+    description: row.description || 'Open to view training modules and resources.',
+    overview: row.overview || null,
+    experienceLevel: row.experience_level || null,
+    icon: row.icon || null,
+  };
+}
+
+/**
+ * List programs from the programs table (published ones; admins also see drafts), in sort order.
+ * - Loaded once per session and shared; pass refresh to reload (e.g. after an admin edit).
+ */
+export async function listPrograms(options?: { refresh?: boolean }): Promise<ProgramListItem[]> {
+  if (!programRequest || options?.refresh) {
+    programRequest = programService
+      .getAll()
+      .then((rows) => {
+        programCache = rows.map(toProgramListItem);
+        return programCache;
+      })
+      .catch((e) => {
+        programRequest = null;
+        throw e;
+      });
+  }
+  return programRequest;
+}
+
+/**
+ * Programs loaded so far (empty until listPrograms resolves).
+ */
+export function getLoadedPrograms(): ProgramListItem[] {
+  return programCache;
+}
 
 /**
- * List available programs.
- * - Returns friendly name + description with correct slug used by ProgramDetail and Storage.
+ * Program by slug from the loaded list.
  */
-export async function listProgramsFromStorage(): Promise<ProgramListItem[]> {
-  // Static list for now; replace with Supabase query if you add a "programs" table later.
-  return ProgramSlugs.map((slug) => {
-    const meta = ProgramMeta[slug];
-    return {
-      slug,
-      name: meta?.name ?? slug,
-      description: meta?.description ?? 'Open to view training modules and resources.',
-    };
-  });
+export function getProgram(slug: string): ProgramListItem | undefined {
+  const key = slug.trim().toLowerCase();
+  return programCache.find((p) => p.slug === key);
 }
@@ -0,0 +1,73 @@
+/**
+ * Subscription lifecycle
+ * - Purpose: Where a member's plan stands relative to its end date: Active, Expiring (inside the renewal warning
+ *   window) or Expired. Expired plans keep content open for a grace period unless the member cancelled.
+ * - Windows come from config/subscriptionConfig. Entitlements use accessEndsAt to decide whether a row still grants
+ *   programs; AppShell's renewal banner and the Account page read getSubscriptionLifecycle.
+ */
+
+import type { Subscription } from '../types';
+import { getGracePeriodDays, getRenewalWarningDays } from '../config/subscriptionConfig';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type LifecycleStatus = 'Active' | 'Expiring' | 'Expired';
+
+export interface SubscriptionLifecycle {
+  status: LifecycleStatus;
+  /** Whole days until the end date (0 on the last day; negative once it has passed) */
+  daysLeft: number;
+  endDate: Date;
+  /** Expired, but content stays open until accessEndsAt */
+  inGrace: boolean;
+  /** When program content locks (end date, plus the grace period unless cancelled) */
+  accessEndsAt: Date;
+  /** Program content is locked */
+  locked: boolean;
+  /** The member cancelled: the plan ends without renewal reminders or a grace period */
+  cancelled: boolean;
+}
+
+/**
+ * When a plan's content locks.
+ * @param cancelAtPeriodEnd Cancelled plans lock on their end date (no grace period)
+ */
+export function accessEndsAt(endDate: Date, cancelAtPeriodEnd = false, graceDays = getGracePeriodDays()): Date {
+  return cancelAtPeriodEnd ? endDate : new Date(endDate.getTime() + graceDays * DAY_MS);
+}
+
+/**
+ * Lifecycle of a subscription, or undefined without one.
+ */
+export function getSubscriptionLifecycle(
+  sub: Subscription | undefined,
+  now = new Date(),
+  options: { warningDays?: number; graceDays?: number } = {}
+): SubscriptionLifecycle | undefined {
+  if (!sub) return undefined;
+  const warningDays = options.warningDays ?? getRenewalWarningDays();
+  const cancelled = !!sub.cancelAtPeriodEnd;
+  const endDate = sub.endDate;
+  const accessEnd = accessEndsAt(endDate, cancelled, options.graceDays);
+  const daysLeft = Math.floor((endDate.getTime() - now.getTime()) / DAY_MS);
+
+  // Ended by an admin or a plan change, regardless of dates
+  if (sub.status !== 'active') {
+    return { status: 'Expired', daysLeft, endDate, inGrace: false, accessEndsAt: endDate, locked: true, cancelled };
+  }
+
+  if (now.getTime() <= endDate.getTime()) {
+    return {
+      status: daysLeft < warningDays ? 'Expiring' : 'Active',
+      daysLeft,
+      endDate,
+      inGrace: false,
+      accessEndsAt: accessEnd,
+      locked: false,
+      cancelled,
+    };
+  }
+
+  const locked = now.getTime() > accessEnd.getTime();
+  return { status: 'Expired', daysLeft, endDate, inGrace: !locked, accessEndsAt: accessEnd, locked, cancelled };
+}
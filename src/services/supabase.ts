@@ -1,14 +1,26 @@
 /**
  * Supabase data service via REST (no SDK)
  * - Provides typed helpers for Programs, Program Detail, Resource Library, etc.
- * - Keeps exports compatible with existing pages (programService, resourceLibraryService, authService stubs).
+ * - Keeps exports compatible with existing pages (programService, resourceLibraryService, authService).
+ * - authService delegates to supabaseAuth (GoTrue REST) and reads/writes the profiles table.
  *
  * IMPORTANT:
  * - Requires VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to be set, OR a localStorage override.
- * - RLS must allow read access with the anon key for relevant tables.
+ * - Requests carry the signed-in member's JWT; RLS grants member tables to "authenticated" only.
+ * - programs is the only table read with anon fallback (public marketing pages).
  */
 
-import { getSupabaseAnonKey, getSupabaseUrl } from '../config/supabaseConfig';
+import { getSupabaseUrl, isPrivateBucket } from '../config/supabaseConfig';
+import { signPaths } from './signedUrls';
+import { restFetch, restFetchPage, type RequestAccess } from './supabaseHttp';
+import {
+  ensureFreshSession,
+  getSession,
+  signInWithPassword,
+  signOut as gotrueSignOut,
+  signUp as gotrueSignUp,
+  type AuthSession,
+} from './supabaseAuth';
 
 /** Program entity */
 export interface Program {
@@ -18,6 +30,11 @@ export interface Program {
   description?: string;
   overview?: string;
   experience_level?: string;
+  /** lucide icon name (sidebar, dashboard) */
+  icon?: string;
+  sort_order: number;
+  /** Unpublished programs are visible to admins only */
+  published: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -93,14 +110,17 @@ export interface MedicalBillingResource {
   updated_at: string;
 }
 
-/** Profile/auth-related entities (stub for now) */
+/** Profile row (public.profiles, id = auth.users.id) */
 export interface Profile {
   id: string;
   email: string;
   first_name?: string;
   last_name?: string;
   pharmacy_name?: string;
+  /** Street address printed on billing receipts */
+  pharmacy_address?: string;
   subscription_status?: string;
+  role?: 'member' | 'admin';
   created_at: string;
   updated_at: string;
 }
@@ -109,6 +129,16 @@ export interface Bookmark {
   user_id: string;
   resource_type: string;
   resource_id: string;
+  folder_id?: string | null;
+  note?: string | null;
+  sort_order: number;
+  created_at: string;
+}
+export interface BookmarkFolder {
+  id: string;
+  user_id: string;
+  name: string;
+  sort_order: number;
   created_at: string;
 }
 export interface RecentActivity {
@@ -116,37 +146,171 @@ export interface RecentActivity {
   user_id: string;
   resource_name: string;
   resource_type: string;
+  resource_path?: string | null;
+  program_slug?: string | null;
+  activity_type: ActivityType;
   accessed_at: string;
 }
 
+/** What the member did with the resource */
+export type ActivityType = 'download' | 'play';
+
+/** Saved playback position for a training video (video_progress) */
+export interface VideoProgress {
+  user_id: string;
+  video_path: string;
+  position_seconds: number;
+  duration_seconds?: number | null;
+  completed: boolean;
+  updated_at: string;
+}
+
+/** Completed training module (module_progress) */
+export interface ModuleCompletion {
+  user_id: string;
+  module_path: string;
+  program_slug: string;
+  source: 'auto' | 'manual';
+  completed_at: string;
+}
+
+/** Training module from the catalog (program_training_modules view) */
+export interface ProgramTrainingModule {
+  program_slug: string;
+  module_path: string;
+  file_name: string;
+  /** Authored order from training_modules (null when the file has no training_modules row) */
+  sort_order?: number | null;
+}
+
+/** Quiz attached to a training module (module_path) or to the whole program */
+export interface Quiz {
+  id: string;
+  program_slug: string;
+  module_path?: string | null;
+  title: string;
+  description?: string | null;
+  /** Percent needed to pass */
+  passing_score: number;
+  /** null = unlimited */
+  max_attempts?: number | null;
+  sort_order: number;
+  created_at: string;
+}
+
+/** Quiz question (the answer key stays server-side) */
+export interface QuizQuestion {
+  id: string;
+  quiz_id: string;
+  prompt: string;
+  /** single = one answer, multiple = select all that apply */
+  kind: 'single' | 'multiple';
+  options: Array<{ id: string; text: string }>;
+  sort_order: number;
+}
+
+/** Graded attempt */
+export interface QuizAttempt {
+  id: string;
+  user_id: string;
+  quiz_id: string;
+  answers: Record<string, string[]>;
+  score: number;
+  passed: boolean;
+  created_at: string;
+}
+
+/** Result of rpc/grade_quiz_attempt */
+export interface QuizGrade {
+  attempt_id: string;
+  score: number;
+  passed: boolean;
+  attempts_used: number;
+  max_attempts: number | null;
+  correct_question_ids: string[];
+}
+
+/** Certificate of completion (snapshot of member + program at issue time) */
+export interface Certificate {
+  id: string;
+  user_id: string;
+  program_slug: string;
+  certificate_number: string;
+  member_name: string;
+  pharmacy_name?: string | null;
+  program_name: string;
+  completed_at: string;
+  issued_at: string;
+}
+
+/** One upload or replacement of a program file (program_file_changes view) */
+export interface FileChange {
+  id: string;
+  program_slug: string;
+  file_path: string;
+  title: string;
+  kind: 'upload' | 'replace';
+  version_label?: string | null;
+  change_note?: string | null;
+  uploader_name?: string | null;
+  created_at: string;
+}
+
+/** Member's last visit to a program page (program_visits) */
+export interface ProgramVisit {
+  user_id: string;
+  program_slug: string;
+  visited_at: string;
+}
+
+/** Per-program catalog aggregate (program_resource_stats view) */
+export interface ProgramResourceStats {
+  program_slug: string;
+  resource_count: number;
+  last_updated: string | null;
+}
+
+/** Quick access tile pinned by a member */
+export interface QuickAccessRow {
+  id: string;
+  user_id: string;
+  resource_path: string;
+  title: string;
+  subtitle?: string | null;
+  sort_order: number;
+  created_at: string;
+}
+
+/** Announcement row */
+export interface AnnouncementRow {
+  id: string;
+  title: string;
+  body: string;
+  published_at: string;
+  expires_at?: string | null;
+  created_at: string;
+}
+
 /**
- * Internal fetch helper with auth headers for Supabase REST.
- * - Uses centralized config helpers with env/localStorage/fallback support.
+ * Internal fetch helper for Supabase REST.
+ * - Delegates to the shared request layer (supabaseHttp), which attaches the member's access token.
+ * - access='public' allows anon reads for tables that are public by design (programs).
  */
-async function sbFetch<T>(endpoint: string, init: RequestInit = {}): Promise<T> {
-  const base = getSupabaseUrl();
-  const anon = getSupabaseAnonKey();
-
-  if (!base) {
-    throw new Error('Supabase URL is not configured. Set VITE_SUPABASE_URL or localStorage SUPABASE_URL.');
-  }
+async function sbFetch<T>(endpoint: string, init: RequestInit = {}, access: RequestAccess = 'member'): Promise<T> {
+  return restFetch<T>(endpoint, init, access);
+}
 
-  const url = `${base}/rest/v1${endpoint}`;
-  const headers: HeadersInit = {
-    Authorization: `Bearer ${anon}`,
-    apikey: anon,
-    'Content-Type': 'application/json',
-    ...(init.headers || {}),
-  };
-
-  const res = await fetch(url, { ...init, headers });
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(text || `Supabase error: ${res.status}`);
+/**
+ * Readable message from a PostgREST error (the body is JSON with a message field).
+ */
+export function postgrestMessage(e: unknown, fallback: string): string {
+  const raw = e instanceof Error ? e.message : '';
+  try {
+    const body = JSON.parse(raw) as { message?: string };
+    return body.message || fallback;
+  } catch {
+    return fallback;
   }
-  // Some Supabase endpoints return no body (204)
-  if (res.status === 204) return undefined as unknown as T;
-  return (await res.json()) as T;
 }
 
 /**
@@ -158,21 +322,49 @@ export function getStorageUrl(bucket: string, path: string): string {
   return `${base}/storage/v1/object/public/${bucket}/${path}`;
 }
 
+/**
+ * Storage helper that works in both bucket modes: public URL, or a short-lived signed URL when private.
+ */
+export async function resolveStorageUrl(bucket: string, path: string): Promise<string> {
+  if (!isPrivateBucket()) return getStorageUrl(bucket, path);
+  const signed = await signPaths([path], bucket);
+  return signed[path.replace(/^\/+/, '')]?.url || '';
+}
+
 /**
  * Program services
  */
 export const programService = {
-  /** Get all programs ordered by name */
+  /** Get all programs in display order (sort_order, then name) */
   async getAll(): Promise<Program[]> {
-    return sbFetch<Program[]>('/programs?select=*&order=name.asc');
+    return sbFetch<Program[]>('/programs?select=*&order=sort_order.asc,name.asc', {}, 'public');
   },
 
   /** Get program by slug */
   async getBySlug(slug: string): Promise<Program | null> {
-    const rows = await sbFetch<Program[]>(`/programs?slug=eq.${encodeURIComponent(slug)}&limit=1`);
+    const rows = await sbFetch<Program[]>(`/programs?slug=eq.${encodeURIComponent(slug)}&limit=1`, {}, 'public');
     return rows?.[0] || null;
   },
 
+  /** Update a program's content fields (admins only; "admins manage programs" policy) */
+  async update(
+    slug: string,
+    patch: Partial<Record<'name' | 'description' | 'overview' | 'experience_level', string | null>>
+  ): Promise<void> {
+    let rows: Program[];
+    try {
+      rows = await sbFetch<Program[]>(`/programs?slug=eq.${encodeURIComponent(slug)}&select=id`, {
+        method: 'PATCH',
+        headers: { Prefer: 'return=representation' },
+        body: JSON.stringify({ ...patch, updated_at: new Date().toISOString() }),
+      });
+    } catch (e) {
+      throw new Error(postgrestMessage(e, 'Could not save the program.'));
+    }
+    // RLS filters the update to zero rows instead of failing
+    if (!rows?.length) throw new Error('Program not found, or you are not allowed to edit it.');
+  },
+
   /** Get program with all related rows */
   async getProgramDetail(slug: string): Promise<{
     program: Program;
@@ -246,76 +438,384 @@ export const resourceLibraryService = {
 };
 
 /**
- * Auth/profile/bookmark/activity stubs (no SDK). We'll wire real auth next.
+ * Auth/profile services backed by GoTrue (supabaseAuth) and the profiles table.
  */
 export const authService = {
-  /** Return a temporary mock profile so ProtectedRoute can pass during development */
+  /** Load the signed-in member's profile row; falls back to GoTrue user metadata if no row exists yet */
   async getCurrentProfile(): Promise<Profile | null> {
-    // TODO: Implement real GoTrue endpoints (auth/v1) for full auth
+    const session = await ensureFreshSession();
+    if (!session) return null;
+    const rows = await sbFetch<Profile[]>(`/profiles?id=eq.${encodeURIComponent(session.user.id)}&limit=1`);
+    if (rows?.[0]) return rows[0];
+
+    const meta = session.user.user_metadata || {};
     return {
-      id: 'mock-user',
-      email: 'member@example.com',
-      first_name: 'Clinical',
-      last_name: 'Member',
-      pharmacy_name: 'Demo Pharmacy',
-      subscription_status: 'Active',
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
+      id: session.user.id,
+      email: session.user.email || '',
+      first_name: meta.first_name,
+      last_name: meta.last_name,
+      pharmacy_name: meta.pharmacy_name,
+      created_at: session.user.created_at || new Date().toISOString(),
+      updated_at: session.user.created_at || new Date().toISOString(),
     };
   },
 
-  /** No-op update (mock) */
+  /** Update the signed-in member's profile row */
   async updateProfile(updates: Partial<Profile>): Promise<Profile> {
-    const current = await this.getCurrentProfile();
-    return { ...current!, ...updates };
+    const session = await ensureFreshSession();
+    if (!session) throw new Error('You must be signed in to update your profile.');
+    const rows = await sbFetch<Profile[]>(`/profiles?id=eq.${encodeURIComponent(session.user.id)}`, {
+      method: 'PATCH',
+      headers: { Prefer: 'return=representation' },
+      body: JSON.stringify(updates),
+    });
+    return rows[0];
   },
 
-  /** Mock sign-up */
-  async signUp(email: string, _password: string, _metadata: Record<string, any>) {
-    return { user: { id: 'mock-user' }, session: null };
+  /** Create an account; metadata (first_name, last_name, pharmacy_name) seeds the profile row */
+  async signUp(email: string, password: string, metadata: Record<string, any>, redirectTo?: string) {
+    return gotrueSignUp(email, password, metadata, redirectTo);
   },
 
-  /** Mock sign-in */
-  async signIn(email: string, _password: string) {
-    return { user: { id: 'mock-user' }, session: null };
+  /** Sign in with email + password */
+  async signIn(email: string, password: string) {
+    const session = await signInWithPassword(email, password);
+    return { user: session.user, session };
   },
 
-  /** Mock sign-out */
+  /** Sign out and clear the persisted session */
   async signOut() {
-    // no-op
+    await gotrueSignOut();
   },
 
-  /** Mock session getter */
-  async getSession() {
-    return null;
+  /** Current persisted session (null when signed out) */
+  async getSession(): Promise<AuthSession | null> {
+    return getSession();
   },
 };
 
-/** Bookmark services (stubs) */
+/** Bookmark resource type for files in the storage catalog (resource_id = bucket path) */
+export const STORAGE_FILE_RESOURCE = 'storage_file';
+
+/**
+ * Bookmark services (bookmarks + bookmark_folders tables; RLS scopes rows to the member)
+ */
 export const bookmarkService = {
+  /** All bookmarks for the signed-in member, in display order */
   async getUserBookmarks(): Promise<Bookmark[]> {
-    return [];
+    return sbFetch<Bookmark[]>('/bookmarks?select=*&order=sort_order.asc,created_at.asc');
   },
-  async addBookmark(resourceType: string, resourceId: string) {
-    return {
-      id: crypto.randomUUID(),
-      user_id: 'mock-user',
-      resource_type: resourceType,
-      resource_id: resourceId,
-      created_at: new Date().toISOString(),
-    } as Bookmark;
+
+  /** Add a bookmark (user_id defaults to auth.uid() server-side) */
+  async addBookmark(
+    resourceType: string,
+    resourceId: string,
+    opts: { folderId?: string | null; note?: string | null; sortOrder?: number } = {}
+  ): Promise<Bookmark> {
+    const rows = await sbFetch<Bookmark[]>('/bookmarks', {
+      method: 'POST',
+      headers: { Prefer: 'return=representation' },
+      body: JSON.stringify({
+        resource_type: resourceType,
+        resource_id: resourceId,
+        folder_id: opts.folderId ?? null,
+        note: opts.note ?? null,
+        sort_order: opts.sortOrder ?? 0,
+      }),
+    });
+    return rows[0];
   },
-  async removeBookmark(_resourceType: string, _resourceId: string) {
-    // no-op
+
+  /** Insert many bookmarks at once, skipping ones that already exist (legacy import) */
+  async importBookmarks(resourceType: string, resourceIds: string[]): Promise<void> {
+    if (!resourceIds.length) return;
+    await sbFetch<void>('/bookmarks?on_conflict=user_id,resource_type,resource_id', {
+      method: 'POST',
+      headers: { Prefer: 'resolution=ignore-duplicates,return=minimal' },
+      body: JSON.stringify(
+        resourceIds.map((id, i) => ({ resource_type: resourceType, resource_id: id, sort_order: i }))
+      ),
+    });
+  },
+
+  /** Update folder, note or order of a bookmark */
+  async updateBookmark(
+    id: string,
+    patch: Partial<Pick<Bookmark, 'folder_id' | 'note' | 'sort_order'>>
+  ): Promise<void> {
+    await sbFetch<void>(`/bookmarks?id=eq.${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { Prefer: 'return=minimal' },
+      body: JSON.stringify(patch),
+    });
+  },
+
+  async removeBookmark(resourceType: string, resourceId: string) {
+    await sbFetch<void>(
+      `/bookmarks?resource_type=eq.${encodeURIComponent(resourceType)}&resource_id=eq.${encodeURIComponent(resourceId)}`,
+      { method: 'DELETE' }
+    );
+  },
+
+  /** Folders for the signed-in member */
+  async getFolders(): Promise<BookmarkFolder[]> {
+    return sbFetch<BookmarkFolder[]>('/bookmark_folders?select=*&order=sort_order.asc,name.asc');
+  },
+
+  async createFolder(name: string, sortOrder = 0): Promise<BookmarkFolder> {
+    const rows = await sbFetch<BookmarkFolder[]>('/bookmark_folders', {
+      method: 'POST',
+      headers: { Prefer: 'return=representation' },
+      body: JSON.stringify({ name, sort_order: sortOrder }),
+    });
+    return rows[0];
+  },
+
+  async renameFolder(id: string, name: string): Promise<void> {
+    await sbFetch<void>(`/bookmark_folders?id=eq.${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { Prefer: 'return=minimal' },
+      body: JSON.stringify({ name }),
+    });
+  },
+
+  /** Delete a folder; its bookmarks become unfiled (FK on delete set null) */
+  async deleteFolder(id: string): Promise<void> {
+    await sbFetch<void>(`/bookmark_folders?id=eq.${encodeURIComponent(id)}`, { method: 'DELETE' });
   },
 };
 
-/** Activity services (stubs) */
+/**
+ * Activity services (recent_activity table; one row per Download/Play click)
+ */
 export const activityService = {
-  async logActivity(_resourceName: string, _resourceType: string) {
-    // no-op
+  /** Record an access; best effort (a logging failure never blocks opening the file) */
+  async logActivity(entry: {
+    resourceName: string;
+    resourcePath: string;
+    programSlug?: string | null;
+    activityType: ActivityType;
+  }): Promise<void> {
+    try {
+      await sbFetch<void>('/recent_activity', {
+        method: 'POST',
+        headers: { Prefer: 'return=minimal' },
+        body: JSON.stringify({
+          resource_name: entry.resourceName,
+          resource_type: STORAGE_FILE_RESOURCE,
+          resource_path: entry.resourcePath,
+          program_slug: entry.programSlug ?? null,
+          activity_type: entry.activityType,
+        }),
+      });
+    } catch {
+      // ignore
+    }
+  },
+
+  /** Most recent accesses first */
+  async getRecentActivity(limit = 10): Promise<RecentActivity[]> {
+    return sbFetch<RecentActivity[]>(`/recent_activity?select=*&order=accessed_at.desc&limit=${limit}`);
+  },
+
+  /** One page of history (page is 1-based) with the total count */
+  async getActivityPage(page: number, pageSize = 25): Promise<{ rows: RecentActivity[]; total: number }> {
+    const offset = Math.max(0, (page - 1) * pageSize);
+    return restFetchPage<RecentActivity>('/recent_activity?select=*&order=accessed_at.desc', offset, pageSize);
+  },
+};
+
+/**
+ * Dashboard services (program_resource_stats view, quick_access_items, announcements)
+ */
+export const dashboardService = {
+  /** Resource count + last update per program folder */
+  async getProgramStats(): Promise<ProgramResourceStats[]> {
+    return sbFetch<ProgramResourceStats[]>('/program_resource_stats?select=*');
+  },
+
+  /** Member's pinned tiles, in display order */
+  async getQuickAccess(): Promise<QuickAccessRow[]> {
+    return sbFetch<QuickAccessRow[]>('/quick_access_items?select=*&order=sort_order.asc,created_at.asc');
+  },
+
+  /** Pin a file (re-pinning the same path updates its title) */
+  async addQuickAccess(item: { path: string; title: string; subtitle?: string; sortOrder?: number }): Promise<QuickAccessRow> {
+    const rows = await sbFetch<QuickAccessRow[]>('/quick_access_items?on_conflict=user_id,resource_path', {
+      method: 'POST',
+      headers: { Prefer: 'return=representation,resolution=merge-duplicates' },
+      body: JSON.stringify({
+        resource_path: item.path,
+        title: item.title,
+        subtitle: item.subtitle ?? null,
+        sort_order: item.sortOrder ?? 0,
+      }),
+    });
+    return rows[0];
+  },
+
+  /** Unpin a tile */
+  async removeQuickAccess(id: string): Promise<void> {
+    await sbFetch<void>(`/quick_access_items?id=eq.${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+
+  /** Latest published announcements */
+  async getAnnouncements(limit = 5): Promise<AnnouncementRow[]> {
+    return sbFetch<AnnouncementRow[]>(`/announcements?select=*&order=published_at.desc&limit=${limit}`);
+  },
+};
+
+/**
+ * Video progress services (video_progress table; one row per member + video path)
+ */
+export const videoProgressService = {
+  /** Saved positions for the given videos */
+  async getProgress(paths: string[]): Promise<VideoProgress[]> {
+    if (paths.length === 0) return [];
+    const list = paths.map((p) => `"${p.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',');
+    return sbFetch<VideoProgress[]>(`/video_progress?select=*&video_path=in.${encodeURIComponent(`(${list})`)}`);
+  },
+
+  /** Upsert the position for a video */
+  async saveProgress(entry: {
+    path: string;
+    positionSeconds: number;
+    durationSeconds?: number;
+    completed?: boolean;
+  }): Promise<void> {
+    await sbFetch<void>('/video_progress?on_conflict=user_id,video_path', {
+      method: 'POST',
+      headers: { Prefer: 'return=minimal,resolution=merge-duplicates' },
+      body: JSON.stringify({
+        video_path: entry.path,
+        position_seconds: Math.max(0, Math.round(entry.positionSeconds * 10) / 10),
+        duration_seconds: entry.durationSeconds ?? null,
+        completed: entry.completed ?? false,
+        updated_at: new Date().toISOString(),
+      }),
+    });
+  },
+};
+
+/**
+ * Module progress services (module_progress table + program_training_modules view)
+ */
+export const moduleProgressService = {
+  /** Training modules of every program (or one program) */
+  async getModules(programSlug?: string): Promise<ProgramTrainingModule[]> {
+    const filter = programSlug ? `&program_slug=eq.${encodeURIComponent(programSlug)}` : '';
+    return sbFetch<ProgramTrainingModule[]>(`/program_training_modules?select=*${filter}`);
+  },
+
+  /** The member's completed modules */
+  async getCompletions(): Promise<ModuleCompletion[]> {
+    return sbFetch<ModuleCompletion[]>('/module_progress?select=*');
+  },
+
+  /** Mark a module complete (re-marking keeps the row, updating source and time) */
+  async markComplete(entry: { path: string; programSlug: string; source: 'auto' | 'manual' }): Promise<void> {
+    await sbFetch<void>('/module_progress?on_conflict=user_id,module_path', {
+      method: 'POST',
+      headers: { Prefer: 'return=minimal,resolution=merge-duplicates' },
+      body: JSON.stringify({
+        module_path: entry.path,
+        program_slug: entry.programSlug,
+        source: entry.source,
+        completed_at: new Date().toISOString(),
+      }),
+    });
+  },
+
+  /** Clear a completion */
+  async markIncomplete(path: string): Promise<void> {
+    await sbFetch<void>(`/module_progress?module_path=eq.${encodeURIComponent(path)}`, { method: 'DELETE' });
+  },
+};
+
+/**
+ * Quiz + certificate services (quizzes, quiz_questions, quiz_attempts, certificates)
+ * - Grading and certificate issue run server-side (rpc/grade_quiz_attempt, rpc/issue_program_certificate).
+ */
+export const quizService = {
+  /** Quizzes of a program, in order */
+  async getQuizzes(programSlug: string): Promise<Quiz[]> {
+    return sbFetch<Quiz[]>(
+      `/quizzes?select=*&program_slug=eq.${encodeURIComponent(programSlug)}&order=sort_order.asc,created_at.asc`
+    );
   },
-  async getRecentActivity(_limit = 10): Promise<RecentActivity[]> {
-    return [];
+
+  /** Questions of a quiz (explicit columns: the answer key is not readable) */
+  async getQuestions(quizId: string): Promise<QuizQuestion[]> {
+    return sbFetch<QuizQuestion[]>(
+      `/quiz_questions?select=id,quiz_id,prompt,kind,options,sort_order&quiz_id=eq.${encodeURIComponent(quizId)}&order=sort_order.asc`
+    );
+  },
+
+  /** The member's attempts for the given quizzes, newest first */
+  async getAttempts(quizIds: string[]): Promise<QuizAttempt[]> {
+    if (quizIds.length === 0) return [];
+    const list = quizIds.map((id) => `"${id}"`).join(',');
+    return sbFetch<QuizAttempt[]>(
+      `/quiz_attempts?select=*&quiz_id=in.${encodeURIComponent(`(${list})`)}&order=created_at.desc`
+    );
+  },
+
+  /** Submit answers (question id → chosen option ids) for grading */
+  async submitAttempt(quizId: string, answers: Record<string, string[]>): Promise<QuizGrade> {
+    try {
+      const rows = await sbFetch<QuizGrade[]>('/rpc/grade_quiz_attempt', {
+        method: 'POST',
+        body: JSON.stringify({ p_quiz_id: quizId, p_answers: answers }),
+      });
+      return rows[0];
+    } catch (e) {
+      throw new Error(postgrestMessage(e, 'Could not submit the quiz.'));
+    }
+  },
+
+  /** The member's certificates, newest first */
+  async getCertificates(): Promise<Certificate[]> {
+    return sbFetch<Certificate[]>('/certificates?select=*&order=issued_at.desc');
+  },
+
+  /** Issue the program certificate (returns the existing one if already issued) */
+  async issueCertificate(programSlug: string, programName?: string): Promise<Certificate> {
+    try {
+      return await sbFetch<Certificate>('/rpc/issue_program_certificate', {
+        method: 'POST',
+        body: JSON.stringify({ p_program_slug: programSlug, p_program_name: programName ?? null }),
+      });
+    } catch (e) {
+      throw new Error(postgrestMessage(e, 'Could not issue the certificate.'));
+    }
+  },
+};
+
+/**
+ * Program change history (program_file_changes view) + the member's last visit per program (program_visits)
+ */
+export const fileChangeService = {
+  /** Recent uploads/replacements in a program, newest first */
+  async getProgramChanges(programSlug: string, limit = 20): Promise<FileChange[]> {
+    return sbFetch<FileChange[]>(
+      `/program_file_changes?select=*&program_slug=eq.${encodeURIComponent(programSlug)}&order=created_at.desc&limit=${limit}`
+    );
+  },
+
+  /** The member's previous visit to a program (null on the first visit) */
+  async getLastVisit(programSlug: string): Promise<string | null> {
+    const rows = await sbFetch<ProgramVisit[]>(
+      `/program_visits?select=*&program_slug=eq.${encodeURIComponent(programSlug)}`
+    );
+    return rows[0]?.visited_at ?? null;
+  },
+
+  /** Record a visit now (one row per member and program) */
+  async recordVisit(programSlug: string): Promise<void> {
+    await sbFetch<void>('/program_visits?on_conflict=user_id,program_slug', {
+      method: 'POST',
+      headers: { Prefer: 'return=minimal,resolution=merge-duplicates' },
+      body: JSON.stringify({ program_slug: programSlug, visited_at: new Date().toISOString() }),
+    });
   },
 };
@@ -0,0 +1,389 @@
+/**
+ * Supabase Auth service (GoTrue REST, no SDK)
+ * - Purpose: Sign in, sign up, sign out, password recovery and session refresh against /auth/v1.
+ * - Persists the session in localStorage and refreshes the access token shortly before it expires.
+ * - Same style as sbFetch: plain fetch, anon key as apikey, errors surfaced as Error(message).
+ */
+
+import { getSupabaseAnonKey, getSupabaseUrl } from '../config/supabaseConfig';
+
+/** localStorage key for the persisted session */
+const SESSION_KEY = 'crxq_session_v1';
+
+/** Refresh this many seconds before the access token expires */
+const REFRESH_MARGIN_SECONDS = 60;
+
+/** Retry a refresh that failed for a transient reason (offline, 5xx) after this many seconds */
+const REFRESH_RETRY_SECONDS = 30;
+
+/** GoTrue user object (subset used by the app) */
+export interface AuthUser {
+  id: string;
+  email?: string;
+  role?: string;
+  user_metadata?: Record<string, any>;
+  app_metadata?: Record<string, any>;
+  created_at?: string;
+  last_sign_in_at?: string;
+}
+
+/** Persisted session shape */
+export interface AuthSession {
+  access_token: string;
+  refresh_token: string;
+  token_type: string;
+  /** Absolute expiry in seconds since epoch */
+  expires_at: number;
+  user: AuthUser;
+}
+
+/** Raw token response from /auth/v1/token and /auth/v1/signup */
+interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  token_type?: string;
+  expires_in?: number;
+  expires_at?: number;
+  user: AuthUser;
+}
+
+/** Error from a GoTrue endpoint; status is 0 when the request never got a response */
+export class AuthApiError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'AuthApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/** Session change listener */
+type SessionListener = (session: AuthSession | null) => void;
+
+let currentSession: AuthSession | null = loadSession();
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshInFlight: Promise<AuthSession | null> | null = null;
+const listeners = new Set<SessionListener>();
+
+/**
+ * Read the persisted session (browser only).
+ */
+function loadSession(): AuthSession | null {
+  try {
+    if (typeof window === 'undefined') return null;
+    const raw = window.localStorage.getItem(SESSION_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as AuthSession;
+    return parsed && parsed.access_token && parsed.refresh_token ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persist (or clear) the session and notify listeners.
+ */
+function setSession(next: AuthSession | null) {
+  currentSession = next;
+  try {
+    if (next) window.localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+    else window.localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // ignore
+  }
+  scheduleRefresh();
+  listeners.forEach((l) => l(next));
+}
+
+/**
+ * Normalize a token response into a persisted session.
+ */
+function toSession(res: TokenResponse): AuthSession {
+  const nowSec = Math.floor(Date.now() / 1000);
+  return {
+    access_token: res.access_token,
+    refresh_token: res.refresh_token,
+    token_type: res.token_type || 'bearer',
+    expires_at: res.expires_at ?? nowSec + (res.expires_in ?? 3600),
+    user: res.user,
+  };
+}
+
+/**
+ * Extract a readable message from a GoTrue error body.
+ */
+function errorMessage(body: any, status: number): string {
+  return (
+    body?.error_description ||
+    body?.msg ||
+    body?.message ||
+    body?.error ||
+    `Supabase auth error: ${status}`
+  );
+}
+
+/**
+ * Internal fetch helper for /auth/v1 endpoints.
+ * - Uses the anon key as apikey; passes the user's access token when provided.
+ */
+async function gotrueFetch<T>(endpoint: string, init: RequestInit = {}, accessToken?: string): Promise<T> {
+  const base = getSupabaseUrl();
+  const anon = getSupabaseAnonKey();
+
+  if (!base) {
+    throw new Error('Supabase URL is not configured. Set VITE_SUPABASE_URL or localStorage SUPABASE_URL.');
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(`${base}/auth/v1${endpoint}`, {
+      ...init,
+      headers: {
+        apikey: anon,
+        Authorization: `Bearer ${accessToken || anon}`,
+        'Content-Type': 'application/json',
+        ...(init.headers || {}),
+      },
+    });
+  } catch {
+    throw new AuthApiError('Could not reach the sign-in service. Check your connection and try again.', 0);
+  }
+
+  const text = await res.text().catch(() => '');
+  let body: any = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = text;
+  }
+  if (!res.ok) {
+    throw new AuthApiError(errorMessage(body, res.status), res.status, body?.error_code || body?.error);
+  }
+  return body as T;
+}
+
+/**
+ * Schedule a token refresh shortly before the current session expires (or after delayMs, for retries).
+ */
+function scheduleRefresh(delayMs?: number) {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  if (!currentSession || typeof window === 'undefined') return;
+  const msUntil = delayMs ?? (currentSession.expires_at - REFRESH_MARGIN_SECONDS) * 1000 - Date.now();
+  refreshTimer = setTimeout(() => {
+    refreshSession().catch(() => {
+      // refreshSession clears a rejected session (listeners handle sign-out) and reschedules transient failures
+    });
+  }, Math.max(msUntil, 0));
+}
+
+/**
+ * Whether GoTrue rejected the refresh token itself (revoked, reused or unknown: invalid_grant),
+ * as opposed to a network failure or server error that is worth retrying.
+ */
+function isRejectedRefresh(e: unknown): boolean {
+  return e instanceof AuthApiError && (e.status === 400 || e.status === 401);
+}
+
+/**
+ * Current session (may be expired; use ensureFreshSession before relying on the token).
+ */
+export function getSession(): AuthSession | null {
+  return currentSession;
+}
+
+/**
+ * Subscribe to session changes (sign-in, refresh, sign-out).
+ * @returns unsubscribe function
+ */
+export function onSessionChange(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Whether the session's access token is expired or about to expire.
+ */
+export function isSessionExpiring(session: AuthSession, marginSeconds = REFRESH_MARGIN_SECONDS): boolean {
+  return session.expires_at - marginSeconds <= Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Exchange the refresh token for a new access token.
+ * - Concurrent callers share one in-flight request.
+ * - A rejected refresh token clears the session (the member must sign in again); transient failures keep it
+ *   and retry after REFRESH_RETRY_SECONDS.
+ */
+export async function refreshSession(): Promise<AuthSession | null> {
+  if (refreshInFlight) return refreshInFlight;
+  const session = currentSession;
+  if (!session) return null;
+
+  refreshInFlight = (async () => {
+    try {
+      const res = await gotrueFetch<TokenResponse>('/token?grant_type=refresh_token', {
+        method: 'POST',
+        body: JSON.stringify({ refresh_token: session.refresh_token }),
+      });
+      const next = toSession(res);
+      setSession(next);
+      return next;
+    } catch (e) {
+      if (isRejectedRefresh(e)) setSession(null);
+      else scheduleRefresh(REFRESH_RETRY_SECONDS * 1000);
+      throw e;
+    } finally {
+      refreshInFlight = null;
+    }
+  })();
+
+  return refreshInFlight;
+}
+
+/**
+ * Return a session whose access token is valid for at least the refresh margin, refreshing if needed.
+ * - When the refresh fails transiently, the current token is returned while it has not actually expired.
+ */
+export async function ensureFreshSession(): Promise<AuthSession | null> {
+  const session = currentSession;
+  if (!session) return null;
+  if (!isSessionExpiring(session)) return session;
+  try {
+    return await refreshSession();
+  } catch {
+    return currentSession && !isSessionExpiring(currentSession, 0) ? currentSession : null;
+  }
+}
+
+/**
+ * Sign in with email + password.
+ */
+export async function signInWithPassword(email: string, password: string): Promise<AuthSession> {
+  const res = await gotrueFetch<TokenResponse>('/token?grant_type=password', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+  const session = toSession(res);
+  setSession(session);
+  return session;
+}
+
+/**
+ * Create an account.
+ * - When email confirmation is enabled, GoTrue returns only the user (no session) until the link is clicked.
+ */
+export async function signUp(
+  email: string,
+  password: string,
+  metadata: Record<string, any> = {},
+  redirectTo?: string
+): Promise<{ user: AuthUser; session: AuthSession | null }> {
+  const qs = redirectTo ? `?redirect_to=${encodeURIComponent(redirectTo)}` : '';
+  const res = await gotrueFetch<TokenResponse | AuthUser>(`/signup${qs}`, {
+    method: 'POST',
+    body: JSON.stringify({ email, password, data: metadata }),
+  });
+  if ('access_token' in res && res.access_token) {
+    const session = toSession(res);
+    setSession(session);
+    return { user: session.user, session };
+  }
+  return { user: ('user' in res ? res.user : res) as AuthUser, session: null };
+}
+
+/**
+ * Sign out: revoke the refresh token server-side (best effort) and clear the local session.
+ */
+export async function signOut(): Promise<void> {
+  const session = currentSession;
+  setSession(null);
+  if (!session) return;
+  try {
+    await gotrueFetch<void>('/logout', { method: 'POST' }, session.access_token);
+  } catch {
+    // Token may already be expired/revoked; local sign-out is what matters
+  }
+}
+
+/**
+ * Send a password recovery email. The link returns to redirectTo with a recovery session in the URL hash.
+ */
+export async function requestPasswordReset(email: string, redirectTo?: string): Promise<void> {
+  const qs = redirectTo ? `?redirect_to=${encodeURIComponent(redirectTo)}` : '';
+  await gotrueFetch<void>(`/recover${qs}`, {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+}
+
+/**
+ * Update the signed-in user's password (used after following a recovery link).
+ */
+export async function updatePassword(password: string): Promise<AuthUser> {
+  const session = await ensureFreshSession();
+  if (!session) throw new Error('Your reset link has expired. Please request a new one.');
+  const user = await gotrueFetch<AuthUser>(
+    '/user',
+    { method: 'PUT', body: JSON.stringify({ password }) },
+    session.access_token
+  );
+  setSession({ ...session, user });
+  return user;
+}
+
+/**
+ * Fetch the current user from GoTrue (validates the access token server-side).
+ */
+export async function getUser(): Promise<AuthUser | null> {
+  const session = await ensureFreshSession();
+  if (!session) return null;
+  return gotrueFetch<AuthUser>('/user', { method: 'GET' }, session.access_token);
+}
+
+/**
+ * Pick up a session delivered in the URL hash by email links (recovery, signup confirmation, invites).
+ * - GoTrue appends "#access_token=...&refresh_token=...&type=recovery" to the redirect URL.
+ * - With HashRouter the fragment looks like "#/reset-password#access_token=...", so only the last part is parsed.
+ * @returns the link type (e.g. "recovery", "signup") or null if no session was present
+ */
+export async function consumeSessionFromUrl(): Promise<string | null> {
+  if (typeof window === 'undefined') return null;
+  const hash = window.location.hash || '';
+  const idx = hash.lastIndexOf('#');
+  const fragment = idx >= 0 ? hash.slice(idx + 1) : '';
+  if (!fragment.includes('access_token=')) return null;
+
+  const params = new URLSearchParams(fragment);
+  const access_token = params.get('access_token') || '';
+  const refresh_token = params.get('refresh_token') || '';
+  const type = params.get('type') || 'magiclink';
+
+  // Strip tokens from the address bar, keeping the router path (if any)
+  const routePart = idx > 0 ? hash.slice(0, idx) : '#/';
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${routePart}`);
+
+  if (!access_token || !refresh_token) return null;
+
+  const user = await gotrueFetch<AuthUser>('/user', { method: 'GET' }, access_token);
+  setSession(
+    toSession({
+      access_token,
+      refresh_token,
+      token_type: params.get('token_type') || 'bearer',
+      expires_in: Number(params.get('expires_in')) || undefined,
+      expires_at: Number(params.get('expires_at')) || undefined,
+      user,
+    })
+  );
+  return type;
+}
+
+// Resume the refresh schedule for a session restored from localStorage
+scheduleRefresh();
@@ -0,0 +1,136 @@
+/**
+ * Authenticated Supabase request layer (REST, no SDK)
+ * - Purpose: One place that attaches credentials to PostgREST (/rest/v1) and Storage (/storage/v1) calls.
+ * - Member requests carry the signed-in user's access token so RLS can distinguish members.
+ * - A 401 triggers one token refresh and a single retry.
+ * - Public requests use the member token when available and fall back to the anon key otherwise.
+ */
+
+import { getSupabaseAnonKey, getSupabaseUrl } from '../config/supabaseConfig';
+import { ensureFreshSession, getSession, refreshSession } from './supabaseAuth';
+
+/**
+ * Who may make the request:
+ * - 'member': requires a signed-in session (member-only tables and buckets).
+ * - 'public': anon key is acceptable when nobody is signed in (public tables).
+ */
+export type RequestAccess = 'member' | 'public';
+
+/**
+ * Resolve the bearer token for a request.
+ */
+async function resolveToken(access: RequestAccess): Promise<string> {
+  const session = await ensureFreshSession();
+  if (session) return session.access_token;
+  if (access === 'member') {
+    throw new Error('You must be signed in to access member content.');
+  }
+  return getSupabaseAnonKey();
+}
+
+/**
+ * Low-level request against the Supabase project.
+ * @param path Path below the project URL, e.g. "/rest/v1/programs?select=*" or "/storage/v1/object/list/bucket"
+ * @returns the raw Response (callers decide how to parse errors/bodies)
+ */
+export async function supabaseRequest(
+  path: string,
+  init: RequestInit = {},
+  access: RequestAccess = 'member'
+): Promise<Response> {
+  const base = getSupabaseUrl();
+  const anon = getSupabaseAnonKey();
+
+  if (!base) {
+    throw new Error('Supabase URL is not configured. Set VITE_SUPABASE_URL or localStorage SUPABASE_URL.');
+  }
+
+  const send = (token: string) =>
+    fetch(`${base}${path}`, {
+      ...init,
+      headers: {
+        apikey: anon,
+        Authorization: `Bearer ${token}`,
+        ...(init.headers || {}),
+      },
+    });
+
+  const token = await resolveToken(access);
+  const res = await send(token);
+
+  // Expired/revoked token: refresh once and retry (only when a user token was used)
+  if (res.status === 401 && token !== anon && getSession()) {
+    const refreshed = await refreshSession().catch(() => null);
+    if (refreshed) return send(refreshed.access_token);
+    if (access === 'public') return send(anon);
+  }
+  return res;
+}
+
+/**
+ * PostgREST JSON helper for /rest/v1.
+ * - Throws Error(body text) on non-2xx responses.
+ * - Returns undefined for 204 responses.
+ */
+export async function restFetch<T>(
+  endpoint: string,
+  init: RequestInit = {},
+  access: RequestAccess = 'member'
+): Promise<T> {
+  const res = await supabaseRequest(
+    `/rest/v1${endpoint}`,
+    {
+      ...init,
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        ...(init.headers || {}),
+      },
+    },
+    access
+  );
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || `PostgREST error: ${res.status}`);
+  }
+  // Some Supabase endpoints return no body (204)
+  if (res.status === 204) return undefined as unknown as T;
+  const text = await res.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+/**
+ * PostgREST paginated select with the exact total row count.
+ * - Sends Range + Prefer: count=exact and parses Content-Range ("0-24/137").
+ * @param offset zero-based index of the first row
+ */
+export async function restFetchPage<T>(
+  endpoint: string,
+  offset: number,
+  limit: number,
+  access: RequestAccess = 'member'
+): Promise<{ rows: T[]; total: number }> {
+  const res = await supabaseRequest(
+    `/rest/v1${endpoint}`,
+    {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+        Prefer: 'count=exact',
+        'Range-Unit': 'items',
+        Range: `${offset}-${offset + limit - 1}`,
+      },
+    },
+    access
+  );
+  // 416: offset past the end of the result set
+  if (res.status === 416) return { rows: [], total: 0 };
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(text || `PostgREST error: ${res.status}`);
+  }
+  const rows = ((await res.json()) as T[]) || [];
+  const range = res.headers.get('Content-Range') || '';
+  const total = Number(range.split('/')[1]);
+  return { rows, total: Number.isFinite(total) ? total : offset + rows.length };
+}
@@ -5,7 +5,9 @@
  * - Provides safe, flattened file items usable directly in UI (no objects rendered by mistake).
  */
 
-import { getSupabaseUrl, getSupabaseAnonKey } from '../config/supabaseConfig';
+import { getSupabaseUrl } from '../config/supabaseConfig';
+import { supabaseRequest } from './supabaseHttp';
+import type { ResourceMetadata } from './resourceMetadata';
 
 /** Fixed bucket name per user requirement (case-sensitive) */
 export const SUPABASE_BUCKET = 'clinicalrxqfiles';
@@ -33,14 +35,18 @@ export interface StorageFileItem {
   path: string;
   /** Filename only (no extension), preserving original name and casing except extension removed */
   title: string;
-  /** Direct public URL */
+  /** Direct URL (public URL, or a short-lived signed URL when the bucket is private) */
   url: string;
+  /** Epoch ms when a signed url expires (undefined for public URLs) */
+  urlExpiresAt?: number;
   /** Raw filename including extension */
   filename: string;
   /** Optional mime type if known */
   mimeType?: string;
   /** Optional size if known */
   size?: number;
+  /** Catalog metadata (catalog-backed items only; undefined when none is set) */
+  meta?: ResourceMetadata;
 }
 
 /**
@@ -54,6 +60,7 @@ export function stripOneExtension(filename: string): string {
 
 /**
  * Build a public URL for a stored object.
+ * - Only valid for public buckets; in private mode lists are re-signed via signedUrls.withFreshUrls.
  */
 export function buildPublicUrl(path: string): string {
   const base = getSupabaseUrl();
@@ -66,14 +73,10 @@ export function buildPublicUrl(path: string): string {
 /**
  * Low-level REST list call to Supabase Storage
  * - Non-recursive: returns direct contents under the given prefix.
+ * - Sent with the member's JWT (bucket listing is restricted to authenticated users).
  */
 export async function listPrefix(prefix: string, opts?: { limit?: number; offset?: number }): Promise<SupaListObject[]> {
-  const base = getSupabaseUrl();
-  const anon = getSupabaseAnonKey();
-  if (!base || !anon) {
-    throw new Error('Supabase is not configured. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY.');
-  }
-  const url = `${base}/storage/v1/object/list/${encodeURIComponent(SUPABASE_BUCKET)}`;
+  const path = `/storage/v1/object/list/${encodeURIComponent(SUPABASE_BUCKET)}`;
   const body = {
     prefix: prefix.replace(/^\/+/, '').replace(/\/+$/, ''), // no leading/trailing slash
     limit: opts?.limit ?? 100,
@@ -81,11 +84,9 @@ export async function listPrefix(prefix: string, opts?: { limit?: number; offset
     sortBy: { column: 'name', order: 'asc' as const },
   };
 
-  const res = await fetch(url, {
+  const res = await supabaseRequest(path, {
     method: 'POST',
     headers: {
-      apikey: anon,
-      Authorization: `Bearer ${anon}`,
       'Content-Type': 'application/json',
     },
     body: JSON.stringify(body),
@@ -0,0 +1,72 @@
+/**
+ * Audience store (Zustand)
+ * - Purpose: Role-aware content lists. ProgramDetail, Resources and the Dashboard default to the files written for
+ *   the viewer's team role (technicians see technician material, owners and pharmacists see pharmacist material);
+ *   "Show everything" lifts the filter and is remembered on this device (localStorage crxq_show_all_content_v1).
+ * - Admins and members outside a team have no role-based default and always see everything.
+ */
+
+import { useCallback } from 'react';
+import { create } from 'zustand';
+import { useAuthStore } from './authStore';
+import { isRelevantToAudience, type ResourceAudience } from '../services/resourceMetadata';
+import type { User } from '../types';
+
+const SHOW_ALL_KEY = 'crxq_show_all_content_v1';
+
+function loadShowAll(): boolean {
+  try {
+    return localStorage.getItem(SHOW_ALL_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+interface AudienceState {
+  showAll: boolean;
+  setShowAll: (showAll: boolean) => void;
+}
+
+export const useAudienceStore = create<AudienceState>((set) => ({
+  showAll: loadShowAll(),
+  setShowAll: (showAll) => {
+    try {
+      localStorage.setItem(SHOW_ALL_KEY, showAll ? '1' : '0');
+    } catch {
+      // keep the in-memory value
+    }
+    set({ showAll });
+  },
+}));
+
+/**
+ * Audience a signed-in user reads as, or null when lists should not be narrowed.
+ */
+export function viewerAudience(user: User | null): ResourceAudience | null {
+  if (!user || user.role === 'admin' || !user.organization) return null;
+  return user.organization.role === 'technician' ? 'technician' : 'pharmacist';
+}
+
+/**
+ * Viewer audience plus the active filter.
+ * - shows(audience) is true for everything while the filter is off.
+ */
+export function useAudienceFilter() {
+  const viewer = useAuthStore((s) => viewerAudience(s.user));
+  const showAll = useAudienceStore((s) => s.showAll);
+  const setShowAll = useAudienceStore((s) => s.setShowAll);
+  const active = !!viewer && !showAll;
+  const shows = useCallback(
+    (audience: ResourceAudience[]) => !active || isRelevantToAudience(audience, viewer),
+    [active, viewer]
+  );
+
+  return {
+    viewer,
+    showAll,
+    setShowAll,
+    /** Whether role filtering is narrowing lists right now */
+    active,
+    shows,
+  };
+}
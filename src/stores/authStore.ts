@@ -1,66 +1,190 @@
 /**
  * Authentication state management store
- * - Fix: Align mock user with User type (name instead of firstName/lastName).
+ * - Backed by Supabase GoTrue (services/supabaseAuth) with the session persisted in localStorage.
+ * - initialize() restores the session on app start; ProtectedRoute waits for it before gating.
+ * - Token refreshes and refresh failures are mirrored into the store via onSessionChange.
+ * - Signing in accepts any pending team invite for the member's email, then loads their organization.
  */
 import { create } from 'zustand';
 import type { User } from '../types';
+import { authService, type Profile } from '../services/supabase';
+import { entitlementService } from '../services/entitlements';
+import { organizationService } from '../services/organizations';
+import {
+  consumeSessionFromUrl,
+  getUser,
+  onSessionChange,
+  requestPasswordReset as gotrueRequestPasswordReset,
+  updatePassword as gotrueUpdatePassword,
+  type AuthUser,
+} from '../services/supabaseAuth';
+
+/** Sign-up fields collected by the registration form */
+export interface RegisterInput {
+  email: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+  pharmacyName?: string;
+}
 
 interface AuthState {
   user: User | null;
+  profile: Profile | null;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<boolean>;
-  logout: () => void;
-  register: (userData: Partial<User>) => Promise<boolean>;
+  /** True once the persisted session has been checked */
+  initialized: boolean;
+  /** Set when the member arrived through a password recovery link */
+  recoveryMode: boolean;
+  initialize: () => Promise<void>;
+  /** Throws with GoTrue's message (wrong password, unconfirmed email, network failure) */
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  /** Returns true when a session was created, false when email confirmation is pending */
+  register: (input: RegisterInput) => Promise<boolean>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+  refreshProfile: () => Promise<void>;
+}
+
+/**
+ * App URL that email links (recovery/confirmation) should return to.
+ */
+function appRedirect(route: string): string {
+  return `${window.location.origin}${window.location.pathname}#${route}`;
 }
 
-export const useAuthStore = create<AuthState>((set) => ({
+/**
+ * Map a GoTrue user + profile row to the app's User shape.
+ */
+function toUser(authUser: AuthUser, profile: Profile | null): User {
+  const meta = authUser.user_metadata || {};
+  const firstName: string | undefined = profile?.first_name || meta.first_name || undefined;
+  const lastName: string | undefined = profile?.last_name || meta.last_name || undefined;
+  const email = authUser.email || profile?.email || '';
+  const name = `${firstName ?? ''} ${lastName ?? ''}`.trim() || email;
+  const role = profile?.role === 'admin' || authUser.app_metadata?.role === 'admin' ? 'admin' : 'member';
+
+  return {
+    id: authUser.id,
+    email,
+    name,
+    firstName,
+    lastName,
+    pharmacyName: profile?.pharmacy_name || meta.pharmacy_name || undefined,
+    pharmacyAddress: profile?.pharmacy_address || undefined,
+    role,
+    createdAt: new Date(authUser.created_at || Date.now()),
+    lastSignInAt: authUser.last_sign_in_at ? new Date(authUser.last_sign_in_at) : undefined,
+  };
+}
+
+/**
+ * Load profile + organization + subscription for the current session and build the store payload.
+ * - Pending team invites are accepted first, so a new teammate's subscription comes from the team.
+ * - A missing profile/subscription row (or RLS denying it) should not block sign-in.
+ */
+async function loadSignedInState(authUser: AuthUser): Promise<Pick<AuthState, 'user' | 'profile' | 'isAuthenticated'>> {
+  await organizationService.acceptInvites().catch(() => null);
+  const [profile, subscription, organization] = await Promise.all([
+    authService.getCurrentProfile().catch(() => null),
+    entitlementService.getSubscription(authUser.id).catch(() => undefined),
+    organizationService.getMine().catch(() => undefined),
+  ]);
+  return { user: { ...toUser(authUser, profile), subscription, organization }, profile, isAuthenticated: true };
+}
+
+export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
+  profile: null,
   isAuthenticated: false,
+  initialized: false,
+  recoveryMode: false,
+
+  /**
+   * Restore the session (URL hash from email links first, then localStorage) and validate it with GoTrue.
+   */
+  initialize: async () => {
+    if (get().initialized) return;
+    try {
+      const linkType = await consumeSessionFromUrl().catch(() => null);
+      const authUser = await getUser();
+      if (authUser) {
+        set({ ...(await loadSignedInState(authUser)), recoveryMode: linkType === 'recovery' });
+      }
+    } catch {
+      set({ user: null, profile: null, isAuthenticated: false });
+    } finally {
+      set({ initialized: true });
+    }
+  },
 
   /**
    * User login function
    */
   login: async (email: string, password: string) => {
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 800));
-
-    // Mock authentication logic - check for demo credentials
-    if (email === 'duanejones5@gmail.com' && password === 'Pharmacy1') {
-      const mockUser: User = {
-        id: '1',
-        email: 'duanejones5@gmail.com',
-        name: 'Duane',
-        role: 'member',
-        subscription: {
-          id: 'sub1',
-          planName: 'Premium',
-          status: 'active',
-          startDate: new Date(),
-          endDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
-          programs: ['mtm-future-today', 'timemymeds', 'test-treat'],
-        },
-        createdAt: new Date(),
-      };
-
-      set({ user: mockUser, isAuthenticated: true });
-      return true;
-    }
-    return false;
+    const { user: authUser } = await authService.signIn(email, password);
+    set(await loadSignedInState(authUser));
   },
 
   /**
    * User logout function
    */
-  logout: () => {
-    set({ user: null, isAuthenticated: false });
+  logout: async () => {
+    await authService.signOut();
+    set({ user: null, profile: null, isAuthenticated: false, recoveryMode: false });
   },
 
   /**
    * User registration function
    */
-  register: async (_userData: Partial<User>) => {
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 800));
+  register: async (input: RegisterInput) => {
+    const { user: authUser, session } = await authService.signUp(
+      input.email,
+      input.password,
+      {
+        first_name: input.firstName,
+        last_name: input.lastName,
+        pharmacy_name: input.pharmacyName,
+      },
+      appRedirect('/dashboard')
+    );
+    if (!session) return false;
+    set(await loadSignedInState(authUser));
     return true;
   },
+
+  /**
+   * Email a password recovery link that returns to #/reset-password
+   */
+  requestPasswordReset: async (email: string) => {
+    await gotrueRequestPasswordReset(email, appRedirect('/reset-password'));
+  },
+
+  /**
+   * Set a new password for the signed-in (or recovering) member
+   */
+  updatePassword: async (password: string) => {
+    await gotrueUpdatePassword(password);
+    set({ recoveryMode: false });
+  },
+
+  /**
+   * Re-read the profile row (after edits)
+   */
+  refreshProfile: async () => {
+    const authUser = await getUser();
+    if (authUser) set(await loadSignedInState(authUser));
+  },
 }));
+
+/**
+ * Keep the store in sync with session changes made outside of it
+ * (background token refresh, refresh failure, sign-out in another code path).
+ */
+onSessionChange((session) => {
+  const state = useAuthStore.getState();
+  if (!session && state.isAuthenticated) {
+    useAuthStore.setState({ user: null, profile: null, isAuthenticated: false, recoveryMode: false });
+  }
+});
@@ -1,52 +1,208 @@
 /**
  * Bookmark store (Zustand)
- * - Purpose: Toggle and persist bookmarked resources (by storage path) in localStorage.
- * - Only stores ids (paths). No tags. Minimal shape for UI.
+ * - Purpose: Server-backed bookmarks (Supabase bookmarks + bookmark_folders) keyed by storage path.
+ * - ids mirrors the bookmarked paths so ResourceCard can keep using isBookmarked/toggle.
+ * - Mutations are optimistic and roll back (with a toast) if the request fails.
+ * - load() performs a one-time import of legacy localStorage ids (crxq_bookmarks_v1) on first login.
  */
 
 import { create } from 'zustand';
+import { toast } from 'sonner';
+import {
+  bookmarkService,
+  STORAGE_FILE_RESOURCE,
+  type Bookmark,
+  type BookmarkFolder,
+} from '../services/supabase';
 
-const KEY = 'crxq_bookmarks_v1';
+/** Legacy localStorage key (pre-Supabase bookmarks) */
+const LEGACY_KEY = 'crxq_bookmarks_v1';
 
-function loadSet(): Set<string> {
+/**
+ * Read legacy bookmarked paths, if any.
+ */
+function loadLegacyIds(): string[] {
   try {
-    const raw = localStorage.getItem(KEY);
-    if (!raw) return new Set();
+    const raw = localStorage.getItem(LEGACY_KEY);
+    if (!raw) return [];
     const arr = JSON.parse(raw) as string[];
-    return new Set(arr || []);
+    return Array.isArray(arr) ? arr.filter((x) => typeof x === 'string' && x) : [];
   } catch {
-    return new Set();
+    return [];
   }
 }
 
-function saveSet(set: Set<string>) {
+function clearLegacyIds() {
   try {
-    localStorage.setItem(KEY, JSON.stringify(Array.from(set)));
+    localStorage.removeItem(LEGACY_KEY);
   } catch {
     // ignore
   }
 }
 
+/** Paths of storage-file bookmarks */
+function idsOf(items: Bookmark[]): Set<string> {
+  return new Set(items.filter((b) => b.resource_type === STORAGE_FILE_RESOURCE).map((b) => b.resource_id));
+}
+
 interface BookmarkState {
   ids: Set<string>;
+  items: Bookmark[];
+  folders: BookmarkFolder[];
+  loaded: boolean;
+  load: () => Promise<void>;
   isBookmarked: (id: string) => boolean;
-  toggle: (id: string) => void;
+  toggle: (id: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  setNote: (bookmarkId: string, note: string) => Promise<void>;
+  moveToFolder: (bookmarkId: string, folderId: string | null) => Promise<void>;
+  /** Persist a new order (bookmark ids, first to last) */
+  reorder: (orderedIds: string[]) => Promise<void>;
+  createFolder: (name: string) => Promise<void>;
+  renameFolder: (folderId: string, name: string) => Promise<void>;
+  deleteFolder: (folderId: string) => Promise<void>;
+  /** Reset local state (on sign-out) */
   clear: () => void;
 }
 
-export const useBookmarkStore = create<BookmarkState>((set, get) => ({
-  ids: loadSet(),
-  isBookmarked: (id: string) => get().ids.has(id),
-  toggle: (id: string) => {
-    const next = new Set(get().ids);
-    if (next.has(id)) next.delete(id);
-    else next.add(id);
-    saveSet(next);
-    set({ ids: next });
-  },
-  clear: () => {
-    const empty = new Set<string>();
-    saveSet(empty);
-    set({ ids: empty });
-  },
-}));
+export const useBookmarkStore = create<BookmarkState>((set, get) => {
+  /** Run a server mutation after an optimistic update; restore the snapshot on failure */
+  async function commit(
+    optimistic: Partial<BookmarkState>,
+    request: () => Promise<unknown>,
+    errorMessage: string
+  ) {
+    const snapshot = { items: get().items, folders: get().folders, ids: get().ids };
+    set(optimistic);
+    try {
+      await request();
+    } catch {
+      set(snapshot);
+      toast.error(errorMessage);
+    }
+  }
+
+  return {
+    ids: new Set(),
+    items: [],
+    folders: [],
+    loaded: false,
+
+    load: async () => {
+      try {
+        const legacy = loadLegacyIds();
+        if (legacy.length) {
+          await bookmarkService.importBookmarks(STORAGE_FILE_RESOURCE, legacy);
+          clearLegacyIds();
+        }
+        const [items, folders] = await Promise.all([
+          bookmarkService.getUserBookmarks(),
+          bookmarkService.getFolders(),
+        ]);
+        set({ items, folders, ids: idsOf(items), loaded: true });
+      } catch {
+        set({ loaded: true });
+      }
+    },
+
+    isBookmarked: (id: string) => get().ids.has(id),
+
+    toggle: async (id: string) => {
+      if (get().ids.has(id)) {
+        await get().remove(id);
+        return;
+      }
+      const items = get().items;
+      const sortOrder = items.reduce((max, b) => Math.max(max, b.sort_order), -1) + 1;
+      const ids = new Set(get().ids).add(id);
+      set({ ids });
+      try {
+        const created = await bookmarkService.addBookmark(STORAGE_FILE_RESOURCE, id, { sortOrder });
+        set({ items: [...get().items, created] });
+      } catch {
+        const rollback = new Set(get().ids);
+        rollback.delete(id);
+        set({ ids: rollback });
+        toast.error('Could not save bookmark.');
+      }
+    },
+
+    remove: async (id: string) => {
+      const ids = new Set(get().ids);
+      ids.delete(id);
+      await commit(
+        {
+          ids,
+          items: get().items.filter((b) => !(b.resource_type === STORAGE_FILE_RESOURCE && b.resource_id === id)),
+        },
+        () => bookmarkService.removeBookmark(STORAGE_FILE_RESOURCE, id),
+        'Could not remove bookmark.'
+      );
+    },
+
+    setNote: async (bookmarkId: string, note: string) => {
+      const value = note.trim() ? note : null;
+      await commit(
+        { items: get().items.map((b) => (b.id === bookmarkId ? { ...b, note: value } : b)) },
+        () => bookmarkService.updateBookmark(bookmarkId, { note: value }),
+        'Could not save note.'
+      );
+    },
+
+    moveToFolder: async (bookmarkId: string, folderId: string | null) => {
+      await commit(
+        { items: get().items.map((b) => (b.id === bookmarkId ? { ...b, folder_id: folderId } : b)) },
+        () => bookmarkService.updateBookmark(bookmarkId, { folder_id: folderId }),
+        'Could not move bookmark.'
+      );
+    },
+
+    reorder: async (orderedIds: string[]) => {
+      const position = new Map(orderedIds.map((id, i) => [id, i]));
+      const items = get().items.map((b) => (position.has(b.id) ? { ...b, sort_order: position.get(b.id)! } : b));
+      const changed = items.filter((b, i) => b.sort_order !== get().items[i].sort_order);
+      items.sort((a, b) => a.sort_order - b.sort_order);
+      await commit(
+        { items },
+        () => Promise.all(changed.map((b) => bookmarkService.updateBookmark(b.id, { sort_order: b.sort_order }))),
+        'Could not save the new order.'
+      );
+    },
+
+    createFolder: async (name: string) => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+      try {
+        const folder = await bookmarkService.createFolder(trimmed, get().folders.length);
+        set({ folders: [...get().folders, folder] });
+      } catch {
+        toast.error('Could not create folder.');
+      }
+    },
+
+    renameFolder: async (folderId: string, name: string) => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+      await commit(
+        { folders: get().folders.map((f) => (f.id === folderId ? { ...f, name: trimmed } : f)) },
+        () => bookmarkService.renameFolder(folderId, trimmed),
+        'Could not rename folder.'
+      );
+    },
+
+    deleteFolder: async (folderId: string) => {
+      await commit(
+        {
+          folders: get().folders.filter((f) => f.id !== folderId),
+          items: get().items.map((b) => (b.folder_id === folderId ? { ...b, folder_id: null } : b)),
+        },
+        () => bookmarkService.deleteFolder(folderId),
+        'Could not delete folder.'
+      );
+    },
+
+    clear: () => {
+      set({ ids: new Set(), items: [], folders: [], loaded: false });
+    },
+  };
+});
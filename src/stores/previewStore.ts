@@ -0,0 +1,20 @@
+/**
+ * Preview store (Zustand)
+ * - Purpose: Which file the in-app preview drawer is showing (one drawer, mounted by AppShell).
+ * - Rows/cards call open(item); the drawer closes by calling close().
+ */
+
+import { create } from 'zustand';
+import type { StorageFileItem } from '../services/supabaseStorage';
+
+interface PreviewState {
+  item: StorageFileItem | null;
+  open: (item: StorageFileItem) => void;
+  close: () => void;
+}
+
+export const usePreviewStore = create<PreviewState>((set) => ({
+  item: null,
+  open: (item) => set({ item }),
+  close: () => set({ item: null }),
+}));
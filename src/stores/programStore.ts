@@ -0,0 +1,29 @@
+/**
+ * Program store (Zustand)
+ * - Purpose: Programs from the Supabase "programs" table for components that render the list synchronously
+ *   (MemberSidebar, Content Admin upload folders).
+ * - Backed by storageCatalog.listPrograms, so the list is fetched once per session and shared.
+ */
+
+import { create } from 'zustand';
+import { listPrograms, type ProgramListItem } from '../services/storageCatalog';
+
+interface ProgramState {
+  programs: ProgramListItem[];
+  loaded: boolean;
+  /** Load (or with refresh, reload) the programs list */
+  load: (options?: { refresh?: boolean }) => Promise<void>;
+}
+
+export const useProgramStore = create<ProgramState>((set) => ({
+  programs: [],
+  loaded: false,
+
+  load: async (options) => {
+    try {
+      set({ programs: await listPrograms(options), loaded: true });
+    } catch {
+      set({ loaded: true });
+    }
+  },
+}));
@@ -0,0 +1,118 @@
+/**
+ * Training progress store (Zustand)
+ * - Purpose: Which training modules the member has completed, and per-program progress derived from it.
+ * - Modules come from the catalog (program_training_modules); completions from module_progress.
+ * - Completion is automatic when a training video plays to the end, or manual from the Training tab.
+ * - Mutations are optimistic and roll back (with a toast) if the request fails.
+ */
+
+import { create } from 'zustand';
+import { toast } from 'sonner';
+import { moduleProgressService, type ProgramTrainingModule } from '../services/supabase';
+import { programSlugFromPath } from '../services/storageCatalog';
+import { stripOneExtension } from '../services/supabaseStorage';
+import { compareModuleOrder } from '../lib/media';
+
+/** Progress through one program's training */
+export interface ProgramProgress {
+  total: number;
+  completed: number;
+  /** 0–100 */
+  percent: number;
+  /** First incomplete module in module order */
+  next?: { path: string; title: string };
+}
+
+interface ProgressState {
+  modules: ProgramTrainingModule[];
+  /** Completed module paths → how they were completed */
+  completed: Record<string, 'auto' | 'manual'>;
+  loaded: boolean;
+  load: () => Promise<void>;
+  isComplete: (path: string) => boolean;
+  markComplete: (path: string, source: 'auto' | 'manual') => Promise<void>;
+  markIncomplete: (path: string) => Promise<void>;
+  /** Reset local state (on sign-out) */
+  clear: () => void;
+}
+
+export const useProgressStore = create<ProgressState>((set, get) => ({
+  modules: [],
+  completed: {},
+  loaded: false,
+
+  load: async () => {
+    try {
+      const [modules, rows] = await Promise.all([
+        moduleProgressService.getModules(),
+        moduleProgressService.getCompletions(),
+      ]);
+      const completed: Record<string, 'auto' | 'manual'> = {};
+      for (const r of rows) completed[r.module_path] = r.source;
+      set({ modules, completed, loaded: true });
+    } catch {
+      set({ loaded: true });
+    }
+  },
+
+  isComplete: (path: string) => !!get().completed[path],
+
+  markComplete: async (path: string, source: 'auto' | 'manual') => {
+    const programSlug = programSlugFromPath(path);
+    if (!programSlug || get().completed[path]) return;
+    const snapshot = get().completed;
+    set({ completed: { ...snapshot, [path]: source } });
+    try {
+      await moduleProgressService.markComplete({ path, programSlug, source });
+    } catch {
+      set({ completed: snapshot });
+      if (source === 'manual') toast.error('Could not save your progress.');
+    }
+  },
+
+  markIncomplete: async (path: string) => {
+    const snapshot = get().completed;
+    if (!snapshot[path]) return;
+    const next = { ...snapshot };
+    delete next[path];
+    set({ completed: next });
+    try {
+      await moduleProgressService.markIncomplete(path);
+    } catch {
+      set({ completed: snapshot });
+      toast.error('Could not save your progress.');
+    }
+  },
+
+  clear: () => set({ modules: [], completed: {}, loaded: false }),
+}));
+
+/**
+ * Progress for one program from the store's modules and completions.
+ */
+export function summarizeProgress(
+  modules: ProgramTrainingModule[],
+  completed: Record<string, 'auto' | 'manual'>,
+  programSlug: string
+): ProgramProgress {
+  const own = modules
+    .filter((m) => m.program_slug === programSlug)
+    .map((m) => ({ path: m.module_path, title: stripOneExtension(m.file_name), sortOrder: m.sort_order }))
+    .sort(compareModuleOrder);
+  const done = own.filter((m) => completed[m.path]).length;
+  return {
+    total: own.length,
+    completed: done,
+    percent: own.length ? Math.round((done / own.length) * 100) : 0,
+    next: own.find((m) => !completed[m.path]),
+  };
+}
+
+/**
+ * Subscribe to one program's progress.
+ */
+export function useProgramProgress(programSlug: string): ProgramProgress {
+  const modules = useProgressStore((s) => s.modules);
+  const completed = useProgressStore((s) => s.completed);
+  return summarizeProgress(modules, completed, programSlug);
+}
@@ -6,18 +6,45 @@ export interface User {
   id: string;
   email: string;
   name: string;
+  firstName?: string;
+  lastName?: string;
+  pharmacyName?: string;
+  /** Printed on billing receipts */
+  pharmacyAddress?: string;
   role: 'member' | 'admin';
   subscription?: Subscription;
+  /** Pharmacy team the member belongs to (owns the subscription for team plans) */
+  organization?: Organization;
   createdAt: Date;
+  lastSignInAt?: Date;
 }
 
 export interface Subscription {
   id: string;
   planName: string;
+  /** plans.code (rows created before checkout have none) */
+  planCode?: string;
   status: 'active' | 'inactive' | 'cancelled';
   startDate: Date;
   endDate: Date;
   programs: string[];
+  /** Cancelled by the member: access continues until endDate, then the plan ends */
+  cancelAtPeriodEnd?: boolean;
+  /** Set for team subscriptions (managed by the team's owners) */
+  organizationId?: string;
+}
+
+/** Role on a pharmacy team */
+export type OrganizationRole = 'owner' | 'pharmacist' | 'technician';
+
+/** The member's pharmacy team, with their role and seat usage */
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  seatLimit: number;
+  /** Members plus pending invites */
+  seatsUsed: number;
 }
 
 export interface Program {
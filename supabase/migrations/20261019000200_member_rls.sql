@@ -0,0 +1,48 @@
+-- Member-only access via row-level security.
+-- Client requests now carry the signed-in member's JWT (src/services/supabaseHttp.ts),
+-- so member content can be granted to "authenticated" instead of "anon".
+
+-- Programs stay public (marketing pages read them without a session).
+alter table public.programs enable row level security;
+drop policy if exists "programs are public" on public.programs;
+create policy "programs are public" on public.programs
+  for select to anon, authenticated using (true);
+
+-- Member-only content tables.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'storage_files_catalog',
+    'training_modules',
+    'protocol_manuals',
+    'documentation_forms',
+    'additional_resources',
+    'patient_handouts',
+    'clinical_guidelines',
+    'medical_billing_resources'
+  ]
+  loop
+    execute format('alter table public.%I enable row level security', t);
+    execute format('drop policy if exists "members can read" on public.%I', t);
+    execute format('create policy "members can read" on public.%I for select to authenticated using (true)', t);
+  end loop;
+end $$;
+
+-- Profiles: each member sees and edits only their own row.
+alter table public.profiles enable row level security;
+drop policy if exists "own profile read" on public.profiles;
+create policy "own profile read" on public.profiles
+  for select to authenticated using (id = auth.uid());
+drop policy if exists "own profile update" on public.profiles;
+create policy "own profile update" on public.profiles
+  for update to authenticated using (id = auth.uid()) with check (id = auth.uid());
+-- Members may edit their names only; role and subscription_status are managed server-side.
+revoke update on public.profiles from authenticated;
+grant update (first_name, last_name, pharmacy_name) on public.profiles to authenticated;
+
+-- Storage bucket: listing and reading objects requires a session.
+drop policy if exists "members can read clinicalrxqfiles" on storage.objects;
+create policy "members can read clinicalrxqfiles" on storage.objects
+  for select to authenticated using (bucket_id = 'clinicalrxqfiles');
@@ -0,0 +1,21 @@
+-- Subscriptions: which programs a member is licensed for.
+-- programs holds ProgramSlugs; legacy rows may still contain older slugs
+-- ('mtm-future-today', 'test-treat'), which the client normalizes (src/services/entitlements.ts).
+
+create table if not exists public.subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  plan_name text not null,
+  status text not null default 'active' check (status in ('active', 'inactive', 'cancelled')),
+  start_date timestamptz not null default now(),
+  end_date timestamptz not null,
+  programs text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists subscriptions_user_id_idx on public.subscriptions (user_id);
+
+alter table public.subscriptions enable row level security;
+drop policy if exists "own subscriptions read" on public.subscriptions;
+create policy "own subscriptions read" on public.subscriptions
+  for select to authenticated using (user_id = auth.uid());
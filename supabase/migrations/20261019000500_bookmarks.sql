@@ -0,0 +1,38 @@
+-- Server-backed bookmarks with user-defined folders and a free-text note per bookmark.
+-- resource_type is 'storage_file' for catalog files; resource_id is the bucket path.
+
+create table if not exists public.bookmark_folders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.bookmarks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  resource_type text not null,
+  resource_id text not null,
+  folder_id uuid references public.bookmark_folders (id) on delete set null,
+  note text,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+alter table public.bookmarks add column if not exists folder_id uuid references public.bookmark_folders (id) on delete set null;
+alter table public.bookmarks add column if not exists note text;
+alter table public.bookmarks add column if not exists sort_order integer not null default 0;
+
+create unique index if not exists bookmarks_user_resource_key
+  on public.bookmarks (user_id, resource_type, resource_id);
+
+alter table public.bookmark_folders enable row level security;
+drop policy if exists "own bookmark folders" on public.bookmark_folders;
+create policy "own bookmark folders" on public.bookmark_folders
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+alter table public.bookmarks enable row level security;
+drop policy if exists "own bookmarks" on public.bookmarks;
+create policy "own bookmarks" on public.bookmarks
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
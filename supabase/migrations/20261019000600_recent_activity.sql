@@ -0,0 +1,25 @@
+-- Resource access log: one row per Download/Play click.
+
+create table if not exists public.recent_activity (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  resource_name text not null,
+  resource_type text not null default 'storage_file',
+  accessed_at timestamptz not null default now()
+);
+
+alter table public.recent_activity add column if not exists resource_path text;
+alter table public.recent_activity add column if not exists program_slug text;
+alter table public.recent_activity add column if not exists activity_type text not null default 'download'
+  check (activity_type in ('download', 'play'));
+
+create index if not exists recent_activity_user_accessed_idx
+  on public.recent_activity (user_id, accessed_at desc);
+
+alter table public.recent_activity enable row level security;
+drop policy if exists "own activity read" on public.recent_activity;
+create policy "own activity read" on public.recent_activity
+  for select to authenticated using (user_id = auth.uid());
+drop policy if exists "own activity insert" on public.recent_activity;
+create policy "own activity insert" on public.recent_activity
+  for insert to authenticated with check (user_id = auth.uid());
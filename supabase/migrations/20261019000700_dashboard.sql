@@ -0,0 +1,53 @@
+-- Live Dashboard data: per-program catalog aggregates, member-configurable quick access tiles, announcements.
+
+-- Resource count and last update per program folder (first path segment).
+-- security_invoker keeps the catalog's "members can read" policy in force for the view.
+create or replace view public.program_resource_stats
+  with (security_invoker = true) as
+select
+  lower(split_part(file_path, '/', 1)) as program_slug,
+  count(*) as resource_count,
+  max(coalesce(last_modified, updated_at, created_at)) as last_updated
+from public.storage_files_catalog
+where bucket_name = 'clinicalrxqfiles'
+group by 1;
+
+grant select on public.program_resource_stats to authenticated;
+
+-- Quick access tiles pinned by each member (resource_path is the bucket path).
+create table if not exists public.quick_access_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  resource_path text not null,
+  title text not null,
+  subtitle text,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists quick_access_items_user_path_key
+  on public.quick_access_items (user_id, resource_path);
+
+alter table public.quick_access_items enable row level security;
+drop policy if exists "own quick access" on public.quick_access_items;
+create policy "own quick access" on public.quick_access_items
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Announcements (written by staff in the Supabase dashboard; members only read published, unexpired rows).
+create table if not exists public.announcements (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  body text not null,
+  published_at timestamptz not null default now(),
+  expires_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists announcements_published_idx
+  on public.announcements (published_at desc);
+
+alter table public.announcements enable row level security;
+drop policy if exists "members read published announcements" on public.announcements;
+create policy "members read published announcements" on public.announcements
+  for select to authenticated
+  using (published_at <= now() and (expires_at is null or expires_at > now()));
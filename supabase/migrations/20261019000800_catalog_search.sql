@@ -0,0 +1,174 @@
+-- Full-text + trigram search across the storage catalog and the resource library tables.
+-- Clients call rpc/search_resources (paginated hits) and rpc/search_resource_facets (counts per program/category).
+-- Functions run as the caller (security invoker), so the "members can read" RLS policies still apply.
+
+create extension if not exists pg_trgm;
+
+-- Title used for matching/ranking: file name without its last extension, separators as spaces.
+create or replace function public.resource_search_title(file_name text)
+returns text language sql immutable as $$
+  select trim(regexp_replace(regexp_replace(coalesce(file_name, ''), '\.[^./]+$', ''), '[_\-.]+', ' ', 'g'))
+$$;
+
+-- Program folder for a bucket path (null for the global folders).
+create or replace function public.resource_program(file_path text)
+returns text language sql immutable as $$
+  select case
+    when lower(split_part(coalesce(file_path, ''), '/', 1)) in ('patienthandouts', 'clinicalguidelines', 'medicalbilling', '')
+      then null
+    else lower(split_part(file_path, '/', 1))
+  end
+$$;
+
+-- Category facet for a bucket path: forms/protocols/resources/training inside programs, or handouts/guidelines/billing.
+create or replace function public.resource_category(file_path text)
+returns text language sql immutable as $$
+  select case lower(split_part(coalesce(file_path, ''), '/', 1))
+    when 'patienthandouts' then 'handouts'
+    when 'clinicalguidelines' then 'guidelines'
+    when 'medicalbilling' then 'billing'
+    else nullif(lower(split_part(coalesce(file_path, ''), '/', 2)), '')
+  end
+$$;
+
+alter table public.storage_files_catalog
+  add column if not exists search_vector tsvector generated always as (
+    setweight(to_tsvector('english', public.resource_search_title(file_name)), 'A') ||
+    setweight(to_tsvector('english', replace(coalesce(file_path, ''), '/', ' ')), 'B')
+  ) stored;
+
+create index if not exists storage_files_catalog_search_idx
+  on public.storage_files_catalog using gin (search_vector);
+create index if not exists storage_files_catalog_title_trgm_idx
+  on public.storage_files_catalog using gin (public.resource_search_title(file_name) gin_trgm_ops);
+
+-- One searchable row per resource. Library rows that duplicate a catalog path are skipped.
+create or replace view public.searchable_resources
+  with (security_invoker = true) as
+select
+  c.id::text as id,
+  'catalog'::text as source,
+  c.file_name,
+  c.file_path,
+  c.file_url,
+  c.mime_type,
+  c.file_size::bigint as file_size,
+  public.resource_search_title(c.file_name) as title,
+  public.resource_program(c.file_path) as program_slug,
+  public.resource_category(c.file_path) as category,
+  c.search_vector
+from public.storage_files_catalog c
+where c.bucket_name = 'clinicalrxqfiles'
+union all
+select
+  h.id::text, 'patient_handouts', h.name, h.file_path, null, null, null,
+  h.name, null, 'handouts', to_tsvector('english', h.name)
+from public.patient_handouts h
+where h.file_path is null
+  or not exists (select 1 from public.storage_files_catalog c where c.file_path = h.file_path)
+union all
+select
+  g.id::text, 'clinical_guidelines', g.name, g.file_path, g.link, null, null,
+  g.name, null, 'guidelines', to_tsvector('english', g.name)
+from public.clinical_guidelines g
+where g.file_path is null
+  or not exists (select 1 from public.storage_files_catalog c where c.file_path = g.file_path)
+union all
+select
+  b.id::text, 'medical_billing_resources', b.name, b.file_path, null, null, null,
+  b.name, null, 'billing', to_tsvector('english', b.name)
+from public.medical_billing_resources b
+where b.file_path is null
+  or not exists (select 1 from public.storage_files_catalog c where c.file_path = b.file_path);
+
+grant select on public.searchable_resources to authenticated;
+
+-- Matching rows with a relevance score.
+-- programs: program folders the caller may see (null = none); include_global adds the global folders.
+create or replace function public.search_resource_matches(
+  q text,
+  programs text[] default null,
+  include_global boolean default true
+)
+returns table (
+  id text,
+  source text,
+  file_name text,
+  file_path text,
+  file_url text,
+  mime_type text,
+  file_size bigint,
+  title text,
+  program_slug text,
+  category text,
+  rank real
+)
+language sql stable as $$
+  with query as (
+    select websearch_to_tsquery('english', coalesce(q, '')) as tsq, lower(trim(coalesce(q, ''))) as raw
+  )
+  select
+    r.id, r.source, r.file_name, r.file_path, r.file_url, r.mime_type, r.file_size,
+    r.title, r.program_slug, r.category,
+    (ts_rank(r.search_vector, query.tsq) + similarity(lower(r.title), query.raw))::real as rank
+  from public.searchable_resources r, query
+  where query.raw <> ''
+    and (
+      r.search_vector @@ query.tsq
+      or lower(r.title) % query.raw
+      or strpos(lower(r.title), query.raw) > 0
+    )
+    and (
+      (r.program_slug is null and include_global)
+      or r.program_slug = any (coalesce(programs, '{}'::text[]))
+    )
+$$;
+
+-- Paginated hits, best first; total_count is the full match count (same on every row).
+create or replace function public.search_resources(
+  q text,
+  programs text[] default null,
+  include_global boolean default true,
+  categories text[] default null,
+  page_offset integer default 0,
+  page_limit integer default 20
+)
+returns table (
+  id text,
+  source text,
+  file_name text,
+  file_path text,
+  file_url text,
+  mime_type text,
+  file_size bigint,
+  title text,
+  program_slug text,
+  category text,
+  rank real,
+  total_count bigint
+)
+language sql stable as $$
+  select m.*, count(*) over () as total_count
+  from public.search_resource_matches(q, programs, include_global) m
+  where categories is null or m.category = any (categories)
+  order by m.rank desc, m.title asc
+  offset greatest(page_offset, 0)
+  limit least(greatest(page_limit, 1), 100)
+$$;
+
+-- Match counts per program/category for the same query (ignores the caller's facet selection).
+create or replace function public.search_resource_facets(
+  q text,
+  programs text[] default null,
+  include_global boolean default true
+)
+returns table (program_slug text, category text, hits bigint)
+language sql stable as $$
+  select m.program_slug, m.category, count(*) as hits
+  from public.search_resource_matches(q, programs, include_global) m
+  group by m.program_slug, m.category
+$$;
+
+grant execute on function public.search_resource_matches(text, text[], boolean) to authenticated;
+grant execute on function public.search_resources(text, text[], boolean, text[], integer, integer) to authenticated;
+grant execute on function public.search_resource_facets(text, text[], boolean) to authenticated;
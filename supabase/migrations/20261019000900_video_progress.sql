@@ -0,0 +1,16 @@
+-- Per-member playback position for training videos (video_path is the bucket path).
+
+create table if not exists public.video_progress (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  video_path text not null,
+  position_seconds numeric not null default 0,
+  duration_seconds numeric,
+  completed boolean not null default false,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, video_path)
+);
+
+alter table public.video_progress enable row level security;
+drop policy if exists "own video progress" on public.video_progress;
+create policy "own video progress" on public.video_progress
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,35 @@
+-- Training module completion per member. A module is a file under <program>/training/ (module_path is the bucket path);
+-- caption sidecars (.vtt) are not modules.
+
+create table if not exists public.module_progress (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  module_path text not null,
+  program_slug text not null,
+  -- 'auto' = watched to the end in the player, 'manual' = marked complete by the member
+  source text not null default 'manual' check (source in ('auto', 'manual')),
+  completed_at timestamptz not null default now(),
+  primary key (user_id, module_path)
+);
+
+create index if not exists module_progress_user_program_idx
+  on public.module_progress (user_id, program_slug);
+
+alter table public.module_progress enable row level security;
+drop policy if exists "own module progress" on public.module_progress;
+create policy "own module progress" on public.module_progress
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Modules per program, straight from the catalog (security_invoker keeps the catalog's read policy in force).
+create or replace view public.program_training_modules
+  with (security_invoker = true) as
+select
+  public.resource_program(file_path) as program_slug,
+  file_path as module_path,
+  file_name
+from public.storage_files_catalog
+where bucket_name = 'clinicalrxqfiles'
+  and public.resource_category(file_path) = 'training'
+  and public.resource_program(file_path) is not null
+  and lower(file_name) not like '%.vtt';
+
+grant select on public.program_training_modules to authenticated;
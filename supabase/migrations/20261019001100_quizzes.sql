@@ -0,0 +1,233 @@
+-- Continuing-education quizzes and certificates of completion.
+-- Quizzes follow a training module (module_path) or close out a program (module_path null).
+-- Answer keys are never readable by members: attempts are graded by rpc/grade_quiz_attempt and
+-- certificates are issued by rpc/issue_program_certificate (both security definer).
+-- Attempts and certificates are kept as the audit record of technician training.
+
+create table if not exists public.quizzes (
+  id uuid primary key default gen_random_uuid(),
+  program_slug text not null,
+  module_path text,
+  title text not null,
+  description text,
+  passing_score integer not null default 80 check (passing_score between 0 and 100),
+  -- null = unlimited attempts
+  max_attempts integer check (max_attempts is null or max_attempts > 0),
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quizzes_program_idx on public.quizzes (program_slug, sort_order);
+
+create table if not exists public.quiz_questions (
+  id uuid primary key default gen_random_uuid(),
+  quiz_id uuid not null references public.quizzes (id) on delete cascade,
+  prompt text not null,
+  -- 'single' = multiple choice (one answer), 'multiple' = select all that apply
+  kind text not null default 'single' check (kind in ('single', 'multiple')),
+  -- [{"id": "a", "text": "..."}, ...]
+  options jsonb not null,
+  correct_options text[] not null,
+  sort_order integer not null default 0
+);
+
+create index if not exists quiz_questions_quiz_idx on public.quiz_questions (quiz_id, sort_order);
+
+alter table public.quizzes enable row level security;
+drop policy if exists "members read quizzes" on public.quizzes;
+create policy "members read quizzes" on public.quizzes for select to authenticated using (true);
+
+alter table public.quiz_questions enable row level security;
+drop policy if exists "members read quiz questions" on public.quiz_questions;
+create policy "members read quiz questions" on public.quiz_questions for select to authenticated using (true);
+-- Everything except the answer key
+revoke select on public.quiz_questions from authenticated;
+grant select (id, quiz_id, prompt, kind, options, sort_order) on public.quiz_questions to authenticated;
+
+create table if not exists public.quiz_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  quiz_id uuid not null references public.quizzes (id) on delete cascade,
+  -- {"<question id>": ["a", "c"], ...}
+  answers jsonb not null,
+  score integer not null,
+  passed boolean not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quiz_attempts_user_quiz_idx on public.quiz_attempts (user_id, quiz_id);
+
+alter table public.quiz_attempts enable row level security;
+drop policy if exists "own quiz attempts read" on public.quiz_attempts;
+create policy "own quiz attempts read" on public.quiz_attempts
+  for select to authenticated using (user_id = auth.uid());
+revoke insert, update, delete on public.quiz_attempts from authenticated;
+
+create table if not exists public.certificates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  program_slug text not null,
+  certificate_number text not null unique,
+  -- Snapshot at issue time, so the certificate reads the same later
+  member_name text not null,
+  pharmacy_name text,
+  program_name text not null,
+  completed_at timestamptz not null,
+  issued_at timestamptz not null default now(),
+  unique (user_id, program_slug)
+);
+
+alter table public.certificates enable row level security;
+drop policy if exists "own certificates read" on public.certificates;
+create policy "own certificates read" on public.certificates
+  for select to authenticated using (user_id = auth.uid());
+revoke insert, update, delete on public.certificates from authenticated;
+
+-- Grade an attempt server-side. Enforces max_attempts; returns the score and which questions were right.
+create or replace function public.grade_quiz_attempt(p_quiz_id uuid, p_answers jsonb)
+returns table (
+  attempt_id uuid,
+  score integer,
+  passed boolean,
+  attempts_used integer,
+  max_attempts integer,
+  correct_question_ids uuid[]
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_user uuid := auth.uid();
+  v_quiz public.quizzes%rowtype;
+  v_used integer;
+  v_total integer;
+  v_correct uuid[];
+  v_score integer;
+  v_id uuid;
+begin
+  if v_user is null then
+    raise exception 'You must be signed in to take a quiz.' using errcode = '28000';
+  end if;
+
+  select * into v_quiz from public.quizzes q where q.id = p_quiz_id;
+  if not found then
+    raise exception 'Quiz not found.' using errcode = 'P0002';
+  end if;
+
+  select count(*) into v_used from public.quiz_attempts a where a.user_id = v_user and a.quiz_id = p_quiz_id;
+  if v_quiz.max_attempts is not null and v_used >= v_quiz.max_attempts then
+    raise exception 'No attempts left for this quiz.' using errcode = 'P0001';
+  end if;
+
+  select count(*) into v_total from public.quiz_questions qq where qq.quiz_id = p_quiz_id;
+
+  -- A question is right when the chosen option set equals the answer key exactly
+  select coalesce(array_agg(qq.id), '{}') into v_correct
+  from public.quiz_questions qq
+  where qq.quiz_id = p_quiz_id
+    and (
+      select coalesce(array_agg(distinct chosen.v order by chosen.v), '{}')
+      from jsonb_array_elements_text(
+        case when jsonb_typeof(p_answers -> qq.id::text) = 'array' then p_answers -> qq.id::text else '[]'::jsonb end
+      ) as chosen(v)
+    ) = (
+      select coalesce(array_agg(distinct k.v order by k.v), '{}')
+      from unnest(qq.correct_options) as k(v)
+    );
+
+  v_score := case when v_total = 0 then 0 else round(100.0 * coalesce(array_length(v_correct, 1), 0) / v_total) end;
+
+  insert into public.quiz_attempts (user_id, quiz_id, answers, score, passed)
+  values (v_user, p_quiz_id, p_answers, v_score, v_score >= v_quiz.passing_score)
+  returning id into v_id;
+
+  return query
+  select v_id, v_score, v_score >= v_quiz.passing_score, v_used + 1, v_quiz.max_attempts, v_correct;
+end
+$$;
+
+-- Issue (or return the existing) certificate once every training module is complete and every quiz is passed.
+create or replace function public.issue_program_certificate(p_program_slug text, p_program_name text default null)
+returns public.certificates
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_cert public.certificates%rowtype;
+  v_modules integer;
+  v_open_modules integer;
+  v_quizzes integer;
+  v_open_quizzes integer;
+  v_completed_at timestamptz;
+  v_profile public.profiles%rowtype;
+begin
+  if v_user is null then
+    raise exception 'You must be signed in.' using errcode = '28000';
+  end if;
+
+  select * into v_cert from public.certificates c where c.user_id = v_user and c.program_slug = p_program_slug;
+  if found then
+    return v_cert;
+  end if;
+
+  select count(*), count(*) filter (where mp.module_path is null)
+  into v_modules, v_open_modules
+  from public.program_training_modules m
+  left join public.module_progress mp on mp.module_path = m.module_path and mp.user_id = v_user
+  where m.program_slug = p_program_slug;
+
+  select count(*), count(*) filter (
+    where not exists (
+      select 1 from public.quiz_attempts a where a.quiz_id = q.id and a.user_id = v_user and a.passed
+    )
+  )
+  into v_quizzes, v_open_quizzes
+  from public.quizzes q
+  where q.program_slug = p_program_slug;
+
+  if v_modules + v_quizzes = 0 then
+    raise exception 'This program has no training to complete yet.' using errcode = 'P0001';
+  end if;
+  if v_open_modules > 0 or v_open_quizzes > 0 then
+    raise exception 'Complete every training module and pass every quiz first.' using errcode = 'P0001';
+  end if;
+
+  select greatest(
+    (select max(mp.completed_at) from public.module_progress mp
+      where mp.user_id = v_user and mp.program_slug = p_program_slug),
+    (select max(a.created_at) from public.quiz_attempts a
+      join public.quizzes q on q.id = a.quiz_id
+      where a.user_id = v_user and a.passed and q.program_slug = p_program_slug)
+  ) into v_completed_at;
+
+  select * into v_profile from public.profiles p where p.id = v_user;
+
+  insert into public.certificates (
+    user_id, program_slug, certificate_number, member_name, pharmacy_name, program_name, completed_at
+  ) values (
+    v_user,
+    p_program_slug,
+    'CRXQ-' || to_char(now(), 'YYYY') || '-' || upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8)),
+    coalesce(nullif(trim(concat_ws(' ', v_profile.first_name, v_profile.last_name)), ''), v_profile.email, 'Member'),
+    v_profile.pharmacy_name,
+    coalesce(
+      (select pr.name from public.programs pr where pr.slug = p_program_slug limit 1),
+      nullif(p_program_name, ''),
+      p_program_slug
+    ),
+    coalesce(v_completed_at, now())
+  )
+  returning * into v_cert;
+
+  return v_cert;
+end
+$$;
+
+revoke execute on function public.grade_quiz_attempt(uuid, jsonb) from public;
+revoke execute on function public.issue_program_certificate(text, text) from public;
+grant execute on function public.grade_quiz_attempt(uuid, jsonb) to authenticated;
+grant execute on function public.issue_program_certificate(text, text) to authenticated;
@@ -0,0 +1,43 @@
+-- Admin content management: admins upload, rename/move and delete objects in clinicalrxqfiles
+-- and keep storage_files_catalog in step from the /admin console.
+-- Admin = profiles.role 'admin' or app_metadata.role 'admin' (same rule as the client's authStore).
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin'
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+$$;
+
+grant execute on function public.is_admin() to authenticated;
+
+-- Display title shown instead of the file name (null = file name without extension).
+alter table public.storage_files_catalog
+  add column if not exists display_title text;
+
+-- One catalog row per object; the console upserts on it.
+create unique index if not exists storage_files_catalog_bucket_path_key
+  on public.storage_files_catalog (bucket_name, file_path);
+
+drop policy if exists "admins manage catalog" on public.storage_files_catalog;
+create policy "admins manage catalog" on public.storage_files_catalog
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- Storage objects: write access for admins only (reads stay as in member_rls).
+drop policy if exists "admins upload clinicalrxqfiles" on storage.objects;
+create policy "admins upload clinicalrxqfiles" on storage.objects
+  for insert to authenticated with check (bucket_id = 'clinicalrxqfiles' and public.is_admin());
+
+drop policy if exists "admins update clinicalrxqfiles" on storage.objects;
+create policy "admins update clinicalrxqfiles" on storage.objects
+  for update to authenticated
+  using (bucket_id = 'clinicalrxqfiles' and public.is_admin())
+  with check (bucket_id = 'clinicalrxqfiles' and public.is_admin());
+
+drop policy if exists "admins delete clinicalrxqfiles" on storage.objects;
+create policy "admins delete clinicalrxqfiles" on storage.objects
+  for delete to authenticated using (bucket_id = 'clinicalrxqfiles' and public.is_admin());
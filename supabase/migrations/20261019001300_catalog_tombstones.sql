@@ -0,0 +1,79 @@
+-- Catalog reconciliation (scripts/reconcileStorageCatalog.ts): rows whose object is gone from the bucket are
+-- tombstoned (deleted_at set) instead of deleted, so the drift stays visible and the row can be restored if the
+-- object comes back. Every catalog reader skips tombstoned rows.
+
+alter table public.storage_files_catalog
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists storage_files_catalog_live_idx
+  on public.storage_files_catalog (bucket_name, file_path)
+  where deleted_at is null;
+
+-- Members never see tombstones; admins still do (the console and the reconcile report need them).
+drop policy if exists "members can read" on public.storage_files_catalog;
+create policy "members can read" on public.storage_files_catalog
+  for select to authenticated using (deleted_at is null or public.is_admin());
+
+create or replace view public.program_resource_stats
+  with (security_invoker = true) as
+select
+  lower(split_part(file_path, '/', 1)) as program_slug,
+  count(*) as resource_count,
+  max(coalesce(last_modified, updated_at, created_at)) as last_updated
+from public.storage_files_catalog
+where bucket_name = 'clinicalrxqfiles'
+  and deleted_at is null
+group by 1;
+
+create or replace view public.program_training_modules
+  with (security_invoker = true) as
+select
+  public.resource_program(file_path) as program_slug,
+  file_path as module_path,
+  file_name
+from public.storage_files_catalog
+where bucket_name = 'clinicalrxqfiles'
+  and deleted_at is null
+  and public.resource_category(file_path) = 'training'
+  and public.resource_program(file_path) is not null
+  and lower(file_name) not like '%.vtt';
+
+-- Same shape as before; skips tombstones and prefers the admin display title.
+create or replace view public.searchable_resources
+  with (security_invoker = true) as
+select
+  c.id::text as id,
+  'catalog'::text as source,
+  c.file_name,
+  c.file_path,
+  c.file_url,
+  c.mime_type,
+  c.file_size::bigint as file_size,
+  coalesce(nullif(trim(c.display_title), ''), public.resource_search_title(c.file_name)) as title,
+  public.resource_program(c.file_path) as program_slug,
+  public.resource_category(c.file_path) as category,
+  c.search_vector
+from public.storage_files_catalog c
+where c.bucket_name = 'clinicalrxqfiles'
+  and c.deleted_at is null
+union all
+select
+  h.id::text, 'patient_handouts', h.name, h.file_path, null, null, null,
+  h.name, null, 'handouts', to_tsvector('english', h.name)
+from public.patient_handouts h
+where h.file_path is null
+  or not exists (select 1 from public.storage_files_catalog c where c.file_path = h.file_path and c.deleted_at is null)
+union all
+select
+  g.id::text, 'clinical_guidelines', g.name, g.file_path, g.link, null, null,
+  g.name, null, 'guidelines', to_tsvector('english', g.name)
+from public.clinical_guidelines g
+where g.file_path is null
+  or not exists (select 1 from public.storage_files_catalog c where c.file_path = g.file_path and c.deleted_at is null)
+union all
+select
+  b.id::text, 'medical_billing_resources', b.name, b.file_path, null, null, null,
+  b.name, null, 'billing', to_tsvector('english', b.name)
+from public.medical_billing_resources b
+where b.file_path is null
+  or not exists (select 1 from public.storage_files_catalog c where c.file_path = b.file_path and c.deleted_at is null);
@@ -0,0 +1,24 @@
+-- Structured resource metadata on catalog rows (edited by admins from /admin, shown on resource cards and rows,
+-- filterable in the Resource Library). Every column is optional; an empty row behaves exactly as before.
+
+alter table public.storage_files_catalog
+  add column if not exists description text,
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists audience text[] not null default '{}',
+  add column if not exists payer_relevance text[] not null default '{}',
+  add column if not exists version text,
+  add column if not exists effective_date date,
+  add column if not exists review_by date;
+
+alter table public.storage_files_catalog
+  drop constraint if exists storage_files_catalog_audience_check,
+  add constraint storage_files_catalog_audience_check
+    check (audience <@ array['pharmacist', 'technician', 'patient']::text[]),
+  drop constraint if exists storage_files_catalog_payer_relevance_check,
+  add constraint storage_files_catalog_payer_relevance_check
+    check (payer_relevance <@ array['medicare', 'medicaid', 'commercial', 'cash']::text[]);
+
+create index if not exists storage_files_catalog_tags_idx
+  on public.storage_files_catalog using gin (tags);
+create index if not exists storage_files_catalog_audience_idx
+  on public.storage_files_catalog using gin (audience);
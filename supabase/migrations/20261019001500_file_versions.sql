@@ -0,0 +1,98 @@
+-- Document versioning: every upload or replacement of a catalog file records a version (timestamp, uploader,
+-- version label, change note). Replaced content is archived under _versions/ in the same bucket (admins only),
+-- members see the change history per program and an "Updated" badge for files changed since their last visit.
+
+create table if not exists public.storage_file_versions (
+  id uuid primary key default gen_random_uuid(),
+  bucket_name text not null default 'clinicalrxqfiles',
+  file_path text not null,
+  kind text not null default 'upload' check (kind in ('upload', 'replace')),
+  version_label text,
+  change_note text,
+  file_size bigint,
+  mime_type text,
+  -- Storage path of this version's content once it has been replaced (null = current content at file_path)
+  archived_path text,
+  uploaded_by uuid default auth.uid() references auth.users (id) on delete set null,
+  uploader_name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists storage_file_versions_path_idx
+  on public.storage_file_versions (bucket_name, file_path, created_at desc);
+create index if not exists storage_file_versions_created_idx
+  on public.storage_file_versions (created_at desc);
+
+-- Uploader name snapshot (so history survives profile edits and deleted users)
+create or replace function public.storage_file_versions_set_uploader()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.uploader_name is null and new.uploaded_by is not null then
+    select nullif(trim(concat_ws(' ', p.first_name, p.last_name)), '')
+      into new.uploader_name
+      from public.profiles p
+     where p.id = new.uploaded_by;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists storage_file_versions_set_uploader on public.storage_file_versions;
+create trigger storage_file_versions_set_uploader
+  before insert on public.storage_file_versions
+  for each row execute function public.storage_file_versions_set_uploader();
+
+-- Version rows (including archive locations) are admin-only; members read the change feed below.
+alter table public.storage_file_versions enable row level security;
+
+drop policy if exists "admins manage file versions" on public.storage_file_versions;
+create policy "admins manage file versions" on public.storage_file_versions
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
+
+-- Member-facing change feed: live catalog files only, no archive paths or uploader ids.
+-- Runs with the owner's rights (not security_invoker) so members can read it without reading the table.
+create or replace view public.program_file_changes as
+select
+  v.id,
+  public.resource_program(v.file_path) as program_slug,
+  v.file_path,
+  coalesce(nullif(trim(c.display_title), ''), public.resource_search_title(c.file_name)) as title,
+  v.kind,
+  v.version_label,
+  v.change_note,
+  v.uploader_name,
+  v.created_at
+from public.storage_file_versions v
+join public.storage_files_catalog c
+  on c.bucket_name = v.bucket_name
+ and c.file_path = v.file_path
+ and c.deleted_at is null
+where v.bucket_name = 'clinicalrxqfiles'
+  and public.resource_program(v.file_path) is not null;
+
+revoke all on public.program_file_changes from anon;
+grant select on public.program_file_changes to authenticated;
+
+-- Last visit per member and program (drives the "Updated" badge)
+create table if not exists public.program_visits (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  program_slug text not null,
+  visited_at timestamptz not null default now(),
+  primary key (user_id, program_slug)
+);
+
+alter table public.program_visits enable row level security;
+
+drop policy if exists "own program visits" on public.program_visits;
+create policy "own program visits" on public.program_visits
+  for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Archived versions live under _versions/; members may not read them.
+drop policy if exists "members can read clinicalrxqfiles" on storage.objects;
+create policy "members can read clinicalrxqfiles" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'clinicalrxqfiles' and (split_part(name, '/', 1) <> '_versions' or public.is_admin()));
@@ -0,0 +1,136 @@
+-- Content review workflow: each catalog resource can have a review owner next to its review-by date
+-- (resource metadata); admins work a queue of resources due for review, and marking one reviewed records
+-- who and when (plus a log row) and schedules the next review.
+
+alter table public.storage_files_catalog
+  add column if not exists review_owner uuid references auth.users (id) on delete set null,
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists reviewed_by uuid references auth.users (id) on delete set null;
+
+create index if not exists storage_files_catalog_review_by_idx
+  on public.storage_files_catalog (review_by)
+  where deleted_at is null and review_by is not null;
+
+-- Every review, for audit
+create table if not exists public.resource_reviews (
+  id uuid primary key default gen_random_uuid(),
+  bucket_name text not null default 'clinicalrxqfiles',
+  file_path text not null,
+  reviewed_by uuid references auth.users (id) on delete set null,
+  reviewer_name text,
+  note text,
+  previous_review_by date,
+  next_review_by date,
+  reviewed_at timestamptz not null default now()
+);
+
+create index if not exists resource_reviews_path_idx
+  on public.resource_reviews (bucket_name, file_path, reviewed_at desc);
+
+alter table public.resource_reviews enable row level security;
+
+drop policy if exists "admins read resource reviews" on public.resource_reviews;
+create policy "admins read resource reviews" on public.resource_reviews
+  for select to authenticated using (public.is_admin());
+
+-- Display name for a user (profile name, else email)
+create or replace function public.profile_display_name(p_user uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(nullif(trim(concat_ws(' ', p.first_name, p.last_name)), ''), p.email)
+  from public.profiles p
+  where p.id = p_user
+$$;
+
+revoke execute on function public.profile_display_name(uuid) from public;
+
+-- Admins (review owner choices)
+create or replace function public.list_admins()
+returns table (id uuid, name text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, public.profile_display_name(p.id)
+  from public.profiles p
+  where p.role = 'admin' and public.is_admin()
+  order by 2
+$$;
+
+revoke execute on function public.list_admins() from public;
+grant execute on function public.list_admins() to authenticated;
+
+-- Review queue: live resources with a review-by date, with owner / last reviewer names. Admins only.
+create or replace view public.resource_review_queue as
+select
+  c.id,
+  c.file_path,
+  coalesce(nullif(trim(c.display_title), ''), public.resource_search_title(c.file_name)) as title,
+  public.resource_program(c.file_path) as program_slug,
+  public.resource_category(c.file_path) as category,
+  c.review_by,
+  c.review_owner,
+  public.profile_display_name(c.review_owner) as owner_name,
+  c.reviewed_at,
+  public.profile_display_name(c.reviewed_by) as reviewed_by_name
+from public.storage_files_catalog c
+where c.bucket_name = 'clinicalrxqfiles'
+  and c.deleted_at is null
+  and c.review_by is not null
+  and public.is_admin();
+
+revoke all on public.resource_review_queue from anon;
+grant select on public.resource_review_queue to authenticated;
+
+-- Mark a resource reviewed: stamps reviewer + time, schedules the next review (default one year out), logs it.
+create or replace function public.mark_resource_reviewed(
+  p_file_path text,
+  p_next_review_by date default null,
+  p_note text default null
+)
+returns public.resource_review_queue
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_previous date;
+  v_next date;
+  v_row public.resource_review_queue;
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can review content.' using errcode = '42501';
+  end if;
+
+  select c.review_by into v_previous
+  from public.storage_files_catalog c
+  where c.bucket_name = 'clinicalrxqfiles' and c.file_path = p_file_path and c.deleted_at is null;
+  if not found then
+    raise exception 'That resource is not in the catalog.' using errcode = 'P0002';
+  end if;
+
+  v_next := coalesce(p_next_review_by, (current_date + interval '1 year')::date);
+  if v_next <= current_date then
+    raise exception 'The next review date must be in the future.' using errcode = 'P0001';
+  end if;
+
+  update public.storage_files_catalog
+     set reviewed_at = now(), reviewed_by = v_user, review_by = v_next, updated_at = now()
+   where bucket_name = 'clinicalrxqfiles' and file_path = p_file_path;
+
+  insert into public.resource_reviews (file_path, reviewed_by, reviewer_name, note, previous_review_by, next_review_by)
+  values (p_file_path, v_user, public.profile_display_name(v_user), nullif(trim(p_note), ''), v_previous, v_next);
+
+  select * into v_row from public.resource_review_queue q where q.file_path = p_file_path;
+  return v_row;
+end
+$$;
+
+revoke execute on function public.mark_resource_reviewed(text, date, text) from public;
+grant execute on function public.mark_resource_reviewed(text, date, text) to authenticated;
@@ -0,0 +1,38 @@
+-- Programs table as the single source of program metadata (names, descriptions, overview, experience level,
+-- sidebar/dashboard icon, order, published flag). Adding a program = adding a row here plus its bucket folder.
+
+alter table public.programs
+  add column if not exists icon text,
+  add column if not exists sort_order integer not null default 0,
+  add column if not exists published boolean not null default true;
+
+create unique index if not exists programs_slug_key on public.programs (slug);
+
+-- Seed the existing programs (keeps any name/description already in the table).
+insert into public.programs (slug, name, description, icon, sort_order)
+values
+  ('timemymeds', 'TimeMyMeds',
+   'Appointment-based synchronization to enable consistent clinical service delivery.', 'CalendarCheck', 10),
+  ('mtmthefuturetoday', 'MTM The Future Today',
+   'Team-based Medication Therapy Management program with proven protocols and scalable results.', 'ClipboardCheck', 20),
+  ('testandtreat', 'Test & Treat Services',
+   'Patient assessments, CLIA-waived testing, and treatment guidance for flu, strep, and COVID-19.', 'Stethoscope', 30),
+  ('hba1c', 'HbA1c Testing',
+   'Training and resources for A1c point-of-care testing and quality metrics.', 'Activity', 40),
+  ('oralcontraceptives', 'Pharmacist-Initiated Oral Contraceptives',
+   'From patient intake to billing and documentation—simplified, step-by-step service workflows.', 'TestTubes', 50)
+on conflict (slug) do update set
+  description = coalesce(public.programs.description, excluded.description),
+  icon = coalesce(public.programs.icon, excluded.icon),
+  sort_order = case when public.programs.sort_order = 0 then excluded.sort_order else public.programs.sort_order end;
+
+-- Unpublished programs are visible to admins only (preview before launch).
+-- The policy also applies to anon (marketing pages), so anon needs is_admin() too (always false without a session).
+grant execute on function public.is_admin() to anon;
+drop policy if exists "programs are public" on public.programs;
+create policy "programs are public" on public.programs
+  for select to anon, authenticated using (published or public.is_admin());
+
+drop policy if exists "admins manage programs" on public.programs;
+create policy "admins manage programs" on public.programs
+  for all to authenticated using (public.is_admin()) with check (public.is_admin());
@@ -0,0 +1,394 @@
+-- Team accounts: a pharmacy (organization) owns the subscription and its staff share it.
+-- Roles: owner (manages the team), pharmacist, technician. A member belongs to at most one organization.
+-- Seats: members plus pending invites may not exceed the seat limit of the organization's active plan.
+-- All writes go through the security definer functions below, which enforce roles and seat limits.
+
+-- Plans (seat limits; pricing is added with checkout)
+create table if not exists public.plans (
+  code text primary key,
+  name text not null,
+  seat_limit integer not null check (seat_limit > 0),
+  -- Program slugs the plan covers ('all' = every program)
+  programs text[] not null default '{all}',
+  sort_order integer not null default 0,
+  active boolean not null default true
+);
+
+alter table public.plans enable row level security;
+drop policy if exists "plans are public" on public.plans;
+create policy "plans are public" on public.plans
+  for select to anon, authenticated using (active or public.is_admin());
+
+insert into public.plans (code, name, seat_limit, sort_order)
+values
+  ('individual', 'Individual', 1, 10),
+  ('team', 'Pharmacy Team', 8, 20),
+  ('multisite', 'Multi-site', 25, 30)
+on conflict (code) do nothing;
+
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.organization_members (
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'pharmacist', 'technician')),
+  joined_at timestamptz not null default now(),
+  primary key (organization_id, user_id)
+);
+
+create table if not exists public.organization_invites (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'pharmacist', 'technician')),
+  invited_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '14 days',
+  accepted_at timestamptz,
+  accepted_by uuid references auth.users (id) on delete set null
+);
+
+create unique index if not exists organization_invites_pending_key
+  on public.organization_invites (organization_id, lower(email))
+  where accepted_at is null;
+
+-- Subscriptions may belong to an organization instead of a single member
+alter table public.subscriptions
+  add column if not exists organization_id uuid references public.organizations (id) on delete cascade,
+  add column if not exists plan_code text references public.plans (code);
+alter table public.subscriptions alter column user_id drop not null;
+alter table public.subscriptions drop constraint if exists subscriptions_owner_check;
+alter table public.subscriptions
+  add constraint subscriptions_owner_check check (user_id is not null or organization_id is not null);
+
+create index if not exists subscriptions_organization_id_idx on public.subscriptions (organization_id);
+
+-- The caller's organization (null when not on a team)
+create or replace function public.current_organization_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.organization_id from public.organization_members m where m.user_id = auth.uid()
+$$;
+
+create or replace function public.is_organization_owner(p_org uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.organization_members m
+    where m.organization_id = p_org and m.user_id = auth.uid() and m.role = 'owner'
+  )
+$$;
+
+-- Seats on the organization's best active plan (1 without a plan: the owner alone)
+create or replace function public.organization_seat_limit(p_org uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(max(coalesce(p.seat_limit, 1)), 1)
+  from public.subscriptions s
+  left join public.plans p on p.code = s.plan_code
+  where s.organization_id = p_org and s.status = 'active' and s.end_date >= now()
+$$;
+
+-- Members plus pending (unexpired) invites
+create or replace function public.organization_seats_used(p_org uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (select count(*) from public.organization_members m where m.organization_id = p_org)::integer
+       + (select count(*) from public.organization_invites i
+          where i.organization_id = p_org and i.accepted_at is null and i.expires_at > now())::integer
+$$;
+
+revoke execute on function public.current_organization_id() from public;
+revoke execute on function public.is_organization_owner(uuid) from public;
+revoke execute on function public.organization_seat_limit(uuid) from public;
+revoke execute on function public.organization_seats_used(uuid) from public;
+grant execute on function public.current_organization_id() to authenticated;
+grant execute on function public.is_organization_owner(uuid) to authenticated;
+
+alter table public.organizations enable row level security;
+drop policy if exists "members read own organization" on public.organizations;
+create policy "members read own organization" on public.organizations
+  for select to authenticated using (id = public.current_organization_id() or public.is_admin());
+drop policy if exists "owners rename organization" on public.organizations;
+create policy "owners rename organization" on public.organizations
+  for update to authenticated using (public.is_organization_owner(id)) with check (public.is_organization_owner(id));
+revoke insert, update, delete on public.organizations from authenticated;
+grant update (name) on public.organizations to authenticated;
+
+alter table public.organization_members enable row level security;
+drop policy if exists "members read own team" on public.organization_members;
+create policy "members read own team" on public.organization_members
+  for select to authenticated using (organization_id = public.current_organization_id() or public.is_admin());
+revoke insert, update, delete on public.organization_members from authenticated;
+
+alter table public.organization_invites enable row level security;
+drop policy if exists "owners read invites" on public.organization_invites;
+create policy "owners read invites" on public.organization_invites
+  for select to authenticated using (public.is_organization_owner(organization_id) or public.is_admin());
+revoke insert, update, delete on public.organization_invites from authenticated;
+
+-- Staff read their organization's subscriptions (entitlements)
+drop policy if exists "organization subscriptions read" on public.subscriptions;
+create policy "organization subscriptions read" on public.subscriptions
+  for select to authenticated
+  using (organization_id is not null and organization_id = public.current_organization_id());
+
+-- The caller's organization with their role and seat usage
+create or replace view public.my_organization as
+select
+  o.id,
+  o.name,
+  m.role,
+  public.organization_seat_limit(o.id) as seat_limit,
+  public.organization_seats_used(o.id) as seats_used
+from public.organization_members m
+join public.organizations o on o.id = m.organization_id
+where m.user_id = auth.uid();
+
+-- Team roster (names and emails of the caller's teammates)
+create or replace view public.organization_roster as
+select
+  m.organization_id,
+  m.user_id,
+  m.role,
+  m.joined_at,
+  public.profile_display_name(m.user_id) as name,
+  p.email
+from public.organization_members m
+left join public.profiles p on p.id = m.user_id
+where m.organization_id = public.current_organization_id();
+
+revoke all on public.my_organization from anon;
+revoke all on public.organization_roster from anon;
+grant select on public.my_organization to authenticated;
+grant select on public.organization_roster to authenticated;
+
+-- Start a team: the caller becomes its owner and their own subscriptions move to it
+create or replace function public.create_organization(p_name text)
+returns public.organizations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_org public.organizations%rowtype;
+begin
+  if v_user is null then
+    raise exception 'You must be signed in.' using errcode = '28000';
+  end if;
+  if exists (select 1 from public.organization_members m where m.user_id = v_user) then
+    raise exception 'You already belong to a team.' using errcode = 'P0001';
+  end if;
+  if length(trim(coalesce(p_name, ''))) = 0 then
+    raise exception 'Enter the pharmacy name.' using errcode = 'P0001';
+  end if;
+
+  insert into public.organizations (name, created_by) values (trim(p_name), v_user) returning * into v_org;
+  insert into public.organization_members (organization_id, user_id, role) values (v_org.id, v_user, 'owner');
+  update public.subscriptions set organization_id = v_org.id where user_id = v_user and organization_id is null;
+  return v_org;
+end
+$$;
+
+-- Invite staff by email (owners only). Re-inviting a pending address refreshes the invite.
+create or replace function public.invite_organization_member(p_email text, p_role text)
+returns public.organization_invites
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_org uuid := public.current_organization_id();
+  v_email text := lower(trim(coalesce(p_email, '')));
+  v_invite public.organization_invites%rowtype;
+  v_limit integer;
+begin
+  if v_org is null or not public.is_organization_owner(v_org) then
+    raise exception 'Only team owners can invite staff.' using errcode = '42501';
+  end if;
+  if v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' then
+    raise exception 'Enter a valid email address.' using errcode = 'P0001';
+  end if;
+  if p_role not in ('owner', 'pharmacist', 'technician') then
+    raise exception 'Unknown role.' using errcode = 'P0001';
+  end if;
+  if exists (
+    select 1 from public.organization_members m join public.profiles p on p.id = m.user_id
+    where m.organization_id = v_org and lower(p.email) = v_email
+  ) then
+    raise exception 'That person is already on your team.' using errcode = 'P0001';
+  end if;
+
+  update public.organization_invites i
+     set role = p_role, invited_by = v_user, created_at = now(), expires_at = now() + interval '14 days'
+   where i.organization_id = v_org and lower(i.email) = v_email and i.accepted_at is null
+  returning * into v_invite;
+  if found then
+    return v_invite;
+  end if;
+
+  v_limit := public.organization_seat_limit(v_org);
+  if public.organization_seats_used(v_org) >= v_limit then
+    raise exception 'All % seats on your plan are in use. Remove someone or upgrade the plan.', v_limit
+      using errcode = 'P0001';
+  end if;
+
+  insert into public.organization_invites (organization_id, email, role, invited_by)
+  values (v_org, v_email, p_role, v_user)
+  returning * into v_invite;
+  return v_invite;
+end
+$$;
+
+-- Join the team that invited the caller's email (called after sign-in). Returns the organization id, if any.
+create or replace function public.accept_organization_invites()
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_email text := lower(coalesce(auth.jwt() ->> 'email', ''));
+  v_invite public.organization_invites%rowtype;
+  v_current uuid := public.current_organization_id();
+begin
+  if v_user is null then
+    raise exception 'You must be signed in.' using errcode = '28000';
+  end if;
+  if v_current is not null or v_email = '' then
+    return v_current;
+  end if;
+
+  select * into v_invite
+  from public.organization_invites i
+  where lower(i.email) = v_email and i.accepted_at is null and i.expires_at > now()
+  order by i.created_at desc
+  limit 1;
+  if not found then
+    return null;
+  end if;
+
+  -- The pending invite already holds a seat, so accepting it does not change seat usage
+  insert into public.organization_members (organization_id, user_id, role)
+  values (v_invite.organization_id, v_user, v_invite.role);
+  update public.organization_invites set accepted_at = now(), accepted_by = v_user where id = v_invite.id;
+  return v_invite.organization_id;
+end
+$$;
+
+-- Change a teammate's role (owners only; a team keeps at least one owner)
+create or replace function public.set_organization_member_role(p_user_id uuid, p_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_org uuid := public.current_organization_id();
+  v_current text;
+begin
+  if v_org is null or not public.is_organization_owner(v_org) then
+    raise exception 'Only team owners can change roles.' using errcode = '42501';
+  end if;
+  if p_role not in ('owner', 'pharmacist', 'technician') then
+    raise exception 'Unknown role.' using errcode = 'P0001';
+  end if;
+
+  select m.role into v_current from public.organization_members m
+  where m.organization_id = v_org and m.user_id = p_user_id;
+  if not found then
+    raise exception 'That person is not on your team.' using errcode = 'P0002';
+  end if;
+  if v_current = 'owner' and p_role <> 'owner'
+     and (select count(*) from public.organization_members m where m.organization_id = v_org and m.role = 'owner') = 1 then
+    raise exception 'A team needs at least one owner.' using errcode = 'P0001';
+  end if;
+
+  update public.organization_members set role = p_role where organization_id = v_org and user_id = p_user_id;
+end
+$$;
+
+-- Remove a teammate (owners), or leave the team (anyone). The last owner cannot leave.
+create or replace function public.remove_organization_member(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_org uuid := public.current_organization_id();
+  v_role text;
+begin
+  if v_org is null or (p_user_id <> v_user and not public.is_organization_owner(v_org)) then
+    raise exception 'Only team owners can remove staff.' using errcode = '42501';
+  end if;
+
+  select m.role into v_role from public.organization_members m
+  where m.organization_id = v_org and m.user_id = p_user_id;
+  if not found then
+    raise exception 'That person is not on your team.' using errcode = 'P0002';
+  end if;
+  if v_role = 'owner'
+     and (select count(*) from public.organization_members m where m.organization_id = v_org and m.role = 'owner') = 1 then
+    raise exception 'A team needs at least one owner. Make someone else an owner first.' using errcode = 'P0001';
+  end if;
+
+  delete from public.organization_members where organization_id = v_org and user_id = p_user_id;
+end
+$$;
+
+-- Cancel a pending invite (owners only)
+create or replace function public.revoke_organization_invite(p_invite_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.organization_invites i
+    where i.id = p_invite_id and i.accepted_at is null and public.is_organization_owner(i.organization_id)
+  ) then
+    raise exception 'Invite not found.' using errcode = 'P0002';
+  end if;
+  delete from public.organization_invites where id = p_invite_id;
+end
+$$;
+
+revoke execute on function public.create_organization(text) from public;
+revoke execute on function public.invite_organization_member(text, text) from public;
+revoke execute on function public.accept_organization_invites() from public;
+revoke execute on function public.set_organization_member_role(uuid, text) from public;
+revoke execute on function public.remove_organization_member(uuid) from public;
+revoke execute on function public.revoke_organization_invite(uuid) from public;
+grant execute on function public.create_organization(text) to authenticated;
+grant execute on function public.invite_organization_member(text, text) to authenticated;
+grant execute on function public.accept_organization_invites() to authenticated;
+grant execute on function public.set_organization_member_role(uuid, text) to authenticated;
+grant execute on function public.remove_organization_member(uuid) to authenticated;
+grant execute on function public.revoke_organization_invite(uuid) to authenticated;
@@ -0,0 +1,154 @@
+-- Checkout: plans are priced per program bundle and paid through a hosted checkout page (payment provider).
+-- The browser never sees card data: api/checkout/session creates a checkout_sessions row and sends the member to the
+-- provider's page; api/payments/webhook confirms the payment and calls complete_checkout, which activates the
+-- subscription. Both functions use the service role; members can only read their own checkouts.
+
+-- Pricing and marketing copy per plan
+alter table public.plans
+  add column if not exists description text,
+  add column if not exists features text[] not null default '{}',
+  add column if not exists price_cents integer check (price_cents is null or price_cents >= 0),
+  add column if not exists currency text not null default 'usd',
+  add column if not exists term_months integer not null default 12 check (term_months > 0);
+
+update public.plans set
+  description = 'Every clinical program for one pharmacist.',
+  features = array['All clinical programs', 'Training videos, quizzes and certificates', 'Protocols, forms and handouts'],
+  price_cents = 49900
+where code = 'individual' and price_cents is null;
+
+update public.plans set
+  description = 'Every clinical program for your pharmacists and technicians.',
+  features = array['All clinical programs', 'Up to 8 team members', 'Role-based content for technicians'],
+  price_cents = 149900
+where code = 'team' and price_cents is null;
+
+update public.plans set
+  description = 'Every clinical program across several locations.',
+  features = array['All clinical programs', 'Up to 25 team members', 'Role-based content for technicians'],
+  price_cents = 399900
+where code = 'multisite' and price_cents is null;
+
+-- Program bundles (one seat)
+insert into public.plans (code, name, seat_limit, programs, sort_order, description, features, price_cents)
+values
+  ('mtm-sync', 'MTM & Med Sync Bundle', 1, array['mtmthefuturetoday', 'timemymeds'], 1,
+   'Medication therapy management with appointment-based med sync.',
+   array['MTM The Future Today', 'TimeMyMeds', 'Training videos, quizzes and certificates'], 29900),
+  ('test-treat', 'Point-of-Care Testing Bundle', 1, array['testandtreat', 'hba1c'], 2,
+   'CLIA-waived testing and treatment services.',
+   array['Test & Treat Services', 'HbA1c Testing', 'Training videos, quizzes and certificates'], 29900),
+  ('contraception', 'Contraception Services', 1, array['oralcontraceptives'], 3,
+   'Pharmacist-initiated hormonal contraception.',
+   array['Pharmacist-Initiated Oral Contraceptives', 'Training videos, quizzes and certificates'], 14900)
+on conflict (code) do nothing;
+
+-- One row per checkout attempt
+create table if not exists public.checkout_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Set when a team owner buys for their organization
+  organization_id uuid references public.organizations (id) on delete set null,
+  plan_code text not null references public.plans (code),
+  amount_cents integer not null check (amount_cents >= 0),
+  currency text not null,
+  provider text not null,
+  provider_session_id text,
+  provider_payment_id text,
+  status text not null default 'pending' check (status in ('pending', 'completed', 'failed', 'expired')),
+  success_url text not null,
+  cancel_url text not null,
+  subscription_id uuid references public.subscriptions (id) on delete set null,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists checkout_sessions_user_id_idx on public.checkout_sessions (user_id);
+create unique index if not exists checkout_sessions_provider_session_key
+  on public.checkout_sessions (provider, provider_session_id);
+
+alter table public.checkout_sessions enable row level security;
+drop policy if exists "own checkouts read" on public.checkout_sessions;
+create policy "own checkouts read" on public.checkout_sessions
+  for select to authenticated using (user_id = auth.uid() or public.is_admin());
+revoke insert, update, delete on public.checkout_sessions from authenticated;
+
+-- Activate a paid checkout (webhook only). Idempotent: provider retries return the same subscription.
+-- Buying the plan the owner already has extends it by one term; other plans add a subscription alongside.
+create or replace function public.complete_checkout(
+  p_checkout_id uuid,
+  p_provider_payment_id text,
+  p_amount_cents integer
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_checkout public.checkout_sessions%rowtype;
+  v_plan public.plans%rowtype;
+  v_subscription uuid;
+  v_end timestamptz;
+begin
+  select * into v_checkout from public.checkout_sessions where id = p_checkout_id for update;
+  if not found then
+    raise exception 'Unknown checkout %', p_checkout_id using errcode = 'P0002';
+  end if;
+  if v_checkout.status = 'completed' then
+    return v_checkout.subscription_id;
+  end if;
+  if p_amount_cents is distinct from v_checkout.amount_cents then
+    raise exception 'Paid amount % does not match checkout amount %', p_amount_cents, v_checkout.amount_cents
+      using errcode = '22023';
+  end if;
+
+  select * into v_plan from public.plans where code = v_checkout.plan_code;
+
+  select s.id, s.end_date into v_subscription, v_end
+  from public.subscriptions s
+  where s.plan_code = v_plan.code
+    and s.status = 'active'
+    and s.end_date >= now()
+    and (
+      (v_checkout.organization_id is not null and s.organization_id = v_checkout.organization_id)
+      or (v_checkout.organization_id is null and s.user_id = v_checkout.user_id and s.organization_id is null)
+    )
+  order by s.end_date desc
+  limit 1
+  for update;
+
+  if v_subscription is not null then
+    update public.subscriptions
+    set end_date = v_end + make_interval(months => v_plan.term_months),
+        programs = v_plan.programs
+    where id = v_subscription;
+  else
+    insert into public.subscriptions (user_id, organization_id, plan_code, plan_name, status, start_date, end_date, programs)
+    values (
+      case when v_checkout.organization_id is null then v_checkout.user_id end,
+      v_checkout.organization_id,
+      v_plan.code,
+      v_plan.name,
+      'active',
+      now(),
+      now() + make_interval(months => v_plan.term_months),
+      v_plan.programs
+    )
+    returning id into v_subscription;
+  end if;
+
+  update public.checkout_sessions
+  set status = 'completed',
+      completed_at = now(),
+      provider_payment_id = p_provider_payment_id,
+      subscription_id = v_subscription
+  where id = p_checkout_id;
+
+  return v_subscription;
+end;
+$$;
+
+revoke execute on function public.complete_checkout(uuid, text, integer) from public;
+revoke execute on function public.complete_checkout(uuid, text, integer) from anon, authenticated;
+grant execute on function public.complete_checkout(uuid, text, integer) to service_role;
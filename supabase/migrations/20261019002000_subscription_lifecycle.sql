@@ -0,0 +1,164 @@
+-- Subscription lifecycle: cancel / reactivate, and plan changes through checkout.
+-- Cancelling keeps access until end_date and skips the grace period the app otherwise allows after it
+-- (src/services/subscriptionLifecycle.ts). Renewing is a checkout for the same plan (extends end_date).
+-- Changing plan is a checkout for another plan that replaces the current subscription; its unused time carries over.
+
+alter table public.subscriptions
+  add column if not exists cancel_at_period_end boolean not null default false,
+  add column if not exists cancelled_at timestamptz;
+
+alter table public.checkout_sessions
+  add column if not exists replaces_subscription_id uuid references public.subscriptions (id) on delete set null;
+
+-- Whether the caller manages a subscription (their own, or their team's as an owner)
+create or replace function public.can_manage_subscription(p_subscription_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.subscriptions s
+    where s.id = p_subscription_id
+      and (
+        (s.organization_id is null and s.user_id = auth.uid())
+        or (s.organization_id is not null and public.is_organization_owner(s.organization_id))
+      )
+  )
+$$;
+
+revoke execute on function public.can_manage_subscription(uuid) from public;
+grant execute on function public.can_manage_subscription(uuid) to authenticated;
+
+-- Cancel (p_cancel = true) or reactivate a subscription that has not ended yet
+create or replace function public.set_subscription_cancellation(p_subscription_id uuid, p_cancel boolean)
+returns public.subscriptions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sub public.subscriptions%rowtype;
+begin
+  if not public.can_manage_subscription(p_subscription_id) then
+    raise exception 'Only the plan owner can change this subscription.' using errcode = '42501';
+  end if;
+
+  select * into v_sub from public.subscriptions where id = p_subscription_id for update;
+  if v_sub.status <> 'active' or v_sub.end_date < now() then
+    raise exception 'This plan has ended. Renew it to regain access.' using errcode = 'P0001';
+  end if;
+
+  update public.subscriptions
+  set cancel_at_period_end = p_cancel,
+      cancelled_at = case when p_cancel then now() end
+  where id = p_subscription_id
+  returning * into v_sub;
+  return v_sub;
+end;
+$$;
+
+revoke execute on function public.set_subscription_cancellation(uuid, boolean) from public;
+grant execute on function public.set_subscription_cancellation(uuid, boolean) to authenticated;
+
+-- Activation now also handles plan changes and clears a pending cancellation on renewal
+create or replace function public.complete_checkout(
+  p_checkout_id uuid,
+  p_provider_payment_id text,
+  p_amount_cents integer
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_checkout public.checkout_sessions%rowtype;
+  v_plan public.plans%rowtype;
+  v_subscription uuid;
+  v_end timestamptz;
+  v_carry interval := interval '0';
+begin
+  select * into v_checkout from public.checkout_sessions where id = p_checkout_id for update;
+  if not found then
+    raise exception 'Unknown checkout %', p_checkout_id using errcode = 'P0002';
+  end if;
+  if v_checkout.status = 'completed' then
+    return v_checkout.subscription_id;
+  end if;
+  if p_amount_cents is distinct from v_checkout.amount_cents then
+    raise exception 'Paid amount % does not match checkout amount %', p_amount_cents, v_checkout.amount_cents
+      using errcode = '22023';
+  end if;
+
+  select * into v_plan from public.plans where code = v_checkout.plan_code;
+
+  -- Plan change: end the replaced subscription now and carry its unused time over
+  if v_checkout.replaces_subscription_id is not null then
+    select greatest(s.end_date - now(), interval '0') into v_carry
+    from public.subscriptions s
+    where s.id = v_checkout.replaces_subscription_id
+      and s.status = 'active'
+      and (
+        (v_checkout.organization_id is not null and s.organization_id = v_checkout.organization_id)
+        or (v_checkout.organization_id is null and s.user_id = v_checkout.user_id and s.organization_id is null)
+      )
+    for update;
+    if found then
+      update public.subscriptions
+      set status = 'cancelled', cancelled_at = now(), end_date = least(end_date, now())
+      where id = v_checkout.replaces_subscription_id;
+    end if;
+    v_carry := coalesce(v_carry, interval '0');
+  end if;
+
+  select s.id, s.end_date into v_subscription, v_end
+  from public.subscriptions s
+  where s.plan_code = v_plan.code
+    and s.status = 'active'
+    and s.end_date >= now()
+    and (
+      (v_checkout.organization_id is not null and s.organization_id = v_checkout.organization_id)
+      or (v_checkout.organization_id is null and s.user_id = v_checkout.user_id and s.organization_id is null)
+    )
+  order by s.end_date desc
+  limit 1
+  for update;
+
+  if v_subscription is not null then
+    update public.subscriptions
+    set end_date = v_end + make_interval(months => v_plan.term_months) + v_carry,
+        programs = v_plan.programs,
+        cancel_at_period_end = false,
+        cancelled_at = null
+    where id = v_subscription;
+  else
+    insert into public.subscriptions (user_id, organization_id, plan_code, plan_name, status, start_date, end_date, programs)
+    values (
+      case when v_checkout.organization_id is null then v_checkout.user_id end,
+      v_checkout.organization_id,
+      v_plan.code,
+      v_plan.name,
+      'active',
+      now(),
+      now() + make_interval(months => v_plan.term_months) + v_carry,
+      v_plan.programs
+    )
+    returning id into v_subscription;
+  end if;
+
+  update public.checkout_sessions
+  set status = 'completed',
+      completed_at = now(),
+      provider_payment_id = p_provider_payment_id,
+      subscription_id = v_subscription
+  where id = p_checkout_id;
+
+  return v_subscription;
+end;
+$$;
+
+revoke execute on function public.complete_checkout(uuid, text, integer) from public;
+revoke execute on function public.complete_checkout(uuid, text, integer) from anon, authenticated;
+grant execute on function public.complete_checkout(uuid, text, integer) to service_role;
@@ -0,0 +1,113 @@
+-- Billing history: one payments row per completed checkout, with a receipt number and the pharmacy it was billed to.
+-- The bill-to name and address are copied at payment time so re-downloaded receipts match what was charged.
+-- Rows are written by a trigger when complete_checkout marks a checkout completed; members never insert them.
+
+-- Street address printed on receipts (members edit it on the Account page)
+alter table public.profiles add column if not exists pharmacy_address text;
+grant update (first_name, last_name, pharmacy_name, pharmacy_address) on public.profiles to authenticated;
+
+create sequence if not exists public.payment_receipt_seq;
+
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete set null,
+  organization_id uuid references public.organizations (id) on delete cascade,
+  checkout_id uuid not null unique references public.checkout_sessions (id) on delete cascade,
+  subscription_id uuid references public.subscriptions (id) on delete set null,
+  plan_code text references public.plans (code),
+  plan_name text not null,
+  amount_cents integer not null check (amount_cents >= 0),
+  currency text not null default 'usd',
+  provider text not null,
+  provider_payment_id text,
+  receipt_number text not null unique
+    default 'R-' || lpad(nextval('public.payment_receipt_seq')::text, 6, '0'),
+  billed_to_name text,
+  billed_to_address text,
+  paid_at timestamptz not null default now()
+);
+
+create index if not exists payments_user_id_idx on public.payments (user_id, paid_at desc);
+create index if not exists payments_organization_id_idx on public.payments (organization_id, paid_at desc);
+
+-- Members see their own payments; team owners see the team's; admins see all
+alter table public.payments enable row level security;
+drop policy if exists "own payments read" on public.payments;
+create policy "own payments read" on public.payments
+  for select to authenticated using (
+    user_id = auth.uid()
+    or (organization_id is not null and public.is_organization_owner(organization_id))
+    or public.is_admin()
+  );
+revoke insert, update, delete on public.payments from authenticated;
+
+-- Record the payment when a checkout completes
+create or replace function public.record_checkout_payment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.payments (
+    user_id, organization_id, checkout_id, subscription_id, plan_code, plan_name,
+    amount_cents, currency, provider, provider_payment_id, billed_to_name, billed_to_address, paid_at
+  )
+  select
+    new.user_id,
+    new.organization_id,
+    new.id,
+    new.subscription_id,
+    new.plan_code,
+    coalesce(pl.name, new.plan_code),
+    new.amount_cents,
+    new.currency,
+    new.provider,
+    new.provider_payment_id,
+    coalesce(o.name, nullif(trim(p.pharmacy_name), ''), nullif(trim(concat_ws(' ', p.first_name, p.last_name)), '')),
+    nullif(trim(p.pharmacy_address), ''),
+    coalesce(new.completed_at, now())
+  from (select 1) one
+  left join public.plans pl on pl.code = new.plan_code
+  left join public.organizations o on o.id = new.organization_id
+  left join public.profiles p on p.id = new.user_id
+  on conflict (checkout_id) do nothing;
+  return new;
+end;
+$$;
+
+revoke execute on function public.record_checkout_payment() from public;
+
+drop trigger if exists checkout_sessions_record_payment on public.checkout_sessions;
+create trigger checkout_sessions_record_payment
+  after update of status on public.checkout_sessions
+  for each row
+  when (new.status = 'completed' and old.status is distinct from 'completed')
+  execute function public.record_checkout_payment();
+
+-- Backfill checkouts completed before this migration
+insert into public.payments (
+  user_id, organization_id, checkout_id, subscription_id, plan_code, plan_name,
+  amount_cents, currency, provider, provider_payment_id, billed_to_name, billed_to_address, paid_at
+)
+select
+  c.user_id,
+  c.organization_id,
+  c.id,
+  c.subscription_id,
+  c.plan_code,
+  coalesce(pl.name, c.plan_code),
+  c.amount_cents,
+  c.currency,
+  c.provider,
+  c.provider_payment_id,
+  coalesce(o.name, nullif(trim(p.pharmacy_name), ''), nullif(trim(concat_ws(' ', p.first_name, p.last_name)), '')),
+  nullif(trim(p.pharmacy_address), ''),
+  coalesce(c.completed_at, c.created_at)
+from public.checkout_sessions c
+left join public.plans pl on pl.code = c.plan_code
+left join public.organizations o on o.id = c.organization_id
+left join public.profiles p on p.id = c.user_id
+where c.status = 'completed'
+order by coalesce(c.completed_at, c.created_at)
+on conflict (checkout_id) do nothing;
@@ -0,0 +1,124 @@
+-- Program entitlements in the database: catalog rows, program content tables and quizzes are readable only for
+-- programs the caller's subscription (their own or their organization's) covers. Admins read everything; the
+-- shared folders (patient handouts, clinical guidelines, medical billing) stay open to every member.
+-- The client's entitlement checks (src/services/entitlements.ts) only decide what to show; these policies decide
+-- what can be read.
+
+-- Grace period after a subscription's end date during which it still grants its programs.
+-- Fixed at 7 days here; the subscription_settings migration redefines it to read
+-- public.subscription_settings.grace_period_days, which the app also loads (src/config/subscriptionConfig.ts).
+create or replace function public.subscription_grace_period()
+returns interval
+language sql
+immutable
+as $$
+  select interval '7 days'
+$$;
+
+-- Program slug stored on a subscription row → programs.slug ('*' = every program).
+-- Mirrors normalizeProgramSlug: legacy slugs first, then the slug with punctuation stripped.
+create or replace function public.normalize_program_slug(p_raw text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when lower(trim(coalesce(p_raw, ''))) in ('*', 'all', 'all-programs') then '*'
+    else coalesce(
+      case lower(trim(coalesce(p_raw, '')))
+        when 'mtm-future-today' then 'mtmthefuturetoday'
+        when 'mtm' then 'mtmthefuturetoday'
+        when 'test-treat' then 'testandtreat'
+        when 'tnt' then 'testandtreat'
+        when 'tmm' then 'timemymeds'
+        when 'a1c' then 'hba1c'
+        when 'oc' then 'oralcontraceptives'
+      end,
+      nullif(regexp_replace(lower(coalesce(p_raw, '')), '[^a-z0-9]', '', 'g'), '')
+    )
+  end
+$$;
+
+-- Whether the caller may read a program's content (null = a shared folder, open to every member)
+create or replace function public.has_program_access(p_program text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_program is null
+    or public.is_admin()
+    or exists (
+      select 1
+      from public.subscriptions s
+      cross join lateral unnest(coalesce(s.programs, '{}'::text[])) as covered(slug)
+      where (
+          s.user_id = auth.uid()
+          or (s.organization_id is not null and s.organization_id = public.current_organization_id())
+        )
+        and s.status = 'active'
+        and s.end_date + case when s.cancel_at_period_end then interval '0' else public.subscription_grace_period() end
+          >= now()
+        and public.normalize_program_slug(covered.slug) in ('*', lower(p_program))
+    )
+$$;
+
+revoke execute on function public.has_program_access(text) from public;
+grant execute on function public.has_program_access(text) to authenticated;
+
+-- Catalog: live rows in entitled programs and the shared folders; admins also see tombstones
+drop policy if exists "members can read" on public.storage_files_catalog;
+create policy "members can read" on public.storage_files_catalog
+  for select to authenticated using (
+    public.is_admin()
+    or (deleted_at is null and public.has_program_access(public.resource_program(file_path)))
+  );
+
+-- Program content tables (keyed by programs.id)
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['training_modules', 'protocol_manuals', 'documentation_forms', 'additional_resources']
+  loop
+    execute format('drop policy if exists "members can read" on public.%I', t);
+    execute format(
+      'create policy "members can read" on public.%I for select to authenticated using ('
+      || 'public.has_program_access((select p.slug from public.programs p where p.id = program_id)))',
+      t
+    );
+  end loop;
+end $$;
+
+-- Quizzes and their questions
+drop policy if exists "members read quizzes" on public.quizzes;
+create policy "members read quizzes" on public.quizzes
+  for select to authenticated using (public.has_program_access(program_slug));
+
+drop policy if exists "members read quiz questions" on public.quiz_questions;
+create policy "members read quiz questions" on public.quiz_questions
+  for select to authenticated using (
+    exists (select 1 from public.quizzes q where q.id = quiz_id and public.has_program_access(q.program_slug))
+  );
+
+-- The change feed runs with the owner's rights, so it filters by entitlement itself
+create or replace view public.program_file_changes as
+select
+  v.id,
+  public.resource_program(v.file_path) as program_slug,
+  v.file_path,
+  coalesce(nullif(trim(c.display_title), ''), public.resource_search_title(c.file_name)) as title,
+  v.kind,
+  v.version_label,
+  v.change_note,
+  v.uploader_name,
+  v.created_at
+from public.storage_file_versions v
+join public.storage_files_catalog c
+  on c.bucket_name = v.bucket_name
+ and c.file_path = v.file_path
+ and c.deleted_at is null
+where v.bucket_name = 'clinicalrxqfiles'
+  and public.resource_program(v.file_path) is not null
+  and public.has_program_access(public.resource_program(v.file_path));
@@ -0,0 +1,19 @@
+-- Private program files: the bucket no longer serves public URLs, and members may read (list, sign, download)
+-- only objects in programs their subscription covers (public.has_program_access) plus the shared folders.
+-- Admins read everything, including archived versions under _versions/.
+
+update storage.buckets set public = false where id = 'clinicalrxqfiles';
+
+drop policy if exists "members can read clinicalrxqfiles" on storage.objects;
+create policy "members can read clinicalrxqfiles" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'clinicalrxqfiles'
+    and (
+      public.is_admin()
+      or (
+        split_part(name, '/', 1) <> '_versions'
+        and public.has_program_access(public.resource_program(name))
+      )
+    )
+  );
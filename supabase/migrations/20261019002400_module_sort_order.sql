@@ -0,0 +1,16 @@
+-- Training modules carry their authored order (training_modules.sort_order, matched on the bucket path) so
+-- progress and "next module" follow it; modules without a training_modules row sort after, by name.
+
+create or replace view public.program_training_modules
+  with (security_invoker = true) as
+select
+  public.resource_program(c.file_path) as program_slug,
+  c.file_path as module_path,
+  c.file_name,
+  (select min(t.sort_order) from public.training_modules t where t.file_path = c.file_path) as sort_order
+from public.storage_files_catalog c
+where c.bucket_name = 'clinicalrxqfiles'
+  and c.deleted_at is null
+  and public.resource_category(c.file_path) = 'training'
+  and public.resource_program(c.file_path) is not null
+  and lower(c.file_name) not like '%.vtt';
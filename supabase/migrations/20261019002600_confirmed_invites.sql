@@ -0,0 +1,45 @@
+-- Invites are accepted only for a confirmed email address. The address now comes from auth.users rather than the
+-- JWT, and email_confirmed_at must be set, so registering with an invitee's address (when email confirmation is
+-- off) does not claim their seat or the team's plan.
+create or replace function public.accept_organization_invites()
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_email text;
+  v_invite public.organization_invites%rowtype;
+  v_current uuid := public.current_organization_id();
+begin
+  if v_user is null then
+    raise exception 'You must be signed in.' using errcode = '28000';
+  end if;
+  if v_current is not null then
+    return v_current;
+  end if;
+
+  select lower(coalesce(u.email, '')) into v_email
+  from auth.users u
+  where u.id = v_user and u.email_confirmed_at is not null;
+  if coalesce(v_email, '') = '' then
+    return null;
+  end if;
+
+  select * into v_invite
+  from public.organization_invites i
+  where lower(i.email) = v_email and i.accepted_at is null and i.expires_at > now()
+  order by i.created_at desc
+  limit 1;
+  if not found then
+    return null;
+  end if;
+
+  -- The pending invite already holds a seat, so accepting it does not change seat usage
+  insert into public.organization_members (organization_id, user_id, role)
+  values (v_invite.organization_id, v_user, v_invite.role);
+  update public.organization_invites set accepted_at = now(), accepted_by = v_user where id = v_invite.id;
+  return v_invite.organization_id;
+end
+$$;
@@ -0,0 +1,117 @@
+-- Plan changes credit the replaced plan's unused value, not its unused time: the remaining time converts at the
+-- ratio of the two plans' monthly prices, so moving to a dearer plan does not stretch one payment over the old
+-- plan's remaining months. Otherwise complete_checkout is unchanged.
+
+create or replace function public.complete_checkout(
+  p_checkout_id uuid,
+  p_provider_payment_id text,
+  p_amount_cents integer
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_checkout public.checkout_sessions%rowtype;
+  v_plan public.plans%rowtype;
+  v_subscription uuid;
+  v_end timestamptz;
+  v_carry interval := interval '0';
+  v_unused interval;
+  v_old_price integer;
+  v_old_term integer;
+begin
+  select * into v_checkout from public.checkout_sessions where id = p_checkout_id for update;
+  if not found then
+    raise exception 'Unknown checkout %', p_checkout_id using errcode = 'P0002';
+  end if;
+  if v_checkout.status = 'completed' then
+    return v_checkout.subscription_id;
+  end if;
+  if p_amount_cents is distinct from v_checkout.amount_cents then
+    raise exception 'Paid amount % does not match checkout amount %', p_amount_cents, v_checkout.amount_cents
+      using errcode = '22023';
+  end if;
+
+  select * into v_plan from public.plans where code = v_checkout.plan_code;
+
+  -- Plan change: end the replaced subscription now and credit its unused value as time on the new plan.
+  -- Unused time converts at the ratio of the two plans' monthly prices (a dearer plan gets proportionally less time);
+  -- a replaced plan without a price carries nothing over.
+  if v_checkout.replaces_subscription_id is not null then
+    select greatest(s.end_date - now(), interval '0'), p.price_cents, p.term_months
+    into v_unused, v_old_price, v_old_term
+    from public.subscriptions s
+    left join public.plans p on p.code = s.plan_code
+    where s.id = v_checkout.replaces_subscription_id
+      and s.status = 'active'
+      and (
+        (v_checkout.organization_id is not null and s.organization_id = v_checkout.organization_id)
+        or (v_checkout.organization_id is null and s.user_id = v_checkout.user_id and s.organization_id is null)
+      )
+    for update of s;
+    if found then
+      update public.subscriptions
+      set status = 'cancelled', cancelled_at = now(), end_date = least(end_date, now())
+      where id = v_checkout.replaces_subscription_id;
+
+      if coalesce(v_old_price, 0) > 0 and coalesce(v_old_term, 0) > 0
+         and coalesce(v_plan.price_cents, 0) > 0 and v_plan.term_months > 0 then
+        v_carry := v_unused * (
+          (v_old_price::double precision / v_old_term)
+          / (v_plan.price_cents::double precision / v_plan.term_months)
+        );
+      end if;
+    end if;
+  end if;
+
+  select s.id, s.end_date into v_subscription, v_end
+  from public.subscriptions s
+  where s.plan_code = v_plan.code
+    and s.status = 'active'
+    and s.end_date >= now()
+    and (
+      (v_checkout.organization_id is not null and s.organization_id = v_checkout.organization_id)
+      or (v_checkout.organization_id is null and s.user_id = v_checkout.user_id and s.organization_id is null)
+    )
+  order by s.end_date desc
+  limit 1
+  for update;
+
+  if v_subscription is not null then
+    update public.subscriptions
+    set end_date = v_end + make_interval(months => v_plan.term_months) + v_carry,
+        programs = v_plan.programs,
+        cancel_at_period_end = false,
+        cancelled_at = null
+    where id = v_subscription;
+  else
+    insert into public.subscriptions (user_id, organization_id, plan_code, plan_name, status, start_date, end_date, programs)
+    values (
+      case when v_checkout.organization_id is null then v_checkout.user_id end,
+      v_checkout.organization_id,
+      v_plan.code,
+      v_plan.name,
+      'active',
+      now(),
+      now() + make_interval(months => v_plan.term_months) + v_carry,
+      v_plan.programs
+    )
+    returning id into v_subscription;
+  end if;
+
+  update public.checkout_sessions
+  set status = 'completed',
+      completed_at = now(),
+      provider_payment_id = p_provider_payment_id,
+      subscription_id = v_subscription
+  where id = p_checkout_id;
+
+  return v_subscription;
+end;
+$$;
+
+revoke execute on function public.complete_checkout(uuid, text, integer) from public;
+revoke execute on function public.complete_checkout(uuid, text, integer) from anon, authenticated;
+grant execute on function public.complete_checkout(uuid, text, integer) to service_role;
@@ -0,0 +1,33 @@
+-- Renewal warning window and grace period, shared by the app (src/config/subscriptionConfig.ts loads them at
+-- sign-in) and the database (has_program_access uses the grace period), so both always agree.
+-- One row; admins change it in the Supabase dashboard or through PostgREST.
+
+create table if not exists public.subscription_settings (
+  id boolean primary key default true check (id),
+  renewal_warning_days integer not null default 30 check (renewal_warning_days >= 0),
+  grace_period_days integer not null default 7 check (grace_period_days >= 0),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.subscription_settings (id) values (true) on conflict (id) do nothing;
+
+alter table public.subscription_settings enable row level security;
+drop policy if exists "subscription settings are public" on public.subscription_settings;
+create policy "subscription settings are public" on public.subscription_settings
+  for select to anon, authenticated using (true);
+drop policy if exists "admins update subscription settings" on public.subscription_settings;
+create policy "admins update subscription settings" on public.subscription_settings
+  for update to authenticated using (public.is_admin()) with check (public.is_admin());
+revoke insert, update, delete on public.subscription_settings from anon, authenticated;
+grant update (renewal_warning_days, grace_period_days, updated_at) on public.subscription_settings to authenticated;
+
+-- The grace period now comes from the settings row (7 days if it is missing)
+create or replace function public.subscription_grace_period()
+returns interval
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select make_interval(days => coalesce((select s.grace_period_days from public.subscription_settings s where s.id), 7))
+$$;
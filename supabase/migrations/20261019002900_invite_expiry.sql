@@ -0,0 +1,55 @@
+-- Re-inviting an address refreshes its pending invite only while that invite is live. An expired invite no longer
+-- holds a seat, so inviting the address again goes through the seat check and replaces the expired row.
+create or replace function public.invite_organization_member(p_email text, p_role text)
+returns public.organization_invites
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_org uuid := public.current_organization_id();
+  v_email text := lower(trim(coalesce(p_email, '')));
+  v_invite public.organization_invites%rowtype;
+  v_limit integer;
+begin
+  if v_org is null or not public.is_organization_owner(v_org) then
+    raise exception 'Only team owners can invite staff.' using errcode = '42501';
+  end if;
+  if v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' then
+    raise exception 'Enter a valid email address.' using errcode = 'P0001';
+  end if;
+  if p_role not in ('owner', 'pharmacist', 'technician') then
+    raise exception 'Unknown role.' using errcode = 'P0001';
+  end if;
+  if exists (
+    select 1 from public.organization_members m join public.profiles p on p.id = m.user_id
+    where m.organization_id = v_org and lower(p.email) = v_email
+  ) then
+    raise exception 'That person is already on your team.' using errcode = 'P0001';
+  end if;
+
+  update public.organization_invites i
+     set role = p_role, invited_by = v_user, created_at = now(), expires_at = now() + interval '14 days'
+   where i.organization_id = v_org and lower(i.email) = v_email and i.accepted_at is null and i.expires_at > now()
+  returning * into v_invite;
+  if found then
+    return v_invite;
+  end if;
+
+  v_limit := public.organization_seat_limit(v_org);
+  if public.organization_seats_used(v_org) >= v_limit then
+    raise exception 'All % seats on your plan are in use. Remove someone or upgrade the plan.', v_limit
+      using errcode = 'P0001';
+  end if;
+
+  -- An expired invite still occupies the pending-invite slot for the address
+  delete from public.organization_invites i
+   where i.organization_id = v_org and lower(i.email) = v_email and i.accepted_at is null;
+
+  insert into public.organization_invites (organization_id, email, role, invited_by)
+  values (v_org, v_email, p_role, v_user)
+  returning * into v_invite;
+  return v_invite;
+end
+$$;